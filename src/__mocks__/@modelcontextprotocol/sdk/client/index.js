@@ -1,6 +1,8 @@
 class Client {
 	constructor() {
 		this.request = jest.fn()
+		this.setRequestHandler = jest.fn()
+		this.sendRootsListChanged = jest.fn().mockResolvedValue(undefined)
 	}
 
 	connect() {
@@ -10,6 +12,10 @@ class Client {
 	close() {
 		return Promise.resolve()
 	}
+
+	ping() {
+		return Promise.resolve({})
+	}
 }
 
 module.exports = {
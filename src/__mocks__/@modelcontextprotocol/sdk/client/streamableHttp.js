@@ -0,0 +1,14 @@
+class StreamableHTTPClientTransport {
+	constructor(url, options = {}) {
+		this.url = url
+		this.options = options
+		this.sessionId = options.sessionId
+		this.onerror = null
+		this.close = jest.fn().mockResolvedValue()
+		this.start = jest.fn().mockResolvedValue()
+	}
+}
+
+module.exports = {
+	StreamableHTTPClientTransport,
+}
@@ -26,6 +26,32 @@ const ReadResourceResultSchema = {
 	}),
 }
 
+const ListPromptsResultSchema = {
+	parse: jest.fn().mockReturnValue({
+		prompts: [],
+	}),
+}
+
+const GetPromptResultSchema = {
+	parse: jest.fn().mockReturnValue({
+		messages: [],
+	}),
+}
+
+const CompleteResultSchema = {
+	parse: jest.fn().mockReturnValue({
+		completion: { values: [] },
+	}),
+}
+
+const CreateMessageRequestSchema = {
+	parse: jest.fn(),
+}
+
+const ListRootsRequestSchema = {
+	parse: jest.fn(),
+}
+
 const ErrorCode = {
 	InvalidRequest: "InvalidRequest",
 	MethodNotFound: "MethodNotFound",
@@ -46,6 +72,11 @@ module.exports = {
 	ListResourcesResultSchema,
 	ListResourceTemplatesResultSchema,
 	ReadResourceResultSchema,
+	ListPromptsResultSchema,
+	GetPromptResultSchema,
+	CompleteResultSchema,
+	CreateMessageRequestSchema,
+	ListRootsRequestSchema,
 	ErrorCode,
 	McpError,
 }
@@ -2,6 +2,7 @@ import * as vscode from "vscode"
 import delay from "delay"
 
 import { ClineProvider } from "../core/webview/ClineProvider"
+import { LocalRagService } from "../core/cost-optimization/LocalRagService"
 
 /**
  * Helper to get the visible ClineProvider instance or log if not found.
@@ -122,6 +123,18 @@ const getCommandsMap = ({ context, outputChannel, provider }: RegisterCommandOpt
 			if (!visibleProvider) return
 			visibleProvider.postMessageToWebview({ type: "acceptInput" })
 		},
+		"kodely.exportCheckpoints": async () => {
+			const visibleProvider = getVisibleProviderOrLog(outputChannel)
+			if (!visibleProvider) return
+			await visibleProvider.exportCheckpoints()
+		},
+		"kodely.purgeWorkspaceCheckpoints": async () => {
+			const visibleProvider = getVisibleProviderOrLog(outputChannel)
+			if (!visibleProvider) return
+			await visibleProvider.purgeWorkspaceCheckpoints()
+		},
+		"kodely.rebuildRagIndex": () => LocalRagService.getInstance(context).rebuildIndex(),
+		"kodely.clearRagIndex": () => LocalRagService.getInstance(context).clearIndex(),
 	}
 }
 
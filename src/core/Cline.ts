@@ -13,7 +13,7 @@ import { serializeError } from "serialize-error"
 import * as vscode from "vscode"
 
 // schemas
-import { TokenUsage, ToolUsage, ToolName } from "../schemas"
+import { ApiConfigMeta, ProviderSettings, TokenUsage, ToolUsage, ToolName } from "../schemas"
 
 // api
 import { ApiHandler, buildApiHandler } from "../api"
@@ -28,12 +28,14 @@ import {
 	ClineApiReqCancelReason,
 	ClineApiReqInfo,
 	ClineAsk,
+	ClineCondenseInfo,
 	ClineMessage,
 	ClineSay,
 	ToolProgressStatus,
 } from "../shared/ExtensionMessage"
 import { getApiMetrics } from "../shared/getApiMetrics"
 import { HistoryItem } from "../shared/HistoryItem"
+import { CheckpointFileChange, CheckpointTimelineEntry } from "../shared/checkpoints"
 import { ClineAskResponse } from "../shared/WebviewMessage"
 import { GlobalFileNames } from "../shared/globalFileNames"
 import { defaultModeSlug, getModeBySlug, getFullModeDetails, isToolAllowedForMode } from "../shared/modes"
@@ -47,10 +49,12 @@ import { listFiles } from "../services/glob/list-files"
 import { BrowserSession } from "../services/browser/BrowserSession"
 import { McpHub } from "../services/mcp/McpHub"
 import { telemetryService } from "../services/telemetry/TelemetryService"
-import { CheckpointServiceOptions, RepoPerTaskCheckpointService } from "../services/checkpoints"
+import { MultiRootCheckpointService, MultiRootCheckpointServiceOptions } from "../services/checkpoints"
+import { formatCommitMessage, formatSquashedCommitMessage } from "../services/checkpoints/export"
 
 // integrations
 import { DIFF_VIEW_URI_SCHEME, DiffViewProvider } from "../integrations/editor/DiffViewProvider"
+import { DiagnosticsMonitor } from "../integrations/diagnostics/DiagnosticsMonitor"
 import { findToolName, formatContentBlockToMarkdown } from "../integrations/misc/export-markdown"
 import { Terminal } from "../integrations/terminal/Terminal"
 import { TerminalRegistry } from "../integrations/terminal/TerminalRegistry"
@@ -58,7 +62,7 @@ import { TerminalRegistry } from "../integrations/terminal/TerminalRegistry"
 // utils
 import { calculateApiCostAnthropic } from "../utils/cost"
 import { fileExistsAtPath } from "../utils/fs"
-import { arePathsEqual, getWorkspacePath } from "../utils/path"
+import { arePathsEqual, getWorkspacePath, getWorkspaceRoots } from "../utils/path"
 
 // tools
 import { fetchInstructionsTool } from "./tools/fetchInstructionsTool"
@@ -70,8 +74,11 @@ import { insertContentTool } from "./tools/insertContentTool"
 import { searchAndReplaceTool } from "./tools/searchAndReplaceTool"
 import { listCodeDefinitionNamesTool } from "./tools/listCodeDefinitionNamesTool"
 import { searchFilesTool } from "./tools/searchFilesTool"
+import { codebaseSearchTool } from "./tools/codebaseSearchTool"
 import { browserActionTool } from "./tools/browserActionTool"
 import { executeCommandTool } from "./tools/executeCommandTool"
+import { backgroundProcessTool } from "./tools/backgroundProcessTool"
+import { runTestsTool } from "./tools/runTestsTool"
 import { useMcpToolTool } from "./tools/useMcpToolTool"
 import { accessMcpResourceTool } from "./tools/accessMcpResourceTool"
 import { askFollowupQuestionTool } from "./tools/askFollowupQuestionTool"
@@ -89,14 +96,24 @@ import { parseMentions } from "./mentions"
 import { FileContextTracker } from "./context-tracking/FileContextTracker"
 import { KodelyIgnoreController } from "./ignore/KodelyIgnoreController"
 import { type AssistantMessageContent, parseAssistantMessage } from "./assistant-message"
-import { truncateConversationIfNeeded } from "./sliding-window"
+import { Summarizer, truncateConversationIfNeeded } from "./sliding-window"
 import { ClineProvider } from "./webview/ClineProvider"
 import { validateToolUse } from "./mode-validator"
 import { MultiSearchReplaceDiffStrategy } from "./diff/strategies/multi-search-replace"
 import { CodeCompressor } from "./cost-optimization/CodeCompressor"
+import { SpendLedger } from "./cost-optimization/SpendLedger"
+import { findExceededBudgets, getApprovedSpend, hasBudget } from "./cost-optimization/budget"
 
 type UserContent = Array<Anthropic.Messages.ContentBlockParam>
 
+// The API handler a request is sent with. `profileName` and `apiConfiguration`
+// are only set when the request was routed away from the task's own profile.
+type ApiRoute = {
+	api: ApiHandler
+	profileName?: string
+	apiConfiguration?: ProviderSettings
+}
+
 export type ClineEvents = {
 	message: [{ action: "created" | "updated"; message: ClineMessage }]
 	taskStarted: []
@@ -136,6 +153,8 @@ export class Cline extends EventEmitter<ClineEvents> {
 	readonly rootTask: Cline | undefined = undefined
 	readonly parentTask: Cline | undefined = undefined
 	readonly taskNumber: number
+	readonly forkedFromTaskId: string | undefined = undefined
+	readonly forkedFromTs: number | undefined = undefined
 	isPaused: boolean = false
 	pausedModeSlug: string = defaultModeSlug
 	private pauseInterval: NodeJS.Timeout | undefined
@@ -168,12 +187,14 @@ export class Cline extends EventEmitter<ClineEvents> {
 	didFinishAbortingStream = false
 	abandoned = false
 	diffViewProvider: DiffViewProvider
+	private diagnosticsMonitor: DiagnosticsMonitor
 	private lastApiRequestTime?: number
+	private approvedBudgetOverruns = new Map<string, { spent: number; approvedSpend: number }>()
 	isInitialized = false
 
 	// checkpoints
 	private enableCheckpoints: boolean
-	private checkpointService?: RepoPerTaskCheckpointService
+	private checkpointService?: MultiRootCheckpointService
 	private checkpointServiceInitializing = false
 
 	// streaming
@@ -191,6 +212,8 @@ export class Cline extends EventEmitter<ClineEvents> {
 
 	// metrics
 	private toolUsage: ToolUsage = {}
+	private lastToolName?: ToolName
+	private lastToolFailed = false
 
 	constructor({
 		provider,
@@ -220,7 +243,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 		this.instanceId = crypto.randomUUID().slice(0, 8)
 		this.taskNumber = -1
 
-		this.kodelyIgnoreController = new KodelyIgnoreController(this.cwd)
+		this.kodelyIgnoreController = new KodelyIgnoreController(this.cwd, getWorkspaceRoots())
 		this.fileContextTracker = new FileContextTracker(provider, this.taskId)
 		this.kodelyIgnoreController.initialize().catch((error) => {
 			console.error("Failed to initialize KodelyIgnoreController:", error)
@@ -234,12 +257,15 @@ export class Cline extends EventEmitter<ClineEvents> {
 		this.fuzzyMatchThreshold = fuzzyMatchThreshold
 		this.consecutiveMistakeLimit = consecutiveMistakeLimit
 		this.providerRef = new WeakRef(provider)
-		this.diffViewProvider = new DiffViewProvider(this.cwd)
+		this.diagnosticsMonitor = new DiagnosticsMonitor(this.cwd)
+		this.diffViewProvider = new DiffViewProvider(this.cwd, this.diagnosticsMonitor)
 		this.enableCheckpoints = enableCheckpoints
 
 		this.rootTask = rootTask
 		this.parentTask = parentTask
 		this.taskNumber = taskNumber
+		this.forkedFromTaskId = historyItem?.forkedFromTaskId
+		this.forkedFromTs = historyItem?.forkedFromTs
 
 		if (historyItem) {
 			telemetryService.captureTaskRestarted(this.taskId)
@@ -402,6 +428,8 @@ export class Cline extends EventEmitter<ClineEvents> {
 				totalCost: tokenUsage.totalCost,
 				size: taskDirSize,
 				workspace: this.cwd,
+				forkedFromTaskId: this.forkedFromTaskId,
+				forkedFromTs: this.forkedFromTs,
 			})
 		} catch (error) {
 			console.error("Failed to save cline messages:", error)
@@ -925,10 +953,16 @@ export class Cline extends EventEmitter<ClineEvents> {
 		// Release any terminals associated with this task.
 		TerminalRegistry.releaseTerminalsForTask(this.taskId)
 
+		// Unlike terminals, background processes don't outlive their task.
+		TerminalRegistry.stopBackgroundProcesses(this.taskId).catch((error) => {
+			console.error("Failed to stop background processes:", error)
+		})
+
 		this.urlContentFetcher.closeBrowser()
 		this.browserSession.closeBrowser()
 		this.kodelyIgnoreController?.dispose()
 		this.fileContextTracker.dispose()
+		this.diagnosticsMonitor.dispose()
 
 		// If we're not streaming then `abortStream` (which reverts the diff
 		// view changes) won't be called, so we need to revert the changes here.
@@ -939,7 +973,214 @@ export class Cline extends EventEmitter<ClineEvents> {
 
 	// Tools
 
-	async *attemptApiRequest(previousApiReqIndex: number, retryAttempt: number = 0): ApiStream {
+	/**
+	 * @param profileName - Defaults to the current provider profile
+	 */
+	private async getProfileId(profileName?: string): Promise<string | undefined> {
+		const state = await this.providerRef.deref()?.getState()
+		const name = profileName ?? state?.currentApiConfigName
+		return state?.listApiConfigMeta?.find((meta: ApiConfigMeta) => meta.name === name)?.id
+	}
+
+	/**
+	 * Total tokens of the request at `apiReqIndex`. Its response becomes part
+	 * of the next request's input, so this approximates the next context size.
+	 */
+	private getRequestTokens(apiReqIndex: number): number | undefined {
+		const request = this.clineMessages[apiReqIndex]?.text
+
+		if (!request) {
+			return undefined
+		}
+
+		const { tokensIn = 0, tokensOut = 0, cacheWrites = 0, cacheReads = 0 }: ClineApiReqInfo = JSON.parse(request)
+		return tokensIn + tokensOut + cacheWrites + cacheReads
+	}
+
+	/**
+	 * Picks the provider profile the next API request is sent with, according
+	 * to the model routing policy of the current cost optimization level.
+	 * Falls back to the task's own profile when no rule matches or the routed
+	 * profile can't be loaded.
+	 */
+	private async routeApiRequest(previousApiReqIndex: number): Promise<ApiRoute> {
+		const provider = this.providerRef.deref()
+		const { modelRoutingPolicy, optimizationLevel, mode, currentApiConfigName } =
+			(await provider?.getState()) ?? {}
+
+		if (!provider || !modelRoutingPolicy) {
+			return { api: this.api }
+		}
+
+		const profileName = provider.costOptimizationManager.routeRequest(
+			modelRoutingPolicy,
+			{
+				mode: mode ?? defaultModeSlug,
+				lastTool: this.lastToolName,
+				lastToolFailed: this.lastToolFailed,
+				consecutiveMistakes: this.consecutiveMistakeCount,
+				contextTokens: this.getRequestTokens(previousApiReqIndex) ?? 0,
+			},
+			optimizationLevel,
+		)
+
+		if (!profileName || profileName === currentApiConfigName) {
+			return { api: this.api }
+		}
+
+		try {
+			const apiConfiguration = await provider.providerSettingsManager.getConfig(profileName)
+			return { api: buildApiHandler(apiConfiguration), profileName, apiConfiguration }
+		} catch (error) {
+			provider.log(`[routing] failed to route request to profile '${profileName}': ${error}`)
+			return { api: this.api }
+		}
+	}
+
+	/**
+	 * Pauses the task with a `budget_exceeded` ask if the next request could
+	 * push spend over a limit of the global budget or of the current provider
+	 * profile's budget, or of the profile the request was routed to. Per-task
+	 * limits apply to the task's total spend across profiles. Once approved, a
+	 * limit is only checked again when spend goes past what was approved, or
+	 * when a new day or month starts.
+	 */
+	private async checkBudgets(systemPrompt: string, previousApiReqIndex: number, route: ApiRoute) {
+		const provider = this.providerRef.deref()
+
+		if (!provider) {
+			return
+		}
+
+		const state = await provider.getState()
+		const { globalCostBudget } = state
+		const profileName = route.profileName ?? state.currentApiConfigName
+		const profileBudget = (route.apiConfiguration ?? state.apiConfiguration)?.costBudget
+
+		if (!hasBudget(globalCostBudget) && !hasBudget(profileBudget)) {
+			return
+		}
+
+		const inputTokens =
+			this.getRequestTokens(previousApiReqIndex) ??
+			(await route.api.countTokens([{ type: "text", text: systemPrompt }]))
+
+		const { costOptimizationManager } = provider
+		const modelInfo = route.api.getModel().info
+		const estimatedCost = costOptimizationManager.estimateRequestCost(
+			modelInfo,
+			inputTokens,
+			costOptimizationManager.getMaxOutputTokens(modelInfo),
+		)
+
+		const ledger = SpendLedger.getInstance(provider.context)
+		const taskSpend = getApiMetrics(this.clineMessages).totalCost
+		const profileId = await this.getProfileId(profileName)
+
+		const exceeded = [
+			...findExceededBudgets(
+				globalCostBudget,
+				{ task: taskSpend, day: await ledger.getSpend("day"), month: await ledger.getSpend("month") },
+				estimatedCost,
+			),
+			...(profileId
+				? findExceededBudgets(
+						profileBudget,
+						{
+							task: taskSpend,
+							day: await ledger.getSpend("day", profileId),
+							month: await ledger.getSpend("month", profileId),
+						},
+						estimatedCost,
+						profileName,
+					)
+				: []),
+		]
+
+		for (const budget of exceeded) {
+			const key = `${budget.profileName ?? ""}:${budget.period}`
+			const approved = this.approvedBudgetOverruns.get(key)
+
+			// Spend only goes down when a new day or month starts.
+			if (
+				approved &&
+				budget.spent >= approved.spent &&
+				budget.spent + budget.estimatedCost <= approved.approvedSpend
+			) {
+				continue
+			}
+
+			const { response } = await this.ask("budget_exceeded", JSON.stringify(budget))
+
+			if (response !== "yesButtonClicked") {
+				// This will never happen since the other option clears the task, aborting this instance.
+				throw new Error("Budget exceeded")
+			}
+
+			this.approvedBudgetOverruns.set(key, { spent: budget.spent, approvedSpend: getApprovedSpend(budget) })
+		}
+	}
+
+	/**
+	 * Returns how the sliding window summarizes the messages it drops, or
+	 * undefined if it should drop them as is. Summaries are written with the
+	 * condensing profile if one is set, otherwise with the request's model,
+	 * and are shown in the chat as a `condense_context` message.
+	 */
+	private async getSummarizer(route: ApiRoute): Promise<Summarizer | undefined> {
+		const provider = this.providerRef.deref()
+		const { slidingWindowStrategy, condensingApiConfigName } = (await provider?.getState()) ?? {}
+
+		if (!provider || slidingWindowStrategy !== "summarize") {
+			return undefined
+		}
+
+		let apiHandler = route.api
+		let profileName = route.profileName
+
+		if (condensingApiConfigName) {
+			try {
+				apiHandler = buildApiHandler(await provider.providerSettingsManager.getConfig(condensingApiConfigName))
+				profileName = condensingApiConfigName
+			} catch (error) {
+				provider.log(`[condense] failed to load profile '${condensingApiConfigName}': ${error}`)
+			}
+		}
+
+		return {
+			apiHandler,
+			onSummary: async ({ text, messagesSummarized, tokensIn, tokensOut, cost }) => {
+				await this.say(
+					"condense_context",
+					JSON.stringify({
+						summary: text,
+						messagesCondensed: messagesSummarized,
+						model: apiHandler.getModel().id,
+						tokensIn,
+						tokensOut,
+						cost,
+					} satisfies ClineCondenseInfo),
+				)
+
+				await SpendLedger.getInstance(provider.context).record(cost, await this.getProfileId(profileName))
+			},
+		}
+	}
+
+	private async recordSpend(apiReqIndex: number) {
+		const provider = this.providerRef.deref()
+		const { cost, profileName }: ClineApiReqInfo = JSON.parse(this.clineMessages[apiReqIndex]?.text || "{}")
+
+		if (provider && cost) {
+			await SpendLedger.getInstance(provider.context).record(cost, await this.getProfileId(profileName))
+		}
+	}
+
+	async *attemptApiRequest(
+		previousApiReqIndex: number,
+		retryAttempt: number = 0,
+		route: ApiRoute = { api: this.api },
+	): ApiStream {
 		let mcpHub: McpHub | undefined
 
 		const { apiConfiguration, mcpEnabled, alwaysApproveResubmit, requestDelaySeconds } =
@@ -989,6 +1230,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 			enableMcpServerCreation,
 			browserToolEnabled,
 			language,
+			useLocalRag,
 		} = (await this.providerRef.deref()?.getState()) ?? {}
 		const { customModes } = (await this.providerRef.deref()?.getState()) ?? {}
 		const systemPrompt = await (async () => {
@@ -999,7 +1241,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 			return SYSTEM_PROMPT(
 				provider.context,
 				this.cwd,
-				(this.api.getModel().info.supportsComputerUse ?? false) && (browserToolEnabled ?? true),
+				(route.api.getModel().info.supportsComputerUse ?? false) && (browserToolEnabled ?? true),
 				mcpHub,
 				this.diffStrategy,
 				browserViewportSize,
@@ -1012,11 +1254,15 @@ export class Cline extends EventEmitter<ClineEvents> {
 				enableMcpServerCreation,
 				language,
 				kodelyIgnoreInstructions,
+				undefined,
+				useLocalRag ?? true,
 			)
 		})()
 
 		// If the previous API request's total token usage is close to the context window, truncate the conversation history to free up space for the new request
-		if (previousApiReqIndex >= 0) {
+		const costOptimizationManager = this.providerRef.deref()?.costOptimizationManager
+
+		if (previousApiReqIndex >= 0 && costOptimizationManager) {
 			const previousRequest = this.clineMessages[previousApiReqIndex]?.text
 			if (!previousRequest) return
 
@@ -1028,31 +1274,15 @@ export class Cline extends EventEmitter<ClineEvents> {
 			}: ClineApiReqInfo = JSON.parse(previousRequest)
 
 			const totalTokens = tokensIn + tokensOut + cacheWrites + cacheReads
-
-			// Default max tokens value for thinking models when no specific value is set
-			const DEFAULT_THINKING_MODEL_MAX_TOKENS = 16_384
-
-			const modelInfo = this.api.getModel().info
-
-			// Get cost optimization settings
-			const costOptimizationManager = this.providerRef.deref()?.costOptimizationManager
-			const optimizationSettings = costOptimizationManager?.getSettings()
-
-			// Use cost optimization settings if available, otherwise use defaults
-			const maxTokens = optimizationSettings?.maxOutputTokens || (
-				modelInfo.thinking
-					? this.apiConfiguration.modelMaxTokens || DEFAULT_THINKING_MODEL_MAX_TOKENS
-					: modelInfo.maxTokens
-			)
-			const contextWindow = modelInfo.contextWindow
+			const modelInfo = route.api.getModel().info
 
 			const trimmedMessages = await truncateConversationIfNeeded({
 				messages: this.apiConversationHistory,
 				totalTokens,
-				maxTokens,
-				contextWindow,
-				apiHandler: this.api,
-				optimizationLevel: optimizationSettings?.optimizationLevel,
+				contextWindow: modelInfo.contextWindow,
+				apiHandler: route.api,
+				policy: costOptimizationManager.getContextPolicy(modelInfo),
+				summarizer: await this.getSummarizer(route),
 			})
 
 			if (trimmedMessages !== this.apiConversationHistory) {
@@ -1066,7 +1296,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 		const cleanConversationHistory = this.apiConversationHistory.map(({ role, content }) => {
 			// Handle array content (could contain image blocks)
 			if (Array.isArray(content)) {
-				if (!this.api.getModel().info.supportsImages) {
+				if (!route.api.getModel().info.supportsImages) {
 					// Convert image blocks to text descriptions
 					content = content.map((block) => {
 						if (block.type === "image") {
@@ -1085,7 +1315,9 @@ export class Cline extends EventEmitter<ClineEvents> {
 			return { role, content }
 		})
 
-		const stream = this.api.createMessage(systemPrompt, cleanConversationHistory)
+		await this.checkBudgets(systemPrompt, previousApiReqIndex, route)
+
+		const stream = route.api.createMessage(systemPrompt, cleanConversationHistory)
 		const iterator = stream[Symbol.asyncIterator]()
 
 		try {
@@ -1145,7 +1377,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 				)
 
 				// delegate generator output from the recursive call with incremented retry count
-				yield* this.attemptApiRequest(previousApiReqIndex, retryAttempt + 1)
+				yield* this.attemptApiRequest(previousApiReqIndex, retryAttempt + 1, route)
 				return
 			} else {
 				const { response } = await this.ask(
@@ -1158,7 +1390,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 				}
 				await this.say("api_req_retried")
 				// delegate generator output from the recursive call
-				yield* this.attemptApiRequest(previousApiReqIndex)
+				yield* this.attemptApiRequest(previousApiReqIndex, 0, route)
 				return
 			}
 		}
@@ -1267,8 +1499,16 @@ export class Cline extends EventEmitter<ClineEvents> {
 							return `[${block.name} for '${block.params.path}']`
 						case "list_code_definition_names":
 							return `[${block.name} for '${block.params.path}']`
+						case "codebase_search":
+							return `[${block.name} for '${block.params.query}'${
+								block.params.path ? ` in '${block.params.path}'` : ""
+							}]`
 						case "browser_action":
 							return `[${block.name} for '${block.params.action}']`
+						case "background_process":
+							return `[${block.name} to ${block.params.action} '${block.params.name}']`
+						case "run_tests":
+							return `[${block.name}${block.params.target ? ` for '${block.params.target}'` : ""}]`
 						case "use_mcp_tool":
 							return `[${block.name} for '${block.params.server_name}']`
 						case "access_mcp_resource":
@@ -1479,9 +1719,25 @@ export class Cline extends EventEmitter<ClineEvents> {
 					case "search_files":
 						await searchFilesTool(this, block, askApproval, handleError, pushToolResult, removeClosingTag)
 						break
+					case "codebase_search":
+						await codebaseSearchTool(this, block, askApproval, handleError, pushToolResult, removeClosingTag)
+						break
 					case "browser_action":
 						await browserActionTool(this, block, askApproval, handleError, pushToolResult, removeClosingTag)
 						break
+					case "background_process":
+						await backgroundProcessTool(
+							this,
+							block,
+							askApproval,
+							handleError,
+							pushToolResult,
+							removeClosingTag,
+						)
+						break
+					case "run_tests":
+						await runTestsTool(this, block, askApproval, handleError, pushToolResult, removeClosingTag)
+						break
 					case "execute_command":
 						await executeCommandTool(
 							this,
@@ -1674,9 +1930,12 @@ export class Cline extends EventEmitter<ClineEvents> {
 
 		// since we sent off a placeholder api_req_started message to update the webview while waiting to actually start the API request (to load potential details for example), we need to update the text of that message
 		const lastApiReqIndex = findLastIndex(this.clineMessages, (m) => m.say === "api_req_started")
+		const route = await this.routeApiRequest(previousApiReqIndex)
 
 		this.clineMessages[lastApiReqIndex].text = JSON.stringify({
 			request: finalUserContent.map((block) => formatContentBlockToMarkdown(block)).join("\n\n"),
+			model: route.api.getModel().id,
+			profileName: route.profileName,
 		} satisfies ClineApiReqInfo)
 
 		await this.saveClineMessages()
@@ -1702,7 +1961,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 					cost:
 						totalCost ??
 						calculateApiCostAnthropic(
-							this.api.getModel().info,
+							route.api.getModel().info,
 							inputTokens,
 							outputTokens,
 							cacheWriteTokens,
@@ -1749,6 +2008,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 				// update api_req_started to have cancelled and cost, so that we can display the cost of the partial stream
 				updateApiReqMsg(cancelReason, streamingFailedMessage)
 				await this.saveClineMessages()
+				await this.recordSpend(lastApiReqIndex)
 
 				// signals to provider that it can retrieve the saved messages from disk, as abortTask can not be awaited on in nature
 				this.didFinishAbortingStream = true
@@ -1769,7 +2029,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 			// Yields only if the first chunk is successful, otherwise will
 			// allow the user to retry the request (most likely due to rate
 			// limit error, which gets thrown on the first chunk).
-			const stream = this.attemptApiRequest(previousApiReqIndex)
+			const stream = this.attemptApiRequest(previousApiReqIndex, 0, route)
 			let assistantMessage = ""
 			let reasoningMessage = ""
 			this.isStreaming = true
@@ -1873,6 +2133,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 
 			updateApiReqMsg()
 			await this.saveClineMessages()
+			await this.recordSpend(lastApiReqIndex)
 			await this.providerRef.deref()?.postStateToWebview()
 
 			// now add to apiconversationhistory
@@ -1999,8 +2260,12 @@ export class Cline extends EventEmitter<ClineEvents> {
 	async getEnvironmentDetails(includeFileDetails: boolean = false) {
 		let details = ""
 
-		const { terminalOutputLineLimit = 500, maxWorkspaceFiles = 200 } =
-			(await this.providerRef.deref()?.getState()) ?? {}
+		const {
+			terminalOutputLineLimit = 500,
+			maxWorkspaceFiles = 200,
+			diagnosticsSeverity,
+			maxDiagnosticsPerFile,
+		} = (await this.providerRef.deref()?.getState()) ?? {}
 
 		// It could be useful for cline to know if the user went from one or no file to another between messages, so we always include this context
 		details += "\n\n# VSCode Visible Files"
@@ -2065,22 +2330,11 @@ export class Cline extends EventEmitter<ClineEvents> {
 		}
 
 		// we want to get diagnostics AFTER terminal cools down for a few reasons: terminal could be scaffolding a project, dev servers (compilers like webpack) will first re-compile and then send diagnostics, etc
-		/*
-		let diagnosticsDetails = ""
-		const diagnostics = await this.diagnosticsMonitor.getCurrentDiagnostics(this.didEditFile || terminalWasBusy) // if cline ran a command (ie npm install) or edited the workspace then wait a bit for updated diagnostics
-		for (const [uri, fileDiagnostics] of diagnostics) {
-			const problems = fileDiagnostics.filter((d) => d.severity === vscode.DiagnosticSeverity.Error)
-			if (problems.length > 0) {
-				diagnosticsDetails += `\n## ${path.relative(this.cwd, uri.fsPath)}`
-				for (const diagnostic of problems) {
-					// let severity = diagnostic.severity === vscode.DiagnosticSeverity.Error ? "Error" : "Warning"
-					const line = diagnostic.range.start.line + 1 // VSCode lines are 0-indexed
-					const source = diagnostic.source ? `[${diagnostic.source}] ` : ""
-					diagnosticsDetails += `\n- ${source}Line ${line}: ${diagnostic.message}`
-				}
-			}
-		}
-		*/
+		const newProblems = await this.diagnosticsMonitor.getNewProblems({
+			severity: diagnosticsSeverity,
+			maxPerFile: maxDiagnosticsPerFile,
+		})
+
 		this.didEditFile = false // reset, this lets us know when to wait for saved files to update terminals
 
 		// waiting for updated diagnostics lets terminal output be the most up-to-date possible
@@ -2137,12 +2391,23 @@ export class Cline extends EventEmitter<ClineEvents> {
 			}
 		}
 
-		// details += "\n\n# VSCode Workspace Errors"
-		// if (diagnosticsDetails) {
-		// 	details += diagnosticsDetails
-		// } else {
-		// 	details += "\n(No errors detected)"
-		// }
+		const backgroundProcesses = TerminalRegistry.getBackgroundProcesses(this.taskId)
+
+		if (backgroundProcesses.length > 0) {
+			terminalDetails += "\n\n# Background Processes"
+
+			for (const process of backgroundProcesses) {
+				const exitCode = process.exitDetails?.exitCode
+				const status =
+					process.status === "exited" && exitCode !== undefined ? `exited with code ${exitCode}` : process.status
+				const unread = process.hasUnreadOutput() ? ", has unread output" : ""
+				terminalDetails += `\n- ${process.name} (${status}${unread}): \`${process.command}\``
+			}
+		}
+
+		if (newProblems) {
+			details += `\n\n# New Workspace Problems\nThese problems appeared after your recent edits and may need fixing:\n${newProblems}`
+		}
 
 		// Add recently modified files section
 		const recentlyModifiedFiles = this.fileContextTracker.getAndClearRecentlyModifiedFiles()
@@ -2223,6 +2488,15 @@ export class Cline extends EventEmitter<ClineEvents> {
 			details += `\n\nNOTE: You are currently in '${currentModeName}' mode, which does not allow write operations. To write files, the user will need to switch to a mode that supports file writing, such as '${defaultModeName}' mode.`
 		}
 
+		// Other workspace folders are reached with paths qualified by the folder name
+		const otherRoots = getWorkspaceRoots().filter((root) => !arePathsEqual(root.path, this.cwd))
+
+		if (otherRoots.length > 0) {
+			details += `\n\n# Other Workspace Folders\n`
+			details += `(Refer to files in these folders as <folder name>:<path>, e.g. ${otherRoots[0].name}:src/index.ts)\n`
+			details += otherRoots.map((root) => `- ${root.name}: ${root.path.toPosix()}`).join("\n")
+		}
+
 		if (includeFileDetails) {
 			details += `\n\n# Current Workspace Directory (${this.cwd.toPosix()}) Files\n`
 			const isDesktop = arePathsEqual(this.cwd, path.join(os.homedir(), "Desktop"))
@@ -2230,17 +2504,27 @@ export class Cline extends EventEmitter<ClineEvents> {
 				// don't want to immediately access desktop since it would show permission popup
 				details += "(Desktop files not shown automatically. Use list_files to explore if needed.)"
 			} else {
-				const maxFiles = maxWorkspaceFiles ?? 200
-				const [files, didHitLimit] = await listFiles(this.cwd, true, maxFiles)
+				// The file budget is shared between all workspace folders
+				const maxFiles = Math.ceil((maxWorkspaceFiles ?? 200) / (otherRoots.length + 1))
 				const { showKodelyIgnoredFiles = true } = (await this.providerRef.deref()?.getState()) ?? {}
-				const result = formatResponse.formatFilesList(
-					this.cwd,
-					files,
-					didHitLimit,
-					this.kodelyIgnoreController,
-					showKodelyIgnoredFiles,
-				)
-				details += result
+
+				const formatFilesList = async (dirPath: string) => {
+					const [files, didHitLimit] = await listFiles(dirPath, true, maxFiles)
+					return formatResponse.formatFilesList(
+						dirPath,
+						files,
+						didHitLimit,
+						this.kodelyIgnoreController,
+						showKodelyIgnoredFiles,
+					)
+				}
+
+				details += await formatFilesList(this.cwd)
+
+				for (const root of otherRoots) {
+					details += `\n\n# Workspace Folder ${root.name} (${root.path.toPosix()}) Files\n`
+					details += await formatFilesList(root.path)
+				}
 			}
 		}
 
@@ -2292,14 +2576,17 @@ export class Cline extends EventEmitter<ClineEvents> {
 				return undefined
 			}
 
-			const options: CheckpointServiceOptions = {
+			const options: MultiRootCheckpointServiceOptions = {
 				taskId: this.taskId,
 				workspaceDir,
+				additionalWorkspaceDirs: getWorkspaceRoots()
+					.map((root) => root.path)
+					.filter((dir) => !arePathsEqual(dir, workspaceDir)),
 				shadowDir: globalStorageDir,
 				log,
 			}
 
-			const service = RepoPerTaskCheckpointService.create(options)
+			const service = MultiRootCheckpointService.create(options)
 
 			this.checkpointServiceInitializing = true
 
@@ -2392,7 +2679,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 		ts: number
 		previousCommitHash?: string
 		commitHash: string
-		mode: "full" | "checkpoint"
+		mode: "full" | "checkpoint" | "compare"
 	}) {
 		const service = await this.getInitializedCheckpointService()
 
@@ -2419,9 +2706,15 @@ export class Cline extends EventEmitter<ClineEvents> {
 				return
 			}
 
+			const title = {
+				full: "Changes since task started",
+				checkpoint: "Changes since previous checkpoint",
+				compare: "Changes between checkpoints",
+			}[mode]
+
 			await vscode.commands.executeCommand(
 				"vscode.changes",
-				mode === "full" ? "Changes since task started" : "Changes since previous checkpoint",
+				title,
 				changes.map((change) => [
 					vscode.Uri.file(change.paths.absolute),
 					vscode.Uri.parse(`${DIFF_VIEW_URI_SCHEME}:${change.paths.relative}`).with({
@@ -2534,6 +2827,213 @@ export class Cline extends EventEmitter<ClineEvents> {
 		}
 	}
 
+	/**
+	 * Lists the checkpoints of the task with the files changed in each of them.
+	 */
+	public async getCheckpointTimeline(): Promise<CheckpointTimelineEntry[]> {
+		const service = await this.getInitializedCheckpointService()
+
+		if (!service) {
+			return []
+		}
+
+		const timeline: CheckpointTimelineEntry[] = []
+
+		for (const message of this.clineMessages) {
+			if (message.say !== "checkpoint_saved" || !message.text) {
+				continue
+			}
+
+			const { isFirst = false, from } = (message.checkpoint ?? {}) as { isFirst?: boolean; from?: string }
+			let files: CheckpointFileChange[] = []
+
+			if (!isFirst && from) {
+				try {
+					files = await service.getChangedFiles({ from, to: message.text })
+				} catch (err) {
+					this.providerRef
+						.deref()
+						?.log(
+							`[getCheckpointTimeline] failed to list the changes of checkpoint ${message.text}: ${err instanceof Error ? err.message : String(err)}`,
+						)
+				}
+			}
+
+			timeline.push({ ts: message.ts, commitHash: message.text, previousCommitHash: from, isFirst, files })
+		}
+
+		return timeline
+	}
+
+	public async checkpointRestoreFiles({ commitHash, paths }: { commitHash: string; paths: string[] }) {
+		const service = await this.getInitializedCheckpointService()
+
+		if (!service) {
+			return
+		}
+
+		await service.restoreFiles(commitHash, paths)
+		telemetryService.captureCheckpointRestored(this.taskId)
+	}
+
+	public async getCheckpointRestoreHunks({ commitHash, path }: { commitHash: string; path: string }) {
+		const service = await this.getInitializedCheckpointService()
+		return service ? service.getRestoreHunks(commitHash, path) : []
+	}
+
+	public async checkpointRestoreHunks({
+		commitHash,
+		path,
+		hunks,
+	}: {
+		commitHash: string
+		path: string
+		hunks: number[]
+	}) {
+		const service = await this.getInitializedCheckpointService()
+
+		if (!service) {
+			return
+		}
+
+		await service.restoreHunks(commitHash, path, hunks)
+		telemetryService.captureCheckpointRestored(this.taskId)
+	}
+
+	/**
+	 * Exports the checkpoints of the task to the workspace repo, with a commit
+	 * per checkpoint (or a single one if `squash` is set) whose message comes
+	 * from the assistant text that led to it.
+	 */
+	public async exportCheckpoints({
+		format,
+		squash = false,
+		branch,
+		outputDir,
+	}: {
+		format: "branch" | "patch"
+		squash?: boolean
+		branch?: string
+		outputDir?: string
+	}) {
+		const service = await this.getInitializedCheckpointService()
+
+		if (!service) {
+			return []
+		}
+
+		const steps: { from: string; to: string; message: string }[] = []
+		let assistantText: string | undefined
+
+		// The first message is the task itself, not assistant text.
+		for (const message of this.clineMessages.slice(1)) {
+			if (message.type === "say" && message.say === "text" && message.text) {
+				assistantText = message.text
+			} else if (message.say === "checkpoint_saved" && message.text) {
+				const { from } = (message.checkpoint ?? {}) as { from?: string }
+
+				if (from) {
+					const fallback = `Checkpoint ${steps.length + 1}`
+					steps.push({ from, to: message.text, message: formatCommitMessage(assistantText, fallback) })
+				}
+
+				assistantText = undefined
+			}
+		}
+
+		if (steps.length === 0) {
+			return []
+		}
+
+		const exportSteps = squash
+			? [
+					{
+						from: steps[0].from,
+						to: steps[steps.length - 1].to,
+						message: formatSquashedCommitMessage(
+							this.clineMessages[0]?.text,
+							steps.map((step) => step.message),
+							`Task ${this.taskId}`,
+						),
+					},
+				]
+			: steps
+
+		return service.exportCheckpoints({ steps: exportSteps, format, branch, outputDir })
+	}
+
+	/**
+	 * Copies the task up to (but not including) the message at `ts` into a
+	 * new task, along with its checkpoints, and restores the workspace to the
+	 * last checkpoint before that message. This task keeps all its messages
+	 * and a checkpoint of the current workspace, so it can be resumed later.
+	 * @returns the history item of the new task, or undefined if there is no such message
+	 */
+	public async fork(ts: number): Promise<HistoryItem | undefined> {
+		const index = this.clineMessages.findIndex((m) => m.ts === ts)
+
+		// The first message is the task itself, so there has to be something before it
+		if (index < 1) {
+			return undefined
+		}
+
+		const provider = this.providerRef.deref()
+
+		if (!provider) {
+			return undefined
+		}
+
+		const forkTaskId = crypto.randomUUID()
+		const clineMessages = this.clineMessages.slice(0, index)
+		const apiConversationHistory = this.apiConversationHistory.filter((m) => !m.ts || m.ts < ts)
+
+		const globalStorageDir = provider.context.globalStorageUri.fsPath
+		const { getTaskDirectoryPath } = await import("../shared/storagePathManager")
+		const taskDir = await getTaskDirectoryPath(globalStorageDir, forkTaskId)
+
+		await fs.writeFile(path.join(taskDir, GlobalFileNames.uiMessages), JSON.stringify(clineMessages))
+		await fs.writeFile(
+			path.join(taskDir, GlobalFileNames.apiConversationHistory),
+			JSON.stringify(apiConversationHistory),
+		)
+
+		const checkpointIndex = findLastIndex(
+			this.clineMessages.slice(0, index + 1),
+			(m) => m.say === "checkpoint_saved" && !!m.text,
+		)
+
+		if (checkpointIndex !== -1) {
+			const service = await this.getInitializedCheckpointService()
+
+			if (service) {
+				// Keep the current state of the workspace for this task before
+				// the fork rewinds it.
+				await this.checkpointSave()
+				await MultiRootCheckpointService.forkTask({ taskId: this.taskId, forkTaskId, globalStorageDir })
+				await service.restoreCheckpoint(this.clineMessages[checkpointIndex].text!)
+			}
+		}
+
+		const { totalTokensIn, totalTokensOut, totalCacheWrites, totalCacheReads, totalCost } = getApiMetrics(
+			combineApiRequests(combineCommandSequences(clineMessages.slice(1))),
+		)
+
+		return {
+			id: forkTaskId,
+			number: this.taskNumber,
+			ts: clineMessages[clineMessages.length - 1].ts,
+			task: clineMessages[0].text ?? "",
+			tokensIn: totalTokensIn,
+			tokensOut: totalTokensOut,
+			cacheWrites: totalCacheWrites,
+			cacheReads: totalCacheReads,
+			totalCost,
+			workspace: this.cwd,
+			forkedFromTaskId: this.taskId,
+			forkedFromTs: ts,
+		}
+	}
+
 	// Public accessor for fileContextTracker
 	public getFileContextTracker(): FileContextTracker {
 		return this.fileContextTracker
@@ -2551,6 +3051,8 @@ export class Cline extends EventEmitter<ClineEvents> {
 		}
 
 		this.toolUsage[toolName].attempts++
+		this.lastToolName = toolName
+		this.lastToolFailed = false
 	}
 	public recordToolError(toolName: ToolName) {
 		if (!this.toolUsage[toolName]) {
@@ -2558,6 +3060,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 		}
 
 		this.toolUsage[toolName].failures++
+		this.lastToolFailed = true
 	}
 
 	public getToolUsage() {
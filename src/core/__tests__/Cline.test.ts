@@ -2,6 +2,7 @@
 
 import * as os from "os"
 import * as path from "path"
+import * as fs from "fs/promises"
 
 import * as vscode from "vscode"
 import { Anthropic } from "@anthropic-ai/sdk"
@@ -11,6 +12,7 @@ import { Cline } from "../Cline"
 import { ClineProvider } from "../webview/ClineProvider"
 import { ApiConfiguration, ModelInfo } from "../../shared/api"
 import { ApiStreamChunk } from "../../api/transform/stream"
+import { MultiRootCheckpointService } from "../../services/checkpoints"
 
 // Mock KodelyIgnoreController
 jest.mock("../ignore/KodelyIgnoreController", () => ({
@@ -314,6 +316,164 @@ describe("Cline", () => {
 		})
 	})
 
+	describe("fork", () => {
+		const taskTs = 1000
+		const forkTs = 4000
+
+		const createCline = () => {
+			const cline = new Cline({
+				provider: mockProvider,
+				apiConfiguration: mockApiConfig,
+				task: "test task",
+				startTask: false,
+			})
+
+			cline.clineMessages = [
+				{ ts: taskTs, type: "say", say: "text", text: "test task" },
+				{ ts: 2000, type: "say", say: "checkpoint_saved", text: "commit-1" },
+				{ ts: 3000, type: "say", say: "text", text: "first answer" },
+				{ ts: forkTs, type: "say", say: "user_feedback", text: "try again" },
+				{ ts: 5000, type: "say", say: "checkpoint_saved", text: "commit-2" },
+			]
+
+			cline.apiConversationHistory = [
+				{ role: "user", content: "test task", ts: 1500 },
+				{ role: "assistant", content: "first answer", ts: 3000 },
+				{ role: "user", content: "try again", ts: 4500 },
+			]
+
+			return cline
+		}
+
+		it("should copy the task up to the message it was forked from", async () => {
+			const cline = createCline()
+			const writeFile = fs.writeFile as jest.Mock
+			writeFile.mockClear()
+			jest.spyOn(cline as any, "getInitializedCheckpointService").mockResolvedValue(undefined)
+
+			const historyItem = await cline.fork(forkTs)
+
+			expect(historyItem).toMatchObject({
+				task: "test task",
+				ts: 3000,
+				workspace: cline.cwd,
+				forkedFromTaskId: cline.taskId,
+				forkedFromTs: forkTs,
+			})
+			expect(historyItem!.id).not.toBe(cline.taskId)
+
+			const written = Object.fromEntries(
+				writeFile.mock.calls.map(([filePath, content]) => [path.basename(filePath), JSON.parse(content)]),
+			)
+
+			expect(written["ui_messages.json"].map((m: { ts: number }) => m.ts)).toEqual([taskTs, 2000, 3000])
+			expect(written["api_conversation_history.json"]).toHaveLength(2)
+
+			// The task itself is left untouched.
+			expect(cline.clineMessages).toHaveLength(5)
+		})
+
+		it("should leave out a summary of messages after the fork", async () => {
+			const cline = createCline()
+			const writeFile = fs.writeFile as jest.Mock
+			writeFile.mockClear()
+			jest.spyOn(cline as any, "getInitializedCheckpointService").mockResolvedValue(undefined)
+
+			// The conversation was condensed after the fork point, up to and
+			// including the message that the fork leaves out.
+			cline.apiConversationHistory = [
+				{ role: "user", content: "test task", ts: 1500 },
+				{ role: "assistant", content: "Summary of the conversation so far", ts: 4500 },
+				{ role: "user", content: "keep going", ts: 6000 },
+			]
+
+			await cline.fork(forkTs)
+
+			const written = Object.fromEntries(
+				writeFile.mock.calls.map(([filePath, content]) => [path.basename(filePath), JSON.parse(content)]),
+			)
+
+			expect(written["api_conversation_history.json"]).toEqual([{ role: "user", content: "test task", ts: 1500 }])
+		})
+
+		it("should restore the workspace to the last checkpoint before the fork", async () => {
+			const cline = createCline()
+			const service = { restoreCheckpoint: jest.fn().mockResolvedValue(undefined) }
+			jest.spyOn(cline as any, "getInitializedCheckpointService").mockResolvedValue(service)
+			const checkpointSave = jest.spyOn(cline, "checkpointSave").mockResolvedValue(undefined)
+			const forkTask = jest.spyOn(MultiRootCheckpointService, "forkTask").mockResolvedValue(undefined)
+
+			const historyItem = await cline.fork(forkTs)
+
+			expect(checkpointSave).toHaveBeenCalled()
+			expect(forkTask).toHaveBeenCalledWith({
+				taskId: cline.taskId,
+				forkTaskId: historyItem!.id,
+				globalStorageDir: mockExtensionContext.globalStorageUri.fsPath,
+			})
+			expect(service.restoreCheckpoint).toHaveBeenCalledWith("commit-1")
+		})
+
+		it("should not fork from the task message or an unknown message", async () => {
+			const cline = createCline()
+
+			expect(await cline.fork(taskTs)).toBeUndefined()
+			expect(await cline.fork(42)).toBeUndefined()
+		})
+	})
+
+	describe("exportCheckpoints", () => {
+		const createCline = () => {
+			const cline = new Cline({
+				provider: mockProvider,
+				apiConfiguration: mockApiConfig,
+				task: "test task",
+				startTask: false,
+			})
+
+			cline.clineMessages = [
+				{ ts: 1000, type: "say", say: "text", text: "test task" },
+				{ ts: 2000, type: "say", say: "text", text: "Add the parser" },
+				{ ts: 3000, type: "say", say: "checkpoint_saved", text: "commit-1", checkpoint: { from: "base" } },
+				{ ts: 4000, type: "say", say: "checkpoint_saved", text: "commit-2", checkpoint: { from: "commit-1" } },
+			]
+
+			const service = { exportCheckpoints: jest.fn().mockResolvedValue([]) }
+			jest.spyOn(cline as any, "getInitializedCheckpointService").mockResolvedValue(service)
+
+			return { cline, service }
+		}
+
+		it("should export a step per checkpoint with the assistant text as message", async () => {
+			const { cline, service } = createCline()
+
+			await cline.exportCheckpoints({ format: "branch", branch: "kodely/test" })
+
+			expect(service.exportCheckpoints).toHaveBeenCalledWith({
+				steps: [
+					{ from: "base", to: "commit-1", message: "Add the parser" },
+					{ from: "commit-1", to: "commit-2", message: "Checkpoint 2" },
+				],
+				format: "branch",
+				branch: "kodely/test",
+				outputDir: undefined,
+			})
+		})
+
+		it("should squash the checkpoints into a single step", async () => {
+			const { cline, service } = createCline()
+
+			await cline.exportCheckpoints({ format: "patch", squash: true, outputDir: "/tmp/patches" })
+
+			expect(service.exportCheckpoints).toHaveBeenCalledWith({
+				steps: [{ from: "base", to: "commit-2", message: "test task\n\n- Add the parser\n- Checkpoint 2" }],
+				format: "patch",
+				branch: undefined,
+				outputDir: "/tmp/patches",
+			})
+		})
+	})
+
 	describe("getEnvironmentDetails", () => {
 		let originalDate: DateConstructor
 		let mockDate: Date
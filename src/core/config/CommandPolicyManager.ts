@@ -0,0 +1,74 @@
+import * as vscode from "vscode"
+import * as path from "path"
+import * as fs from "fs/promises"
+
+import { CommandPolicy, commandPolicySchema } from "../../schemas"
+import { WORKSPACE_COMMAND_POLICY_FILE } from "../../shared/commandPolicy"
+import { fileExistsAtPath } from "../../utils/fs"
+import { arePathsEqual, getWorkspacePath } from "../../utils/path"
+
+/**
+ * Loads the command policy of the workspace from `.kodely/command-policy.json`
+ * and tells the provider when it changes, so the webview can explain the
+ * policy in approval prompts.
+ *
+ * The file is read each time the policy is needed, so that edits made outside
+ * of VS Code apply to the next command too.
+ */
+export class CommandPolicyManager {
+	private disposables: vscode.Disposable[] = []
+
+	constructor(private readonly onUpdate: () => Promise<void>) {
+		this.disposables.push(
+			vscode.workspace.onDidSaveTextDocument(async (document) => {
+				const cwd = getWorkspacePath()
+
+				if (cwd && arePathsEqual(document.uri.fsPath, path.join(cwd, WORKSPACE_COMMAND_POLICY_FILE))) {
+					if (!(await this.getWorkspaceCommandPolicy(cwd))) {
+						vscode.window.showErrorMessage(
+							`Invalid command policy in ${WORKSPACE_COMMAND_POLICY_FILE}. Its rules are not applied until it is fixed.`,
+						)
+					}
+
+					await this.onUpdate()
+				}
+			}),
+		)
+	}
+
+	/**
+	 * @returns the policy of the workspace, undefined if there is none or it is invalid
+	 */
+	async getWorkspaceCommandPolicy(cwd: string = getWorkspacePath()): Promise<CommandPolicy | undefined> {
+		if (!cwd) {
+			return undefined
+		}
+
+		const filePath = path.join(cwd, WORKSPACE_COMMAND_POLICY_FILE)
+
+		if (!(await fileExistsAtPath(filePath))) {
+			return undefined
+		}
+
+		try {
+			const result = commandPolicySchema.safeParse(JSON.parse(await fs.readFile(filePath, "utf-8")))
+
+			if (!result.success) {
+				console.error(`[CommandPolicyManager] Invalid command policy in ${filePath}:`, result.error.message)
+				return undefined
+			}
+
+			return result.data
+		} catch (error) {
+			console.error(`[CommandPolicyManager] Failed to load the command policy from ${filePath}:`, error)
+			return undefined
+		}
+	}
+
+	dispose(): void {
+		for (const disposable of this.disposables) {
+			disposable.dispose()
+		}
+		this.disposables = []
+	}
+}
@@ -236,6 +236,26 @@ export class ProviderSettingsManager {
 		}
 	}
 
+	/**
+	 * Get a config by name without changing the current config.
+	 */
+	public async getConfig(name: string) {
+		try {
+			return await this.lock(async () => {
+				const providerProfiles = await this.load()
+				const providerSettings = providerProfiles.apiConfigs[name]
+
+				if (!providerSettings) {
+					throw new Error(`Config '${name}' not found`)
+				}
+
+				return providerSettings
+			})
+		} catch (error) {
+			throw new Error(`Failed to get config: ${error}`)
+		}
+	}
+
 	/**
 	 * Load a config by ID and set it as the current config.
 	 */
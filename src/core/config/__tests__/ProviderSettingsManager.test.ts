@@ -486,6 +486,38 @@ describe("ProviderSettingsManager", () => {
 		})
 	})
 
+	describe("GetConfig", () => {
+		it("should get config without changing the current config", async () => {
+			mockSecrets.get.mockResolvedValue(
+				JSON.stringify({
+					currentApiConfigName: "default",
+					apiConfigs: {
+						default: { id: "default" },
+						cheap: { apiProvider: "openrouter", id: "cheap-id" },
+					},
+				}),
+			)
+
+			const config = await providerSettingsManager.getConfig("cheap")
+
+			expect(config).toEqual({ apiProvider: "openrouter", id: "cheap-id" })
+			expect(mockSecrets.store).not.toHaveBeenCalledWith(
+				expect.anything(),
+				expect.stringContaining('"currentApiConfigName": "cheap"'),
+			)
+		})
+
+		it("should throw error when config does not exist", async () => {
+			mockSecrets.get.mockResolvedValue(
+				JSON.stringify({ currentApiConfigName: "default", apiConfigs: { default: { id: "default" } } }),
+			)
+
+			await expect(providerSettingsManager.getConfig("nonexistent")).rejects.toThrow(
+				"Config 'nonexistent' not found",
+			)
+		})
+	})
+
 	describe("ResetAllConfigs", () => {
 		it("should delete all stored configs", async () => {
 			// Setup initial config
@@ -3,6 +3,7 @@ import * as vscode from "vscode"
 import { getTaskDirectoryPath } from "../../shared/storagePathManager"
 import { GlobalFileNames } from "../../shared/globalFileNames"
 import { fileExistsAtPath } from "../../utils/fs"
+import { getWorkspacePath, resolveWorkspacePath } from "../../utils/path"
 import fs from "fs/promises"
 import { ContextProxy } from "../config/ContextProxy"
 import type { FileMetadataEntry, RecordSource, TaskMetadata } from "./FileContextTrackerTypes"
@@ -34,9 +35,10 @@ export class FileContextTracker {
 		this.taskId = taskId
 	}
 
-	// Gets the current working directory or returns undefined if it cannot be determined
+	// Gets the current working directory, the same one tools resolve paths against,
+	// or returns undefined if it cannot be determined
 	private getCwd(): string | undefined {
-		const cwd = vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath).at(0)
+		const cwd = getWorkspacePath() || undefined
 		if (!cwd) {
 			console.info("No workspace folder available - cannot determine current working directory")
 		}
@@ -56,7 +58,7 @@ export class FileContextTracker {
 		}
 
 		// Create a file system watcher for this specific file
-		const fileUri = vscode.Uri.file(path.resolve(cwd, filePath))
+		const fileUri = vscode.Uri.file(resolveWorkspacePath(cwd, filePath))
 		const watcher = vscode.workspace.createFileSystemWatcher(
 			new vscode.RelativePattern(path.dirname(fileUri.fsPath), path.basename(fileUri.fsPath)),
 		)
@@ -1,119 +1,320 @@
+import * as path from 'path';
+import type Parser from 'web-tree-sitter';
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import { CodeCompressionLevel } from '../../schemas';
+import { getLanguageParser } from '../../services/tree-sitter/parserCache';
+
 /**
- * Utility class for compressing code to reduce token usage
- * This is used when the compressCodeInContext setting is enabled
+ * A 1-based, inclusive range of lines in the original file
  */
-export class CodeCompressor {
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+export interface CompressionOptions {
     /**
-     * Compress code by removing comments, extra whitespace, and other non-essential elements
-     * @param code The code to compress
-     * @param language The programming language of the code
-     * @returns The compressed code
+     * How aggressively to compress:
+     * - `comments`: strip comments only
+     * - `signatures`: also collapse the bodies of functions that don't touch `targetLines`
+     * - `skeleton`: collapse every function body and drop blank lines
      */
-    public static compress(code: string, language: string): string {
-        switch (language.toLowerCase()) {
-            case 'javascript':
-            case 'typescript':
-            case 'js':
-            case 'ts':
-                return this.compressJavaScript(code);
-            case 'python':
-            case 'py':
-                return this.compressPython(code);
-            case 'java':
-                return this.compressJava(code);
-            case 'c':
-            case 'cpp':
-            case 'c++':
-            case 'csharp':
-            case 'c#':
-            case 'cs':
-                return this.compressCFamily(code);
-            default:
-                // For unknown languages, just do basic compression
-                return this.basicCompression(code);
-        }
-    }
+    level: CodeCompressionLevel;
 
     /**
-     * Basic compression that works for most languages
-     * Removes comments and extra whitespace
+     * Lines the caller is interested in. Functions overlapping them keep their
+     * bodies at the `signatures` level.
      */
-    private static basicCompression(code: string): string {
-        // Remove single-line comments
-        let compressed = code.replace(/\/\/.*$/gm, '');
-        
-        // Remove multi-line comments
-        compressed = compressed.replace(/\/\*[\s\S]*?\*\//g, '');
-        
-        // Remove blank lines
-        compressed = compressed.replace(/^\s*[\r\n]/gm, '');
-        
-        // Collapse multiple spaces into one
-        compressed = compressed.replace(/\s{2,}/g, ' ');
-        
-        return compressed;
-    }
+    targetLines?: LineRange[];
+}
+
+export interface CompressionResult {
+    level: CodeCompressionLevel;
 
     /**
-     * JavaScript/TypeScript specific compression
+     * The compressed code
      */
-    private static compressJavaScript(code: string): string {
-        let compressed = this.basicCompression(code);
-        
-        // Remove console.log statements
-        compressed = compressed.replace(/console\.log\(.*?\);?/g, '');
-        
-        // Remove debugger statements
-        compressed = compressed.replace(/debugger;/g, '');
-        
-        return compressed;
-    }
+    content: string;
 
     /**
-     * Python specific compression
+     * The original 1-based line number of each line of `content`, so callers
+     * can keep referring to the file as it is on disk
      */
-    private static compressPython(code: string): string {
-        // Remove single-line comments
-        let compressed = code.replace(/#.*$/gm, '');
-        
-        // Remove docstrings (triple-quoted strings)
-        compressed = compressed.replace(/\"\"\"[\s\S]*?\"\"\"/g, '');
-        compressed = compressed.replace(/\'\'\'[\s\S]*?\'\'\'/g, '');
-        
-        // Remove blank lines
-        compressed = compressed.replace(/^\s*[\r\n]/gm, '');
-        
-        // Collapse multiple spaces into one
-        compressed = compressed.replace(/\s{2,}/g, ' ');
-        
-        // Remove print statements
-        compressed = compressed.replace(/print\(.*?\)/g, '');
-        
-        return compressed;
+    lineNumbers: number[];
+
+    originalTokens: number;
+    compressedTokens: number;
+}
+
+/**
+ * A replacement of `content.slice(start, end)`. Replacements never contain
+ * line breaks.
+ */
+export interface Edit {
+    start: number;
+    end: number;
+    replacement: string;
+}
+
+const SUPPORTED_EXTENSIONS = new Set([
+    'js',
+    'jsx',
+    'ts',
+    'tsx',
+    'py',
+    'rs',
+    'go',
+    'c',
+    'h',
+    'cpp',
+    'hpp',
+    'cs',
+    'rb',
+    'java',
+    'php',
+    'swift',
+    'kt',
+    'kts',
+]);
+
+// Node types, across the supported grammars, whose body can be collapsed.
+const FUNCTION_TYPES = new Set([
+    'function_declaration',
+    'function_definition',
+    'function_expression',
+    'function',
+    'generator_function',
+    'generator_function_declaration',
+    'arrow_function',
+    'method_definition',
+    'method_declaration',
+    'constructor_declaration',
+    'function_item',
+    'func_literal',
+]);
+
+// Comments that change how the file is built or checked.
+const DIRECTIVE_COMMENT =
+    /^(#!|#\s*-\*-|#\s*(type|noqa|pragma)\b|\/\/go:|\/\/\s*\+build|\/\/\/\s*<reference|\/\/\s*@ts-|\/\*\s*@ts-)/;
+
+const PYTHON_PLACEHOLDER = '...';
+const BRACE_PLACEHOLDER = '{ ... }';
+
+function isComment(node: Parser.SyntaxNode): boolean {
+    return node.type === 'comment' || node.type.endsWith('_comment');
+}
+
+function overlaps(node: Parser.SyntaxNode, ranges: LineRange[]): boolean {
+    const start = node.startPosition.row + 1;
+    const end = node.endPosition.row + 1;
+    return ranges.some((range) => range.start <= end && range.end >= start);
+}
+
+/**
+ * Returns what a function body should be replaced with, or undefined if it
+ * should be kept. Single-line bodies are kept since collapsing them saves
+ * next to nothing.
+ */
+function getCollapsedBody(body: Parser.SyntaxNode, ext: string): string | undefined {
+    if (body.endPosition.row === body.startPosition.row) {
+        return undefined;
     }
 
-    /**
-     * Java specific compression
-     */
-    private static compressJava(code: string): string {
-        let compressed = this.basicCompression(code);
-        
-        // Remove System.out.println statements
-        compressed = compressed.replace(/System\.out\.println\(.*?\);/g, '');
-        
-        return compressed;
+    if (body.text.startsWith('{') && body.text.endsWith('}')) {
+        return BRACE_PLACEHOLDER;
+    }
+
+    // Python blocks have no delimiters; the placeholder takes the place of the
+    // first statement so the indentation of the block is kept.
+    if (ext === 'py' && body.type === 'block') {
+        return PYTHON_PLACEHOLDER;
+    }
+
+    return undefined;
+}
+
+function collectEdits(node: Parser.SyntaxNode, ext: string, options: CompressionOptions, edits: Edit[]): void {
+    if (isComment(node)) {
+        if (!DIRECTIVE_COMMENT.test(node.text)) {
+            edits.push({ start: node.startIndex, end: node.endIndex, replacement: '' });
+        }
+        return;
+    }
+
+    if (options.level !== 'comments' && node.isNamed && FUNCTION_TYPES.has(node.type)) {
+        const keepBody = options.level === 'signatures' && overlaps(node, options.targetLines ?? []);
+        const body = node.childForFieldName('body') ?? node.namedChildren.find((child) => child.type === 'function_body');
+        const replacement = body && !keepBody ? getCollapsedBody(body, ext) : undefined;
+
+        if (body && replacement !== undefined) {
+            for (const child of node.children) {
+                if (child.endIndex <= body.startIndex) {
+                    collectEdits(child, ext, options, edits);
+                }
+            }
+
+            edits.push({ start: body.startIndex, end: body.endIndex, replacement });
+            return;
+        }
+    }
+
+    for (const child of node.children) {
+        collectEdits(child, ext, options, edits);
+    }
+}
+
+/**
+ * Applies edits to the content while keeping track of where each resulting
+ * line came from. Lines that an edit leaves blank (such as a line that only
+ * held a comment) are dropped, as are all blank lines if `dropBlankLines` is
+ * set. Edits that overlap an earlier one are ignored.
+ */
+export function applyEdits(
+    content: string,
+    edits: Edit[],
+    dropBlankLines = false
+): { lines: string[]; lineNumbers: number[] } {
+    const originalLines = content.split('\n');
+    const lines: string[] = [];
+    const lineNumbers: number[] = [];
+
+    let cursor = 0;
+    let row = 0; // Row of the cursor in the original content
+    let lineRow = 0; // Row the current output line started on
+    let line = '';
+    let edited = false;
+
+    const flush = () => {
+        const text = edited ? line.trimEnd() : line;
+        const isBlank = text.trim() === '';
+
+        if (!isBlank || !(dropBlankLines || (edited && originalLines[lineRow].trim() !== ''))) {
+            lines.push(text);
+            lineNumbers.push(lineRow + 1);
+        }
+
+        line = '';
+        edited = false;
+    };
+
+    const copyTo = (end: number) => {
+        while (cursor < end) {
+            const newline = content.indexOf('\n', cursor);
+
+            if (newline === -1 || newline >= end) {
+                line += content.slice(cursor, end);
+                cursor = end;
+                return;
+            }
+
+            line += content.slice(cursor, newline);
+            flush();
+            cursor = newline + 1;
+            row++;
+            lineRow = row;
+        }
+    };
+
+    for (const edit of [...edits].sort((a, b) => a.start - b.start)) {
+        if (edit.start < cursor) {
+            continue;
+        }
+
+        copyTo(edit.start);
+
+        for (let i = edit.start; i < edit.end; i++) {
+            if (content[i] === '\n') {
+                row++;
+            }
+        }
+
+        line += edit.replacement;
+        cursor = edit.end;
+        edited = true;
+    }
+
+    copyTo(content.length);
+
+    // A trailing newline doesn't start another line.
+    if (line !== '' || edited || !content.endsWith('\n')) {
+        flush();
+    }
+
+    return { lines, lineNumbers };
+}
+
+/**
+ * Syntax-aware code compression used when the compressCodeInContext setting
+ * is enabled.
+ *
+ * Files are parsed with the tree-sitter grammars that back
+ * `list_code_definition_names`, so only real comment nodes are removed and
+ * string literals are never touched. Lines are removed whole or trimmed at
+ * the end, never re-indented, which keeps indentation-significant languages
+ * valid.
+ */
+export class CodeCompressor {
+    // The encoder is stateless, so it is created once and reused.
+    private static encoder: Tiktoken | undefined;
+
+    public static isSupported(filePath: string): boolean {
+        return SUPPORTED_EXTENSIONS.has(path.extname(filePath).toLowerCase().slice(1));
     }
 
     /**
-     * C-family languages compression (C, C++, C#)
+     * Compress a file's content.
+     *
+     * @param filePath The file path, used to pick the grammar
+     * @param content The file content
+     * @param options The compression level and lines to keep intact
+     * @returns The compressed code with token counts, or undefined if the
+     * language is not supported or the file does not parse cleanly
      */
-    private static compressCFamily(code: string): string {
-        let compressed = this.basicCompression(code);
-        
-        // Remove printf/cout statements
-        compressed = compressed.replace(/printf\(.*?\);/g, '');
-        compressed = compressed.replace(/cout\s*<<\s*.*?;/g, '');
-        
-        return compressed;
+    public static async compress(
+        filePath: string,
+        content: string,
+        options: CompressionOptions
+    ): Promise<CompressionResult | undefined> {
+        const ext = path.extname(filePath).toLowerCase().slice(1);
+
+        if (!SUPPORTED_EXTENSIONS.has(ext)) {
+            return undefined;
+        }
+
+        const { parser } = await getLanguageParser(ext);
+        const tree = parser.parse(content);
+        const edits: Edit[] = [];
+
+        try {
+            // Recovered syntax errors can turn code into comments or strings,
+            // so a file that doesn't parse is left alone.
+            if (tree.rootNode.hasError) {
+                return undefined;
+            }
+
+            collectEdits(tree.rootNode, ext, options, edits);
+        } finally {
+            tree.delete();
+        }
+
+        const { lines, lineNumbers } = applyEdits(content, edits, options.level === 'skeleton');
+        const compressed = lines.join('\n');
+
+        return {
+            level: options.level,
+            content: compressed,
+            lineNumbers,
+            originalTokens: this.countTokens(content),
+            compressedTokens: this.countTokens(compressed),
+        };
+    }
+
+    private static countTokens(text: string): number {
+        if (!this.encoder) {
+            this.encoder = new Tiktoken(o200kBase);
+        }
+
+        return this.encoder.encode(text).length;
     }
 }
@@ -1,5 +1,6 @@
 import * as vscode from "vscode"
 import { ModelInfo } from "../../shared/api"
+import { ModelRoutingPolicy, ModelRoutingRule } from "../../schemas"
 
 /**
  * Enum representing different cost optimization levels
@@ -49,6 +50,64 @@ export interface CostOptimizationSettings {
      * Whether to compress code in the context window
      */
     compressCodeInContext: boolean;
+
+    /**
+     * Fraction (0-1) of the conversation, excluding the first message, that
+     * is dropped or summarized when the context window fills up
+     */
+    truncationFraction: number;
+}
+
+/**
+ * When and how much the sliding window trims the conversation, derived from
+ * the cost optimization settings
+ */
+export interface ContextPolicy {
+    /**
+     * Percentage of the context window (0-100) the conversation and the
+     * reserved output may fill before the conversation is trimmed
+     */
+    maxContextWindowUsage: number;
+
+    /**
+     * Tokens kept free for the model's response
+     */
+    reservedOutputTokens: number;
+
+    /**
+     * Fraction (0-1) of the conversation, excluding the first message, to
+     * drop or summarize when trimming
+     */
+    truncationFraction: number;
+}
+
+/**
+ * What a routing rule is matched against, describing the API request about
+ * to be made
+ */
+export interface ModelRoutingSignals {
+    /**
+     * Slug of the current mode
+     */
+    mode: string;
+
+    /**
+     * The tool used in the previous turn, if any
+     */
+    lastTool?: string;
+
+    /**
+     * Whether the previous tool use failed
+     */
+    lastToolFailed: boolean;
+
+    consecutiveMistakes: number;
+
+    /**
+     * Tokens used by the previous request, approximating the size of the
+     * context sent with this one
+     */
+    contextTokens: number;
 }
 
 /**
@@ -60,21 +119,24 @@ const DEFAULT_SETTINGS: Record<CostOptimizationLevel, CostOptimizationSettings>
         maxContextWindowUsage: 95, // Use 95% of available context window (quality-focused)
         useLocalRag: false,
         maxOutputTokens: 4000,
-        compressCodeInContext: false
+        compressCodeInContext: false,
+        truncationFraction: 0.25 // Trim little at a time to keep as much history as possible
     },
     [CostOptimizationLevel.BALANCED]: {
         optimizationLevel: CostOptimizationLevel.BALANCED,
         maxContextWindowUsage: 85, // Use 85% of available context window
         useLocalRag: true,
         maxOutputTokens: 2000,
-        compressCodeInContext: false
+        compressCodeInContext: false,
+        truncationFraction: 0.5
     },
     [CostOptimizationLevel.HIGH]: {
         optimizationLevel: CostOptimizationLevel.HIGH,
         maxContextWindowUsage: 70, // Use only 70% of available context window (cost-focused)
         useLocalRag: true,
         maxOutputTokens: 1000,
-        compressCodeInContext: true
+        compressCodeInContext: true,
+        truncationFraction: 0.75 // Trim a lot at once so the context stays small
     }
 }
 
@@ -99,7 +161,7 @@ export class CostOptimizationManager {
             DEFAULT_SETTINGS[savedLevel]
         );
 
-        this.settings = savedSettings;
+        this.settings = savedSettings ?? DEFAULT_SETTINGS[CostOptimizationLevel.BALANCED];
     }
 
     /**
@@ -118,11 +180,16 @@ export class CostOptimizationManager {
     }
 
     /**
-     * Update specific settings
+     * Update specific settings. Settings that can't be configured, like the
+     * truncation fraction, follow the optimization level unless given.
      */
     public async updateSettings(settings: Partial<CostOptimizationSettings>): Promise<void> {
+        const levelChanged =
+            settings.optimizationLevel !== undefined && settings.optimizationLevel !== this.settings.optimizationLevel;
+
         this.settings = {
             ...this.settings,
+            ...(levelChanged && { truncationFraction: DEFAULT_SETTINGS[settings.optimizationLevel!].truncationFraction }),
             ...settings
         };
         await this.saveSettings();
@@ -167,6 +234,67 @@ export class CostOptimizationManager {
         return this.settings.maxOutputTokens;
     }
 
+    /**
+     * Get the policy the sliding window trims the conversation by. The
+     * conversation is trimmed once it no longer fits in the share of the
+     * context window set by the settings, less the tokens reserved for the
+     * response, so quality-focused levels keep more history than cost-focused
+     * ones.
+     */
+    public getContextPolicy(modelInfo: ModelInfo): ContextPolicy {
+        return {
+            maxContextWindowUsage: this.settings.maxContextWindowUsage,
+            reservedOutputTokens: this.getMaxOutputTokens(modelInfo),
+            // Settings saved before the truncation fraction existed don't have one
+            truncationFraction:
+                this.settings.truncationFraction ?? DEFAULT_SETTINGS[this.settings.optimizationLevel].truncationFraction
+        };
+    }
+
+    /**
+     * Pick the provider profile an API request should be sent with. The rules
+     * of the optimization level are tried in order and the first one whose
+     * conditions all hold wins; conditions that are unset always hold.
+     *
+     * @returns The name of the profile, or undefined to keep the task's profile
+     */
+    public routeRequest(
+        policy: ModelRoutingPolicy | undefined,
+        signals: ModelRoutingSignals,
+        level: CostOptimizationLevel = this.settings.optimizationLevel
+    ): string | undefined {
+        const rules = policy?.[level] ?? [];
+        return rules.find((rule) => this.matchesRoutingRule(rule, signals))?.profile || undefined;
+    }
+
+    private matchesRoutingRule(rule: ModelRoutingRule, signals: ModelRoutingSignals): boolean {
+        if (rule.modes?.length && !rule.modes.includes(signals.mode)) {
+            return false;
+        }
+
+        if (rule.lastTools?.length && !(signals.lastTool && rule.lastTools.includes(signals.lastTool))) {
+            return false;
+        }
+
+        if (rule.lastToolFailed !== undefined && rule.lastToolFailed !== signals.lastToolFailed) {
+            return false;
+        }
+
+        if (rule.minConsecutiveMistakes !== undefined && signals.consecutiveMistakes < rule.minConsecutiveMistakes) {
+            return false;
+        }
+
+        if (rule.minContextTokens !== undefined && signals.contextTokens < rule.minContextTokens) {
+            return false;
+        }
+
+        if (rule.maxContextTokens !== undefined && signals.contextTokens > rule.maxContextTokens) {
+            return false;
+        }
+
+        return true;
+    }
+
     /**
      * Estimate the cost of a request based on input and output tokens
      */
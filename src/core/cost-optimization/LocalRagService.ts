@@ -1,345 +1,913 @@
 import * as vscode from "vscode"
 import * as path from "path"
 import * as fs from "fs/promises"
-import { glob } from "glob"
+import * as crypto from "crypto"
+import EventEmitter from "events"
+import { globby, isGitIgnored } from "globby"
 import { KodelyIgnoreController } from "../ignore/KodelyIgnoreController"
+import { RagIndexStatus } from "../../shared/ExtensionMessage"
+import { chunkFile } from "./rag/chunker"
+import { createEmbeddingProvider, DEFAULT_EMBEDDING_SETTINGS, EmbeddingProvider, EmbeddingSettings } from "./rag/embeddings"
+import { reciprocalRankFusion } from "./rag/hybrid"
+import { InvertedIndex, SerializedInvertedIndex } from "./rag/InvertedIndex"
+import { extractSnippets } from "./rag/snippets"
+import { tokenizeQuery } from "./rag/tokenizer"
+import { IndexedChunk, IndexedDocument, SearchResult, Snippet } from "./rag/types"
+import { SerializedVectorStore, VectorStore } from "./rag/VectorStore"
+
+// Chunks longer than this are trimmed down to their best matching lines
+const MAX_WHOLE_CHUNK_LINES = 60
+
+// Only the start of very long chunks is embedded, to stay within the input
+// limit of small embedding models
+const MAX_EMBEDDING_CHARS = 4000
+
+type DocumentFilter = (document: IndexedDocument) => boolean
+
+// Each ranking contributes this many candidates per requested result to the
+// hybrid ranking
+const CANDIDATES_PER_RESULT = 3
+
+// Directories that are never indexed, whether or not they are gitignored
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', 'build', '.git']
+
+// Changing one of these can add or remove any number of files from the index
+const IGNORE_FILE_NAMES = new Set(['.gitignore', '.kodelyignore'])
+
+// File events are batched for this long before the index is updated, so that
+// a branch switch or a formatter run is handled in a single pass
+const WATCHER_DEBOUNCE_MS = 1000
+
+// Progress is reported to the webview every this many files
+const PROGRESS_INTERVAL = 50
 
 /**
- * Interface for a document in the RAG index
+ * The index of a single workspace folder, stored under its own directory
  */
-interface IndexedDocument {
-    path: string;
-    content: string;
-    language: string;
-    lastModified: number;
-    tokens: number;
-    // Enhanced metadata
-    symbols?: string[];      // Function/class/variable names
-    imports?: string[];      // Imported modules/packages
-    exports?: string[];      // Exported symbols
-    comments?: string[];     // Extracted comments
-    fileType?: string;       // More specific file type (e.g., 'react-component', 'test')
+interface FolderIndex {
+    folder: vscode.WorkspaceFolder;
+    index: InvertedIndex;
+    vectorStore?: VectorStore;
+    indexPath: string;
+    vectorStorePath: string;
+    kodelyIgnoreController: KodelyIgnoreController;
+    isGitIgnored: (filePath: string) => boolean;
+    watcher: vscode.Disposable;
+    lastUpdated?: number;
+    indexSizeBytes: number;
+    vectorStoreSizeBytes: number;
 }
 
-/**
- * Interface for a search result
- */
-interface SearchResult {
+export type LocalRagServiceEvents = {
+    // Fired whenever indexing starts, progresses or finishes
+    statusChanged: [status: RagIndexStatus]
+}
+
+interface ChunkMatch {
+    folderIndex: FolderIndex;
     document: IndexedDocument;
-    relevanceScore: number;
+    chunk: IndexedChunk;
+    score: number;
 }
 
 /**
  * Service for local RAG (Retrieval Augmented Generation) implementation
  * This provides efficient context retrieval without sending all code to the LLM
+ *
+ * Each workspace folder has its own index, which is built once and then kept
+ * up to date from file system events. All index updates run one at a time.
  */
-export class LocalRagService {
+export class LocalRagService extends EventEmitter<LocalRagServiceEvents> implements vscode.Disposable {
+    private static instance?: LocalRagService;
+
     private context: vscode.ExtensionContext;
-    private indexedDocuments: Map<string, IndexedDocument> = new Map();
-    private indexPath: string;
+    private storagePath: string;
+    private folders = new Map<string, FolderIndex>();
+    private embeddingProvider?: EmbeddingProvider;
+    private initialization?: Promise<void>;
+    private queue: Promise<void> = Promise.resolve();
     private isIndexing: boolean = false;
-    private kodelyIgnoreController?: KodelyIgnoreController;
+    private progress?: { processed: number; total: number };
+    private lastError?: string;
+    private pendingChanges = new Set<string>();
+    private flushTimer?: NodeJS.Timeout;
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Get the service shared by the extension and all webviews
+     * Every index is kept up to date by file watchers, so there must only be
+     * one instance per extension host.
+     */
+    public static getInstance(context: vscode.ExtensionContext): LocalRagService {
+        if (!LocalRagService.instance) {
+            LocalRagService.instance = new LocalRagService(context);
+        }
+
+        return LocalRagService.instance;
+    }
 
-    constructor(context: vscode.ExtensionContext) {
+    private constructor(context: vscode.ExtensionContext) {
+        super();
         this.context = context;
-        this.indexPath = path.join(context.globalStorageUri.fsPath, 'rag-index');
+        this.storagePath = path.join(context.globalStorageUri.fsPath, 'rag');
+    }
 
-        // Get the workspace folder path for the ignore controller
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (workspaceFolders && workspaceFolders.length > 0) {
-            const workspacePath = workspaceFolders[0].uri.fsPath;
-            this.kodelyIgnoreController = new KodelyIgnoreController(workspacePath);
+    /**
+     * Initialize the RAG service
+     * Loads the stored index of every workspace folder and starts watching
+     * the folders for changes. Safe to call more than once.
+     */
+    public initialize(): Promise<void> {
+        if (!this.initialization) {
+            this.initialization = this.start();
         }
+
+        return this.initialization;
+    }
+
+    private async start(): Promise<void> {
+        // Older versions stored a single index for all folders
+        await Promise.all([
+            path.join(this.context.globalStorageUri.fsPath, 'rag-index'),
+            path.join(this.storagePath, 'index.json'),
+            path.join(this.storagePath, 'vectors.json')
+        ].map(legacyPath => fs.rm(legacyPath, { force: true }).catch(() => {})));
+
+        this.embeddingProvider = createEmbeddingProvider(this.getEmbeddingSettings());
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            await this.addFolder(folder);
+        }
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(({ added, removed }) => {
+                this.runExclusive(async () => {
+                    removed.forEach(folder => this.removeFolder(folder));
+
+                    for (const folder of added) {
+                        await this.indexFolder(await this.addFolder(folder));
+                    }
+                });
+            }),
+            // Pick up a different embedding backend or model without a reload
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('kodely.costOptimization.embeddings')) {
+                    this.runExclusive(() => this.configureEmbeddings());
+                }
+            })
+        );
+
+        this.fireStatus();
     }
 
     /**
-     * Initialize the RAG service
+     * Index all workspace folders
+     * Only files whose modification time changed since they were last indexed
+     * are re-read; files that disappeared from the workspace are dropped.
      */
-    public async initialize(): Promise<void> {
-        try {
-            // Check if the index file exists
+    public async indexWorkspace(): Promise<void> {
+        await this.initialize();
+
+        return this.runExclusive(async () => {
+            for (const folderIndex of this.folders.values()) {
+                await this.indexFolder(folderIndex);
+            }
+        });
+    }
+
+    /**
+     * Drop the index of every workspace folder and build it again from scratch
+     */
+    public async rebuildIndex(): Promise<void> {
+        await this.clearIndex();
+        await this.indexWorkspace();
+    }
+
+    /**
+     * Drop the index of every workspace folder
+     * File changes keep being indexed; the rest of the workspace is indexed
+     * again on the next rebuild or extension start.
+     */
+    public async clearIndex(): Promise<void> {
+        await this.initialize();
+
+        return this.runExclusive(async () => {
+            for (const folderIndex of this.folders.values()) {
+                folderIndex.index.clear();
+                folderIndex.vectorStore = this.embeddingProvider && new VectorStore(this.embeddingProvider.id);
+                folderIndex.lastUpdated = undefined;
+                folderIndex.indexSizeBytes = 0;
+                folderIndex.vectorStoreSizeBytes = 0;
+            }
+
+            await fs.rm(this.storagePath, { recursive: true, force: true });
+        });
+    }
+
+    public getStatus(): RagIndexStatus {
+        const folders = Array.from(this.folders.values()).map(folderIndex => ({
+            name: folderIndex.folder.name,
+            filesIndexed: folderIndex.index.size,
+            chunkCount: folderIndex.index.chunkCount,
+            indexSizeBytes: folderIndex.indexSizeBytes + folderIndex.vectorStoreSizeBytes,
+            lastUpdated: folderIndex.lastUpdated
+        }));
+
+        const lastUpdates = folders.flatMap(folder => folder.lastUpdated ?? []);
+
+        return {
+            state: this.isIndexing ? 'indexing' : this.lastError ? 'error' : 'idle',
+            filesIndexed: folders.reduce((sum, folder) => sum + folder.filesIndexed, 0),
+            chunkCount: folders.reduce((sum, folder) => sum + folder.chunkCount, 0),
+            indexSizeBytes: folders.reduce((sum, folder) => sum + folder.indexSizeBytes, 0),
+            lastUpdated: lastUpdates.length > 0 ? Math.max(...lastUpdates) : undefined,
+            progress: this.progress && { ...this.progress },
+            folders,
+            error: this.lastError
+        };
+    }
+
+    public dispose(): void {
+        clearTimeout(this.flushTimer);
+
+        for (const folder of Array.from(this.folders.values())) {
+            this.removeFolder(folder.folder);
+        }
+
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.removeAllListeners();
+
+        if (LocalRagService.instance === this) {
+            LocalRagService.instance = undefined;
+        }
+    }
+
+    private fireStatus(): void {
+        this.emit('statusChanged', this.getStatus());
+    }
+
+    /**
+     * Run an index update once all previously queued ones finished
+     * Failures are logged and reported through the status; they never reject
+     * the queue.
+     */
+    private runExclusive(task: () => Promise<void>): Promise<void> {
+        const run = this.queue.then(async () => {
+            this.isIndexing = true;
+            this.fireStatus();
+
             try {
-                await fs.access(this.indexPath);
-            } catch (err) {
-                // File doesn't exist, create an empty index
-                console.log('RAG index file does not exist, creating empty index');
-                this.indexedDocuments = new Map();
-                await this.saveIndex();
-                return;
+                await task();
+                this.lastError = undefined;
+            } catch (error) {
+                console.error('RAG indexing failed:', error);
+                this.lastError = error instanceof Error ? error.message : String(error);
+            } finally {
+                this.isIndexing = false;
+                this.progress = undefined;
+                this.fireStatus();
             }
+        });
+
+        this.queue = run;
+        return run;
+    }
+
+    /**
+     * Load the stored index of a workspace folder and start watching it
+     */
+    private async addFolder(folder: vscode.WorkspaceFolder): Promise<FolderIndex> {
+        const folderPath = folder.uri.fsPath;
+        // Folder paths can be long and contain characters that are not valid in file names
+        const storageDir = path.join(this.storagePath, crypto.createHash('sha256').update(folderPath).digest('hex').slice(0, 16));
+
+        const kodelyIgnoreController = new KodelyIgnoreController(folderPath);
+        await kodelyIgnoreController.initialize();
+
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, '**/*'));
+        watcher.onDidCreate(uri => this.queueChange(uri.fsPath));
+        watcher.onDidChange(uri => this.queueChange(uri.fsPath));
+        watcher.onDidDelete(uri => this.queueChange(uri.fsPath));
+
+        const folderIndex: FolderIndex = {
+            folder,
+            index: new InvertedIndex(),
+            indexPath: path.join(storageDir, 'index.json'),
+            vectorStorePath: path.join(storageDir, 'vectors.json'),
+            kodelyIgnoreController,
+            isGitIgnored: await this.loadGitIgnore(folderPath),
+            watcher,
+            indexSizeBytes: 0,
+            vectorStoreSizeBytes: 0
+        };
 
-            await this.loadIndex();
+        try {
+            const data = await fs.readFile(folderIndex.indexPath, 'utf-8');
+            folderIndex.index = InvertedIndex.deserialize(JSON.parse(data) as SerializedInvertedIndex);
+            folderIndex.indexSizeBytes = Buffer.byteLength(data);
+            folderIndex.lastUpdated = (await fs.stat(folderIndex.indexPath)).mtimeMs;
         } catch (error) {
-            console.error('Failed to load RAG index:', error);
-            // Create a new index if loading fails
-            this.indexedDocuments = new Map();
-            // Try to save the empty index
-            try {
-                await this.saveIndex();
-            } catch (saveErr) {
-                console.error('Failed to create empty index:', saveErr);
+            // Missing, or written by an older version; rebuilt on the next indexing run
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`Failed to load RAG index for ${folder.name}:`, error);
             }
         }
+
+        await this.loadVectorStore(folderIndex);
+        this.folders.set(folderPath, folderIndex);
+        return folderIndex;
+    }
+
+    private removeFolder(folder: vscode.WorkspaceFolder): void {
+        const folderIndex = this.folders.get(folder.uri.fsPath);
+
+        if (folderIndex) {
+            folderIndex.watcher.dispose();
+            folderIndex.kodelyIgnoreController.dispose();
+            this.folders.delete(folder.uri.fsPath);
+        }
+    }
+
+    private async loadGitIgnore(folderPath: string): Promise<(filePath: string) => boolean> {
+        try {
+            return await isGitIgnored({ cwd: folderPath });
+        } catch (error) {
+            console.error(`Failed to read .gitignore files in ${folderPath}:`, error);
+            return () => false;
+        }
     }
 
     /**
-     * Index the workspace files
+     * Find the workspace folder a file belongs to
+     * With nested workspace folders, the innermost one wins.
      */
-    public async indexWorkspace(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<void> {
-        if (this.isIndexing) {
-            return;
+    private getFolderIndex(filePath: string): FolderIndex | undefined {
+        let match: FolderIndex | undefined;
+
+        for (const [folderPath, folderIndex] of this.folders) {
+            if (this.isInFolder(filePath, folderPath) && (!match || folderPath.length > match.folder.uri.fsPath.length)) {
+                match = folderIndex;
+            }
         }
 
-        this.isIndexing = true;
+        return match;
+    }
+
+    private getEmbeddingSettings(): EmbeddingSettings {
+        const config = vscode.workspace.getConfiguration('kodely.costOptimization.embeddings');
+
+        return {
+            provider: config.get('provider', DEFAULT_EMBEDDING_SETTINGS.provider),
+            baseUrl: config.get('baseUrl', DEFAULT_EMBEDDING_SETTINGS.baseUrl),
+            model: config.get('model', DEFAULT_EMBEDDING_SETTINGS.model)
+        };
+    }
+
+    /**
+     * Switch to the configured embedding provider and embed the workspace
+     * with it
+     */
+    private async configureEmbeddings(): Promise<void> {
+        this.embeddingProvider = createEmbeddingProvider(this.getEmbeddingSettings());
+
+        for (const folderIndex of this.folders.values()) {
+            await this.loadVectorStore(folderIndex);
+            await this.updateEmbeddings(folderIndex);
+        }
+    }
+
+    /**
+     * Load the vectors of a folder for the current embedding provider
+     * Vectors stored for another model are discarded.
+     */
+    private async loadVectorStore(folderIndex: FolderIndex): Promise<void> {
+        const provider = this.embeddingProvider;
+        folderIndex.vectorStore = undefined;
+        folderIndex.vectorStoreSizeBytes = 0;
+
+        if (!provider) {
+            await fs.rm(folderIndex.vectorStorePath, { force: true }).catch(() => {});
+            return;
+        }
 
         try {
-            for (const folder of workspaceFolders) {
-                const folderPath = folder.uri.fsPath;
-
-                // Get all files in the workspace
-                const files = await glob('**/*', {
-                    cwd: folderPath,
-                    ignore: ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**'],
-                    nodir: true
-                });
+            const data = await fs.readFile(folderIndex.vectorStorePath, 'utf-8');
+            const store = VectorStore.deserialize(JSON.parse(data) as SerializedVectorStore);
 
-                for (const file of files) {
-                    const filePath = path.join(folderPath, file);
+            if (store.model === provider.id) {
+                folderIndex.vectorStore = store;
+                folderIndex.vectorStoreSizeBytes = Buffer.byteLength(data);
+            }
+        } catch (error) {
+            // Missing or unreadable; the vectors are rebuilt on the next indexing run
+        }
 
-                    // Skip files that match .kodelyignore patterns
-                    if (this.kodelyIgnoreController && !this.kodelyIgnoreController.validateAccess(filePath)) {
-                        continue;
-                    }
+        folderIndex.vectorStore ??= new VectorStore(provider.id);
+    }
 
-                    try {
-                        const stats = await fs.stat(filePath);
-
-                        // Skip large files (>1MB)
-                        if (stats.size > 1024 * 1024) {
-                            continue;
-                        }
-
-                        // Check if file is already indexed and up to date
-                        const existingDoc = this.indexedDocuments.get(filePath);
-                        if (existingDoc && existingDoc.lastModified >= stats.mtime.getTime()) {
-                            continue;
-                        }
-
-                        // Read and index the file
-                        const content = await fs.readFile(filePath, 'utf-8');
-                        const language = this.getLanguageFromPath(filePath);
-
-                        // Simple token count estimation (can be improved with a proper tokenizer)
-                        const tokens = this.estimateTokenCount(content);
-
-                        // Extract metadata
-                        const symbols = this.extractSymbols(content, language);
-                        const imports = this.extractImports(content, language);
-                        const exports = this.extractExports(content, language);
-                        const comments = this.extractComments(content, language);
-                        const fileType = this.detectFileType(filePath, content, language);
-
-                        this.indexedDocuments.set(filePath, {
-                            path: filePath,
-                            content,
-                            language,
-                            lastModified: stats.mtime.getTime(),
-                            tokens,
-                            symbols,
-                            imports,
-                            exports,
-                            comments,
-                            fileType
-                        });
-                    } catch (error) {
-                        console.error(`Error indexing file ${filePath}:`, error);
-                    }
+    /**
+     * Index a workspace folder
+     * Files are listed with the folder's .gitignore rules applied and then
+     * filtered through .kodelyignore.
+     */
+    private async indexFolder(folderIndex: FolderIndex): Promise<void> {
+        const folderPath = folderIndex.folder.uri.fsPath;
+        const files = await globby('**/*', {
+            cwd: folderPath,
+            gitignore: true,
+            ignore: IGNORED_DIRECTORIES.map(directory => `**/${directory}/**`),
+            onlyFiles: true
+        });
+
+        const seenPaths = new Set<string>();
+        let changed = false;
+
+        this.progress = { processed: 0, total: files.length };
+        this.fireStatus();
+
+        for (const file of files) {
+            const filePath = path.join(folderPath, file);
+
+            if (++this.progress.processed % PROGRESS_INTERVAL === 0) {
+                this.fireStatus();
+            }
+
+            // Skip files that match .kodelyignore patterns
+            if (!folderIndex.kodelyIgnoreController.validateAccess(filePath)) {
+                continue;
+            }
+
+            seenPaths.add(filePath);
+
+            try {
+                if (await this.indexFile(folderIndex, filePath)) {
+                    changed = true;
                 }
+            } catch (error) {
+                console.error(`Error indexing file ${filePath}:`, error);
             }
+        }
 
-            // Save the index
-            await this.saveIndex();
-        } finally {
-            this.isIndexing = false;
+        // Drop files that were deleted or became ignored since the last run
+        for (const indexedPath of folderIndex.index.paths()) {
+            if (!seenPaths.has(indexedPath)) {
+                folderIndex.index.removeFile(indexedPath);
+                changed = true;
+            }
         }
+
+        this.progress = undefined;
+
+        if (changed) {
+            await this.saveIndex(folderIndex);
+        }
+
+        await this.updateEmbeddings(folderIndex);
+    }
+
+    private queueChange(filePath: string): void {
+        this.pendingChanges.add(filePath);
+
+        clearTimeout(this.flushTimer);
+        this.flushTimer = setTimeout(() => {
+            this.runExclusive(() => this.applyPendingChanges());
+        }, WATCHER_DEBOUNCE_MS);
     }
 
     /**
-     * Search for relevant documents based on a query
+     * Update the index for the files reported by the watchers
      */
-    public async search(query: string, maxResults: number = 5, maxTokens: number = 10000): Promise<SearchResult[]> {
-        const results: SearchResult[] = [];
-        let totalTokens = 0;
+    private async applyPendingChanges(): Promise<void> {
+        const filePaths = Array.from(this.pendingChanges);
+        const changedFolders = new Set<FolderIndex>();
+        const foldersToRescan = new Set<FolderIndex>();
+        this.pendingChanges.clear();
+
+        for (const filePath of filePaths) {
+            const folderIndex = this.getFolderIndex(filePath);
 
-        // Simple relevance scoring based on term frequency
-        const queryTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 2);
+            if (!folderIndex) {
+                continue;
+            }
 
-        for (const doc of this.indexedDocuments.values()) {
-            const content = doc.content.toLowerCase();
-            let score = 0;
+            const stats = await fs.stat(filePath).catch(() => undefined);
 
-            // Score based on content match
-            for (const term of queryTerms) {
-                const count = (content.match(new RegExp(term, 'g')) || []).length;
-                score += count;
+            // A directory that was created or moved in only reports itself, and
+            // ignore file changes can affect any file in the folder
+            if (stats?.isDirectory() || IGNORE_FILE_NAMES.has(path.basename(filePath))) {
+                foldersToRescan.add(folderIndex);
+                continue;
             }
 
-            // Boost score based on metadata matches
-            // Check if any query terms match symbols (higher weight)
-            if (doc.symbols) {
-                for (const term of queryTerms) {
-                    for (const symbol of doc.symbols) {
-                        if (symbol.toLowerCase().includes(term)) {
-                            // Higher weight for symbol matches
-                            score += 5;
-                        }
-                    }
+            try {
+                const changed = stats && await this.isIndexable(folderIndex, filePath)
+                    ? await this.indexFile(folderIndex, filePath)
+                    : this.removePath(folderIndex, filePath);
+
+                if (changed) {
+                    changedFolders.add(folderIndex);
                 }
+            } catch (error) {
+                console.error(`Error indexing file ${filePath}:`, error);
             }
+        }
 
-            // Check if any query terms match imports
-            if (doc.imports) {
-                for (const term of queryTerms) {
-                    for (const importPath of doc.imports) {
-                        if (importPath.toLowerCase().includes(term)) {
-                            score += 2;
-                        }
-                    }
-                }
+        for (const folderIndex of foldersToRescan) {
+            await folderIndex.kodelyIgnoreController.initialize();
+            folderIndex.isGitIgnored = await this.loadGitIgnore(folderIndex.folder.uri.fsPath);
+            await this.indexFolder(folderIndex);
+            changedFolders.delete(folderIndex);
+        }
+
+        for (const folderIndex of changedFolders) {
+            await this.saveIndex(folderIndex);
+            await this.updateEmbeddings(folderIndex);
+        }
+    }
+
+    /**
+     * Whether a file is included by the same rules as `indexFolder`
+     */
+    private async isIndexable(folderIndex: FolderIndex, filePath: string): Promise<boolean> {
+        const relativePath = path.relative(folderIndex.folder.uri.fsPath, filePath);
+
+        // The glob in indexFolder skips dotfiles as well as ignored directories
+        if (relativePath.split(path.sep).some(part => part.startsWith('.') || IGNORED_DIRECTORIES.includes(part))) {
+            return false;
+        }
+
+        return !folderIndex.isGitIgnored(filePath) && folderIndex.kodelyIgnoreController.validateAccess(filePath);
+    }
+
+    /**
+     * Remove a file, or every file in a directory, from the index
+     * Deleting a directory only reports the directory itself.
+     * @returns true if the index was updated
+     */
+    private removePath(folderIndex: FolderIndex, removedPath: string): boolean {
+        let changed = false;
+
+        for (const indexedPath of folderIndex.index.paths()) {
+            if (indexedPath === removedPath || this.isInFolder(indexedPath, removedPath)) {
+                changed = folderIndex.index.removeFile(indexedPath) || changed;
             }
+        }
 
-            // Check if any query terms match exports
-            if (doc.exports) {
-                for (const term of queryTerms) {
-                    for (const exportName of doc.exports) {
-                        if (exportName.toLowerCase().includes(term)) {
-                            score += 3;
-                        }
-                    }
+        return changed;
+    }
+
+    /**
+     * Index a single file if it changed since it was last indexed
+     * @returns true if the index was updated
+     */
+    private async indexFile(folderIndex: FolderIndex, filePath: string): Promise<boolean> {
+        const { index } = folderIndex;
+        const stats = await fs.stat(filePath);
+
+        // Skip large files (>1MB)
+        if (stats.size > 1024 * 1024) {
+            return index.removeFile(filePath);
+        }
+
+        // Check if file is already indexed and up to date
+        if (index.isUpToDate(filePath, stats.mtime.getTime())) {
+            return false;
+        }
+
+        // Read and index the file
+        const content = await fs.readFile(filePath, 'utf-8');
+        const language = this.getLanguageFromPath(filePath);
+
+        // Extract metadata
+        const symbols = this.extractSymbols(content, language);
+        const imports = this.extractImports(content, language);
+        const exports = this.extractExports(content, language);
+
+        const document: IndexedDocument = {
+            path: filePath,
+            language,
+            lastModified: stats.mtime.getTime(),
+            // Simple token count estimation (can be improved with a proper tokenizer)
+            tokens: this.estimateTokenCount(content),
+            symbols,
+            imports,
+            exports,
+            fileType: this.detectFileType(filePath, content, language)
+        };
+
+        // Split the file along its functions, classes and sections so that
+        // retrieval can return just the relevant part of a large file
+        const chunks = await chunkFile(filePath, content);
+
+        index.addFile(document, chunks.map(chunk => {
+            const mentioned = (names: string[]) => names.filter(name => chunk.text.includes(name)).join(' ');
+
+            return {
+                chunk: {
+                    startLine: chunk.startLine,
+                    endLine: chunk.endLine,
+                    kind: chunk.kind,
+                    name: chunk.name,
+                    tokens: this.estimateTokenCount(chunk.text)
+                },
+                fields: {
+                    content: chunk.text,
+                    symbols: [chunk.name ?? '', mentioned(symbols)].join(' '),
+                    imports: mentioned(imports),
+                    exports: mentioned(exports)
                 }
+            };
+        }));
+
+        return true;
+    }
+
+    /**
+     * Embed the chunks of files whose vectors are missing or out of date
+     * Embedding stops at the first failure (typically an unreachable endpoint)
+     * and resumes on the next indexing run; keyword search works meanwhile.
+     */
+    private async updateEmbeddings(folderIndex: FolderIndex): Promise<void> {
+        const provider = this.embeddingProvider;
+        const { index, vectorStore: store } = folderIndex;
+
+        if (!provider || !store) {
+            return;
+        }
+
+        let changed = false;
+
+        for (const storedPath of store.paths()) {
+            if (!index.getDocument(storedPath)) {
+                store.removeFile(storedPath);
+                changed = true;
             }
+        }
 
-            // Check if any query terms match comments
-            if (doc.comments) {
-                for (const term of queryTerms) {
-                    for (const comment of doc.comments) {
-                        if (comment.toLowerCase().includes(term)) {
-                            score += 1.5;
-                        }
-                    }
+        try {
+            for (const filePath of index.paths()) {
+                const document = index.getDocument(filePath)!;
+
+                if (store.isUpToDate(filePath, document.lastModified)) {
+                    continue;
                 }
+
+                let lines: string[];
+
+                try {
+                    lines = (await fs.readFile(filePath, 'utf-8')).split('\n');
+                } catch (error) {
+                    // Removed since it was indexed; dropped on the next indexing run
+                    continue;
+                }
+
+                const chunks = index.getChunks(filePath);
+                const vectors = await provider.embed(chunks.map(chunk => this.getEmbeddingText(filePath, chunk, lines)));
+
+                store.setFile(filePath, document.lastModified, chunks.map((chunk, i) => ({
+                    startLine: chunk.startLine,
+                    endLine: chunk.endLine,
+                    vector: vectors[i]
+                })));
+                changed = true;
+            }
+        } catch (error) {
+            console.error('Failed to embed workspace for RAG:', error);
+        } finally {
+            if (changed) {
+                await this.saveVectorStore(folderIndex);
             }
+        }
+    }
+
+    /**
+     * Get the text embedded for a chunk
+     * The path and name are included because they often carry the meaning
+     * that a conceptual query refers to.
+     */
+    private getEmbeddingText(filePath: string, chunk: IndexedChunk, lines: string[]): string {
+        const header = `${vscode.workspace.asRelativePath(filePath)}\n${chunk.kind}${chunk.name ? ` ${chunk.name}` : ''}\n`;
+        return (header + lines.slice(chunk.startLine - 1, chunk.endLine).join('\n')).slice(0, MAX_EMBEDDING_CHARS);
+    }
+
+    /**
+     * Rank chunks by the similarity of their embedding to the query's
+     * @returns An empty list if semantic search is disabled or unavailable
+     */
+    private async searchVectors(query: string, limit: number, filter?: DocumentFilter): Promise<ChunkMatch[]> {
+        const folders = Array.from(this.folders.values()).filter(folderIndex => folderIndex.vectorStore?.size);
+
+        if (!this.embeddingProvider || folders.length === 0) {
+            return [];
+        }
+
+        try {
+            const [vector] = await this.embeddingProvider.embed([query]);
+
+            return folders
+                .flatMap(folderIndex => {
+                    const { index } = folderIndex;
+                    const pathFilter = filter && ((filePath: string) => {
+                        const document = index.getDocument(filePath);
+                        return !!document && filter(document);
+                    });
+
+                    return folderIndex.vectorStore!.search(vector, limit, pathFilter).flatMap(match => {
+                        const document = index.getDocument(match.path);
+                        const chunk = index.getChunks(match.path)
+                            .find(chunk => chunk.startLine === match.startLine && chunk.endLine === match.endLine);
+
+                        // Skip vectors of chunks that were re-indexed but not re-embedded yet
+                        return document && chunk ? [{ folderIndex, document, chunk, score: match.score }] : [];
+                    });
+                })
+                .sort((a, b) => b.score - a.score)
+                .slice(0, limit);
+        } catch (error) {
+            console.error('Failed to embed RAG query:', error);
+            return [];
+        }
+    }
 
-            // Check if query mentions a specific file type
-            if (doc.fileType && queryTerms.some(term =>
-                doc.fileType!.toLowerCase().includes(term) ||
-                (term === 'test' && doc.fileType!.includes('-test')) ||
-                (term === 'react' && doc.fileType!.includes('-react'))
-            )) {
-                score += 4;
+    /**
+     * Rank chunks for a query
+     * Keyword (BM25F) and, when embeddings are configured, vector similarity
+     * rankings are combined with reciprocal rank fusion.
+     */
+    private async rankChunks(query: string, limit: number, filter?: DocumentFilter): Promise<ChunkMatch[]> {
+        const candidateCount = limit * CANDIDATES_PER_RESULT;
+        const keywordMatches = Array.from(this.folders.values())
+            .flatMap(folderIndex => folderIndex.index.search(query, candidateCount, filter).map(match => ({ folderIndex, ...match })))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, candidateCount);
+        const vectorMatches = await this.searchVectors(query, candidateCount, filter);
+
+        if (vectorMatches.length === 0) {
+            return keywordMatches.slice(0, limit);
+        }
+
+        const candidates = new Map<string, ChunkMatch>();
+        const keyOf = ({ document, chunk }: ChunkMatch) => `${document.path}:${chunk.startLine}`;
+
+        for (const match of [...keywordMatches, ...vectorMatches]) {
+            candidates.set(keyOf(match), match);
+        }
+
+        return reciprocalRankFusion([keywordMatches.map(keyOf), vectorMatches.map(keyOf)])
+            .slice(0, limit)
+            .map(({ key, score }) => ({ ...candidates.get(key)!, score }));
+    }
+
+    /**
+     * Search for relevant code based on a query
+     * Chunks (functions, classes, sections) are ranked with BM25F over their
+     * content and metadata, fused with semantic similarity when embeddings are
+     * enabled. Small chunks are returned whole, larger ones are trimmed to
+     * their best matching lines.
+     * @param filter - Optional predicate to restrict the files searched
+     */
+    public async search(query: string, maxResults: number = 5, maxTokens: number = 10000, filter?: DocumentFilter): Promise<SearchResult[]> {
+        const terms = tokenizeQuery(query);
+        const matches = await this.rankChunks(query, maxResults, filter);
+        const fileLines = new Map<string, string[] | undefined>();
+        const results: SearchResult[] = [];
+        let totalTokens = 0;
+
+        for (const match of matches) {
+            const { folderIndex, document, chunk } = match;
+
+            if (!fileLines.has(document.path)) {
+                try {
+                    fileLines.set(document.path, (await fs.readFile(document.path, 'utf-8')).split('\n'));
+                } catch (error) {
+                    // The file was removed since it was indexed
+                    fileLines.set(document.path, undefined);
+                    folderIndex.index.removeFile(document.path);
+                }
             }
 
-            // Normalize by document length
-            score = score / (doc.tokens || 1);
+            const lines = fileLines.get(document.path);
 
-            if (score > 0) {
-                results.push({
-                    document: doc,
-                    relevanceScore: score
-                });
+            if (!lines) {
+                continue;
             }
-        }
 
-        // Sort by relevance score
-        results.sort((a, b) => b.relevanceScore - a.relevanceScore);
+            const termWeights = new Map(terms.map(term => [term, folderIndex.index.idf(term)] as const));
+            const chunkText = lines.slice(chunk.startLine - 1, chunk.endLine).join('\n');
+            let candidates: Snippet[] = chunk.endLine - chunk.startLine + 1 <= MAX_WHOLE_CHUNK_LINES
+                ? [{ startLine: chunk.startLine, endLine: chunk.endLine, text: chunkText, score: match.score }]
+                : extractSnippets(chunkText, termWeights, { maxSnippets: 2 }).map(snippet => ({
+                    ...snippet,
+                    startLine: snippet.startLine + chunk.startLine - 1,
+                    endLine: snippet.endLine + chunk.startLine - 1
+                }));
+
+            // Semantic matches may share no terms with the query; show the start of the chunk
+            if (candidates.length === 0) {
+                const endLine = chunk.startLine + MAX_WHOLE_CHUNK_LINES - 1;
+                candidates = [{ startLine: chunk.startLine, endLine, text: lines.slice(chunk.startLine - 1, endLine).join('\n'), score: match.score }];
+            }
+
+            const snippets: Snippet[] = [];
+
+            for (const snippet of candidates) {
+                const tokens = this.estimateTokenCount(snippet.text);
+
+                if (totalTokens + tokens > maxTokens) {
+                    continue;
+                }
+
+                snippets.push(snippet);
+                totalTokens += tokens;
+            }
 
-        // Filter to respect token limit
-        const filteredResults: SearchResult[] = [];
-        for (const result of results.slice(0, maxResults)) {
-            if (totalTokens + result.document.tokens <= maxTokens) {
-                filteredResults.push(result);
-                totalTokens += result.document.tokens;
+            if (snippets.length > 0) {
+                results.push({
+                    document,
+                    chunk,
+                    relevanceScore: match.score,
+                    snippets
+                });
             }
         }
 
-        return filteredResults;
+        return results;
     }
 
     /**
      * Get relevant context for a query
      */
-    public async getRelevantContext(query: string, maxTokens: number = 10000): Promise<string> {
-        const results = await this.search(query, 10, maxTokens);
+    public async getRelevantContext(query: string, maxTokens: number = 10000, filter?: DocumentFilter): Promise<string> {
+        const results = await this.search(query, 10, maxTokens, filter);
 
         if (results.length === 0) {
             return "";
         }
 
         // Format the results into a context string
-        let context = "Relevant code from the codebase:\n\n";
+        let context = "Relevant code from the codebase (use read_file with the listed line ranges to see more):\n\n";
 
         for (const result of results) {
-            const doc = result.document;
+            const { document: doc, chunk } = result;
             const relativePath = vscode.workspace.asRelativePath(doc.path);
 
-            // Add file metadata
-            context += `File: ${relativePath} (${doc.language}${doc.fileType && doc.fileType !== doc.language ? `, ${doc.fileType}` : ''})\n`;
-
-            // Add symbols if available
-            if (doc.symbols && doc.symbols.length > 0) {
-                context += `Symbols: ${doc.symbols.join(', ')}\n`;
-            }
-
-            // Add imports if available
-            if (doc.imports && doc.imports.length > 0) {
-                context += `Imports: ${doc.imports.join(', ')}\n`;
-            }
+            // Add chunk location and metadata
+            context += `File: ${relativePath}:${chunk.startLine}-${chunk.endLine} (${doc.language}${doc.fileType && doc.fileType !== doc.language ? `, ${doc.fileType}` : ''}; ${chunk.kind}${chunk.name ? ` ${chunk.name}` : ''})\n`;
 
-            // Add exports if available
-            if (doc.exports && doc.exports.length > 0) {
-                context += `Exports: ${doc.exports.join(', ')}\n`;
+            // Add code snippets with their line ranges
+            for (const snippet of result.snippets) {
+                context += `Lines ${snippet.startLine}-${snippet.endLine}:\n\`\`\`${doc.language}\n${snippet.text}\n\`\`\`\n`;
             }
 
-            // Add code content
-            context += `\`\`\`${doc.language}\n${doc.content}\n\`\`\`\n\n`;
+            context += '\n';
         }
 
         return context;
     }
 
     /**
-     * Save the index to disk
+     * Save the index of a workspace folder to disk
      */
-    private async saveIndex(): Promise<void> {
+    private async saveIndex(folderIndex: FolderIndex): Promise<void> {
         try {
             // Create directory if it doesn't exist
-            await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
-
-            // Convert Map to array for serialization
-            const serializedIndex = Array.from(this.indexedDocuments.entries());
+            await fs.mkdir(path.dirname(folderIndex.indexPath), { recursive: true });
 
             // Save to disk
-            await fs.writeFile(this.indexPath, JSON.stringify(serializedIndex), 'utf-8');
-            console.log('RAG index saved successfully');
+            const data = JSON.stringify(folderIndex.index.serialize());
+            await fs.writeFile(folderIndex.indexPath, data, 'utf-8');
+            folderIndex.indexSizeBytes = Buffer.byteLength(data);
+            folderIndex.lastUpdated = Date.now();
         } catch (error) {
             console.error('Failed to save RAG index:', error);
         }
     }
 
     /**
-     * Load the index from disk
+     * Save the chunk embeddings of a workspace folder to disk
      */
-    private async loadIndex(): Promise<void> {
+    private async saveVectorStore(folderIndex: FolderIndex): Promise<void> {
+        if (!folderIndex.vectorStore) {
+            return;
+        }
+
         try {
-            const data = await fs.readFile(this.indexPath, 'utf-8');
-            const serializedIndex = JSON.parse(data) as [string, IndexedDocument][];
+            await fs.mkdir(path.dirname(folderIndex.vectorStorePath), { recursive: true });
 
-            this.indexedDocuments = new Map(serializedIndex);
+            const data = JSON.stringify(folderIndex.vectorStore.serialize());
+            await fs.writeFile(folderIndex.vectorStorePath, data, 'utf-8');
+            folderIndex.vectorStoreSizeBytes = Buffer.byteLength(data);
         } catch (error) {
-            throw new Error(`Failed to load RAG index: ${error}`);
+            console.error('Failed to save RAG vector store:', error);
         }
     }
 
+    private isInFolder(filePath: string, folderPath: string): boolean {
+        const relativePath = path.relative(folderPath, filePath);
+        return !!relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    }
+
     /**
      * Get the language from a file path
      */
@@ -536,45 +1104,6 @@ export class LocalRagService {
         return [...new Set(exports)]; // Remove duplicates
     }
 
-    /**
-     * Extract comments from content
-     * @param content The file content
-     * @param language The programming language (unused but kept for consistency with other methods)
-     */
-    private extractComments(content: string, language: string): string[] {
-        const comments: string[] = [];
-
-        try {
-            // Match single-line comments (for JS, TS, Java, C++, etc.)
-            const singleLineComments = content.match(/\/\/.*$/gm) || [];
-            // Match multi-line comments (for JS, TS, Java, C++, etc.)
-            const multiLineComments = content.match(/\/\*[\s\S]*?\*\//g) || [];
-            // Match Python/shell/Ruby comments
-            const hashComments = content.match(/#.*$/gm) || [];
-
-            // Language-specific comment handling could be added here if needed
-
-            singleLineComments.forEach(comment => {
-                const cleanComment = comment.replace(/\/\/\s*/, '').trim();
-                if (cleanComment) comments.push(cleanComment);
-            });
-
-            multiLineComments.forEach(comment => {
-                const cleanComment = comment.replace(/\/\*\s*/, '').replace(/\s*\*\//, '').trim();
-                if (cleanComment) comments.push(cleanComment);
-            });
-
-            hashComments.forEach(comment => {
-                const cleanComment = comment.replace(/#\s*/, '').trim();
-                if (cleanComment) comments.push(cleanComment);
-            });
-        } catch (error) {
-            console.error('Error extracting comments:', error);
-        }
-
-        return comments;
-    }
-
     /**
      * Detect file type based on content and path
      */
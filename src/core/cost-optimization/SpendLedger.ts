@@ -0,0 +1,126 @@
+import * as path from "path"
+import fs from "fs/promises"
+import * as vscode from "vscode"
+
+import { GlobalFileNames } from "../../shared/globalFileNames"
+import { fileExistsAtPath } from "../../utils/fs"
+
+export const SPEND_LEDGER_FORMAT_VERSION = 1
+
+export type SpendPeriod = "day" | "month"
+
+interface DaySpend {
+	total: number
+	profiles: Record<string, number> // Keyed on provider profile id
+}
+
+interface SerializedSpendLedger {
+	version: number
+	days: Record<string, DaySpend> // Keyed on local date, YYYY-MM-DD
+}
+
+const toDayKey = (date: Date) =>
+	`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+
+const toMonthKey = (date: Date) => toDayKey(date).slice(0, 7)
+
+/**
+ * Persistent record of API spend per day, in total and per provider profile,
+ * used to enforce daily and monthly budgets across tasks and restarts.
+ *
+ * The ledger is shared by every VS Code window, so it is re-read before each
+ * query and update instead of being cached. Days before the previous month
+ * are dropped when the ledger is written.
+ */
+export class SpendLedger {
+	private static instance?: SpendLedger
+
+	private writeQueue: Promise<void> = Promise.resolve()
+
+	private constructor(private readonly context: vscode.ExtensionContext) {}
+
+	public static getInstance(context: vscode.ExtensionContext): SpendLedger {
+		if (!SpendLedger.instance) {
+			SpendLedger.instance = new SpendLedger(context)
+		}
+
+		return SpendLedger.instance
+	}
+
+	private get filePath(): string {
+		return path.join(this.context.globalStorageUri.fsPath, GlobalFileNames.spendLedger)
+	}
+
+	private async read(): Promise<SerializedSpendLedger> {
+		if (await fileExistsAtPath(this.filePath)) {
+			try {
+				const data: SerializedSpendLedger = JSON.parse(await fs.readFile(this.filePath, "utf8"))
+
+				if (data.version === SPEND_LEDGER_FORMAT_VERSION) {
+					return data
+				}
+			} catch (error) {
+				console.error("Failed to read spend ledger:", error)
+			}
+		}
+
+		return { version: SPEND_LEDGER_FORMAT_VERSION, days: {} }
+	}
+
+	/**
+	 * Adds the cost of an API request to today's spend.
+	 *
+	 * @param cost - Cost in USD
+	 * @param profileId - Id of the provider profile the request was made with
+	 */
+	public record(cost: number, profileId?: string, date: Date = new Date()): Promise<void> {
+		if (!(cost > 0)) {
+			return this.writeQueue
+		}
+
+		this.writeQueue = this.writeQueue
+			.then(async () => {
+				const data = await this.read()
+				const key = toDayKey(date)
+				const day = (data.days[key] ??= { total: 0, profiles: {} })
+
+				day.total += cost
+
+				if (profileId) {
+					day.profiles[profileId] = (day.profiles[profileId] ?? 0) + cost
+				}
+
+				const oldestKept = toMonthKey(new Date(date.getFullYear(), date.getMonth() - 1, 1))
+
+				for (const dayKey of Object.keys(data.days)) {
+					if (dayKey.slice(0, 7) < oldestKept) {
+						delete data.days[dayKey]
+					}
+				}
+
+				await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+				await fs.writeFile(this.filePath, JSON.stringify(data))
+			})
+			.catch((error) => {
+				console.error("Failed to update spend ledger:", error)
+			})
+
+		return this.writeQueue
+	}
+
+	/**
+	 * Returns the spend of the day or month containing `date`.
+	 *
+	 * @param profileId - Restrict to requests made with this provider profile
+	 */
+	public async getSpend(period: SpendPeriod, profileId?: string, date: Date = new Date()): Promise<number> {
+		await this.writeQueue
+
+		const { days } = await this.read()
+		const prefix = period === "day" ? toDayKey(date) : toMonthKey(date)
+
+		return Object.entries(days)
+			.filter(([key]) => key.startsWith(prefix))
+			.reduce((sum, [, day]) => sum + (profileId ? (day.profiles[profileId] ?? 0) : day.total), 0)
+	}
+}
@@ -0,0 +1,165 @@
+// npx jest src/core/cost-optimization/__tests__/CodeCompressor.test.ts
+
+import * as path from "path"
+
+import { applyEdits, CodeCompressor } from "../CodeCompressor"
+import { loadRequiredLanguageParsers } from "../../../services/tree-sitter/languageParser"
+import { initializeWorkingParser } from "../../../services/tree-sitter/__tests__/helpers"
+
+jest.mock("../../../services/tree-sitter/languageParser", () => ({
+	loadRequiredLanguageParsers: jest.fn(),
+}))
+
+const grammars: Record<string, string> = { ts: "typescript", py: "python", go: "go" }
+
+describe("applyEdits", () => {
+	const content = ["const a = 1 // one", "// gone", "", "const b = 2", ""].join("\n")
+	const edits = [
+		{ start: content.indexOf("// one"), end: content.indexOf("// one") + 6, replacement: "" },
+		{ start: content.indexOf("// gone"), end: content.indexOf("// gone") + 7, replacement: "" },
+	]
+
+	it("should trim edited lines, drop lines left blank and map lines back to the original", () => {
+		expect(applyEdits(content, edits)).toEqual({
+			lines: ["const a = 1", "", "const b = 2"],
+			lineNumbers: [1, 3, 4],
+		})
+	})
+
+	it("should drop all blank lines when asked to", () => {
+		expect(applyEdits(content, edits, true)).toEqual({
+			lines: ["const a = 1", "const b = 2"],
+			lineNumbers: [1, 4],
+		})
+	})
+
+	it("should attribute a multi-line replacement to the line it starts on", () => {
+		const source = "function f() {\n\treturn 1\n}\nf()"
+
+		expect(applyEdits(source, [{ start: 13, end: 26, replacement: "{ ... }" }])).toEqual({
+			lines: ["function f() { ... }", "f()"],
+			lineNumbers: [1, 4],
+		})
+	})
+})
+
+describe("CodeCompressor", () => {
+	beforeAll(async () => {
+		const TreeSitter = await initializeWorkingParser()
+
+		jest.mocked(loadRequiredLanguageParsers).mockImplementation(async ([file]) => {
+			const ext = path.extname(file).slice(1)
+			const language = await TreeSitter.Language.load(`tree-sitter-${grammars[ext]}.wasm`)
+			const parser = new TreeSitter()
+			parser.setLanguage(language)
+			return { [ext]: { parser, query: language.query("(comment) @comment") } }
+		})
+	})
+
+	it("should strip comments without touching strings or expressions", async () => {
+		const content = [
+			"/**",
+			" * Fetches the thing.",
+			" */",
+			'const url = "https://example.com/a//b" // the endpoint',
+			"const value = compute(/* inline */ 1, console.log(url), 2)",
+			"",
+		].join("\n")
+
+		const result = await CodeCompressor.compress("file.ts", content, { level: "comments" })
+
+		expect(result?.content).toBe(
+			['const url = "https://example.com/a//b"', "const value = compute( 1, console.log(url), 2)"].join("\n"),
+		)
+		expect(result?.lineNumbers).toEqual([4, 5])
+		expect(result?.compressedTokens).toBeLessThan(result!.originalTokens)
+	})
+
+	it("should keep Python strings and indentation", async () => {
+		const content = [
+			"def greet(name):",
+			"    # Say hello",
+			'    print("# not a comment")',
+			"    if name:",
+			"        return name  # trailing",
+			"    return None",
+		].join("\n")
+
+		const result = await CodeCompressor.compress("greet.py", content, { level: "comments" })
+
+		expect(result?.content).toBe(
+			[
+				"def greet(name):",
+				'    print("# not a comment")',
+				"    if name:",
+				"        return name",
+				"    return None",
+			].join("\n"),
+		)
+	})
+
+	it("should collapse the bodies of functions that are not targeted", async () => {
+		const content = [
+			"def first(a):",
+			"    b = a + 1",
+			"    return b",
+			"",
+			"def second(a):",
+			"    b = a * 2",
+			"    return b",
+		].join("\n")
+
+		const result = await CodeCompressor.compress("funcs.py", content, {
+			level: "signatures",
+			targetLines: [{ start: 6, end: 6 }],
+		})
+
+		expect(result?.content).toBe(
+			["def first(a):", "    ...", "", "def second(a):", "    b = a * 2", "    return b"].join("\n"),
+		)
+		expect(result?.lineNumbers).toEqual([1, 2, 4, 5, 6, 7])
+	})
+
+	it("should reduce a file to its skeleton", async () => {
+		const content = [
+			"class Greeter {",
+			"\tconstructor(private name: string) {",
+			"\t\tthis.name = name",
+			"\t}",
+			"",
+			"\tgreet(): string {",
+			"\t\treturn `Hello ${this.name}`",
+			"\t}",
+			"}",
+		].join("\n")
+
+		const result = await CodeCompressor.compress("greeter.ts", content, {
+			level: "skeleton",
+			targetLines: [{ start: 7, end: 7 }],
+		})
+
+		expect(result?.content).toBe(
+			["class Greeter {", "\tconstructor(private name: string) { ... }", "\tgreet(): string { ... }", "}"].join(
+				"\n",
+			),
+		)
+		expect(result?.lineNumbers).toEqual([1, 2, 6, 9])
+	})
+
+	it("should keep build directives", async () => {
+		const content = ["//go:build linux", "", "// Package main does things.", "package main", ""].join("\n")
+
+		const result = await CodeCompressor.compress("main.go", content, { level: "comments" })
+
+		expect(result?.content).toBe(["//go:build linux", "", "package main"].join("\n"))
+	})
+
+	it("should leave files that don't parse or have no grammar alone", async () => {
+		expect(await CodeCompressor.compress("broken.ts", "const a = (1 +\n// comment\n", { level: "comments" })).toBe(
+			undefined,
+		)
+		expect(await CodeCompressor.compress("notes.txt", "// not code", { level: "comments" })).toBe(undefined)
+		expect(CodeCompressor.isSupported("notes.txt")).toBe(false)
+		expect(CodeCompressor.isSupported("src/App.TSX")).toBe(true)
+	})
+})
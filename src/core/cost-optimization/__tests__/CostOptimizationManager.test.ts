@@ -0,0 +1,138 @@
+// npx jest src/core/cost-optimization/__tests__/CostOptimizationManager.test.ts
+
+import * as vscode from "vscode"
+
+import { ModelRoutingPolicy } from "../../../schemas"
+import { ModelInfo } from "../../../shared/api"
+import { CostOptimizationLevel, CostOptimizationManager, ModelRoutingSignals } from "../CostOptimizationManager"
+
+describe("CostOptimizationManager", () => {
+	describe("routeRequest", () => {
+		const context = {
+			globalState: { get: jest.fn((_key: string, defaultValue: unknown) => defaultValue), update: jest.fn() },
+		} as unknown as vscode.ExtensionContext
+
+		const manager = new CostOptimizationManager(context)
+
+		const policy: ModelRoutingPolicy = {
+			balanced: [
+				{ profile: "strong", lastTools: ["apply_diff"], lastToolFailed: true },
+				{ profile: "strong", modes: ["architect"] },
+				{ profile: "long-context", minContextTokens: 100_000 },
+				{ profile: "cheap", lastTools: ["read_file", "list_files"], maxContextTokens: 50_000 },
+			],
+			high: [{ profile: "cheap" }],
+		}
+
+		const signals: ModelRoutingSignals = {
+			mode: "code",
+			lastToolFailed: false,
+			consecutiveMistakes: 0,
+			contextTokens: 10_000,
+		}
+
+		it("should pick the profile of the first matching rule of the level", () => {
+			expect(manager.routeRequest(policy, { ...signals, lastTool: "read_file" })).toBe("cheap")
+			expect(manager.routeRequest(policy, { ...signals, mode: "architect", lastTool: "read_file" })).toBe("strong")
+			expect(manager.routeRequest(policy, { ...signals, lastTool: "apply_diff", lastToolFailed: true })).toBe(
+				"strong",
+			)
+			expect(manager.routeRequest(policy, { ...signals, lastTool: "read_file", contextTokens: 150_000 })).toBe(
+				"long-context",
+			)
+		})
+
+		it("should keep the task's profile when no rule matches", () => {
+			expect(manager.routeRequest(policy, signals)).toBeUndefined()
+			expect(manager.routeRequest(policy, { ...signals, lastTool: "apply_diff" })).toBeUndefined()
+			expect(manager.routeRequest(policy, { ...signals, lastTool: "read_file", contextTokens: 60_000 })).toBe(
+				undefined,
+			)
+			expect(manager.routeRequest(undefined, signals)).toBeUndefined()
+			expect(manager.routeRequest(policy, signals, CostOptimizationLevel.LOW)).toBeUndefined()
+		})
+
+		it("should use the rules of the given level", () => {
+			expect(manager.routeRequest(policy, signals, CostOptimizationLevel.HIGH)).toBe("cheap")
+		})
+
+		it("should match the number of consecutive mistakes", () => {
+			const mistakesPolicy: ModelRoutingPolicy = { balanced: [{ profile: "strong", minConsecutiveMistakes: 2 }] }
+
+			expect(manager.routeRequest(mistakesPolicy, { ...signals, consecutiveMistakes: 1 })).toBeUndefined()
+			expect(manager.routeRequest(mistakesPolicy, { ...signals, consecutiveMistakes: 2 })).toBe("strong")
+		})
+	})
+
+	describe("getContextPolicy", () => {
+		const createContext = (saved: Record<string, unknown> = {}) =>
+			({
+				globalState: {
+					get: jest.fn((key: string, defaultValue: unknown) => saved[key] ?? defaultValue),
+					update: jest.fn(),
+				},
+			}) as unknown as vscode.ExtensionContext
+
+		const modelInfo: ModelInfo = { contextWindow: 200_000, maxTokens: 8192, supportsPromptCache: true }
+
+		it.each([
+			[CostOptimizationLevel.LOW, { maxContextWindowUsage: 95, reservedOutputTokens: 4000, truncationFraction: 0.25 }],
+			[
+				CostOptimizationLevel.BALANCED,
+				{ maxContextWindowUsage: 85, reservedOutputTokens: 2000, truncationFraction: 0.5 },
+			],
+			[CostOptimizationLevel.HIGH, { maxContextWindowUsage: 70, reservedOutputTokens: 1000, truncationFraction: 0.75 }],
+		])("should derive the policy of %s optimization from its settings", async (level, expected) => {
+			const manager = new CostOptimizationManager(createContext())
+			await manager.setOptimizationLevel(level)
+
+			expect(manager.getContextPolicy(modelInfo)).toEqual(expected)
+		})
+
+		it("should follow the configured context usage and output tokens", async () => {
+			const manager = new CostOptimizationManager(createContext())
+			await manager.updateSettings({ maxContextWindowUsage: 60, maxOutputTokens: 3000 })
+
+			expect(manager.getContextPolicy(modelInfo)).toEqual({
+				maxContextWindowUsage: 60,
+				reservedOutputTokens: 3000,
+				truncationFraction: 0.5,
+			})
+		})
+
+		it("should not reserve more output tokens than the model can generate", async () => {
+			const manager = new CostOptimizationManager(createContext())
+			await manager.setOptimizationLevel(CostOptimizationLevel.LOW)
+
+			expect(manager.getContextPolicy({ ...modelInfo, maxTokens: 1024 }).reservedOutputTokens).toBe(1024)
+		})
+
+		it("should take the truncation fraction from the level when the level changes", async () => {
+			const manager = new CostOptimizationManager(createContext())
+			await manager.updateSettings({ optimizationLevel: CostOptimizationLevel.HIGH, maxContextWindowUsage: 80 })
+
+			expect(manager.getContextPolicy(modelInfo)).toEqual({
+				maxContextWindowUsage: 80,
+				reservedOutputTokens: 2000,
+				truncationFraction: 0.75,
+			})
+		})
+
+		it("should fall back to the level's truncation fraction for settings saved without one", () => {
+			const manager = new CostOptimizationManager(
+				createContext({
+					costOptimizationLevel: CostOptimizationLevel.LOW,
+					costOptimizationSettings: {
+						optimizationLevel: CostOptimizationLevel.LOW,
+						maxContextWindowUsage: 95,
+						useLocalRag: false,
+						maxOutputTokens: 4000,
+						compressCodeInContext: false,
+					},
+				}),
+			)
+
+			expect(manager.getContextPolicy(modelInfo).truncationFraction).toBe(0.25)
+		})
+	})
+})
@@ -0,0 +1,53 @@
+// npx jest src/core/cost-optimization/__tests__/SpendLedger.test.ts
+
+import * as os from "os"
+import * as path from "path"
+import fs from "fs/promises"
+import * as vscode from "vscode"
+
+import { SpendLedger } from "../SpendLedger"
+
+describe("SpendLedger", () => {
+	let storagePath: string
+	let ledger: SpendLedger
+
+	beforeEach(async () => {
+		storagePath = await fs.mkdtemp(path.join(os.tmpdir(), "spend-ledger-"))
+		const context = { globalStorageUri: { fsPath: storagePath } } as unknown as vscode.ExtensionContext
+		ledger = new (SpendLedger as any)(context)
+	})
+
+	afterEach(async () => {
+		await fs.rm(storagePath, { recursive: true, force: true })
+	})
+
+	it("should sum spend per day and month, in total and per profile", async () => {
+		await ledger.record(1, "a", new Date(2025, 2, 1))
+		await ledger.record(2, "b", new Date(2025, 2, 1))
+		await ledger.record(4, "a", new Date(2025, 2, 15))
+
+		expect(await ledger.getSpend("day", undefined, new Date(2025, 2, 1))).toBe(3)
+		expect(await ledger.getSpend("day", "a", new Date(2025, 2, 1))).toBe(1)
+		expect(await ledger.getSpend("month", undefined, new Date(2025, 2, 20))).toBe(7)
+		expect(await ledger.getSpend("month", "a", new Date(2025, 2, 20))).toBe(5)
+		expect(await ledger.getSpend("month", "c", new Date(2025, 2, 20))).toBe(0)
+	})
+
+	it("should persist across instances and ignore non-positive costs", async () => {
+		await Promise.all([ledger.record(1.5), ledger.record(0), ledger.record(2.5)])
+
+		const context = { globalStorageUri: { fsPath: storagePath } } as unknown as vscode.ExtensionContext
+		const other: SpendLedger = new (SpendLedger as any)(context)
+
+		expect(await other.getSpend("day")).toBe(4)
+	})
+
+	it("should drop days before the previous month", async () => {
+		await ledger.record(1, undefined, new Date(2025, 0, 31))
+		await ledger.record(2, undefined, new Date(2025, 1, 10))
+		await ledger.record(3, undefined, new Date(2025, 2, 1))
+
+		expect(await ledger.getSpend("month", undefined, new Date(2025, 0, 31))).toBe(0)
+		expect(await ledger.getSpend("month", undefined, new Date(2025, 1, 10))).toBe(2)
+	})
+})
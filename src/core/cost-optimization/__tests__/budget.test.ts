@@ -0,0 +1,38 @@
+// npx jest src/core/cost-optimization/__tests__/budget.test.ts
+
+import { findExceededBudgets, getApprovedSpend, hasBudget } from "../budget"
+
+describe("findExceededBudgets", () => {
+	const spent = { task: 0.5, day: 4, month: 40 }
+
+	it("should report every limit the next request would exceed", () => {
+		expect(findExceededBudgets({ perTask: 1, perDay: 4.2, perMonth: 100 }, spent, 0.3, "default")).toEqual([
+			{ period: "day", profileName: "default", limit: 4.2, spent: 4, estimatedCost: 0.3 },
+		])
+
+		expect(findExceededBudgets({ perTask: 0.6, perMonth: 40 }, spent, 0.2)).toEqual([
+			{ period: "task", profileName: undefined, limit: 0.6, spent: 0.5, estimatedCost: 0.2 },
+			{ period: "month", profileName: undefined, limit: 40, spent: 40, estimatedCost: 0.2 },
+		])
+	})
+
+	it("should ignore unset and non-positive limits", () => {
+		expect(findExceededBudgets(undefined, spent, 10)).toEqual([])
+		expect(findExceededBudgets({ perTask: 0, perDay: -1 }, spent, 10)).toEqual([])
+	})
+})
+
+describe("getApprovedSpend", () => {
+	it("should allow another tenth of the limit past the approved request", () => {
+		expect(getApprovedSpend({ period: "day", limit: 10, spent: 9.5, estimatedCost: 1 })).toBeCloseTo(11.5)
+	})
+})
+
+describe("hasBudget", () => {
+	it("should only be true when a positive limit is set", () => {
+		expect(hasBudget(undefined)).toBe(false)
+		expect(hasBudget({})).toBe(false)
+		expect(hasBudget({ perDay: 0 })).toBe(false)
+		expect(hasBudget({ perMonth: 20 })).toBe(true)
+	})
+})
@@ -0,0 +1,53 @@
+import { CostBudget } from "../../schemas"
+import { BudgetPeriod, ClineAskBudgetExceeded } from "../../shared/ExtensionMessage"
+
+const BUDGET_PERIODS: { period: BudgetPeriod; key: keyof CostBudget }[] = [
+	{ period: "task", key: "perTask" },
+	{ period: "day", key: "perDay" },
+	{ period: "month", key: "perMonth" },
+]
+
+// Once an overrun is approved, spend can go this share of the limit further
+// before the user is asked again.
+const OVERRUN_INCREMENT = 0.1
+
+/**
+ * Finds the limits of a budget that the next request would push spend over.
+ * Limits that are unset or not positive are ignored.
+ *
+ * @param budget - The global budget or a provider profile's budget
+ * @param spent - What has been spent so far in each period
+ * @param estimatedCost - Estimated cost of the next request
+ * @param profileName - Name of the provider profile the budget belongs to, if any
+ */
+export function findExceededBudgets(
+	budget: CostBudget | undefined,
+	spent: Record<BudgetPeriod, number>,
+	estimatedCost: number,
+	profileName?: string,
+): ClineAskBudgetExceeded[] {
+	const exceeded: ClineAskBudgetExceeded[] = []
+
+	for (const { period, key } of BUDGET_PERIODS) {
+		const limit = budget?.[key]
+
+		if (limit && limit > 0 && spent[period] + estimatedCost > limit) {
+			exceeded.push({ period, profileName, limit, spent: spent[period], estimatedCost })
+		}
+	}
+
+	return exceeded
+}
+
+export function hasBudget(budget: CostBudget | undefined): boolean {
+	return BUDGET_PERIODS.some(({ key }) => (budget?.[key] ?? 0) > 0)
+}
+
+/**
+ * Returns how far spend can go once the user approved exceeding a limit: a
+ * tenth of the limit past what the approved request was estimated to bring
+ * spend to.
+ */
+export function getApprovedSpend(budget: ClineAskBudgetExceeded): number {
+	return budget.spent + budget.estimatedCost + budget.limit * OVERRUN_INCREMENT
+}
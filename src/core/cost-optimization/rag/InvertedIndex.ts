@@ -0,0 +1,368 @@
+import { IndexedChunk, IndexedDocument } from "./types"
+import { tokenize, tokenizeQuery } from "./tokenizer"
+
+export const INDEX_FIELDS = ["content", "symbols", "imports", "exports"] as const
+
+export type IndexField = (typeof INDEX_FIELDS)[number]
+
+export const INDEX_FORMAT_VERSION = 2
+
+/**
+ * Per-field boost applied to term frequencies before saturation. A hit on a
+ * declared symbol or export says much more about a chunk than a hit somewhere
+ * in its body.
+ */
+const FIELD_WEIGHTS: Record<IndexField, number> = {
+	content: 1,
+	symbols: 3,
+	imports: 1.5,
+	exports: 2.5,
+}
+
+/**
+ * Per-field length normalization (the BM25 `b` parameter). Metadata fields
+ * are short lists, so their length says little about relevance.
+ */
+const FIELD_LENGTH_NORMALIZATION: Record<IndexField, number> = {
+	content: 0.75,
+	symbols: 0.5,
+	imports: 0.5,
+	exports: 0.5,
+}
+
+/**
+ * Term frequency saturation (the BM25 `k1` parameter).
+ */
+const K1 = 1.2
+
+interface ChunkEntry {
+	id: number
+	path: string
+	chunk: IndexedChunk
+	lengths: number[] // Token count per field, in INDEX_FIELDS order
+}
+
+interface FileEntry {
+	document: IndexedDocument
+	chunkIds: number[]
+}
+
+export interface ChunkInput {
+	chunk: IndexedChunk
+	fields: Record<IndexField, string>
+}
+
+export interface SerializedInvertedIndex {
+	version: number
+	nextId: number
+	files: FileEntry[]
+	chunks: ChunkEntry[]
+	// [term, list of [chunkId, ...term frequency per field]]
+	postings: [string, number[][]][]
+}
+
+export interface IndexMatch {
+	document: IndexedDocument
+	chunk: IndexedChunk
+	score: number
+	matchedTerms: string[]
+}
+
+/**
+ * An inverted index over the workspace with BM25F ranking.
+ *
+ * Files are split into chunks (functions, classes, sections) and each chunk
+ * is indexed under four fields: content, symbols, imports and exports.
+ * Postings record the term frequency per field so that the fields can be
+ * weighted and length-normalized independently at query time, which is what
+ * BM25F does on top of plain BM25. Ranking happens at chunk granularity.
+ *
+ * The index is designed for incremental updates: files are keyed on their
+ * path and carry the `lastModified` time they were indexed at, so callers
+ * only need to re-add files whose mtime has moved on.
+ */
+export class InvertedIndex {
+	private files = new Map<string, FileEntry>()
+	private chunks = new Map<number, ChunkEntry>()
+	private postings = new Map<string, Map<number, number[]>>()
+	private chunkTerms = new Map<number, string[]>()
+	private totalLengths: number[] = INDEX_FIELDS.map(() => 0)
+	private nextId = 0
+
+	get size(): number {
+		return this.files.size
+	}
+
+	get chunkCount(): number {
+		return this.chunks.size
+	}
+
+	get termCount(): number {
+		return this.postings.size
+	}
+
+	public paths(): string[] {
+		return Array.from(this.files.keys())
+	}
+
+	public getDocument(path: string): IndexedDocument | undefined {
+		return this.files.get(path)?.document
+	}
+
+	public getChunks(path: string): IndexedChunk[] {
+		return (this.files.get(path)?.chunkIds ?? []).map((id) => this.chunks.get(id)!.chunk)
+	}
+
+	/**
+	 * Whether the index already holds the given file at (or after) the given
+	 * modification time.
+	 */
+	public isUpToDate(path: string, lastModified: number): boolean {
+		const entry = this.files.get(path)
+		return !!entry && entry.document.lastModified >= lastModified
+	}
+
+	/**
+	 * Adds a file and its chunks, replacing any previous version indexed
+	 * under the same path.
+	 */
+	public addFile(document: IndexedDocument, chunks: ChunkInput[]): void {
+		this.removeFile(document.path)
+
+		const chunkIds = chunks.map(({ chunk, fields }) => this.addChunk(document.path, chunk, fields))
+		this.files.set(document.path, { document, chunkIds })
+	}
+
+	private addChunk(path: string, chunk: IndexedChunk, fields: Record<IndexField, string>): number {
+		const id = this.nextId++
+		const frequencies = new Map<string, number[]>()
+		const lengths = INDEX_FIELDS.map(() => 0)
+
+		INDEX_FIELDS.forEach((field, fieldIndex) => {
+			const terms = tokenize(fields[field] ?? "")
+			lengths[fieldIndex] = terms.length
+
+			for (const term of terms) {
+				let counts = frequencies.get(term)
+
+				if (!counts) {
+					counts = INDEX_FIELDS.map(() => 0)
+					frequencies.set(term, counts)
+				}
+
+				counts[fieldIndex]++
+			}
+		})
+
+		for (const [term, counts] of frequencies) {
+			let posting = this.postings.get(term)
+
+			if (!posting) {
+				posting = new Map()
+				this.postings.set(term, posting)
+			}
+
+			posting.set(id, counts)
+		}
+
+		this.chunks.set(id, { id, path, chunk, lengths })
+		this.chunkTerms.set(id, Array.from(frequencies.keys()))
+		lengths.forEach((length, fieldIndex) => (this.totalLengths[fieldIndex] += length))
+		return id
+	}
+
+	/**
+	 * Removes a file and all of its chunks from the index.
+	 *
+	 * @returns true if the file was indexed
+	 */
+	public removeFile(path: string): boolean {
+		const entry = this.files.get(path)
+
+		if (!entry) {
+			return false
+		}
+
+		for (const id of entry.chunkIds) {
+			this.removeChunk(id)
+		}
+
+		this.files.delete(path)
+		return true
+	}
+
+	private removeChunk(id: number): void {
+		const entry = this.chunks.get(id)
+
+		if (!entry) {
+			return
+		}
+
+		for (const term of this.chunkTerms.get(id) ?? []) {
+			const posting = this.postings.get(term)
+
+			if (posting) {
+				posting.delete(id)
+
+				if (posting.size === 0) {
+					this.postings.delete(term)
+				}
+			}
+		}
+
+		entry.lengths.forEach((length, fieldIndex) => (this.totalLengths[fieldIndex] -= length))
+		this.chunkTerms.delete(id)
+		this.chunks.delete(id)
+	}
+
+	public clear(): void {
+		this.files.clear()
+		this.chunks.clear()
+		this.postings.clear()
+		this.chunkTerms.clear()
+		this.totalLengths = INDEX_FIELDS.map(() => 0)
+		this.nextId = 0
+	}
+
+	/**
+	 * Inverse document frequency of a term over all chunks, using the
+	 * non-negative BM25 variant so that very common terms contribute little
+	 * rather than subtracting from the score.
+	 */
+	public idf(term: string): number {
+		const documentFrequency = this.postings.get(term)?.size ?? 0
+
+		if (documentFrequency === 0) {
+			return 0
+		}
+
+		const n = this.chunks.size
+		return Math.log(1 + (n - documentFrequency + 0.5) / (documentFrequency + 0.5))
+	}
+
+	/**
+	 * Ranks chunks against a free-text query.
+	 *
+	 * @param query - The query, tokenized the same way as documents
+	 * @param limit - Maximum number of matches to return
+	 * @param filter - Optional predicate to restrict the candidate files
+	 * @returns Matches sorted by descending score
+	 */
+	public search(query: string, limit: number, filter?: (document: IndexedDocument) => boolean): IndexMatch[] {
+		const terms = tokenizeQuery(query).filter((term) => this.postings.has(term))
+
+		if (terms.length === 0 || this.chunks.size === 0) {
+			return []
+		}
+
+		const averageLengths = this.totalLengths.map((total) => total / this.chunks.size || 1)
+		const scores = new Map<number, { score: number; matchedTerms: string[] }>()
+		const filterResults = new Map<string, boolean>()
+
+		const isAllowed = (path: string) => {
+			if (!filter) {
+				return true
+			}
+
+			let allowed = filterResults.get(path)
+
+			if (allowed === undefined) {
+				allowed = filter(this.files.get(path)!.document)
+				filterResults.set(path, allowed)
+			}
+
+			return allowed
+		}
+
+		for (const term of terms) {
+			const idf = this.idf(term)
+
+			for (const [id, counts] of this.postings.get(term)!) {
+				const entry = this.chunks.get(id)
+
+				if (!entry || !isAllowed(entry.path)) {
+					continue
+				}
+
+				let weightedFrequency = 0
+
+				INDEX_FIELDS.forEach((field, fieldIndex) => {
+					if (counts[fieldIndex] === 0) {
+						return
+					}
+
+					const b = FIELD_LENGTH_NORMALIZATION[field]
+					const normalization = 1 - b + (b * entry.lengths[fieldIndex]) / averageLengths[fieldIndex]
+					weightedFrequency += (FIELD_WEIGHTS[field] * counts[fieldIndex]) / normalization
+				})
+
+				const termScore = (idf * weightedFrequency) / (K1 + weightedFrequency)
+				const accumulator = scores.get(id) ?? { score: 0, matchedTerms: [] }
+				accumulator.score += termScore
+				accumulator.matchedTerms.push(term)
+				scores.set(id, accumulator)
+			}
+		}
+
+		return Array.from(scores.entries())
+			.sort((a, b) => b[1].score - a[1].score)
+			.slice(0, limit)
+			.map(([id, { score, matchedTerms }]) => {
+				const { path, chunk } = this.chunks.get(id)!
+
+				return { document: this.files.get(path)!.document, chunk, score, matchedTerms }
+			})
+	}
+
+	public serialize(): SerializedInvertedIndex {
+		const postings: [string, number[][]][] = Array.from(this.postings.entries()).map(([term, posting]) => [
+			term,
+			Array.from(posting.entries()).map(([id, counts]) => [id, ...counts]),
+		])
+
+		return {
+			version: INDEX_FORMAT_VERSION,
+			nextId: this.nextId,
+			files: Array.from(this.files.values()),
+			chunks: Array.from(this.chunks.values()),
+			postings,
+		}
+	}
+
+	/**
+	 * Restores an index written by `serialize`.
+	 *
+	 * @throws if the data was written by an incompatible index format
+	 */
+	public static deserialize(data: SerializedInvertedIndex): InvertedIndex {
+		if (data.version !== INDEX_FORMAT_VERSION) {
+			throw new Error(`Unsupported RAG index format version ${data.version}`)
+		}
+
+		const index = new InvertedIndex()
+		index.nextId = data.nextId
+
+		for (const entry of data.files) {
+			index.files.set(entry.document.path, entry)
+		}
+
+		for (const entry of data.chunks) {
+			index.chunks.set(entry.id, entry)
+			index.chunkTerms.set(entry.id, [])
+			entry.lengths.forEach((length, fieldIndex) => (index.totalLengths[fieldIndex] += length))
+		}
+
+		for (const [term, rows] of data.postings) {
+			const posting = new Map<number, number[]>()
+
+			for (const [id, ...counts] of rows) {
+				posting.set(id, counts)
+				index.chunkTerms.get(id)?.push(term)
+			}
+
+			index.postings.set(term, posting)
+		}
+
+		return index
+	}
+}
@@ -0,0 +1,159 @@
+export const VECTOR_STORE_FORMAT_VERSION = 1
+
+interface VectorEntry {
+	startLine: number
+	endLine: number
+	vector: Float32Array // Normalized to unit length
+}
+
+interface FileVectors {
+	lastModified: number
+	entries: VectorEntry[]
+}
+
+export interface SerializedVectorStore {
+	version: number
+	model: string
+	files: {
+		path: string
+		lastModified: number
+		// [startLine, endLine, base64 encoded Float32Array]
+		entries: [number, number, string][]
+	}[]
+}
+
+export interface VectorMatch {
+	path: string
+	startLine: number
+	endLine: number
+	score: number // Cosine similarity
+}
+
+function normalize(vector: number[]): Float32Array {
+	const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1
+	return Float32Array.from(vector, (value) => value / norm)
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+	const length = Math.min(a.length, b.length)
+	let sum = 0
+
+	for (let i = 0; i < length; i++) {
+		sum += a[i] * b[i]
+	}
+
+	return sum
+}
+
+/**
+ * Chunk embeddings for the RAG index, searched by brute-force cosine
+ * similarity. Workspaces produce at most tens of thousands of chunks, which a
+ * linear scan over normalized vectors handles in milliseconds, so there is no
+ * approximate nearest neighbour structure to keep in sync.
+ *
+ * Like the inverted index, vectors are keyed on file path and carry the
+ * `lastModified` time of the file they were computed from. All vectors in a
+ * store come from the same model.
+ */
+export class VectorStore {
+	private files = new Map<string, FileVectors>()
+
+	constructor(public readonly model: string) {}
+
+	get size(): number {
+		return this.files.size
+	}
+
+	public paths(): string[] {
+		return Array.from(this.files.keys())
+	}
+
+	public isUpToDate(path: string, lastModified: number): boolean {
+		const entry = this.files.get(path)
+		return !!entry && entry.lastModified >= lastModified
+	}
+
+	/**
+	 * Stores the vectors of a file's chunks, replacing any previous ones.
+	 */
+	public setFile(
+		path: string,
+		lastModified: number,
+		chunks: { startLine: number; endLine: number; vector: number[] }[],
+	): void {
+		this.files.set(path, {
+			lastModified,
+			entries: chunks.map(({ startLine, endLine, vector }) => ({ startLine, endLine, vector: normalize(vector) })),
+		})
+	}
+
+	public removeFile(path: string): boolean {
+		return this.files.delete(path)
+	}
+
+	/**
+	 * Finds the chunks closest to the given vector.
+	 *
+	 * @returns Matches sorted by descending similarity
+	 */
+	public search(vector: number[], limit: number, filter?: (path: string) => boolean): VectorMatch[] {
+		const query = normalize(vector)
+		const matches: VectorMatch[] = []
+
+		for (const [path, { entries }] of this.files) {
+			if (filter && !filter(path)) {
+				continue
+			}
+
+			for (const { startLine, endLine, vector } of entries) {
+				matches.push({ path, startLine, endLine, score: dot(query, vector) })
+			}
+		}
+
+		return matches.sort((a, b) => b.score - a.score).slice(0, limit)
+	}
+
+	public serialize(): SerializedVectorStore {
+		return {
+			version: VECTOR_STORE_FORMAT_VERSION,
+			model: this.model,
+			files: Array.from(this.files.entries()).map(([path, { lastModified, entries }]) => ({
+				path,
+				lastModified,
+				entries: entries.map(({ startLine, endLine, vector }) => [
+					startLine,
+					endLine,
+					Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString("base64"),
+				]),
+			})),
+		}
+	}
+
+	/**
+	 * Restores a store written by `serialize`.
+	 *
+	 * @throws if the data was written by an incompatible store format
+	 */
+	public static deserialize(data: SerializedVectorStore): VectorStore {
+		if (data.version !== VECTOR_STORE_FORMAT_VERSION) {
+			throw new Error(`Unsupported RAG vector store format version ${data.version}`)
+		}
+
+		const store = new VectorStore(data.model)
+
+		for (const { path, lastModified, entries } of data.files) {
+			store.files.set(path, {
+				lastModified,
+				entries: entries.map(([startLine, endLine, encoded]) => {
+					const bytes = Buffer.from(encoded, "base64")
+					// Copy into a fresh buffer so the view is correctly aligned.
+					const vector = new Float32Array(bytes.byteLength / Float32Array.BYTES_PER_ELEMENT)
+					new Uint8Array(vector.buffer).set(bytes)
+					return { startLine, endLine, vector }
+				}),
+			})
+		}
+
+		return store
+	}
+}
@@ -0,0 +1,120 @@
+// npx jest src/core/cost-optimization/rag/__tests__/InvertedIndex.test.ts
+
+import { ChunkInput, IndexField, InvertedIndex } from "../InvertedIndex"
+import { IndexedDocument } from "../types"
+
+const createDocument = (path: string, overrides: Partial<IndexedDocument> = {}): IndexedDocument => ({
+	path,
+	language: "typescript",
+	lastModified: 1000,
+	tokens: 100,
+	symbols: [],
+	imports: [],
+	exports: [],
+	...overrides,
+})
+
+const createChunk = (startLine: number, endLine: number, fields: Partial<Record<IndexField, string>>): ChunkInput => ({
+	chunk: { startLine, endLine, kind: "function", tokens: 10 },
+	fields: { content: "", symbols: "", imports: "", exports: "", ...fields },
+})
+
+describe("InvertedIndex", () => {
+	let index: InvertedIndex
+
+	beforeEach(() => {
+		index = new InvertedIndex()
+		index.addFile(createDocument("/ws/auth.ts"), [
+			createChunk(1, 3, { content: "import { fetchToken } from './http'", imports: "./http" }),
+			createChunk(5, 12, {
+				content: "export async function refreshAuthToken(session) { return fetchToken(session.refresh) }",
+				symbols: "refreshAuthToken",
+				exports: "refreshAuthToken",
+			}),
+		])
+		index.addFile(createDocument("/ws/logger.ts"), [
+			createChunk(1, 4, { content: "export function log(message) { console.log(message) }", symbols: "log" }),
+		])
+		index.addFile(createDocument("/ws/README.md", { language: "markdown" }), [
+			createChunk(1, 2, {
+				content: "The session token is refreshed automatically. See the logger for details on logging.",
+			}),
+		])
+	})
+
+	it("should rank chunks whose symbols match above content-only matches", () => {
+		const matches = index.search("refresh token", 10)
+
+		expect(matches).toHaveLength(3)
+		expect(matches[0]).toMatchObject({ document: { path: "/ws/auth.ts" }, chunk: { startLine: 5 } })
+		expect(matches[0].score).toBeGreaterThan(matches[1].score)
+		expect(matches[0].matchedTerms).toEqual(expect.arrayContaining(["refresh", "token"]))
+	})
+
+	it("should match parts of compound identifiers", () => {
+		const matches = index.search("auth", 10)
+
+		expect(matches).toHaveLength(1)
+		expect(matches[0].chunk).toMatchObject({ startLine: 5, endLine: 12 })
+	})
+
+	it("should return no matches for unknown terms", () => {
+		expect(index.search("kubernetes", 10)).toEqual([])
+	})
+
+	it("should honor the limit and filter", () => {
+		expect(index.search("log logger", 1)).toHaveLength(1)
+		expect(index.search("token", 10, (doc) => doc.language === "markdown").map((m) => m.document.path)).toEqual([
+			"/ws/README.md",
+		])
+	})
+
+	it("should replace a file that is added again", () => {
+		index.addFile(createDocument("/ws/logger.ts", { lastModified: 2000 }), [
+			createChunk(1, 1, { content: "export const metrics = {}" }),
+		])
+
+		expect(index.size).toBe(3)
+		expect(index.chunkCount).toBe(4)
+		expect(index.search("console", 10)).toEqual([])
+		expect(index.search("metrics", 10)[0].document.path).toBe("/ws/logger.ts")
+	})
+
+	it("should remove a file with all of its chunks and postings", () => {
+		expect(index.removeFile("/ws/auth.ts")).toBe(true)
+		expect(index.removeFile("/ws/auth.ts")).toBe(false)
+
+		expect(index.size).toBe(2)
+		expect(index.chunkCount).toBe(2)
+		expect(index.idf("fetchtoken")).toBe(0)
+		expect(index.search("auth", 10)).toEqual([])
+	})
+
+	it("should report whether a file is up to date", () => {
+		expect(index.isUpToDate("/ws/auth.ts", 1000)).toBe(true)
+		expect(index.isUpToDate("/ws/auth.ts", 1001)).toBe(false)
+		expect(index.isUpToDate("/ws/missing.ts", 0)).toBe(false)
+	})
+
+	it("should give rare terms a higher idf than common ones", () => {
+		expect(index.idf("auth")).toBeGreaterThan(index.idf("token"))
+	})
+
+	it("should round-trip through serialization", () => {
+		const restored = InvertedIndex.deserialize(JSON.parse(JSON.stringify(index.serialize())))
+
+		expect(restored.size).toBe(index.size)
+		expect(restored.getChunks("/ws/auth.ts")).toEqual(index.getChunks("/ws/auth.ts"))
+		expect(restored.search("refresh token", 10)).toEqual(index.search("refresh token", 10))
+
+		// Removal must still work on a restored index.
+		restored.removeFile("/ws/auth.ts")
+		expect(restored.search("auth", 10)).toEqual([])
+	})
+
+	it("should reject serialized data from another format version", () => {
+		expect(() => InvertedIndex.deserialize({ ...index.serialize(), version: 1 })).toThrow(
+			"Unsupported RAG index format version 1",
+		)
+	})
+})
@@ -0,0 +1,60 @@
+// npx jest src/core/cost-optimization/rag/__tests__/VectorStore.test.ts
+
+import { VectorStore } from "../VectorStore"
+
+describe("VectorStore", () => {
+	let store: VectorStore
+
+	beforeEach(() => {
+		store = new VectorStore("test-model")
+		store.setFile("/ws/auth.ts", 1000, [
+			{ startLine: 1, endLine: 10, vector: [1, 0, 0] },
+			{ startLine: 11, endLine: 20, vector: [0, 2, 0] },
+		])
+		store.setFile("/ws/logger.ts", 1000, [{ startLine: 1, endLine: 5, vector: [1, 1, 0] }])
+	})
+
+	it("should rank chunks by cosine similarity", () => {
+		const matches = store.search([3, 0, 0], 10)
+
+		expect(matches.map(({ path, startLine }) => [path, startLine])).toEqual([
+			["/ws/auth.ts", 1],
+			["/ws/logger.ts", 1],
+			["/ws/auth.ts", 11],
+		])
+		expect(matches[0].score).toBeCloseTo(1)
+		expect(matches[1].score).toBeCloseTo(Math.SQRT1_2)
+		expect(matches[2].score).toBeCloseTo(0)
+	})
+
+	it("should honor the limit and filter", () => {
+		expect(store.search([1, 0, 0], 1)).toHaveLength(1)
+		expect(store.search([1, 0, 0], 10, (path) => path.endsWith("logger.ts")).map((m) => m.path)).toEqual([
+			"/ws/logger.ts",
+		])
+	})
+
+	it("should replace and remove files", () => {
+		store.setFile("/ws/auth.ts", 2000, [{ startLine: 1, endLine: 3, vector: [0, 0, 1] }])
+
+		expect(store.isUpToDate("/ws/auth.ts", 2000)).toBe(true)
+		expect(store.search([0, 0, 1], 1)[0]).toMatchObject({ path: "/ws/auth.ts", endLine: 3 })
+
+		expect(store.removeFile("/ws/auth.ts")).toBe(true)
+		expect(store.paths()).toEqual(["/ws/logger.ts"])
+	})
+
+	it("should round-trip through serialization", () => {
+		const restored = VectorStore.deserialize(JSON.parse(JSON.stringify(store.serialize())))
+
+		expect(restored.model).toBe("test-model")
+		expect(restored.isUpToDate("/ws/auth.ts", 1000)).toBe(true)
+		expect(restored.search([1, 1, 0], 10)).toEqual(store.search([1, 1, 0], 10))
+	})
+
+	it("should reject serialized data from another format version", () => {
+		expect(() => VectorStore.deserialize({ ...store.serialize(), version: 0 })).toThrow(
+			"Unsupported RAG vector store format version 0",
+		)
+	})
+})
@@ -0,0 +1,102 @@
+// npx jest src/core/cost-optimization/rag/__tests__/chunker.test.ts
+
+import { buildChunks, chunkFile, DefinitionRange } from "../chunker"
+
+const numberedLines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`)
+
+describe("buildChunks", () => {
+	it("should emit definitions as chunks and the lines between them as blocks", () => {
+		const lines = numberedLines(20)
+		const definitions: DefinitionRange[] = [
+			{ startRow: 2, endRow: 7, kind: "function", name: "first" },
+			{ startRow: 10, endRow: 17, kind: "class", name: "Second" },
+		]
+
+		expect(buildChunks(lines, definitions).map(({ text: _text, ...chunk }) => chunk)).toEqual([
+			{ startLine: 1, endLine: 2, kind: "block", name: undefined },
+			{ startLine: 3, endLine: 8, kind: "function", name: "first" },
+			{ startLine: 9, endLine: 10, kind: "block", name: undefined },
+			{ startLine: 11, endLine: 18, kind: "class", name: "Second" },
+			{ startLine: 19, endLine: 20, kind: "block", name: undefined },
+		])
+	})
+
+	it("should fold definitions that are too short into the surrounding block", () => {
+		const chunks = buildChunks(numberedLines(10), [{ startRow: 2, endRow: 3, kind: "function", name: "tiny" }])
+
+		expect(chunks).toHaveLength(1)
+		expect(chunks[0]).toMatchObject({ startLine: 1, endLine: 10, kind: "block" })
+	})
+
+	it("should keep nested definitions inside a small parent", () => {
+		const chunks = buildChunks(numberedLines(30), [
+			{ startRow: 0, endRow: 29, kind: "class", name: "Small" },
+			{ startRow: 5, endRow: 10, kind: "method", name: "inner" },
+		])
+
+		expect(chunks).toHaveLength(1)
+		expect(chunks[0]).toMatchObject({ startLine: 1, endLine: 30, kind: "class", name: "Small" })
+	})
+
+	it("should split a large parent along its nested definitions", () => {
+		const chunks = buildChunks(numberedLines(200), [
+			{ startRow: 0, endRow: 199, kind: "class", name: "Large" },
+			{ startRow: 10, endRow: 89, kind: "method", name: "first" },
+			{ startRow: 100, endRow: 189, kind: "method", name: "second" },
+		])
+
+		expect(chunks.map(({ text: _text, ...chunk }) => chunk)).toEqual([
+			{ startLine: 1, endLine: 10, kind: "class", name: "Large" },
+			{ startLine: 11, endLine: 90, kind: "method", name: "first" },
+			{ startLine: 91, endLine: 100, kind: "class", name: "Large" },
+			{ startLine: 101, endLine: 190, kind: "method", name: "second" },
+			{ startLine: 191, endLine: 200, kind: "class", name: "Large" },
+		])
+	})
+
+	it("should split long stretches without definitions into windows", () => {
+		const chunks = buildChunks(numberedLines(250), [])
+
+		expect(chunks.map(({ startLine, endLine }) => [startLine, endLine])).toEqual([
+			[1, 120],
+			[121, 240],
+			[241, 250],
+		])
+	})
+
+	it("should skip blank stretches", () => {
+		const lines = ["", "", "", "", "", "function a() {", "  return 1", "  // done", "}"]
+		const chunks = buildChunks(lines, [{ startRow: 5, endRow: 8, kind: "function", name: "a" }])
+
+		expect(chunks).toHaveLength(1)
+		expect(chunks[0]).toMatchObject({ startLine: 6, endLine: 9, name: "a" })
+	})
+})
+
+describe("chunkFile", () => {
+	it("should split markdown into sections", async () => {
+		const content = [
+			"# Title",
+			"Intro text",
+			"more intro",
+			"and more",
+			"## Setup",
+			"Install the dependencies",
+			"then run the build",
+			"and start the server",
+		].join("\n")
+
+		const chunks = await chunkFile("/ws/README.md", content)
+
+		expect(chunks.map(({ startLine, endLine, kind, name }) => ({ startLine, endLine, kind, name }))).toEqual([
+			{ startLine: 1, endLine: 4, kind: "section", name: "Title" },
+			{ startLine: 5, endLine: 8, kind: "section", name: "Setup" },
+		])
+	})
+
+	it("should fall back to windows for unsupported file types", async () => {
+		const chunks = await chunkFile("/ws/notes.txt", "some notes\nand more notes")
+
+		expect(chunks).toEqual([{ startLine: 1, endLine: 2, kind: "block", name: undefined, text: "some notes\nand more notes" }])
+	})
+})
@@ -0,0 +1,23 @@
+// npx jest src/core/cost-optimization/rag/__tests__/hybrid.test.ts
+
+import { reciprocalRankFusion } from "../hybrid"
+
+describe("reciprocalRankFusion", () => {
+	it("should favor items ranked well by several rankings", () => {
+		const fused = reciprocalRankFusion([
+			["keyword-only", "both"],
+			["vector-only", "both"],
+		])
+
+		expect(fused[0].key).toBe("both")
+		expect(fused.map(({ key }) => key).sort()).toEqual(["both", "keyword-only", "vector-only"])
+	})
+
+	it("should keep the order of a single ranking", () => {
+		expect(reciprocalRankFusion([["a", "b", "c"]]).map(({ key }) => key)).toEqual(["a", "b", "c"])
+	})
+
+	it("should return nothing for empty rankings", () => {
+		expect(reciprocalRankFusion([[], []])).toEqual([])
+	})
+})
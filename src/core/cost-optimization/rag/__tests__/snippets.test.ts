@@ -0,0 +1,69 @@
+// npx jest src/core/cost-optimization/rag/__tests__/snippets.test.ts
+
+import { extractSnippets } from "../snippets"
+import { splitIdentifier, tokenize } from "../tokenizer"
+
+describe("tokenize", () => {
+	it("should split compound identifiers and keep the whole identifier", () => {
+		expect(tokenize("refreshAuthToken(user_id)")).toEqual([
+			"refreshauthtoken",
+			"refresh",
+			"auth",
+			"token",
+			"user_id",
+			"user",
+			"id",
+		])
+	})
+
+	it("should drop stop words and single characters", () => {
+		expect(tokenize("where is the x for this")).toEqual([])
+	})
+
+	it("should split acronyms", () => {
+		expect(splitIdentifier("HTTPServer_v2")).toEqual(["http", "server", "v2"])
+	})
+})
+
+describe("extractSnippets", () => {
+	const content = [
+		"import { fetch } from 'http'", // 1
+		"", // 2
+		"function unrelated() {", // 3
+		"  return 1", // 4
+		"}", // 5
+		"", // 6
+		"", // 7
+		"", // 8
+		"export function refreshToken() {", // 9
+		"  const token = fetch('/token')", // 10
+		"  return token", // 11
+		"}", // 12
+	].join("\n")
+
+	it("should return the best matching line range with context", () => {
+		const snippets = extractSnippets(content, new Map([["token", 1]]), { contextLines: 1 })
+
+		expect(snippets).toHaveLength(1)
+		expect(snippets[0]).toMatchObject({ startLine: 8, endLine: 12 })
+		expect(snippets[0].text).toContain("refreshToken")
+	})
+
+	it("should limit the number of snippets", () => {
+		const snippets = extractSnippets(
+			content,
+			new Map([
+				["fetch", 1],
+				["unrelated", 1],
+				["token", 1],
+			]),
+			{ contextLines: 0, maxSnippets: 2 },
+		)
+
+		expect(snippets).toHaveLength(2)
+	})
+
+	it("should return nothing when no line matches", () => {
+		expect(extractSnippets(content, new Map([["database", 1]]))).toEqual([])
+	})
+})
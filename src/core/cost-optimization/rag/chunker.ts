@@ -0,0 +1,197 @@
+import * as path from "path"
+import { getLanguageParser } from "../../../services/tree-sitter/parserCache"
+import { parseMarkdown } from "../../../services/tree-sitter/markdownParser"
+
+/**
+ * A retrievable unit of a file. Line numbers are 1-based and inclusive.
+ */
+export interface Chunk {
+	startLine: number
+	endLine: number
+	kind: string // e.g. "function", "class", "section", or "block" for code between definitions
+	name?: string
+	text: string
+}
+
+/**
+ * A definition found in a file. Rows are 0-based and inclusive, as reported
+ * by tree-sitter.
+ */
+export interface DefinitionRange {
+	startRow: number
+	endRow: number
+	kind: string
+	name?: string
+}
+
+// Definitions shorter than this are folded into the surrounding block.
+const MIN_DEFINITION_LINES = 4
+
+// Definitions longer than this are split along their nested definitions, or
+// into fixed windows if they have none.
+const MAX_CHUNK_LINES = 120
+
+const TREE_SITTER_EXTENSIONS = new Set([
+	"js",
+	"jsx",
+	"ts",
+	"tsx",
+	"py",
+	"rs",
+	"go",
+	"c",
+	"h",
+	"cpp",
+	"hpp",
+	"cs",
+	"rb",
+	"java",
+	"php",
+	"swift",
+	"kt",
+	"kts",
+])
+
+const MARKDOWN_EXTENSIONS = new Set(["md", "markdown"])
+
+/**
+ * Finds definitions using the same tree-sitter queries that back
+ * `list_code_definition_names`.
+ */
+async function getCodeDefinitions(ext: string, content: string): Promise<DefinitionRange[]> {
+	const { parser, query } = await getLanguageParser(ext)
+	const tree = parser.parse(content)
+
+	try {
+		const captures = query.captures(tree.rootNode)
+		const names = new Map<string, string>()
+		const definitions: DefinitionRange[] = []
+
+		for (const { node, name } of captures) {
+			if (name.startsWith("name.definition") && node.parent) {
+				names.set(`${node.parent.startPosition.row}:${node.parent.endPosition.row}`, node.text)
+			}
+		}
+
+		for (const { node, name } of captures) {
+			if (!name.startsWith("definition.")) {
+				continue
+			}
+
+			const key = `${node.startPosition.row}:${node.endPosition.row}`
+
+			definitions.push({
+				startRow: node.startPosition.row,
+				endRow: node.endPosition.row,
+				kind: name.split(".")[1],
+				name: names.get(key),
+			})
+		}
+
+		return definitions
+	} finally {
+		tree.delete()
+	}
+}
+
+function getMarkdownSections(content: string): DefinitionRange[] {
+	return parseMarkdown(content)
+		.filter(({ name }) => name.startsWith("definition."))
+		.map(({ node }) => ({
+			startRow: node.startPosition.row,
+			endRow: node.endPosition.row,
+			kind: "section",
+			name: node.text,
+		}))
+}
+
+/**
+ * Splits lines into chunks that follow the given definitions.
+ *
+ * Outermost definitions become chunks of their own. A definition that is
+ * too large is broken up along the definitions nested inside it (a class
+ * along its methods, a section along its sub-sections), with the remaining
+ * lines in between kept as chunks attributed to the enclosing definition.
+ * Lines outside of any definition become "block" chunks.
+ */
+export function buildChunks(lines: string[], definitions: DefinitionRange[]): Chunk[] {
+	const chunks: Chunk[] = []
+
+	const ranges = definitions
+		.filter(({ startRow, endRow }) => endRow - startRow + 1 >= MIN_DEFINITION_LINES)
+		.sort((a, b) => a.startRow - b.startRow || b.endRow - a.endRow)
+
+	const emit = (startRow: number, endRow: number, kind: string, name?: string) => {
+		for (let start = startRow; start <= endRow; start += MAX_CHUNK_LINES) {
+			const end = Math.min(endRow, start + MAX_CHUNK_LINES - 1)
+			const text = lines.slice(start, end + 1).join("\n")
+
+			if (text.trim()) {
+				chunks.push({ startLine: start + 1, endLine: end + 1, kind, name, text })
+			}
+		}
+	}
+
+	const fill = (fromRow: number, toRow: number, candidates: DefinitionRange[], parent?: DefinitionRange) => {
+		let cursor = fromRow
+
+		for (const range of candidates) {
+			// Skip definitions nested in (or overlapping) one we already emitted.
+			if (range.startRow < cursor || range.endRow > toRow) {
+				continue
+			}
+
+			if (range.startRow > cursor) {
+				emit(cursor, range.startRow - 1, parent?.kind ?? "block", parent?.name)
+			}
+
+			const nested = candidates.filter(
+				(other) =>
+					other !== range &&
+					other.startRow >= range.startRow &&
+					other.endRow <= range.endRow &&
+					!(other.startRow === range.startRow && other.endRow === range.endRow),
+			)
+
+			if (range.endRow - range.startRow + 1 > MAX_CHUNK_LINES && nested.length > 0) {
+				fill(range.startRow, range.endRow, nested, range)
+			} else {
+				emit(range.startRow, range.endRow, range.kind, range.name)
+			}
+
+			cursor = range.endRow + 1
+		}
+
+		if (cursor <= toRow) {
+			emit(cursor, toRow, parent?.kind ?? "block", parent?.name)
+		}
+	}
+
+	fill(0, lines.length - 1, ranges)
+	return chunks
+}
+
+/**
+ * Splits a file into function, class and section chunks. Files without a
+ * supported grammar, or that fail to parse, are split into fixed windows.
+ *
+ * @param filePath - Used to pick the grammar from the file extension
+ * @param content - The file contents
+ */
+export async function chunkFile(filePath: string, content: string): Promise<Chunk[]> {
+	const ext = path.extname(filePath).toLowerCase().slice(1)
+	const lines = content.split("\n")
+	let definitions: DefinitionRange[] = []
+
+	try {
+		if (MARKDOWN_EXTENSIONS.has(ext)) {
+			definitions = getMarkdownSections(content)
+		} else if (TREE_SITTER_EXTENSIONS.has(ext)) {
+			definitions = await getCodeDefinitions(ext, content)
+		}
+	} catch (error) {
+		console.error(`Error chunking file ${filePath}:`, error)
+	}
+
+	return buildChunks(lines, definitions)
+}
@@ -0,0 +1,91 @@
+import OpenAI from "openai"
+
+/**
+ * Turns text into dense vectors for semantic search. Implementations must
+ * return one vector per input, in input order, all of the same dimension.
+ */
+export interface EmbeddingProvider {
+	/**
+	 * Identifies the model that produced the vectors. Vectors from different
+	 * models are not comparable, so stored vectors are discarded when this
+	 * changes.
+	 */
+	readonly id: string
+
+	embed(texts: string[]): Promise<number[][]>
+}
+
+export type EmbeddingProviderName = "none" | "openai-compatible"
+
+export interface EmbeddingSettings {
+	provider: EmbeddingProviderName
+	baseUrl: string // e.g. http://localhost:11434/v1 for Ollama or http://localhost:1234/v1 for LM Studio
+	model: string
+}
+
+export const DEFAULT_EMBEDDING_SETTINGS: EmbeddingSettings = {
+	provider: "none",
+	baseUrl: "http://localhost:11434/v1",
+	model: "nomic-embed-text",
+}
+
+// Most local servers handle larger batches, but this keeps individual
+// requests short enough to not time out on CPU-only machines.
+const MAX_BATCH_SIZE = 32
+
+const REQUEST_TIMEOUT_MS = 30_000
+
+/**
+ * Embeds text through any server that implements the OpenAI `/embeddings`
+ * endpoint, which includes Ollama and LM Studio running locally.
+ */
+export class OpenAiCompatibleEmbeddingProvider implements EmbeddingProvider {
+	public readonly id: string
+	private client: OpenAI
+	private model: string
+
+	constructor({ baseUrl, model }: Pick<EmbeddingSettings, "baseUrl" | "model">) {
+		this.id = `openai-compatible:${baseUrl}:${model}`
+		this.model = model
+		this.client = new OpenAI({
+			baseURL: baseUrl,
+			// Local servers ignore the key, but the client refuses to start without one.
+			apiKey: "not-needed",
+			timeout: REQUEST_TIMEOUT_MS,
+			maxRetries: 1,
+		})
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		const vectors: number[][] = []
+
+		for (let start = 0; start < texts.length; start += MAX_BATCH_SIZE) {
+			const input = texts.slice(start, start + MAX_BATCH_SIZE)
+			const response = await this.client.embeddings.create({ model: this.model, input })
+
+			if (response.data.length !== input.length) {
+				throw new Error(
+					`Embedding endpoint returned ${response.data.length} vectors for ${input.length} inputs`,
+				)
+			}
+
+			vectors.push(...[...response.data].sort((a, b) => a.index - b.index).map(({ embedding }) => embedding))
+		}
+
+		return vectors
+	}
+}
+
+/**
+ * Creates the configured embedding provider.
+ *
+ * @returns undefined if semantic search is disabled
+ */
+export function createEmbeddingProvider(settings: EmbeddingSettings): EmbeddingProvider | undefined {
+	switch (settings.provider) {
+		case "openai-compatible":
+			return settings.baseUrl && settings.model ? new OpenAiCompatibleEmbeddingProvider(settings) : undefined
+		default:
+			return undefined
+	}
+}
@@ -0,0 +1,28 @@
+/**
+ * Rank offset from the reciprocal rank fusion paper. Larger values flatten
+ * the difference between the top ranks and the rest.
+ */
+const RRF_K = 60
+
+/**
+ * Merges several rankings of the same kind of item with reciprocal rank
+ * fusion: every item scores `1 / (k + rank)` in each ranking it appears in.
+ *
+ * Only ranks are used, so rankings whose scores live on different scales
+ * (BM25 and cosine similarity here) can be combined without normalization,
+ * and an item near the top of both rankings beats one that tops only one.
+ *
+ * @param rankings - Lists of item keys, best first
+ * @returns Keys with their fused scores, best first
+ */
+export function reciprocalRankFusion(rankings: string[][]): { key: string; score: number }[] {
+	const scores = new Map<string, number>()
+
+	for (const ranking of rankings) {
+		ranking.forEach((key, rank) => {
+			scores.set(key, (scores.get(key) ?? 0) + 1 / (RRF_K + rank + 1))
+		})
+	}
+
+	return Array.from(scores, ([key, score]) => ({ key, score })).sort((a, b) => b.score - a.score)
+}
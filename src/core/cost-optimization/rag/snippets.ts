@@ -0,0 +1,77 @@
+import { Snippet } from "./types"
+import { tokenize } from "./tokenizer"
+
+export interface SnippetOptions {
+	contextLines?: number // Lines of context kept around each matching line
+	maxSnippets?: number
+	maxLinesPerSnippet?: number
+}
+
+/**
+ * Picks the best matching line ranges from a document.
+ *
+ * Each line is scored by the summed weight (typically the idf) of the
+ * distinct query terms it contains. The highest scoring lines are expanded
+ * with a little context, overlapping windows are merged and the resulting
+ * snippets are returned best first.
+ *
+ * @param content - The document text
+ * @param termWeights - Query terms mapped to their weight
+ * @returns Snippets sorted by descending score
+ */
+export function extractSnippets(
+	content: string,
+	termWeights: Map<string, number>,
+	{ contextLines = 2, maxSnippets = 3, maxLinesPerSnippet = 40 }: SnippetOptions = {},
+): Snippet[] {
+	const lines = content.split("\n")
+	const lineScores = lines.map((line) => {
+		let score = 0
+
+		for (const term of new Set(tokenize(line))) {
+			score += termWeights.get(term) ?? 0
+		}
+
+		return score
+	})
+
+	const rankedLines = lineScores
+		.map((score, line) => ({ line, score }))
+		.filter(({ score }) => score > 0)
+		.sort((a, b) => b.score - a.score || a.line - b.line)
+
+	const windows: { start: number; end: number }[] = []
+
+	for (const { line } of rankedLines) {
+		const start = Math.max(0, line - contextLines)
+		const end = Math.min(lines.length - 1, line + contextLines)
+		const overlapping = windows.find((window) => start <= window.end + 1 && end >= window.start - 1)
+
+		if (overlapping) {
+			const mergedStart = Math.min(overlapping.start, start)
+			const mergedEnd = Math.max(overlapping.end, end)
+
+			if (mergedEnd - mergedStart + 1 <= maxLinesPerSnippet) {
+				overlapping.start = mergedStart
+				overlapping.end = mergedEnd
+			}
+
+			continue
+		}
+
+		if (windows.length >= maxSnippets) {
+			continue
+		}
+
+		windows.push({ start, end })
+	}
+
+	return windows
+		.map(({ start, end }) => ({
+			startLine: start + 1,
+			endLine: end + 1,
+			text: lines.slice(start, end + 1).join("\n"),
+			score: lineScores.slice(start, end + 1).reduce((sum, score) => sum + score, 0),
+		}))
+		.sort((a, b) => b.score - a.score)
+}
@@ -0,0 +1,114 @@
+/**
+ * Common English words and language keywords that carry no signal for code
+ * retrieval. Keeping them out of the index shrinks the postings lists
+ * considerably.
+ */
+const STOP_WORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"but",
+	"by",
+	"do",
+	"for",
+	"from",
+	"has",
+	"have",
+	"if",
+	"in",
+	"into",
+	"is",
+	"it",
+	"its",
+	"of",
+	"on",
+	"or",
+	"that",
+	"the",
+	"this",
+	"to",
+	"was",
+	"we",
+	"where",
+	"which",
+	"with",
+	"const",
+	"let",
+	"var",
+	"return",
+	"true",
+	"false",
+	"null",
+	"undefined",
+	"void",
+	"new",
+	"else",
+	"self",
+])
+
+const MIN_TERM_LENGTH = 2
+const MAX_TERM_LENGTH = 64
+
+function isIndexable(term: string): boolean {
+	return term.length >= MIN_TERM_LENGTH && term.length <= MAX_TERM_LENGTH && !STOP_WORDS.has(term)
+}
+
+/**
+ * Splits an identifier into its camelCase, PascalCase and snake_case parts.
+ *
+ * @example splitIdentifier("refreshAuthToken") // ["refresh", "auth", "token"]
+ * @example splitIdentifier("HTTPServer_v2") // ["http", "server", "v2"]
+ */
+export function splitIdentifier(identifier: string): string[] {
+	return identifier
+		.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+		.replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+		.split(/[\s_$]+/)
+		.map((part) => part.toLowerCase())
+		.filter(Boolean)
+}
+
+/**
+ * Turns source text into lower-cased index terms.
+ *
+ * Every identifier is emitted as a whole and, when it is compound, as each of
+ * its parts, so that a query for "token" matches `refreshAuthToken` while a
+ * query for the full identifier still ranks exact matches highest. The same
+ * function is used for documents and queries, which keeps both sides of the
+ * match consistent.
+ */
+export function tokenize(text: string): string[] {
+	const terms: string[] = []
+	const identifiers = text.match(/[A-Za-z_$][A-Za-z0-9_$]*/g) ?? []
+
+	for (const identifier of identifiers) {
+		const whole = identifier.toLowerCase()
+
+		if (isIndexable(whole)) {
+			terms.push(whole)
+		}
+
+		const parts = splitIdentifier(identifier)
+
+		if (parts.length > 1) {
+			for (const part of parts) {
+				if (isIndexable(part)) {
+					terms.push(part)
+				}
+			}
+		}
+	}
+
+	return terms
+}
+
+/**
+ * Tokenizes a query, dropping duplicate terms.
+ */
+export function tokenizeQuery(query: string): string[] {
+	return [...new Set(tokenize(query))]
+}
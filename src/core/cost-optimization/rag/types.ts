@@ -0,0 +1,44 @@
+/**
+ * Metadata kept for every file in the RAG index. File contents are not
+ * stored; snippets are read from disk when a query is answered.
+ */
+export interface IndexedDocument {
+	path: string
+	language: string
+	lastModified: number
+	tokens: number
+	symbols: string[] // Function/class/variable names
+	imports: string[] // Imported modules/packages
+	exports: string[] // Exported symbols
+	fileType?: string // More specific file type (e.g., 'react-component', 'test')
+}
+
+/**
+ * A function, class, section or block of a document that is indexed and
+ * ranked on its own. Line numbers are 1-based and inclusive.
+ */
+export interface IndexedChunk {
+	startLine: number
+	endLine: number
+	kind: string
+	name?: string
+	tokens: number
+}
+
+/**
+ * A contiguous range of lines from a document that matched a query.
+ * Line numbers are 1-based and inclusive.
+ */
+export interface Snippet {
+	startLine: number
+	endLine: number
+	text: string
+	score: number
+}
+
+export interface SearchResult {
+	document: IndexedDocument
+	chunk: IndexedChunk
+	relevanceScore: number
+	snippets: Snippet[]
+}
@@ -1,5 +1,6 @@
 import path from "path"
 import { fileExistsAtPath } from "../../utils/fs"
+import { arePathsEqual, findWorkspaceRoot, resolveWorkspacePath, WorkspaceRoot } from "../../utils/path"
 import fs from "fs/promises"
 import ignore, { Ignore } from "ignore"
 import * as vscode from "vscode"
@@ -10,17 +11,25 @@ export const LOCK_TEXT_SYMBOL = "\u{1F512}"
  * Controls LLM access to files by enforcing ignore patterns.
  * Designed to be instantiated once in Cline.ts and passed to file manipulation services.
  * Uses the 'ignore' library to support standard .gitignore syntax in .kodelyignore files.
+ * In a multi-root workspace every other workspace folder gets a controller of its own,
+ * which checks the paths inside that folder against its .kodelyignore.
  */
 export class KodelyIgnoreController {
 	private cwd: string
 	private ignoreInstance: Ignore
 	private disposables: vscode.Disposable[] = []
+	private workspaceRoots: WorkspaceRoot[]
+	private rootControllers: { root: WorkspaceRoot; controller: KodelyIgnoreController }[]
 	kodelyIgnoreContent: string | undefined
 
-	constructor(cwd: string) {
+	constructor(cwd: string, workspaceRoots: WorkspaceRoot[] = []) {
 		this.cwd = cwd
 		this.ignoreInstance = ignore()
 		this.kodelyIgnoreContent = undefined
+		this.workspaceRoots = workspaceRoots
+		this.rootControllers = workspaceRoots
+			.filter((root) => !arePathsEqual(root.path, cwd))
+			.map((root) => ({ root, controller: new KodelyIgnoreController(root.path) }))
 		// Set up file watcher for .kodelyignore
 		this.setupFileWatcher()
 	}
@@ -30,7 +39,14 @@ export class KodelyIgnoreController {
 	 * Must be called after construction and before using the controller
 	 */
 	async initialize(): Promise<void> {
-		await this.loadKodelyIgnore()
+		await Promise.all([
+			this.loadKodelyIgnore(),
+			...this.rootControllers.map(({ controller }) => controller.initialize()),
+		])
+	}
+
+	private get hasIgnoreRules(): boolean {
+		return !!this.kodelyIgnoreContent || this.rootControllers.some(({ controller }) => controller.hasIgnoreRules)
 	}
 
 	/**
@@ -88,17 +104,24 @@ export class KodelyIgnoreController {
 
 	/**
 	 * Check if a file should be accessible to the LLM
-	 * @param filePath - Path to check (relative to cwd)
+	 * @param filePath - Path to check (relative to cwd, absolute or qualified with a workspace folder name)
 	 * @returns true if file is accessible, false if ignored
 	 */
 	validateAccess(filePath: string): boolean {
+		const absolutePath = resolveWorkspacePath(this.cwd, filePath, this.workspaceRoots)
+		const root = findWorkspaceRoot(absolutePath, this.workspaceRoots)
+		const rootController = root && this.rootControllers.find((entry) => entry.root === root)?.controller
+
+		if (rootController) {
+			return rootController.validateAccess(absolutePath)
+		}
+
 		// Always allow access if .kodelyignore does not exist
 		if (!this.kodelyIgnoreContent) {
 			return true
 		}
 		try {
 			// Normalize path to be relative to cwd and use forward slashes
-			const absolutePath = path.resolve(this.cwd, filePath)
 			const relativePath = path.relative(this.cwd, absolutePath).toPosix()
 
 			// Ignore expects paths to be path.relative()'d
@@ -117,7 +140,7 @@ export class KodelyIgnoreController {
 	 */
 	validateCommand(command: string): string | undefined {
 		// Always allow if no .kodelyignore exists
-		if (!this.kodelyIgnoreContent) {
+		if (!this.hasIgnoreRules) {
 			return undefined
 		}
 
@@ -152,8 +175,8 @@ export class KodelyIgnoreController {
 				if (arg.startsWith("-") || arg.startsWith("/")) {
 					continue
 				}
-				// Ignore PowerShell parameter names
-				if (arg.includes(":")) {
+				// Ignore PowerShell parameter names, but not paths qualified with a workspace folder name
+				if (arg.includes(":") && !this.workspaceRoots.some((root) => arg.startsWith(`${root.name}:`))) {
 					continue
 				}
 				// Validate file access
@@ -192,6 +215,7 @@ export class KodelyIgnoreController {
 	dispose(): void {
 		this.disposables.forEach((d) => d.dispose())
 		this.disposables = []
+		this.rootControllers.forEach(({ controller }) => controller.dispose())
 	}
 
 	/**
@@ -199,10 +223,19 @@ export class KodelyIgnoreController {
 	 * @returns Formatted instructions or undefined if .kodelyignore doesn't exist
 	 */
 	getInstructions(): string | undefined {
-		if (!this.kodelyIgnoreContent) {
-			return undefined
+		const instructions = this.rootControllers
+			.filter(({ controller }) => controller.kodelyIgnoreContent)
+			.map(
+				({ root, controller }) =>
+					`# ${root.name}:.kodelyignore\n\n(The following is provided by the .kodelyignore file of the ${root.name} workspace folder and blocks files in that folder the same way.)\n\n${controller.kodelyIgnoreContent}\n.kodelyignore`,
+			)
+
+		if (this.kodelyIgnoreContent) {
+			instructions.unshift(
+				`# .kodelyignore\n\n(The following is provided by a root-level .kodelyignore file where the user has specified files and directories that should not be accessed. When using list_files, you'll notice a ${LOCK_TEXT_SYMBOL} next to files that are blocked. Attempting to access the file's contents e.g. through read_file will result in an error.)\n\n${this.kodelyIgnoreContent}\n.kodelyignore`,
+			)
 		}
 
-		return `# .kodelyignore\n\n(The following is provided by a root-level .kodelyignore file where the user has specified files and directories that should not be accessed. When using list_files, you'll notice a ${LOCK_TEXT_SYMBOL} next to files that are blocked. Attempting to access the file's contents e.g. through read_file will result in an error.)\n\n${this.kodelyIgnoreContent}\n.kodelyignore`
+		return instructions.length > 0 ? instructions.join("\n\n") : undefined
 	}
 }
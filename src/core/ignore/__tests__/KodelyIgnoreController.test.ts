@@ -10,8 +10,9 @@ jest.mock("fs/promises", () => ({
 
 // Mock path
 jest.mock("path", () => ({
+	...jest.requireActual("path"),
 	join: jest.fn((dir, file) => `${dir}/${file}`),
-	resolve: jest.fn((dir, file) => `${dir}/${file}`),
+	resolve: jest.fn((dir, file) => (file.startsWith("/") ? file : `${dir}/${file}`)),
 	relative: jest.fn((dir, file) => {
 		// Simple implementation for test cases
 		if (file.startsWith(dir)) {
@@ -381,4 +382,38 @@ describe("KodelyIgnoreController", () => {
 			expect(fileWatcher.dispose).toHaveBeenCalled()
 		})
 	})
+
+	describe("multi-root workspaces", () => {
+		const BACKEND_CWD = "/test/backend"
+
+		beforeEach(async () => {
+			// Only the backend folder has a .kodelyignore
+			mockFileExists.mockImplementation(async (filePath) => filePath.startsWith(BACKEND_CWD))
+			mockReadFile.mockResolvedValue("secrets.json")
+
+			controller = new KodelyIgnoreController(TEST_CWD, [
+				{ name: "path", path: TEST_CWD },
+				{ name: "backend", path: BACKEND_CWD },
+			])
+			await controller.initialize()
+		})
+
+		it("should check each workspace folder against its own .kodelyignore", () => {
+			expect(controller.validateAccess("secrets.json")).toBe(true)
+			expect(controller.validateAccess(`${BACKEND_CWD}/secrets.json`)).toBe(false)
+			expect(controller.validateAccess("backend:secrets.json")).toBe(false)
+			expect(controller.validateAccess("backend:src/index.ts")).toBe(true)
+		})
+
+		it("should validate commands reading files in other workspace folders", () => {
+			expect(controller.validateCommand("cat backend:secrets.json")).toBe("backend:secrets.json")
+		})
+
+		it("should include the instructions of every workspace folder", () => {
+			const instructions = controller.getInstructions()
+
+			expect(instructions).toContain("# backend:.kodelyignore")
+			expect(instructions).not.toContain("root-level .kodelyignore")
+		})
+	})
 })
@@ -77,7 +77,10 @@ const mockVscode = {
 jest.mock("vscode", () => mockVscode)
 jest.mock("../../../services/browser/UrlContentFetcher")
 jest.mock("../../../utils/git")
-jest.mock("../../../utils/path")
+jest.mock("../../../utils/path", () => ({
+	...jest.requireActual("../../../utils/path"),
+	getWorkspacePath: jest.fn(),
+}))
 
 // Now import the modules that use the mocks
 import { parseMentions, openMention } from "../index"
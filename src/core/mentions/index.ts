@@ -9,7 +9,8 @@ import { isBinaryFile } from "isbinaryfile"
 import { diagnosticsToProblemsString } from "../../integrations/diagnostics"
 import { getCommitInfo, getWorkingState } from "../../utils/git"
 import { getLatestTerminalOutput } from "../../integrations/terminal/get-latest-output"
-import { getWorkspacePath } from "../../utils/path"
+import { getWorkspacePath, getWorkspaceRoots, resolveWorkspacePath } from "../../utils/path"
+import { fileExistsAtPath } from "../../utils/fs"
 import { FileContextTracker } from "../context-tracking/FileContextTracker"
 
 export async function openMention(mention?: string): Promise<void> {
@@ -24,7 +25,7 @@ export async function openMention(mention?: string): Promise<void> {
 
 	if (mention.startsWith("/")) {
 		const relPath = mention.slice(1)
-		const absPath = path.resolve(cwd, relPath)
+		const absPath = await resolveMentionPath(relPath, cwd)
 		if (mention.endsWith("/")) {
 			vscode.commands.executeCommand("revealInExplorer", vscode.Uri.file(absPath))
 		} else {
@@ -155,8 +156,31 @@ export async function parseMentions(
 	return parsedText
 }
 
+/**
+ * Resolves the path of a file or folder mention. Mentions can be qualified
+ * with a workspace folder name; unqualified mentions that don't exist in
+ * `cwd` are looked up in the other workspace folders.
+ */
+async function resolveMentionPath(mentionPath: string, cwd: string): Promise<string> {
+	const absPath = resolveWorkspacePath(cwd, mentionPath)
+
+	if (await fileExistsAtPath(absPath)) {
+		return absPath
+	}
+
+	for (const root of getWorkspaceRoots()) {
+		const rootPath = path.resolve(root.path, mentionPath)
+
+		if (await fileExistsAtPath(rootPath)) {
+			return rootPath
+		}
+	}
+
+	return absPath
+}
+
 async function getFileOrFolderContent(mentionPath: string, cwd: string): Promise<string> {
-	const absPath = path.resolve(cwd, mentionPath)
+	const absPath = await resolveMentionPath(mentionPath, cwd)
 
 	try {
 		const stats = await fs.stat(absPath)
@@ -46,10 +46,27 @@ MCP servers can be configured in two ways in the MCP settings file:
 }
 \`\`\`
 
-Common configuration options for both types:
+3. Remote (Streamable HTTP) Server Configuration, for servers that support the newer transport:
+\`\`\`json
+{
+	"mcpServers": {
+		"remote-weather": {
+			"type": "streamable-http",
+			"url": "https://api.example.com/mcp",
+			"headers": {
+				"Authorization": "Bearer your-api-key"
+			}
+		}
+	}
+}
+\`\`\`
+Streamable HTTP servers fall back to SSE if the server doesn't support the transport. Set \`fallbackToSse\` to false to turn this off, and \`reconnection\` (\`maxRetries\`, \`initialDelay\`, \`maxDelay\` in milliseconds and \`growFactor\`) to change how a dropped connection is retried.
+
+Common configuration options for all types:
 - \`disabled\`: (optional) Set to true to temporarily disable the server
 - \`timeout\`: (optional) Maximum time in seconds to wait for server responses (default: 60)
 - \`alwaysAllow\`: (optional) Array of tool names that don't require user confirmation
+- \`toolPolicies\`: (optional) Rules checked in order before \`alwaysAllow\`, such as \`{ "tool": "query", "action": "allow", "when": { "$.database": "readonly_*" } }\`. \`tool\` is a glob on the tool name, \`action\` is "allow" or "ask", and \`when\` maps JSON paths into the arguments to the values they must have, where strings are glob patterns. The first matching rule decides whether the call needs confirmation
 
 ### Example Local MCP Server
 
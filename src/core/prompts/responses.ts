@@ -44,6 +44,9 @@ Otherwise, if you have not completed the task and do not need additional informa
 	invalidMcpToolArgumentError: (serverName: string, toolName: string) =>
 		`Invalid JSON argument used with ${serverName} for ${toolName}. Please retry with a properly formatted JSON argument.`,
 
+	invalidMcpResourceArgumentsError: (serverName: string, uriTemplate: string, problems: string[]) =>
+		`Invalid arguments used with ${serverName} for the resource template ${uriTemplate}:\n${problems.map((problem) => `- ${problem}`).join("\n")}\nPlease retry with a JSON object that has a string value for every variable of the template.`,
+
 	toolResult: (
 		text: string,
 		images?: string[],
@@ -52,7 +52,7 @@ export async function getMcpServersSection(
 The Model Context Protocol (MCP) enables communication between the system and MCP servers that provide additional tools and resources to extend your capabilities. MCP servers can be one of two types:
 
 1. Local (Stdio-based) servers: These run locally on the user's machine and communicate via standard input/output
-2. Remote (SSE-based) servers: These run on remote machines and communicate via Server-Sent Events (SSE) over HTTP/HTTPS
+2. Remote servers: These run on remote machines and communicate over HTTP/HTTPS, via Streamable HTTP or Server-Sent Events (SSE)
 
 # Connected MCP Servers
 
@@ -45,6 +45,7 @@ async function generatePrompt(
 	language?: string,
 	kodelyIgnoreInstructions?: string,
 	optimizationLevel?: CostOptimizationLevel,
+	useLocalRag?: boolean,
 ): Promise<string> {
 	if (!context) {
 		throw new Error("Extension context is required for generating system prompt")
@@ -77,6 +78,7 @@ ${getToolDescriptionsForMode(
 	mcpHub,
 	customModeConfigs,
 	experiments,
+	useLocalRag,
 )}
 
 ${getToolUseGuidelinesSection()}
@@ -158,6 +160,7 @@ export const SYSTEM_PROMPT = async (
 	language?: string,
 	kodelyIgnoreInstructions?: string,
 	optimizationLevel?: CostOptimizationLevel,
+	useLocalRag?: boolean,
 ): Promise<string> => {
 	if (!context) {
 		throw new Error("Extension context is required for generating system prompt")
@@ -217,5 +220,6 @@ ${customInstructions}`
 		language,
 		kodelyIgnoreInstructions,
 		optimizationLevel,
+		useLocalRag,
 	)
 }
@@ -8,11 +8,17 @@ export function getAccessMcpResourceDescription(args: ToolArgs): string | undefi
 Description: Request to access a resource provided by a connected MCP server. Resources represent data sources that can be used as context, such as files, API responses, or system information.
 Parameters:
 - server_name: (required) The name of the MCP server providing the resource
-- uri: (required) The URI identifying the specific resource to access
+- uri: (required) The URI identifying the specific resource to access, or one of the server's resource templates
+- arguments: (required for resource templates) A JSON object with a value for each variable of the template, which is expanded into the URI of the resource
 Usage:
 <access_mcp_resource>
 <server_name>server name here</server_name>
-<uri>resource URI here</uri>
+<uri>resource URI or template here</uri>
+<arguments>
+{
+  "variable": "value"
+}
+</arguments>
 </access_mcp_resource>
 
 Example: Requesting to access an MCP resource
@@ -20,5 +26,18 @@ Example: Requesting to access an MCP resource
 <access_mcp_resource>
 <server_name>weather-server</server_name>
 <uri>weather://san-francisco/current</uri>
+</access_mcp_resource>
+
+Example: Requesting to access a resource from a resource template
+
+<access_mcp_resource>
+<server_name>weather-server</server_name>
+<uri>weather://{city}/forecast{?days}</uri>
+<arguments>
+{
+  "city": "san-francisco",
+  "days": "3"
+}
+</arguments>
 </access_mcp_resource>`
 }
@@ -0,0 +1,38 @@
+import { ToolArgs } from "./types"
+
+export function getBackgroundProcessDescription(args: ToolArgs): string | undefined {
+	return `## background_process
+Description: Request to manage a long-running process that keeps running in the background while you continue with the task, such as a dev server, a file watcher or a test runner in watch mode. Use this instead of execute_command for commands that don't exit by themselves. Each process has a name you choose, and the processes of the task are listed in the environment details. They are stopped when the task ends.
+Parameters:
+- action: (required) One of:
+    * start: Starts \`command\` as a background process named \`name\`. A process that exited can be started again under the same name.
+    * read: Returns the output of the process since the last read or wait.
+    * wait: Waits until the output of the process since the last read matches the regular expression \`pattern\`, e.g. until a dev server reports it is ready, then returns that output. Also returns when the process exits or \`timeout\` passes.
+    * stop: Stops the process and the processes it started, and returns its remaining output.
+- name: (required) A short name for the process, e.g. "dev-server".
+- command: (required for start) The CLI command to run. This should be valid for the current operating system.
+- cwd: (optional, for start) The working directory to run the command in (default: ${args.cwd})
+- pattern: (required for wait) A regular expression to wait for in the output, e.g. "ready on port \\d+".
+- timeout: (optional, for wait) How many seconds to wait at most (default: 60, maximum: 600)
+Usage:
+<background_process>
+<action>start, read, wait or stop</action>
+<name>Process name here</name>
+<command>Your command here (start only)</command>
+<pattern>Regular expression here (wait only)</pattern>
+</background_process>
+
+Example: Requesting to start a dev server and wait until it is ready
+<background_process>
+<action>start</action>
+<name>dev-server</name>
+<command>npm run dev</command>
+</background_process>
+
+<background_process>
+<action>wait</action>
+<name>dev-server</name>
+<pattern>ready|listening on</pattern>
+<timeout>30</timeout>
+</background_process>`
+}
@@ -0,0 +1,24 @@
+import { ToolArgs } from "./types"
+
+export function getCodebaseSearchDescription(args: ToolArgs): string | undefined {
+	if (!args.useLocalRag) {
+		return undefined
+	}
+
+	return `## codebase_search
+Description: Request to search the indexed codebase for the code most relevant to a natural-language query. Results are ranked functions, classes and sections with their file paths and line ranges. Use this to find where something is implemented when you don't know the exact names to search for; use search_files instead when you know the exact text or pattern.
+Parameters:
+- query: (required) What you are looking for, described in natural language or with likely identifiers (e.g. "where auth tokens are refreshed").
+- path: (optional) A file or directory to restrict the search to (relative to the current workspace directory ${args.cwd}). If not provided, the whole workspace is searched.
+Usage:
+<codebase_search>
+<query>Your search query here</query>
+<path>Directory path here (optional)</path>
+</codebase_search>
+
+Example: Requesting to find where auth tokens are refreshed in the src directory
+<codebase_search>
+<query>refresh auth token</query>
+<path>src</path>
+</codebase_search>`
+}
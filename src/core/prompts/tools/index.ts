@@ -5,6 +5,8 @@ import { Mode, ModeConfig, getModeConfig, isToolAllowedForMode, getGroupName } f
 
 import { ToolArgs } from "./types"
 import { getExecuteCommandDescription } from "./execute-command"
+import { getBackgroundProcessDescription } from "./background-process"
+import { getRunTestsDescription } from "./run-tests"
 import { getReadFileDescription } from "./read-file"
 import { getFetchInstructionsDescription } from "./fetch-instructions"
 import { getWriteToFileDescription } from "./write-to-file"
@@ -14,6 +16,7 @@ import { getListFilesDescription } from "./list-files"
 import { getInsertContentDescription } from "./insert-content"
 import { getSearchAndReplaceDescription } from "./search-and-replace"
 import { getListCodeDefinitionNamesDescription } from "./list-code-definition-names"
+import { getCodebaseSearchDescription } from "./codebase-search"
 import { getBrowserActionDescription } from "./browser-action"
 import { getAskFollowupQuestionDescription } from "./ask-followup-question"
 import { getAttemptCompletionDescription } from "./attempt-completion"
@@ -25,6 +28,8 @@ import { getNewTaskDescription } from "./new-task"
 // Map of tool names to their description functions
 const toolDescriptionMap: Record<string, (args: ToolArgs) => string | undefined> = {
 	execute_command: (args) => getExecuteCommandDescription(args),
+	background_process: (args) => getBackgroundProcessDescription(args),
+	run_tests: (args) => getRunTestsDescription(args),
 	read_file: (args) => getReadFileDescription(args),
 	fetch_instructions: () => getFetchInstructionsDescription(),
 	write_to_file: (args) => getWriteToFileDescription(args),
@@ -32,6 +37,7 @@ const toolDescriptionMap: Record<string, (args: ToolArgs) => string | undefined>
 	search_files: (args) => getSearchFilesDescription(args),
 	list_files: (args) => getListFilesDescription(args),
 	list_code_definition_names: (args) => getListCodeDefinitionNamesDescription(args),
+	codebase_search: (args) => getCodebaseSearchDescription(args),
 	browser_action: (args) => getBrowserActionDescription(args),
 	ask_followup_question: () => getAskFollowupQuestionDescription(),
 	attempt_completion: () => getAttemptCompletionDescription(),
@@ -54,6 +60,7 @@ export function getToolDescriptionsForMode(
 	mcpHub?: McpHub,
 	customModes?: ModeConfig[],
 	experiments?: Record<string, boolean>,
+	useLocalRag?: boolean,
 ): string {
 	const config = getModeConfig(mode, customModes)
 	const args: ToolArgs = {
@@ -62,6 +69,7 @@ export function getToolDescriptionsForMode(
 		diffStrategy,
 		browserViewportSize,
 		mcpHub,
+		useLocalRag,
 	}
 
 	const tools = new Set<string>()
@@ -110,6 +118,8 @@ export function getToolDescriptionsForMode(
 // Export individual description functions for backward compatibility
 export {
 	getExecuteCommandDescription,
+	getBackgroundProcessDescription,
+	getRunTestsDescription,
 	getReadFileDescription,
 	getFetchInstructionsDescription,
 	getWriteToFileDescription,
@@ -117,6 +127,7 @@ export {
 	getSearchFilesDescription,
 	getListFilesDescription,
 	getListCodeDefinitionNamesDescription,
+	getCodebaseSearchDescription,
 	getBrowserActionDescription,
 	getAskFollowupQuestionDescription,
 	getAttemptCompletionDescription,
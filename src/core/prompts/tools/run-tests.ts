@@ -0,0 +1,21 @@
+import { ToolArgs } from "./types"
+
+export function getRunTestsDescription(args: ToolArgs): string | undefined {
+	return `## run_tests
+Description: Request to run the tests of the project and get a structured summary of the results: how many tests passed, failed and were skipped, and for each failing test its name, assertion message and file:line. Prefer this over running the tests with execute_command, whose output is truncated. The test runner is detected from the project's files (Jest, Vitest, pytest, go test or cargo test) and run with a machine-readable reporter.
+Parameters:
+- target: (optional) What to test: a test file or directory for Jest, Vitest and pytest (e.g. src/utils or tests/test_api.py), a package pattern for go (default: ./...), a test name filter for cargo. All tests run when omitted.
+- runner: (optional) The test runner to use when it can't be detected or the project has several: jest, vitest, pytest, go or cargo.
+- cwd: (optional) The directory of the project to test (default: ${args.cwd})
+Usage:
+<run_tests>
+<target>Test file, directory, package or filter (optional)</target>
+<runner>Test runner (optional)</runner>
+<cwd>Project directory (optional)</cwd>
+</run_tests>
+
+Example: Requesting to run the tests of a directory
+<run_tests>
+<target>src/utils</target>
+</run_tests>`
+}
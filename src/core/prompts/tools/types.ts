@@ -7,5 +7,6 @@ export type ToolArgs = {
 	diffStrategy?: DiffStrategy
 	browserViewportSize?: string
 	mcpHub?: McpHub
+	useLocalRag?: boolean
 	toolOptions?: any
 }
@@ -1,13 +1,23 @@
 // npx jest src/core/sliding-window/__tests__/sliding-window.test.ts
 
 import { Anthropic } from "@anthropic-ai/sdk"
+import * as vscode from "vscode"
 
 import { ModelInfo } from "../../../shared/api"
 import { ApiHandler } from "../../../api"
 import { BaseProvider } from "../../../api/providers/base-provider"
-import { CostOptimizationLevel } from "../../cost-optimization/CostOptimizationManager"
-import { getTokenBufferPercentage } from "../index"
-import { estimateTokenCount, truncateConversation, truncateConversationIfNeeded } from "../index"
+import { ApiStream } from "../../../api/transform/stream"
+import {
+	ContextPolicy,
+	CostOptimizationLevel,
+	CostOptimizationManager,
+} from "../../cost-optimization/CostOptimizationManager"
+import {
+	condenseConversation,
+	estimateTokenCount,
+	truncateConversation,
+	truncateConversationIfNeeded,
+} from "../index"
 
 // Create a mock ApiHandler for testing
 class MockApiHandler extends BaseProvider {
@@ -34,6 +44,28 @@ class MockApiHandler extends BaseProvider {
 // Create a singleton instance for tests
 const mockApiHandler = new MockApiHandler()
 
+// Leaves 10% of the context window unused on top of the reserved output tokens
+const createPolicy = (reservedOutputTokens?: number | null): ContextPolicy => ({
+	maxContextWindowUsage: 90,
+	reservedOutputTokens: reservedOutputTokens ?? 0,
+	truncationFraction: 0.5,
+})
+
+// An ApiHandler that answers every request with a fixed summary
+class MockSummarizingApiHandler extends BaseProvider {
+	requests: { systemPrompt: string; messages: Anthropic.Messages.MessageParam[] }[] = []
+
+	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		this.requests.push({ systemPrompt, messages })
+		yield { type: "text", text: "## Task\nCondensed" }
+		yield { type: "usage", inputTokens: 100, outputTokens: 10, totalCost: 0.01 }
+	}
+
+	getModel() {
+		return mockApiHandler.getModel()
+	}
+}
+
 /**
  * Tests for the truncateConversation function
  */
@@ -233,7 +265,7 @@ describe("truncateConversationIfNeeded", () => {
 	it("should not truncate if tokens are below max tokens threshold", async () => {
 		const modelInfo = createModelInfo(100000, 30000)
 		const maxTokens = 100000 - 30000 // 70000
-		const dynamicBuffer = modelInfo.contextWindow * getTokenBufferPercentage(CostOptimizationLevel.BALANCED) // 10000
+		const dynamicBuffer = modelInfo.contextWindow * 0.1 // 10000
 		const totalTokens = 70000 - dynamicBuffer - 1 // Just below threshold - buffer
 
 		// Create messages with very small content in the last one to avoid token overflow
@@ -243,7 +275,7 @@ describe("truncateConversationIfNeeded", () => {
 			messages: messagesWithSmallContent,
 			totalTokens,
 			contextWindow: modelInfo.contextWindow,
-			maxTokens: modelInfo.maxTokens,
+			policy: createPolicy(modelInfo.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(result).toEqual(messagesWithSmallContent) // No truncation occurs
@@ -265,7 +297,7 @@ describe("truncateConversationIfNeeded", () => {
 			messages: messagesWithSmallContent,
 			totalTokens,
 			contextWindow: modelInfo.contextWindow,
-			maxTokens: modelInfo.maxTokens,
+			policy: createPolicy(modelInfo.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(result).toEqual(expectedResult)
@@ -285,7 +317,7 @@ describe("truncateConversationIfNeeded", () => {
 			messages: messagesWithSmallContent,
 			totalTokens: belowThreshold,
 			contextWindow: modelInfo1.contextWindow,
-			maxTokens: modelInfo1.maxTokens,
+			policy: createPolicy(modelInfo1.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 
@@ -293,7 +325,7 @@ describe("truncateConversationIfNeeded", () => {
 			messages: messagesWithSmallContent,
 			totalTokens: belowThreshold,
 			contextWindow: modelInfo2.contextWindow,
-			maxTokens: modelInfo2.maxTokens,
+			policy: createPolicy(modelInfo2.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 
@@ -305,7 +337,7 @@ describe("truncateConversationIfNeeded", () => {
 			messages: messagesWithSmallContent,
 			totalTokens: aboveThreshold,
 			contextWindow: modelInfo1.contextWindow,
-			maxTokens: modelInfo1.maxTokens,
+			policy: createPolicy(modelInfo1.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 
@@ -313,7 +345,7 @@ describe("truncateConversationIfNeeded", () => {
 			messages: messagesWithSmallContent,
 			totalTokens: aboveThreshold,
 			contextWindow: modelInfo2.contextWindow,
-			maxTokens: modelInfo2.maxTokens,
+			policy: createPolicy(modelInfo2.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 
@@ -334,13 +366,13 @@ describe("truncateConversationIfNeeded", () => {
 		]
 
 		// Set base tokens so total is well below threshold + buffer even with small content added
-		const dynamicBuffer = modelInfo.contextWindow * getTokenBufferPercentage(CostOptimizationLevel.BALANCED)
+		const dynamicBuffer = modelInfo.contextWindow * 0.1
 		const baseTokensForSmall = availableTokens - smallContentTokens - dynamicBuffer - 10
 		const resultWithSmall = await truncateConversationIfNeeded({
 			messages: messagesWithSmallContent,
 			totalTokens: baseTokensForSmall,
 			contextWindow: modelInfo.contextWindow,
-			maxTokens,
+			policy: createPolicy(maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(resultWithSmall).toEqual(messagesWithSmallContent) // No truncation
@@ -364,7 +396,7 @@ describe("truncateConversationIfNeeded", () => {
 			messages: messagesWithLargeContent,
 			totalTokens: baseTokensForLarge,
 			contextWindow: modelInfo.contextWindow,
-			maxTokens,
+			policy: createPolicy(maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(resultWithLarge).not.toEqual(messagesWithLargeContent) // Should truncate
@@ -383,7 +415,7 @@ describe("truncateConversationIfNeeded", () => {
 			messages: messagesWithVeryLargeContent,
 			totalTokens: baseTokensForVeryLarge,
 			contextWindow: modelInfo.contextWindow,
-			maxTokens,
+			policy: createPolicy(maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(resultWithVeryLarge).not.toEqual(messagesWithVeryLargeContent) // Should truncate
@@ -392,7 +424,7 @@ describe("truncateConversationIfNeeded", () => {
 	it("should truncate if tokens are within TOKEN_BUFFER_PERCENTAGE of the threshold", async () => {
 		const modelInfo = createModelInfo(100000, 30000)
 		const maxTokens = 100000 - 30000 // 70000
-		const dynamicBuffer = modelInfo.contextWindow * getTokenBufferPercentage(CostOptimizationLevel.BALANCED) // 10% of 100000 = 10000
+		const dynamicBuffer = modelInfo.contextWindow * 0.1 // 10% of 100000 = 10000
 		const totalTokens = 70000 - dynamicBuffer + 1 // Just within the dynamic buffer of threshold (70000)
 
 		// Create messages with very small content in the last one to avoid token overflow
@@ -406,7 +438,7 @@ describe("truncateConversationIfNeeded", () => {
 			messages: messagesWithSmallContent,
 			totalTokens,
 			contextWindow: modelInfo.contextWindow,
-			maxTokens: modelInfo.maxTokens,
+			policy: createPolicy(modelInfo.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 
@@ -455,7 +487,7 @@ describe("getMaxTokens", () => {
 			messages: messagesWithSmallContent,
 			totalTokens: 39999, // Well below threshold + dynamic buffer
 			contextWindow: modelInfo.contextWindow,
-			maxTokens: modelInfo.maxTokens,
+			policy: createPolicy(modelInfo.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(result1).toEqual(messagesWithSmallContent)
@@ -465,27 +497,26 @@ describe("getMaxTokens", () => {
 			messages: messagesWithSmallContent,
 			totalTokens: 50001, // Above threshold
 			contextWindow: modelInfo.contextWindow,
-			maxTokens: modelInfo.maxTokens,
+			policy: createPolicy(modelInfo.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(result2).not.toEqual(messagesWithSmallContent)
 		expect(result2.length).toBe(3) // Truncated with 0.5 fraction
 	})
 
-	it("should use 20% of context window as buffer when maxTokens is undefined", async () => {
+	it("should only leave the unused share of the context window when no output tokens are reserved", async () => {
 		const modelInfo = createModelInfo(100000, undefined)
-		// Max tokens = 100000 - (100000 * 0.2) = 80000
+		// Max tokens = 100000 * 0.9 = 90000
 
 		// Create messages with very small content in the last one to avoid token overflow
 		const messagesWithSmallContent = [...messages.slice(0, -1), { ...messages[messages.length - 1], content: "" }]
 
-		// Account for the dynamic buffer which is 10% of context window (10,000 tokens)
-		// Below max tokens and buffer - no truncation
+		// Below max tokens - no truncation
 		const result1 = await truncateConversationIfNeeded({
 			messages: messagesWithSmallContent,
-			totalTokens: 69999, // Well below threshold + dynamic buffer
+			totalTokens: 89999,
 			contextWindow: modelInfo.contextWindow,
-			maxTokens: modelInfo.maxTokens,
+			policy: createPolicy(modelInfo.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(result1).toEqual(messagesWithSmallContent)
@@ -493,9 +524,9 @@ describe("getMaxTokens", () => {
 		// Above max tokens - truncate
 		const result2 = await truncateConversationIfNeeded({
 			messages: messagesWithSmallContent,
-			totalTokens: 80001, // Above threshold
+			totalTokens: 90001,
 			contextWindow: modelInfo.contextWindow,
-			maxTokens: modelInfo.maxTokens,
+			policy: createPolicy(modelInfo.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(result2).not.toEqual(messagesWithSmallContent)
@@ -514,7 +545,7 @@ describe("getMaxTokens", () => {
 			messages: messagesWithSmallContent,
 			totalTokens: 34999, // Well below threshold + buffer
 			contextWindow: modelInfo.contextWindow,
-			maxTokens: modelInfo.maxTokens,
+			policy: createPolicy(modelInfo.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(result1).toEqual(messagesWithSmallContent)
@@ -524,7 +555,7 @@ describe("getMaxTokens", () => {
 			messages: messagesWithSmallContent,
 			totalTokens: 40001, // Above threshold
 			contextWindow: modelInfo.contextWindow,
-			maxTokens: modelInfo.maxTokens,
+			policy: createPolicy(modelInfo.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(result2).not.toEqual(messagesWithSmallContent)
@@ -544,7 +575,7 @@ describe("getMaxTokens", () => {
 			messages: messagesWithSmallContent,
 			totalTokens: 149999, // Well below threshold + dynamic buffer
 			contextWindow: modelInfo.contextWindow,
-			maxTokens: modelInfo.maxTokens,
+			policy: createPolicy(modelInfo.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(result1).toEqual(messagesWithSmallContent)
@@ -554,10 +585,161 @@ describe("getMaxTokens", () => {
 			messages: messagesWithSmallContent,
 			totalTokens: 170001, // Above threshold
 			contextWindow: modelInfo.contextWindow,
-			maxTokens: modelInfo.maxTokens,
+			policy: createPolicy(modelInfo.maxTokens),
 			apiHandler: mockApiHandler,
 		})
 		expect(result2).not.toEqual(messagesWithSmallContent)
 		expect(result2.length).toBe(3) // Truncated with 0.5 fraction
 	})
 })
+
+/**
+ * Tests for the context policy of each cost optimization level
+ */
+describe("truncateConversationIfNeeded at each optimization level", () => {
+	const context = {
+		globalState: { get: jest.fn((_key: string, defaultValue: unknown) => defaultValue), update: jest.fn() },
+	} as unknown as vscode.ExtensionContext
+
+	const modelInfo: ModelInfo = { contextWindow: 100000, maxTokens: 8192, supportsPromptCache: true }
+
+	// 8 messages after the first, the last one empty so it adds no tokens
+	const messages: Anthropic.Messages.MessageParam[] = Array.from({ length: 9 }, (_, i) => ({
+		role: i % 2 === 0 ? "user" : "assistant",
+		content: i === 8 ? "" : `Message ${i + 1}`,
+	}))
+
+	const getPolicy = async (level: CostOptimizationLevel) => {
+		const manager = new CostOptimizationManager(context)
+		await manager.setOptimizationLevel(level)
+		return manager.getContextPolicy(modelInfo)
+	}
+
+	it.each([
+		// 95% of the window less 4000 reserved tokens; a quarter of the messages is dropped
+		[CostOptimizationLevel.LOW, 91000, 7],
+		// 85% of the window less 2000 reserved tokens; half of the messages is dropped
+		[CostOptimizationLevel.BALANCED, 83000, 5],
+		// 70% of the window less 1000 reserved tokens; three quarters of the messages are dropped
+		[CostOptimizationLevel.HIGH, 69000, 3],
+	])("should trim at %s optimization past %i tokens down to %i messages", async (level, threshold, remaining) => {
+		const policy = await getPolicy(level)
+		const options = { messages, contextWindow: modelInfo.contextWindow, apiHandler: mockApiHandler, policy }
+
+		expect(await truncateConversationIfNeeded({ ...options, totalTokens: threshold })).toEqual(messages)
+
+		const result = await truncateConversationIfNeeded({ ...options, totalTokens: threshold + 1 })
+		expect(result).toHaveLength(remaining)
+		expect(result[0]).toEqual(messages[0])
+		expect(result[result.length - 1]).toEqual(messages[8])
+	})
+
+	it("should keep more history the more quality-focused the level is", async () => {
+		const low = await getPolicy(CostOptimizationLevel.LOW)
+		const balanced = await getPolicy(CostOptimizationLevel.BALANCED)
+		const high = await getPolicy(CostOptimizationLevel.HIGH)
+
+		expect(low.maxContextWindowUsage).toBeGreaterThan(balanced.maxContextWindowUsage)
+		expect(balanced.maxContextWindowUsage).toBeGreaterThan(high.maxContextWindowUsage)
+		expect(low.truncationFraction).toBeLessThan(balanced.truncationFraction)
+		expect(balanced.truncationFraction).toBeLessThan(high.truncationFraction)
+	})
+})
+
+/**
+ * Tests for the condenseConversation function
+ */
+describe("condenseConversation", () => {
+	const messages: Anthropic.Messages.MessageParam[] = Array.from({ length: 9 }, (_, i) => ({
+		role: i % 2 === 0 ? "user" : "assistant",
+		content: `Message ${i + 1}`,
+	}))
+
+	it("should replace the condensed range with an assistant summary and keep roles alternating", async () => {
+		const apiHandler = new MockSummarizingApiHandler()
+
+		const result = await condenseConversation(messages, 0.5, apiHandler)
+
+		// 8 messages after the first, 0.5 fraction means 4 messages. The first
+		// 3 of them are summarized and the 4th is kept.
+		expect(result?.messages.map(({ role }) => role)).toEqual([
+			"user",
+			"assistant",
+			"user",
+			"assistant",
+			"user",
+			"assistant",
+			"user",
+		])
+		expect(result?.messages[0]).toEqual(messages[0])
+		expect(result?.messages[1].content).toContain("## Task\nCondensed")
+		expect(result?.messages.slice(2)).toEqual(messages.slice(4))
+		expect(result?.summary).toEqual({
+			text: "## Task\nCondensed",
+			messagesSummarized: 3,
+			tokensIn: 100,
+			tokensOut: 10,
+			cost: 0.01,
+		})
+
+		expect(apiHandler.requests).toHaveLength(1)
+		expect(apiHandler.requests[0].messages[0].content).toContain("Message 4")
+		expect(apiHandler.requests[0].messages[0].content).not.toContain("Message 5")
+	})
+
+	it("should give the summary the ts of the last message it replaces", async () => {
+		const messagesWithTs = messages.map((message, i) => ({ ...message, ts: (i + 1) * 1000 }))
+
+		const result = await condenseConversation(messagesWithTs, 0.5, new MockSummarizingApiHandler())
+
+		expect(result?.messages.map(({ ts }) => ts)).toEqual([1000, 4000, 5000, 6000, 7000, 8000, 9000])
+	})
+
+	it("should not condense when there is nothing to drop", async () => {
+		expect(await condenseConversation(messages.slice(0, 3), 0.5, new MockSummarizingApiHandler())).toBeUndefined()
+	})
+})
+
+describe("truncateConversationIfNeeded with a summarizer", () => {
+	const messages: Anthropic.Messages.MessageParam[] = [
+		{ role: "user", content: "First message" },
+		{ role: "assistant", content: "Second message" },
+		{ role: "user", content: "Third message" },
+		{ role: "assistant", content: "Fourth message" },
+		{ role: "user", content: "Fifth message" },
+	]
+
+	const options = {
+		messages,
+		totalTokens: 70001,
+		contextWindow: 100000,
+		policy: createPolicy(30000),
+		apiHandler: mockApiHandler,
+	}
+
+	it("should summarize instead of truncating and report the summary", async () => {
+		const onSummary = jest.fn()
+
+		const result = await truncateConversationIfNeeded({
+			...options,
+			summarizer: { apiHandler: new MockSummarizingApiHandler(), onSummary },
+		})
+
+		expect(result).toHaveLength(5)
+		expect(result[1].role).toBe("assistant")
+		expect(result.slice(2)).toEqual(messages.slice(2))
+		expect(onSummary).toHaveBeenCalledWith(expect.objectContaining({ messagesSummarized: 1, cost: 0.01 }))
+	})
+
+	it("should fall back to truncation if summarizing fails", async () => {
+		const consoleErrorSpy = jest.spyOn(console, "error").mockImplementation(() => {})
+
+		const result = await truncateConversationIfNeeded({
+			...options,
+			summarizer: { apiHandler: mockApiHandler },
+		})
+
+		expect(result).toEqual([messages[0], messages[3], messages[4]])
+		consoleErrorSpy.mockRestore()
+	})
+})
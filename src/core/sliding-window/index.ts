@@ -1,23 +1,12 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import { ApiHandler } from "../../api"
-import { CostOptimizationLevel } from "../cost-optimization/CostOptimizationManager"
+import { ContextPolicy } from "../cost-optimization/CostOptimizationManager"
+import { ConversationSummary, formatSummaryMessage, summarizeMessages } from "./summarize"
 
-/**
- * Default percentage of the context window to use as a buffer when deciding when to truncate
- * This is adjusted based on the optimization level
- */
-export function getTokenBufferPercentage(optimizationLevel?: CostOptimizationLevel): number {
-	switch (optimizationLevel) {
-		case CostOptimizationLevel.LOW:
-			return 0.25; // More aggressive truncation to save tokens
-		case CostOptimizationLevel.BALANCED:
-			return 0.15; // Moderate truncation
-		case CostOptimizationLevel.HIGH:
-			return 0.05; // Minimal truncation to preserve context
-		default:
-			return 0.1; // Default value
-	}
-}
+export type { ConversationSummary } from "./summarize"
+
+// A message of the API conversation history, which records when it was added.
+type ApiMessage = Anthropic.Messages.MessageParam & { ts?: number }
 
 /**
  * Counts tokens for user content using the provider's token counting implementation.
@@ -58,29 +47,67 @@ export function truncateConversation(
 }
 
 /**
- * Conditionally truncates the conversation messages if the total token count
- * exceeds the model's limit, considering the size of incoming content.
+ * Condenses a conversation by replacing a fraction of the messages with a
+ * summary of them written by a model.
  *
- * @param {Anthropic.Messages.MessageParam[]} messages - The conversation messages.
- * @param {number} totalTokens - The total number of tokens in the conversation (excluding the last user message).
- * @param {number} contextWindow - The context window size.
- * @param {number} maxTokens - The maximum number of tokens allowed.
- * @param {ApiHandler} apiHandler - The API handler to use for token counting.
- * @returns {Anthropic.Messages.MessageParam[]} The original or truncated conversation messages.
+ * The same range of messages as `truncateConversation` is considered, except
+ * that its last message is kept: the summary is inserted as an assistant
+ * message after the first message so that roles keep alternating. It gets
+ * the `ts` of the last message it replaces, so that it is dropped along with
+ * that message when the task is restored or forked to an earlier message.
+ *
+ * @param {ApiMessage[]} messages - The conversation messages.
+ * @param {number} fracToRemove - The fraction (between 0 and 1) of messages (excluding the first) to condense.
+ * @param {ApiHandler} apiHandler - The API handler to write the summary with.
+ * @returns The condensed conversation messages and the summary, or undefined if there is nothing to condense.
  */
+export async function condenseConversation(
+	messages: ApiMessage[],
+	fracToRemove: number,
+	apiHandler: ApiHandler,
+): Promise<{ messages: ApiMessage[]; summary: ConversationSummary } | undefined> {
+	const rawMessagesToRemove = Math.floor((messages.length - 1) * fracToRemove)
+	const messagesToRemove = rawMessagesToRemove - (rawMessagesToRemove % 2)
+
+	if (messagesToRemove < 2) {
+		return undefined
+	}
+
+	const summary = await summarizeMessages(messages.slice(1, messagesToRemove), apiHandler)
+
+	return {
+		messages: [
+			messages[0],
+			{ role: "assistant", content: formatSummaryMessage(summary), ts: messages[messagesToRemove - 1].ts },
+			...messages.slice(messagesToRemove),
+		],
+		summary,
+	}
+}
 
 type TruncateOptions = {
 	messages: Anthropic.Messages.MessageParam[]
+	// The total number of tokens in the conversation (excluding the last user message).
 	totalTokens: number
 	contextWindow: number
-	maxTokens?: number | null
 	apiHandler: ApiHandler
-	optimizationLevel?: CostOptimizationLevel
+	policy: ContextPolicy
+	summarizer?: Summarizer
+}
+
+/**
+ * Summarizes the messages that would be dropped instead of dropping them.
+ */
+export type Summarizer = {
+	// The API handler to write the summary with, which can be a cheaper model than the task's.
+	apiHandler: ApiHandler
+	onSummary?: (summary: ConversationSummary) => Promise<void>
 }
 
 /**
  * Conditionally truncates the conversation messages if the total token count
- * exceeds the model's limit, considering the size of incoming content.
+ * exceeds the share of the context window allowed by the context policy,
+ * considering the size of incoming content.
  *
  * @param {TruncateOptions} options - The options for truncation
  * @returns {Promise<Anthropic.Messages.MessageParam[]>} The original or truncated conversation messages.
@@ -89,13 +116,10 @@ export async function truncateConversationIfNeeded({
 	messages,
 	totalTokens,
 	contextWindow,
-	maxTokens,
 	apiHandler,
-	optimizationLevel,
+	policy,
+	summarizer,
 }: TruncateOptions): Promise<Anthropic.Messages.MessageParam[]> {
-	// Calculate the maximum tokens reserved for response
-	const reservedTokens = maxTokens || contextWindow * 0.2
-
 	// Estimate tokens for the last message (which is always a user message)
 	const lastMessage = messages[messages.length - 1]
 	const lastMessageContent = lastMessage.content
@@ -107,10 +131,26 @@ export async function truncateConversationIfNeeded({
 	const effectiveTokens = totalTokens + lastMessageTokens
 
 	// Calculate available tokens for conversation history
-	// Truncate if we're within buffer percentage of the context window
-	const bufferPercentage = getTokenBufferPercentage(optimizationLevel)
-	const allowedTokens = contextWindow * (1 - bufferPercentage) - reservedTokens
+	const allowedTokens = (contextWindow * policy.maxContextWindowUsage) / 100 - policy.reservedOutputTokens
 
 	// Determine if truncation is needed and apply if necessary
-	return effectiveTokens > allowedTokens ? truncateConversation(messages, 0.5) : messages
+	if (effectiveTokens <= allowedTokens) {
+		return messages
+	}
+
+	if (summarizer) {
+		try {
+			const condensed = await condenseConversation(messages, policy.truncationFraction, summarizer.apiHandler)
+
+			if (condensed) {
+				await summarizer.onSummary?.(condensed.summary)
+				return condensed.messages
+			}
+		} catch (error) {
+			// Dropping the messages beats overflowing the context window.
+			console.error("Failed to summarize conversation, truncating instead:", error)
+		}
+	}
+
+	return truncateConversation(messages, policy.truncationFraction)
 }
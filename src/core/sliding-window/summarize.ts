@@ -0,0 +1,105 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import { ApiHandler } from "../../api"
+import { formatContentBlockToMarkdown } from "../../integrations/misc/export-markdown"
+import { calculateApiCostAnthropic } from "../../utils/cost"
+
+export const SUMMARY_PROMPT = `You are condensing the earlier part of a conversation between a user and an AI coding assistant so that the assistant can continue the task without it. The conversation will be given to you as a transcript. It may start with a summary of an even earlier part of the conversation; fold that summary into yours.
+
+Write a summary with exactly these sections, as markdown:
+
+## Task
+What the user asked for and how far the assistant has got.
+
+## Files
+Every file that was read, created or modified, one per line with a short note on what it contains or what was changed.
+
+## Decisions
+Technical decisions, constraints and user preferences that later work must respect, including approaches that were tried and rejected and why.
+
+## Open TODOs
+Work that was started or promised but not finished, in order.
+
+Be specific: keep file paths, function names, commands and error messages verbatim. Leave out pleasantries and anything that no longer matters. Reply with the summary only.`
+
+export type ConversationSummary = {
+	text: string
+	messagesSummarized: number
+	tokensIn: number
+	tokensOut: number
+	cost: number
+}
+
+/**
+ * Renders messages as a markdown transcript for the summarization request.
+ */
+export function formatTranscript(messages: Anthropic.Messages.MessageParam[]): string {
+	return messages
+		.map(({ role, content }) => {
+			const text = Array.isArray(content)
+				? content.map((block) => formatContentBlockToMarkdown(block)).join("\n\n")
+				: content
+
+			return `## ${role === "user" ? "User" : "Assistant"}\n\n${text}`
+		})
+		.join("\n\n---\n\n")
+}
+
+/**
+ * The content of the message that takes the place of the summarized messages.
+ */
+export function formatSummaryMessage(summary: ConversationSummary): string {
+	return `<conversation_summary>
+This summarizes an earlier part of the conversation that was condensed to save context.
+
+${summary.text}
+</conversation_summary>`
+}
+
+/**
+ * Asks a model to condense messages into a structured summary of the files
+ * touched, the decisions made and the open TODOs.
+ *
+ * @throws If the request fails or the model returns an empty summary
+ */
+export async function summarizeMessages(
+	messages: Anthropic.Messages.MessageParam[],
+	apiHandler: ApiHandler,
+): Promise<ConversationSummary> {
+	const stream = apiHandler.createMessage(SUMMARY_PROMPT, [{ role: "user", content: formatTranscript(messages) }])
+
+	let text = ""
+	let tokensIn = 0
+	let tokensOut = 0
+	let cacheWrites = 0
+	let cacheReads = 0
+	let totalCost: number | undefined
+
+	for await (const chunk of stream) {
+		if (chunk.type === "text") {
+			text += chunk.text
+		} else if (chunk.type === "usage") {
+			tokensIn += chunk.inputTokens
+			tokensOut += chunk.outputTokens
+			cacheWrites += chunk.cacheWriteTokens ?? 0
+			cacheReads += chunk.cacheReadTokens ?? 0
+			totalCost = chunk.totalCost
+		}
+	}
+
+	text = text.trim()
+
+	if (!text) {
+		throw new Error("The model returned an empty summary")
+	}
+
+	return {
+		text,
+		messagesSummarized: messages.length,
+		tokensIn,
+		tokensOut,
+		cost:
+			totalCost ??
+			calculateApiCostAnthropic(apiHandler.getModel().info, tokensIn, tokensOut, cacheWrites, cacheReads),
+	}
+}
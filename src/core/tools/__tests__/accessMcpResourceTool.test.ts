@@ -0,0 +1,88 @@
+// npx jest src/core/tools/__tests__/accessMcpResourceTool.test.ts
+
+import { accessMcpResourceTool } from "../accessMcpResourceTool"
+import { Cline } from "../../Cline"
+import { ToolUse } from "../../../shared/tools"
+
+jest.mock("../../Cline")
+
+describe("accessMcpResourceTool", () => {
+	let mockMcpHub: { readResource: jest.Mock; getCompletions: jest.Mock }
+	let mockCline: {
+		consecutiveMistakeCount: number
+		ask: jest.Mock
+		say: jest.Mock
+		recordToolError: jest.Mock
+		sayAndCreateMissingParamError: jest.Mock
+		providerRef: { deref: () => { getMcpHub: () => typeof mockMcpHub } }
+	}
+	let mockAskApproval: jest.Mock
+	let mockHandleError: jest.Mock
+	let mockPushToolResult: jest.Mock
+
+	beforeEach(() => {
+		jest.clearAllMocks()
+
+		mockMcpHub = {
+			readResource: jest.fn().mockResolvedValue({
+				contents: [
+					{ uri: "weather://paris/forecast?days=3", mimeType: "text/plain", text: "Sunny" },
+					{ uri: "weather://paris/map", mimeType: "image/png", blob: "aGVsbG8=" },
+				],
+			}),
+			getCompletions: jest.fn().mockResolvedValue(["paris", "porto"]),
+		}
+
+		mockCline = {
+			consecutiveMistakeCount: 0,
+			ask: jest.fn().mockResolvedValue(undefined),
+			say: jest.fn().mockResolvedValue(undefined),
+			recordToolError: jest.fn(),
+			sayAndCreateMissingParamError: jest.fn().mockResolvedValue("Missing parameter error"),
+			providerRef: { deref: () => ({ getMcpHub: () => mockMcpHub }) },
+		}
+
+		mockAskApproval = jest.fn().mockResolvedValue(true)
+		mockHandleError = jest.fn().mockResolvedValue(undefined)
+		mockPushToolResult = jest.fn()
+	})
+
+	const executeTool = (params: ToolUse["params"]) =>
+		accessMcpResourceTool(
+			mockCline as unknown as Cline,
+			{ type: "tool_use", name: "access_mcp_resource", params, partial: false },
+			mockAskApproval,
+			mockHandleError,
+			mockPushToolResult,
+			(_tag, content) => content ?? "",
+		)
+
+	it("expands a resource template with its arguments", async () => {
+		await executeTool({
+			server_name: "weather",
+			uri: "weather://{city}/forecast{?days}",
+			arguments: JSON.stringify({ city: "paris", days: "3" }),
+		})
+
+		expect(mockAskApproval).toHaveBeenCalledWith(
+			"use_mcp_server",
+			JSON.stringify({ type: "access_mcp_resource", serverName: "weather", uri: "weather://paris/forecast?days=3" }),
+		)
+		expect(mockMcpHub.readResource).toHaveBeenCalledWith("weather", "weather://paris/forecast?days=3")
+		expect(mockCline.say).toHaveBeenCalledWith("mcp_server_response", "Sunny", ["data:image/png;base64,aGVsbG8="])
+	})
+
+	it("reports missing arguments with the values the server suggests", async () => {
+		await executeTool({ server_name: "weather", uri: "weather://{city}/forecast{?days}" })
+
+		expect(mockMcpHub.getCompletions).toHaveBeenCalledWith(
+			"weather",
+			{ type: "ref/resource", uri: "weather://{city}/forecast{?days}" },
+			{ name: "city", value: "" },
+		)
+		expect(mockCline.consecutiveMistakeCount).toBe(1)
+		expect(mockMcpHub.readResource).not.toHaveBeenCalled()
+		expect(mockPushToolResult).toHaveBeenCalledWith(expect.stringContaining("- Missing: city"))
+		expect(mockPushToolResult).toHaveBeenCalledWith(expect.stringContaining("- Possible values for city: paris, porto"))
+	})
+})
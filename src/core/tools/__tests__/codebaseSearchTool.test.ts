@@ -0,0 +1,121 @@
+// npx jest src/core/tools/__tests__/codebaseSearchTool.test.ts
+
+import { describe, expect, it, jest, beforeEach } from "@jest/globals"
+
+import { codebaseSearchTool } from "../codebaseSearchTool"
+import type { Cline } from "../../Cline"
+import { ToolUse } from "../../../shared/tools"
+import { IndexedDocument } from "../../cost-optimization/rag/types"
+
+type DocumentFilter = (document: IndexedDocument) => boolean
+
+describe("codebaseSearchTool", () => {
+	const cwd = "/test/workspace"
+
+	let getRelevantContext: jest.Mock<(query: string, maxTokens?: number, filter?: DocumentFilter) => Promise<string>>
+	let getState: jest.Mock<() => Promise<{ useLocalRag?: boolean }>>
+	let validateAccess: jest.Mock<(filePath: string) => boolean>
+	let mockCline: any
+	let askApproval: jest.Mock<() => Promise<boolean>>
+	let handleError: jest.Mock<() => Promise<void>>
+	let pushToolResult: jest.Mock
+	const removeClosingTag = (_tag: string, content?: string) => content ?? ""
+
+	const createToolUse = (params: ToolUse["params"]): ToolUse => ({
+		type: "tool_use",
+		name: "codebase_search",
+		params,
+		partial: false,
+	})
+
+	const run = (params: ToolUse["params"]) =>
+		codebaseSearchTool(
+			mockCline as Cline,
+			createToolUse(params),
+			askApproval,
+			handleError,
+			pushToolResult,
+			removeClosingTag,
+		)
+
+	const document = (path: string) => ({ path }) as IndexedDocument
+
+	beforeEach(() => {
+		getRelevantContext = jest.fn(async () => "File: src/auth.ts:1-10 (typescript; function refresh)")
+		getState = jest.fn(async () => ({ useLocalRag: true }))
+		validateAccess = jest.fn((filePath: string) => !filePath.includes("secret"))
+		askApproval = jest.fn(async () => true)
+		handleError = jest.fn(async () => {})
+		pushToolResult = jest.fn()
+
+		mockCline = {
+			cwd,
+			consecutiveMistakeCount: 0,
+			providerRef: { deref: () => ({ getState, localRagService: { getRelevantContext } }) },
+			kodelyIgnoreController: { validateAccess },
+			ask: jest.fn(async () => ({})),
+			say: jest.fn(async () => {}),
+			recordToolError: jest.fn(),
+			sayAndCreateMissingParamError: jest.fn(async () => "Missing parameter error"),
+		}
+	})
+
+	it("should report a missing query", async () => {
+		await run({})
+
+		expect(mockCline.consecutiveMistakeCount).toBe(1)
+		expect(mockCline.sayAndCreateMissingParamError).toHaveBeenCalledWith("codebase_search", "query")
+		expect(pushToolResult).toHaveBeenCalledWith("Missing parameter error")
+		expect(getRelevantContext).not.toHaveBeenCalled()
+	})
+
+	it("should refuse to search when local RAG is disabled", async () => {
+		getState.mockResolvedValue({ useLocalRag: false })
+
+		await run({ query: "refresh token" })
+
+		expect(getRelevantContext).not.toHaveBeenCalled()
+		expect(pushToolResult).toHaveBeenCalledWith(expect.stringContaining("Codebase search is disabled"))
+	})
+
+	it("should return ranked results once approved", async () => {
+		await run({ query: "refresh token" })
+
+		expect(askApproval).toHaveBeenCalledWith("tool", expect.stringContaining('"tool":"codebaseSearch"'))
+		expect(pushToolResult).toHaveBeenCalledWith("File: src/auth.ts:1-10 (typescript; function refresh)")
+	})
+
+	it("should not return results when the search is rejected", async () => {
+		askApproval.mockResolvedValue(false)
+
+		await run({ query: "refresh token" })
+
+		expect(pushToolResult).not.toHaveBeenCalled()
+	})
+
+	it("should restrict results to the given path and to files allowed by .kodelyignore", async () => {
+		await run({ query: "refresh token", path: "src" })
+
+		const filter = getRelevantContext.mock.calls[0][2]!
+
+		expect(filter(document("/test/workspace/src/auth.ts"))).toBe(true)
+		expect(filter(document("/test/workspace/src/secret/keys.ts"))).toBe(false)
+		expect(filter(document("/test/workspace/srcs/other.ts"))).toBe(false)
+		expect(filter(document("/test/workspace/lib/auth.ts"))).toBe(false)
+	})
+
+	it("should reject a path blocked by .kodelyignore", async () => {
+		await run({ query: "keys", path: "secret" })
+
+		expect(mockCline.say).toHaveBeenCalledWith("kodelyignore_error", "secret")
+		expect(getRelevantContext).not.toHaveBeenCalled()
+	})
+
+	it("should tell the model when nothing matched", async () => {
+		getRelevantContext.mockResolvedValue("")
+
+		await run({ query: "kubernetes" })
+
+		expect(pushToolResult).toHaveBeenCalledWith("No results found.")
+	})
+})
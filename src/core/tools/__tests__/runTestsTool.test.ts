@@ -0,0 +1,78 @@
+// npx jest src/core/tools/__tests__/runTestsTool.test.ts
+
+import { EventEmitter } from "events"
+import fs from "fs/promises"
+import os from "os"
+import path from "path"
+
+import { Cline } from "../../Cline"
+import { ToolUse } from "../../../shared/tools"
+import { createTestRun } from "../../../integrations/test-runner"
+import { runTestsTool } from "../runTestsTool"
+
+jest.mock("../executeCommandTool", () => ({
+	getCommandPolicyDenial: jest.fn().mockResolvedValue(undefined),
+}))
+
+jest.mock("../../../integrations/test-runner", () => ({
+	...jest.requireActual("../../../integrations/test-runner"),
+	createTestRun: jest.fn(),
+}))
+
+describe("runTestsTool", () => {
+	const block: ToolUse = { type: "tool_use", name: "run_tests", params: { runner: "jest" }, partial: false }
+
+	let cline: Cline & EventEmitter
+	let reportFile: string
+	let pushToolResult: jest.Mock
+
+	const runTests = (testRunTimeout: number) => {
+		Object.assign(cline, {
+			providerRef: { deref: () => ({ getState: jest.fn().mockResolvedValue({ testRunTimeout }) }) },
+		})
+
+		return runTestsTool(cline, block, jest.fn().mockResolvedValue(true), jest.fn(), pushToolResult, jest.fn())
+	}
+
+	beforeEach(async () => {
+		cline = Object.assign(new EventEmitter(), {
+			cwd: os.tmpdir(),
+			taskId: "test-task",
+			consecutiveMistakeCount: 0,
+			say: jest.fn().mockResolvedValue(undefined),
+		}) as unknown as Cline & EventEmitter
+
+		reportFile = path.join(os.tmpdir(), `kodely-test-report-${Date.now()}.json`)
+		await fs.writeFile(reportFile, "")
+		pushToolResult = jest.fn()
+
+		jest.mocked(createTestRun).mockReturnValue({
+			runner: "jest",
+			command: "echo started && sleep 10",
+			reportFile,
+		})
+	})
+
+	it("terminates test runs that time out and reports their partial results", async () => {
+		const start = Date.now()
+
+		await runTests(500)
+
+		expect(Date.now() - start).toBeLessThan(5000)
+		expect(pushToolResult.mock.calls[0][0]).toContain("The run timed out after 0.5s and was terminated")
+		expect(pushToolResult.mock.calls[0][0]).toContain("started")
+		await expect(fs.access(reportFile)).rejects.toThrow()
+	})
+
+	it("terminates test runs when the task is aborted", async () => {
+		const start = Date.now()
+		const result = runTests(0)
+
+		setTimeout(() => cline.emit("taskAborted"), 500)
+		await result
+
+		expect(Date.now() - start).toBeLessThan(5000)
+		expect(cline.listenerCount("taskAborted")).toBe(0)
+		await expect(fs.access(reportFile)).rejects.toThrow()
+	})
+})
@@ -2,6 +2,16 @@ import { ClineAskUseMcpServer } from "../../shared/ExtensionMessage"
 import { ToolUse, RemoveClosingTag, AskApproval, HandleError, PushToolResult } from "../../shared/tools"
 import { Cline } from "../Cline"
 import { formatResponse } from "../prompts/responses"
+import { renderResourceContents } from "../../services/mcp/resources"
+import {
+	UriTemplateValue,
+	expandUriTemplate,
+	isUriTemplate,
+	validateTemplateArguments,
+} from "../../services/mcp/uri-template"
+
+// Most suggested values listed for a missing template argument
+const MAX_SUGGESTIONS = 10
 
 export async function accessMcpResourceTool(
 	cline: Cline,
@@ -13,6 +23,7 @@ export async function accessMcpResourceTool(
 ) {
 	const server_name: string | undefined = block.params.server_name
 	const uri: string | undefined = block.params.uri
+	const template_arguments: string | undefined = block.params.arguments
 
 	try {
 		if (block.partial) {
@@ -39,12 +50,63 @@ export async function accessMcpResourceTool(
 				return
 			}
 
+			const mcpHub = cline.providerRef.deref()?.getMcpHub()
+			let resourceUri = uri
+
+			if (isUriTemplate(uri)) {
+				let parsedArguments: Record<string, unknown>
+
+				try {
+					parsedArguments = template_arguments ? JSON.parse(template_arguments) : {}
+				} catch (error) {
+					cline.consecutiveMistakeCount++
+					cline.recordToolError("access_mcp_resource")
+					await cline.say("error", `Roo tried to access ${uri} with an invalid JSON argument. Retrying...`)
+					pushToolResult(
+						formatResponse.toolError(formatResponse.invalidMcpToolArgumentError(server_name, uri)),
+					)
+					return
+				}
+
+				const { missing, unknown, invalid } = validateTemplateArguments(uri, parsedArguments)
+
+				if (missing.length > 0 || unknown.length > 0 || invalid.length > 0) {
+					const problems = [
+						...(missing.length > 0 ? [`Missing: ${missing.join(", ")}`] : []),
+						...(unknown.length > 0 ? [`Not variables of the template: ${unknown.join(", ")}`] : []),
+						...(invalid.length > 0 ? [`Not a string or list of strings: ${invalid.join(", ")}`] : []),
+					]
+
+					// Suggest values for the missing arguments if the server can complete them.
+					for (const name of missing) {
+						const values = await mcpHub
+							?.getCompletions(server_name, { type: "ref/resource", uri }, { name, value: "" })
+							.catch(() => [])
+
+						if (values?.length) {
+							problems.push(`Possible values for ${name}: ${values.slice(0, MAX_SUGGESTIONS).join(", ")}`)
+						}
+					}
+
+					cline.consecutiveMistakeCount++
+					cline.recordToolError("access_mcp_resource")
+					pushToolResult(
+						formatResponse.toolError(
+							formatResponse.invalidMcpResourceArgumentsError(server_name, uri, problems),
+						),
+					)
+					return
+				}
+
+				resourceUri = expandUriTemplate(uri, parsedArguments as Record<string, UriTemplateValue>)
+			}
+
 			cline.consecutiveMistakeCount = 0
 
 			const completeMessage = JSON.stringify({
 				type: "access_mcp_resource",
 				serverName: server_name,
-				uri,
+				uri: resourceUri,
 			} satisfies ClineAskUseMcpServer)
 
 			const didApprove = await askApproval("use_mcp_server", completeMessage)
@@ -55,27 +117,9 @@ export async function accessMcpResourceTool(
 
 			// Now execute the tool
 			await cline.say("mcp_server_request_started")
-			const resourceResult = await cline.providerRef.deref()?.getMcpHub()?.readResource(server_name, uri)
-
-			const resourceResultPretty =
-				resourceResult?.contents
-					.map((item) => {
-						if (item.text) {
-							return item.text
-						}
-						return ""
-					})
-					.filter(Boolean)
-					.join("\n\n") || "(Empty response)"
-
-			// Handle images (image must contain mimetype and blob)
-			let images: string[] = []
-
-			resourceResult?.contents.forEach((item) => {
-				if (item.mimeType?.startsWith("image") && item.blob) {
-					images.push(item.blob)
-				}
-			})
+			const resourceResult = await mcpHub?.readResource(server_name, resourceUri)
+			const { text, images } = renderResourceContents(resourceResult?.contents ?? [])
+			const resourceResultPretty = text || "(Empty response)"
 
 			await cline.say("mcp_server_response", resourceResultPretty, images)
 			pushToolResult(formatResponse.toolResult(resourceResultPretty, images))
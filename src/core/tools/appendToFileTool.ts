@@ -1,4 +1,3 @@
-import path from "path"
 import delay from "delay"
 
 import { Cline } from "../Cline"
@@ -8,7 +7,7 @@ import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } f
 import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
 import { fileExistsAtPath } from "../../utils/fs"
 import { addLineNumbers, stripLineNumbers } from "../../integrations/misc/extract-text"
-import { getReadablePath } from "../../utils/path"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
 import { isPathOutsideWorkspace } from "../../utils/pathUtils"
 import { everyLineHasLineNumbers } from "../../integrations/misc/extract-text"
 import { unescapeHtmlEntities } from "../../utils/text-normalization"
@@ -41,7 +40,7 @@ export async function appendToFileTool(
 	if (cline.diffViewProvider.editType !== undefined) {
 		fileExists = cline.diffViewProvider.editType === "modify"
 	} else {
-		const absolutePath = path.resolve(cline.cwd, relPath)
+		const absolutePath = resolveWorkspacePath(cline.cwd, relPath)
 		fileExists = await fileExistsAtPath(absolutePath)
 		cline.diffViewProvider.editType = fileExists ? "modify" : "create"
 	}
@@ -60,7 +59,7 @@ export async function appendToFileTool(
 	}
 
 	// Determine if the path is outside the workspace
-	const fullPath = relPath ? path.resolve(cline.cwd, removeClosingTag("path", relPath)) : ""
+	const fullPath = relPath ? resolveWorkspacePath(cline.cwd, removeClosingTag("path", relPath)) : ""
 	const isOutsideWorkspace = isPathOutsideWorkspace(fullPath)
 
 	const sharedMessageProps: ClineSayTool = {
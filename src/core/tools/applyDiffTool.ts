@@ -1,8 +1,7 @@
-import path from "path"
 import fs from "fs/promises"
 
 import { ClineSayTool } from "../../shared/ExtensionMessage"
-import { getReadablePath } from "../../utils/path"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
 import { Cline } from "../Cline"
 import { ToolUse, RemoveClosingTag } from "../../shared/tools"
 import { formatResponse } from "../prompts/responses"
@@ -68,7 +67,7 @@ export async function applyDiffTool(
 				return
 			}
 
-			const absolutePath = path.resolve(cline.cwd, relPath)
+			const absolutePath = resolveWorkspacePath(cline.cwd, relPath)
 			const fileExists = await fileExistsAtPath(absolutePath)
 
 			if (!fileExists) {
@@ -0,0 +1,244 @@
+import fs from "fs/promises"
+import * as path from "path"
+
+import { Cline } from "../Cline"
+import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
+import { BackgroundProcessAction, ClineSayTool, backgroundProcessActions } from "../../shared/ExtensionMessage"
+import { formatResponse } from "../prompts/responses"
+import { unescapeHtmlEntities } from "../../utils/text-normalization"
+import { resolveWorkspacePath } from "../../utils/path"
+import { isPathOutsideWorkspace } from "../../utils/pathUtils"
+import { Terminal } from "../../integrations/terminal/Terminal"
+import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
+import { BackgroundProcess } from "../../integrations/terminal/BackgroundProcess"
+import { getCommandPolicyDenial } from "./executeCommandTool"
+
+const DEFAULT_WAIT_TIMEOUT_SECONDS = 60
+// Waiting blocks the task, so it can't wait longer than this.
+const MAX_WAIT_TIMEOUT_SECONDS = 600
+
+const describeStatus = (process: BackgroundProcess) => {
+	const exitCode = process.exitDetails?.exitCode
+
+	switch (process.status) {
+		case "running":
+			return `Background process '${process.name}' is running.`
+		case "stopped":
+			return `Background process '${process.name}' was stopped.`
+		case "exited":
+			return exitCode !== undefined
+				? `Background process '${process.name}' exited with code ${exitCode}.`
+				: `Background process '${process.name}' exited.`
+	}
+}
+
+export async function backgroundProcessTool(
+	cline: Cline,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const action = block.params.action as BackgroundProcessAction | undefined
+	const name: string | undefined = block.params.name
+	const command: string | undefined = block.params.command
+	const pattern: string | undefined = block.params.pattern
+
+	const sharedMessageProps: ClineSayTool = {
+		tool: "backgroundProcess",
+		action,
+		name: removeClosingTag("name", name),
+		command: removeClosingTag("command", command),
+		pattern: removeClosingTag("pattern", pattern),
+	}
+
+	try {
+		if (block.partial) {
+			await cline.ask("tool", JSON.stringify(sharedMessageProps), block.partial).catch(() => {})
+			return
+		}
+
+		if (!action || !backgroundProcessActions.includes(action)) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("background_process")
+			pushToolResult(await cline.sayAndCreateMissingParamError("background_process", "action"))
+			return
+		}
+
+		if (!name) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("background_process")
+			pushToolResult(await cline.sayAndCreateMissingParamError("background_process", "name"))
+			return
+		}
+
+		const provider = cline.providerRef.deref()
+		const { terminalOutputLineLimit = 500, terminalConfineToWorkspace = false } =
+			(await provider?.getState()) ?? {}
+		const formatOutput = (output: string) =>
+			output ? Terminal.compressTerminalOutput(output, terminalOutputLineLimit) : "(no new output)"
+
+		if (action === "start") {
+			if (!command) {
+				cline.consecutiveMistakeCount++
+				cline.recordToolError("background_process")
+				pushToolResult(await cline.sayAndCreateMissingParamError("background_process", "command"))
+				return
+			}
+
+			const ignoredFileAttemptedToAccess = cline.kodelyIgnoreController?.validateCommand(command)
+
+			if (ignoredFileAttemptedToAccess) {
+				await cline.say("kodelyignore_error", ignoredFileAttemptedToAccess)
+				pushToolResult(formatResponse.toolError(formatResponse.kodelyIgnoreError(ignoredFileAttemptedToAccess)))
+				return
+			}
+
+			const unescapedCommand = unescapeHtmlEntities(command)
+			const denial = await getCommandPolicyDenial(cline, unescapedCommand)
+
+			if (denial) {
+				await cline.say("error", denial)
+				pushToolResult(formatResponse.toolError(denial))
+				return
+			}
+
+			const customCwd = block.params.cwd
+			const workingDir = !customCwd
+				? cline.cwd
+				: path.isAbsolute(customCwd)
+					? customCwd
+					: resolveWorkspacePath(cline.cwd, customCwd)
+
+			try {
+				await fs.access(workingDir)
+			} catch (error) {
+				pushToolResult(formatResponse.toolError(`Working directory '${workingDir}' does not exist.`))
+				return
+			}
+
+			if (terminalConfineToWorkspace && isPathOutsideWorkspace(workingDir)) {
+				pushToolResult(
+					formatResponse.toolError(
+						`Working directory '${workingDir}' is outside the workspace, and commands must start inside it.`,
+					),
+				)
+				return
+			}
+
+			cline.consecutiveMistakeCount = 0
+
+			const didApprove = await askApproval(
+				"tool",
+				JSON.stringify({ ...sharedMessageProps, command: unescapedCommand } satisfies ClineSayTool),
+			)
+
+			if (!didApprove) {
+				return
+			}
+
+			let process: BackgroundProcess
+
+			try {
+				process = TerminalRegistry.startBackgroundProcess(cline.taskId, name, unescapedCommand, workingDir)
+			} catch (error) {
+				pushToolResult(formatResponse.toolError(error instanceof Error ? error.message : String(error)))
+				return
+			}
+
+			// Keeps the list of processes in the task header up to date.
+			process.once("exit", () => provider?.postStateToWebview())
+			await provider?.postStateToWebview()
+
+			pushToolResult(
+				`Started background process '${name}' in '${workingDir}'. Use background_process with the read or wait action to check its output.`,
+			)
+			return
+		}
+
+		const process = TerminalRegistry.getBackgroundProcess(cline.taskId, name)
+
+		if (!process) {
+			const names = TerminalRegistry.getBackgroundProcesses(cline.taskId).map((p) => `'${p.name}'`)
+			pushToolResult(
+				formatResponse.toolError(
+					`There is no background process named '${name}'. ${
+						names.length > 0 ? `The background processes of this task are ${names.join(", ")}.` : ""
+					}`.trim(),
+				),
+			)
+			return
+		}
+
+		let regex: RegExp | undefined
+		let timeout = DEFAULT_WAIT_TIMEOUT_SECONDS
+
+		if (action === "wait") {
+			if (!pattern) {
+				cline.consecutiveMistakeCount++
+				cline.recordToolError("background_process")
+				pushToolResult(await cline.sayAndCreateMissingParamError("background_process", "pattern"))
+				return
+			}
+
+			try {
+				regex = new RegExp(pattern)
+			} catch (error) {
+				pushToolResult(
+					formatResponse.toolError(`Invalid regular expression '${pattern}': ${(error as Error).message}`),
+				)
+				return
+			}
+
+			if (block.params.timeout) {
+				timeout = Number(block.params.timeout)
+
+				if (!(timeout > 0)) {
+					pushToolResult(
+						formatResponse.toolError(
+							`Invalid timeout '${block.params.timeout}': it must be a positive number of seconds.`,
+						),
+					)
+					return
+				}
+
+				timeout = Math.min(timeout, MAX_WAIT_TIMEOUT_SECONDS)
+			}
+		}
+
+		cline.consecutiveMistakeCount = 0
+
+		const didApprove = await askApproval("tool", JSON.stringify(sharedMessageProps))
+
+		if (!didApprove) {
+			return
+		}
+
+		switch (action) {
+			case "read": {
+				pushToolResult(`${describeStatus(process)}\nOutput:\n${formatOutput(process.read())}`)
+				break
+			}
+			case "wait": {
+				const { matched, output } = await process.waitFor(regex!, timeout * 1000)
+				const result = matched
+					? `The output matched '${pattern}'.`
+					: process.status === "running"
+						? `The output didn't match '${pattern}' within ${timeout}s.`
+						: `The process ended before the output matched '${pattern}'.`
+
+				pushToolResult(`${result} ${describeStatus(process)}\nOutput:\n${formatOutput(output)}`)
+				break
+			}
+			case "stop": {
+				await process.stop()
+				await provider?.postStateToWebview()
+				pushToolResult(`${describeStatus(process)}\nOutput:\n${formatOutput(process.read())}`)
+				break
+			}
+		}
+	} catch (error) {
+		await handleError("managing background process", error)
+	}
+}
@@ -0,0 +1,90 @@
+import path from "path"
+
+import { Cline } from "../Cline"
+import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { formatResponse } from "../prompts/responses"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
+
+export async function codebaseSearchTool(
+	cline: Cline,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const query: string | undefined = block.params.query
+	const relPath: string | undefined = block.params.path
+
+	const sharedMessageProps: ClineSayTool = {
+		tool: "codebaseSearch",
+		query: removeClosingTag("query", query),
+		path: getReadablePath(cline.cwd, removeClosingTag("path", relPath)),
+	}
+
+	try {
+		if (block.partial) {
+			const partialMessage = JSON.stringify({ ...sharedMessageProps, content: "" } satisfies ClineSayTool)
+			await cline.ask("tool", partialMessage, block.partial).catch(() => {})
+			return
+		} else {
+			if (!query) {
+				cline.consecutiveMistakeCount++
+				cline.recordToolError("codebase_search")
+				pushToolResult(await cline.sayAndCreateMissingParamError("codebase_search", "query"))
+				return
+			}
+
+			const provider = cline.providerRef.deref()
+			const { useLocalRag = true } = (await provider?.getState()) ?? {}
+
+			if (!provider || !useLocalRag) {
+				cline.recordToolError("codebase_search")
+				pushToolResult(
+					formatResponse.toolError(
+						"Codebase search is disabled. Use search_files or list_code_definition_names instead.",
+					),
+				)
+				return
+			}
+
+			if (relPath && cline.kodelyIgnoreController?.validateAccess(relPath) === false) {
+				await cline.say("kodelyignore_error", relPath)
+				pushToolResult(formatResponse.toolError(formatResponse.kodelyIgnoreError(relPath)))
+				return
+			}
+
+			cline.consecutiveMistakeCount = 0
+
+			const absolutePath = relPath ? resolveWorkspacePath(cline.cwd, relPath) : undefined
+
+			const results = await provider.localRagService.getRelevantContext(query, undefined, (document) => {
+				if (
+					absolutePath &&
+					document.path !== absolutePath &&
+					!document.path.startsWith(absolutePath + path.sep)
+				) {
+					return false
+				}
+
+				return cline.kodelyIgnoreController?.validateAccess(document.path) ?? true
+			})
+
+			const content = results || "No results found."
+			const completeMessage = JSON.stringify({ ...sharedMessageProps, content } satisfies ClineSayTool)
+			const didApprove = await askApproval("tool", completeMessage)
+
+			if (!didApprove) {
+				return
+			}
+
+			pushToolResult(content)
+
+			return
+		}
+	} catch (error) {
+		await handleError("searching codebase", error)
+		return
+	}
+}
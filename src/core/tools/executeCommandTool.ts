@@ -7,9 +7,14 @@ import { Cline } from "../Cline"
 import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag, ToolResponse } from "../../shared/tools"
 import { formatResponse } from "../prompts/responses"
 import { unescapeHtmlEntities } from "../../utils/text-normalization"
-import { ExitCodeDetails, TerminalProcess } from "../../integrations/terminal/TerminalProcess"
+import { resolveWorkspacePath } from "../../utils/path"
+import { isPathOutsideWorkspace } from "../../utils/pathUtils"
+import { getModeBySlug } from "../../shared/modes"
+import { describeDeniedCommand, evaluateCommandPolicy, getCommandPolicyLayers } from "../../shared/commandPolicy"
+import { ExitCodeDetails } from "../../integrations/terminal/TerminalProcess"
 import { Terminal } from "../../integrations/terminal/Terminal"
 import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
+import { KodelyTerminalProcess } from "../../integrations/terminal/types"
 import { telemetryService } from "../../services/telemetry/TelemetryService"
 
 export async function executeCommandTool(
@@ -46,6 +51,16 @@ export async function executeCommandTool(
 			cline.consecutiveMistakeCount = 0
 
 			command = unescapeHtmlEntities(command) // Unescape HTML entities.
+
+			// Denied commands don't even get to the approval prompt.
+			const reason = await getCommandPolicyDenial(cline, command)
+
+			if (reason) {
+				await cline.say("error", reason)
+				pushToolResult(formatResponse.toolError(reason))
+				return
+			}
+
 			const didApprove = await askApproval("command", command)
 
 			if (!didApprove) {
@@ -68,6 +83,26 @@ export async function executeCommandTool(
 	}
 }
 
+/**
+ * Evaluates a command against the command policy of the task.
+ *
+ * @returns why the command is denied, undefined if it isn't
+ */
+export async function getCommandPolicyDenial(cline: Cline, command: string): Promise<string | undefined> {
+	const provider = cline.providerRef.deref()
+	const { allowedCommands, mode, customModes } = (await provider?.getState()) ?? {}
+	const policy = evaluateCommandPolicy(
+		command,
+		getCommandPolicyLayers({
+			workspacePolicy: await provider?.commandPolicyManager.getWorkspaceCommandPolicy(cline.cwd),
+			modePolicy: mode ? getModeBySlug(mode, customModes)?.commandPolicy : undefined,
+			allowedCommands,
+		}),
+	)
+
+	return policy.decision === "deny" ? describeDeniedCommand(policy) : undefined
+}
+
 export async function executeCommand(
 	cline: Cline,
 	command: string,
@@ -80,7 +115,7 @@ export async function executeCommand(
 	} else if (path.isAbsolute(customCwd)) {
 		workingDir = customCwd
 	} else {
-		workingDir = path.resolve(cline.cwd, customCwd)
+		workingDir = resolveWorkspacePath(cline.cwd, customCwd)
 	}
 
 	// Check if directory exists
@@ -90,7 +125,22 @@ export async function executeCommand(
 		return [false, `Working directory '${workingDir}' does not exist.`]
 	}
 
-	const terminalInfo = await TerminalRegistry.getOrCreateTerminal(workingDir, !!customCwd, cline.taskId)
+	const {
+		terminalOutputLineLimit = 500,
+		terminalBackend = "vscode",
+		terminalConfineToWorkspace = false,
+		mode,
+		customModes,
+	} = (await cline.providerRef.deref()?.getState()) ?? {}
+	const isHeadless = ((mode && getModeBySlug(mode, customModes)?.terminalBackend) || terminalBackend) === "headless"
+
+	if (isHeadless && terminalConfineToWorkspace && isPathOutsideWorkspace(workingDir)) {
+		return [false, `Working directory '${workingDir}' is outside the workspace, and commands must start inside it.`]
+	}
+
+	const terminalInfo = isHeadless
+		? TerminalRegistry.getOrCreateHeadlessTerminal(workingDir, cline.taskId)
+		: await TerminalRegistry.getOrCreateTerminal(workingDir, !!customCwd, cline.taskId)
 
 	// Update the working directory in case the terminal we asked for has
 	// a different working directory so that the model will know where the
@@ -98,15 +148,16 @@ export async function executeCommand(
 	workingDir = terminalInfo.getCurrentWorkingDirectory()
 
 	const workingDirInfo = workingDir ? ` from '${workingDir.toPosix()}'` : ""
-	terminalInfo.terminal.show() // weird visual bug when creating new terminals (even manually) where there's an empty space at the top.
+	if (terminalInfo instanceof Terminal) {
+		terminalInfo.terminal.show() // weird visual bug when creating new terminals (even manually) where there's an empty space at the top.
+	}
 	let userFeedback: { text?: string; images?: string[] } | undefined
 	let didContinue = false
 	let completed = false
 	let result: string = ""
 	let exitDetails: ExitCodeDetails | undefined
-	const { terminalOutputLineLimit = 500 } = (await cline.providerRef.deref()?.getState()) ?? {}
 
-	const sendCommandOutput = async (line: string, terminalProcess: TerminalProcess): Promise<void> => {
+	const sendCommandOutput = async (line: string, terminalProcess: KodelyTerminalProcess): Promise<void> => {
 		try {
 			const { response, text, images } = await cline.ask("command_output", line)
 			if (response === "yesButtonClicked") {
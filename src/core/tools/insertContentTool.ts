@@ -1,12 +1,11 @@
 import delay from "delay"
 import fs from "fs/promises"
 
-import { getReadablePath } from "../../utils/path"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
 import { Cline } from "../Cline"
 import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
 import { formatResponse } from "../prompts/responses"
 import { ClineSayTool } from "../../shared/ExtensionMessage"
-import path from "path"
 import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
 import { fileExistsAtPath } from "../../utils/fs"
 import { insertGroups } from "../diff/insert-groups"
@@ -49,7 +48,7 @@ export async function insertContentTool(
 			return
 		}
 
-		const absolutePath = path.resolve(cline.cwd, relPath)
+		const absolutePath = resolveWorkspacePath(cline.cwd, relPath)
 		const fileExists = await fileExistsAtPath(absolutePath)
 
 		if (!fileExists) {
@@ -1,10 +1,8 @@
-import * as path from "path"
-
 import { Cline } from "../Cline"
 import { ClineSayTool } from "../../shared/ExtensionMessage"
 import { formatResponse } from "../prompts/responses"
 import { listFiles } from "../../services/glob/list-files"
-import { getReadablePath } from "../../utils/path"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
 import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
 
 /**
@@ -54,7 +52,7 @@ export async function listFilesTool(
 
 			cline.consecutiveMistakeCount = 0
 
-			const absolutePath = path.resolve(cline.cwd, relDirPath)
+			const absolutePath = resolveWorkspacePath(cline.cwd, relDirPath)
 			const [files, didHitLimit] = await listFiles(absolutePath, recursive, 200)
 			const { showKodelyIgnoredFiles = true } = (await cline.providerRef.deref()?.getState()) ?? {}
 
@@ -1,4 +1,4 @@
-import path from "path"
+import fs from "fs/promises"
 import { isBinaryFile } from "isbinaryfile"
 
 import { Cline } from "../Cline"
@@ -9,7 +9,7 @@ import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } f
 import { CodeCompressor } from "../cost-optimization/CodeCompressor"
 import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
 import { isPathOutsideWorkspace } from "../../utils/pathUtils"
-import { getReadablePath } from "../../utils/path"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
 import { countFileLines } from "../../integrations/misc/line-counter"
 import { readLines } from "../../integrations/misc/read-lines"
 import { extractTextFromFile, addLineNumbers } from "../../integrations/misc/extract-text"
@@ -28,7 +28,7 @@ export async function readFileTool(
 	const endLineStr: string | undefined = block.params.end_line
 
 	// Get the full path and determine if it's outside the workspace
-	const fullPath = relPath ? path.resolve(cline.cwd, removeClosingTag("path", relPath)) : ""
+	const fullPath = relPath ? resolveWorkspacePath(cline.cwd, removeClosingTag("path", relPath)) : ""
 	const isOutsideWorkspace = isPathOutsideWorkspace(fullPath)
 
 	const sharedMessageProps: ClineSayTool = {
@@ -50,13 +50,11 @@ export async function readFileTool(
 				return
 			}
 
-			const provider = cline.providerRef.deref()
-			const { maxReadFileLine = 500 } = (await provider?.getState()) ?? {}
-
-			// Get cost optimization settings
-			const costOptimizationManager = provider?.costOptimizationManager
-			const optimizationSettings = costOptimizationManager?.getSettings()
-			const shouldCompressCode = optimizationSettings?.compressCodeInContext ?? false
+			const {
+				maxReadFileLine = 500,
+				compressCodeInContext = false,
+				codeCompressionLevel = "signatures",
+			} = (await cline.providerRef.deref()?.getState()) ?? {}
 			const isFullRead = maxReadFileLine === -1
 
 			// Check if we're doing a line range read
@@ -129,7 +127,7 @@ export async function readFileTool(
 			}
 
 			cline.consecutiveMistakeCount = 0
-			const absolutePath = path.resolve(cline.cwd, relPath)
+			const absolutePath = resolveWorkspacePath(cline.cwd, relPath)
 
 			const completeMessage = JSON.stringify({
 				...sharedMessageProps,
@@ -241,22 +239,30 @@ export async function readFileTool(
 				await cline.getFileContextTracker().trackFileContext(relPath, "read_tool" as RecordSource)
 			}
 
-			// Apply code compression if enabled
-			if (shouldCompressCode && content && !isBinary) {
-				// Get file extension to determine language
-				const fileExt = path.extname(relPath).toLowerCase().substring(1)
-
-				// Compress the code
-				const compressedContent = CodeCompressor.compress(content, fileExt)
-
-				// Update content tag with compressed content
-				if (contentTag.includes('<content')) {
-					// Extract the attributes from the content tag
-					const contentTagStart = contentTag.substring(0, contentTag.indexOf('>'))
-					contentTag = `${contentTagStart}\n${compressedContent}</content>\n`
-
-					// Add notice about compression
-					xmlInfo += `<notice>Content has been compressed to reduce token usage</notice>\n`
+			// Compress whole files only; truncated files don't parse and range
+			// reads are expected to return the requested lines verbatim.
+			if (compressCodeInContext && !isBinary && !isRangeRead && !isFileTruncated && contentTag) {
+				const compression = CodeCompressor.isSupported(absolutePath)
+					? await CodeCompressor.compress(absolutePath, await fs.readFile(absolutePath, "utf8"), {
+							level: codeCompressionLevel,
+						}).catch((error) => {
+							console.error(`Error compressing file ${absolutePath}:`, error)
+							return undefined
+						})
+					: undefined
+
+				if (compression && compression.compressedTokens < compression.originalTokens) {
+					const { lineNumbers, originalTokens, compressedTokens } = compression
+					const width = String(lineNumbers[lineNumbers.length - 1] ?? 1).length
+					const numberedContent = compression.content
+						.split("\n")
+						.map((line, index) => `${String(lineNumbers[index]).padStart(width, " ")} | ${line}`)
+						.join("\n")
+					const savedTokens = originalTokens - compressedTokens
+					const savedPercent = Math.round((savedTokens / originalTokens) * 100)
+
+					contentTag = `<content lines="1-${totalLines}">\n${numberedContent}\n</content>\n`
+					xmlInfo += `<notice>Content compressed (${compression.level}): ${compressedTokens} of ${originalTokens} tokens, ${savedTokens} saved (${savedPercent}%). Line numbers refer to the original file; use start_line and end_line to read omitted lines verbatim.</notice>\n`
 				}
 			}
 
@@ -0,0 +1,184 @@
+import fs from "fs/promises"
+import * as path from "path"
+
+import { Cline } from "../Cline"
+import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
+import { ClineSayTool, TestRunnerName, testRunners } from "../../shared/ExtensionMessage"
+import { formatResponse } from "../prompts/responses"
+import { unescapeHtmlEntities } from "../../utils/text-normalization"
+import { resolveWorkspacePath } from "../../utils/path"
+import { isPathOutsideWorkspace } from "../../utils/pathUtils"
+import { ExitCodeDetails } from "../../integrations/terminal/TerminalProcess"
+import { Terminal } from "../../integrations/terminal/Terminal"
+import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
+import {
+	collectTestResults,
+	createTestRun,
+	detectTestRunner,
+	formatTestRunSummary,
+} from "../../integrations/test-runner"
+import { getCommandPolicyDenial } from "./executeCommandTool"
+
+export async function runTestsTool(
+	cline: Cline,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const runnerParam: string | undefined = block.params.runner
+	const target: string | undefined = block.params.target
+	const customCwd: string | undefined = block.params.cwd
+
+	try {
+		if (block.partial) {
+			const partialMessage: ClineSayTool = {
+				tool: "runTests",
+				runner: removeClosingTag("runner", runnerParam) as TestRunnerName | undefined,
+				path: removeClosingTag("target", target),
+			}
+			await cline.ask("tool", JSON.stringify(partialMessage), block.partial).catch(() => {})
+			return
+		}
+
+		if (runnerParam && !testRunners.includes(runnerParam as TestRunnerName)) {
+			cline.consecutiveMistakeCount++
+			cline.recordToolError("run_tests")
+			pushToolResult(
+				formatResponse.toolError(`Unknown test runner '${runnerParam}'. Use one of ${testRunners.join(", ")}.`),
+			)
+			return
+		}
+
+		const workingDir = !customCwd
+			? cline.cwd
+			: path.isAbsolute(customCwd)
+				? customCwd
+				: resolveWorkspacePath(cline.cwd, customCwd)
+
+		try {
+			await fs.access(workingDir)
+		} catch (error) {
+			pushToolResult(formatResponse.toolError(`Working directory '${workingDir}' does not exist.`))
+			return
+		}
+
+		const provider = cline.providerRef.deref()
+		const {
+			terminalOutputLineLimit = 500,
+			terminalConfineToWorkspace = false,
+			testRunTimeout = 600_000,
+		} = (await provider?.getState()) ?? {}
+
+		if (terminalConfineToWorkspace && isPathOutsideWorkspace(workingDir)) {
+			pushToolResult(
+				formatResponse.toolError(
+					`Working directory '${workingDir}' is outside the workspace, and commands must start inside it.`,
+				),
+			)
+			return
+		}
+
+		const runner = (runnerParam as TestRunnerName | undefined) ?? (await detectTestRunner(workingDir))
+
+		if (!runner) {
+			pushToolResult(
+				formatResponse.toolError(
+					`Couldn't detect the test runner of the project in '${workingDir}'. Pass the runner parameter, or run the tests with execute_command.`,
+				),
+			)
+			return
+		}
+
+		const testRun = createTestRun(runner, target ? unescapeHtmlEntities(target) : undefined)
+		const ignoredFileAttemptedToAccess = cline.kodelyIgnoreController?.validateCommand(testRun.command)
+
+		if (ignoredFileAttemptedToAccess) {
+			await cline.say("kodelyignore_error", ignoredFileAttemptedToAccess)
+			pushToolResult(formatResponse.toolError(formatResponse.kodelyIgnoreError(ignoredFileAttemptedToAccess)))
+			return
+		}
+
+		const denial = await getCommandPolicyDenial(cline, testRun.command)
+
+		if (denial) {
+			await cline.say("error", denial)
+			pushToolResult(formatResponse.toolError(denial))
+			return
+		}
+
+		cline.consecutiveMistakeCount = 0
+
+		const didApprove = await askApproval(
+			"tool",
+			JSON.stringify({
+				tool: "runTests",
+				runner,
+				path: target,
+				command: testRun.command,
+			} satisfies ClineSayTool),
+		)
+
+		if (!didApprove) {
+			return
+		}
+
+		// The tests run headless whatever the terminal backend, since their
+		// results are read from their reports rather than a terminal.
+		const terminal = TerminalRegistry.getOrCreateHeadlessTerminal(workingDir, cline.taskId)
+		let output = ""
+		let exitDetails: ExitCodeDetails | undefined
+		let timedOut = false
+
+		// Unlike commands, test runs can't be left running in the background,
+		// so they are terminated when the task is aborted or they take too long.
+		const kill = () => terminal.kill()
+		cline.once("taskAborted", kill)
+
+		const timeoutTimer =
+			testRunTimeout > 0
+				? setTimeout(() => {
+						timedOut = true
+						kill()
+					}, testRunTimeout)
+				: undefined
+
+		try {
+			await terminal.runCommand(testRun.command, {
+				onCompleted: (completedOutput) => {
+					output = completedOutput ?? ""
+				},
+				onShellExecutionComplete: (details) => {
+					exitDetails = details
+				},
+			})
+
+			const summary = await collectTestResults(testRun, {
+				cwd: workingDir,
+				output,
+				exitCode: exitDetails?.exitCode,
+			})
+
+			if (timedOut) {
+				summary.timedOutAfter = testRunTimeout / 1000
+			}
+
+			if (summary.error) {
+				summary.error = Terminal.compressTerminalOutput(summary.error, terminalOutputLineLimit)
+			}
+
+			await cline.say("test_results", JSON.stringify(summary))
+			pushToolResult(formatTestRunSummary(summary))
+		} finally {
+			clearTimeout(timeoutTimer)
+			cline.off("taskAborted", kill)
+
+			if (testRun.reportFile) {
+				await fs.rm(testRun.reportFile, { force: true }).catch(() => {})
+			}
+		}
+	} catch (error) {
+		await handleError("running tests", error)
+	}
+}
@@ -1,9 +1,7 @@
-import path from "path"
-
 import { Cline } from "../Cline"
 import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
 import { ClineSayTool } from "../../shared/ExtensionMessage"
-import { getReadablePath } from "../../utils/path"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
 import { regexSearchFiles } from "../../services/ripgrep"
 
 export async function searchFilesTool(
@@ -47,7 +45,7 @@ export async function searchFilesTool(
 
 			cline.consecutiveMistakeCount = 0
 
-			const absolutePath = path.resolve(cline.cwd, relDirPath)
+			const absolutePath = resolveWorkspacePath(cline.cwd, relDirPath)
 
 			const results = await regexSearchFiles(
 				cline.cwd,
@@ -60,11 +60,14 @@ export async function useMcpToolTool(
 
 			cline.consecutiveMistakeCount = 0
 
+			const policy = cline.providerRef.deref()?.getMcpHub()?.getToolPolicy(server_name, tool_name, parsedArguments)
+
 			const completeMessage = JSON.stringify({
 				type: "use_mcp_tool",
 				serverName: server_name,
 				toolName: tool_name,
 				arguments: mcp_arguments,
+				policy,
 			} satisfies ClineAskUseMcpServer)
 
 			const didApprove = await askApproval("use_mcp_server", completeMessage)
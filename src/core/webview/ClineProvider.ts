@@ -7,6 +7,7 @@ import { Anthropic } from "@anthropic-ai/sdk"
 import delay from "delay"
 import axios from "axios"
 import pWaitFor from "p-wait-for"
+import getFolderSize from "get-folder-size"
 import * as vscode from "vscode"
 
 import { GlobalState, ProviderSettings, RooCodeSettings as KodelyCodeSettings } from "../../schemas"
@@ -29,23 +30,31 @@ import { findLast } from "../../shared/array"
 import { supportPrompt } from "../../shared/support-prompt"
 import { GlobalFileNames } from "../../shared/globalFileNames"
 import { HistoryItem } from "../../shared/HistoryItem"
-import { ExtensionMessage } from "../../shared/ExtensionMessage"
+import { ExtensionMessage, RagIndexStatus } from "../../shared/ExtensionMessage"
 import { Mode, PromptComponent, defaultModeSlug, getModeBySlug, getGroupName } from "../../shared/modes"
 import { experimentDefault } from "../../shared/experiments"
 import { formatLanguage } from "../../shared/language"
 import { Terminal, TERMINAL_SHELL_INTEGRATION_TIMEOUT } from "../../integrations/terminal/Terminal"
+import { HeadlessTerminal } from "../../integrations/terminal/HeadlessTerminal"
+import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
 import { downloadTask } from "../../integrations/misc/export-markdown"
 import { getTheme } from "../../integrations/theme/getTheme"
 import WorkspaceTracker from "../../integrations/workspace/WorkspaceTracker"
 import { McpHub } from "../../services/mcp/McpHub"
 import { McpServerManager } from "../../services/mcp/McpServerManager"
 import { ShadowCheckpointService } from "../../services/checkpoints/ShadowCheckpointService"
+import {
+	collectCheckpointGarbage,
+	getCheckpointStorageUsage,
+	purgeWorkspaceCheckpoints,
+} from "../../services/checkpoints/storage"
 import { fileExistsAtPath } from "../../utils/fs"
 import { setSoundEnabled } from "../../utils/sound"
 import { setTtsEnabled, setTtsSpeed } from "../../utils/tts"
 import { ContextProxy } from "../config/ContextProxy"
 import { ProviderSettingsManager } from "../config/ProviderSettingsManager"
 import { CustomModesManager } from "../config/CustomModesManager"
+import { CommandPolicyManager } from "../config/CommandPolicyManager"
 import { buildApiHandler } from "../../api"
 import { ACTION_NAMES } from "../CodeActionProvider"
 import { Cline, ClineOptions } from "../Cline"
@@ -84,6 +93,7 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 	public readonly contextProxy: ContextProxy
 	public readonly providerSettingsManager: ProviderSettingsManager
 	public readonly customModesManager: CustomModesManager
+	public readonly commandPolicyManager: CommandPolicyManager
 	public readonly costOptimizationManager: CostOptimizationManager
 	public readonly localRagService: LocalRagService
 
@@ -110,6 +120,10 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			await this.postStateToWebview()
 		})
 
+		this.commandPolicyManager = new CommandPolicyManager(async () => {
+			await this.postStateToWebview()
+		})
+
 		// Initialize MCP Hub through the singleton manager
 		McpServerManager.getInstance(this.context, this)
 			.then((hub) => {
@@ -123,18 +137,15 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 		// Initialize cost optimization manager
 		this.costOptimizationManager = new CostOptimizationManager(this.context)
 
-		// Initialize local RAG service
-		this.localRagService = new LocalRagService(this.context)
-		this.localRagService.initialize().catch(error => {
-			this.log(`Failed to initialize Local RAG service: ${error}`)
-		})
-
-		// Index workspace files for RAG if workspace folders exist
-		if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-			this.localRagService.indexWorkspace(vscode.workspace.workspaceFolders).catch(error => {
-				this.log(`Error indexing workspace: ${error}`)
-			})
+		// The RAG index is shared with other webviews and indexed on activation
+		this.localRagService = LocalRagService.getInstance(this.context)
+		const onRagIndexStatusChanged = (ragIndexStatus: RagIndexStatus) => {
+			this.postMessageToWebview({ type: "ragIndexStatus", ragIndexStatus })
 		}
+		this.localRagService.on("statusChanged", onRagIndexStatusChanged)
+		this.disposables.push({
+			dispose: () => this.localRagService.off("statusChanged", onRagIndexStatusChanged),
+		})
 	}
 
 	// Adds a new Cline instance to clineStack, marking the start of a new task.
@@ -240,6 +251,7 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 		await this.mcpHub?.unregisterClient()
 		this.mcpHub = undefined
 		this.customModesManager?.dispose()
+		this.commandPolicyManager?.dispose()
 		this.log("Disposed all disposables")
 		ClineProvider.activeInstances.delete(this)
 
@@ -386,6 +398,8 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 				terminalZshP10k,
 				terminalPowershellCounter,
 				terminalZdotdir,
+				terminalCommandTimeout,
+				terminalEnvAllowlist,
 				optimizationLevel,
 				maxContextWindowUsage,
 				useLocalRag,
@@ -413,6 +427,8 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 				Terminal.setTerminalZshP10k(terminalZshP10k ?? false)
 				Terminal.setPowershellCounter(terminalPowershellCounter ?? false)
 				Terminal.setTerminalZdotdir(terminalZdotdir ?? false)
+				HeadlessTerminal.setCommandTimeout(terminalCommandTimeout ?? 0)
+				HeadlessTerminal.setEnvAllowlist(terminalEnvAllowlist)
 			},
 		)
 
@@ -1132,6 +1148,202 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 		await this.postMessageToWebview({ type: "action", action: "chatButtonClicked" })
 	}
 
+	// Forks the current task from the message at `ts` into a new task and
+	// switches to it. The current task is left untouched in the history.
+	async forkTask(ts: number) {
+		const historyItem = await this.getCurrentCline()?.fork(ts)
+
+		if (!historyItem) {
+			return
+		}
+
+		await this.updateTaskHistory(historyItem)
+		await this.initClineWithHistoryItem(historyItem)
+	}
+
+	/**
+	 * Asks how to export the checkpoints of the current task, then exports them
+	 * to the workspace repo as a branch or as a patch series.
+	 */
+	async exportCheckpoints() {
+		const cline = this.getCurrentCline()
+
+		if (!cline) {
+			return
+		}
+
+		const formats = [
+			{ label: t("common:checkpoint_export.branch"), format: "branch", squash: false },
+			{ label: t("common:checkpoint_export.branch_squashed"), format: "branch", squash: true },
+			{ label: t("common:checkpoint_export.patch"), format: "patch", squash: false },
+		] as const
+
+		const choice = await vscode.window.showQuickPick(formats, {
+			placeHolder: t("common:checkpoint_export.format_placeholder"),
+		})
+
+		if (!choice) {
+			return
+		}
+
+		let branch: string | undefined
+		let outputDir: string | undefined
+
+		if (choice.format === "branch") {
+			branch = await vscode.window.showInputBox({
+				value: `kodely/${cline.taskId.slice(0, 8)}`,
+				prompt: t("common:checkpoint_export.branch_prompt"),
+				validateInput: (input) => (input.trim() ? null : t("common:checkpoint_export.branch_required")),
+			})
+
+			if (!branch) {
+				return
+			}
+		} else {
+			const uris = await vscode.window.showOpenDialog({
+				canSelectFiles: false,
+				canSelectFolders: true,
+				canSelectMany: false,
+				openLabel: t("common:checkpoint_export.patch_select"),
+			})
+
+			if (!uris?.[0]) {
+				return
+			}
+
+			outputDir = uris[0].fsPath
+		}
+
+		try {
+			const results = await cline.exportCheckpoints({
+				format: choice.format,
+				squash: choice.squash,
+				branch: branch?.trim(),
+				outputDir,
+			})
+
+			const count = results.reduce((sum, result) => sum + result.commits, 0)
+
+			if (count === 0) {
+				vscode.window.showInformationMessage(t("common:checkpoint_export.no_changes"))
+			} else if (choice.format === "branch") {
+				vscode.window.showInformationMessage(t("common:checkpoint_export.exported_branch", { count, branch }))
+			} else {
+				vscode.window.showInformationMessage(
+					t("common:checkpoint_export.exported_patches", { count, path: outputDir }),
+				)
+			}
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error)
+			this.log(`Error exporting checkpoints: ${message}`)
+			vscode.window.showErrorMessage(t("common:errors.export_checkpoints", { error: message }))
+		}
+	}
+
+	/**
+	 * Checkpoint storage
+	 */
+
+	async getCheckpointStorageUsage() {
+		return getCheckpointStorageUsage(this.getCheckpointStorageOptions())
+	}
+
+	/**
+	 * Applies the checkpoint retention settings, and cleans up checkpoints of
+	 * deleted tasks.
+	 */
+	async collectCheckpointGarbage() {
+		const result = await collectCheckpointGarbage({
+			...this.getCheckpointStorageOptions(),
+			retention: this.getGlobalState("checkpointRetention"),
+		})
+
+		await this.refreshTaskSizes(result.deletedTaskIds)
+		return result
+	}
+
+	/**
+	 * Deletes the checkpoints of a workspace after confirmation, asking which
+	 * workspace if none is given.
+	 */
+	async purgeWorkspaceCheckpoints(workspace?: string) {
+		const unknownWorkspace = t("common:checkpoint_storage.unknown_workspace")
+
+		if (workspace === undefined) {
+			const { workspaces } = await this.getCheckpointStorageUsage()
+
+			if (workspaces.length === 0) {
+				vscode.window.showInformationMessage(t("common:checkpoint_storage.empty"))
+				return
+			}
+
+			const choice = await vscode.window.showQuickPick(
+				workspaces.map((usage) => ({
+					label: usage.workspace || unknownWorkspace,
+					description: t("common:checkpoint_storage.size", { size: (usage.size / (1024 * 1024)).toFixed(1) }),
+					workspace: usage.workspace,
+				})),
+				{ placeHolder: t("common:checkpoint_storage.select_workspace") },
+			)
+
+			if (!choice) {
+				return
+			}
+
+			workspace = choice.workspace
+		}
+
+		const purge = t("common:checkpoint_storage.purge")
+
+		const answer = await vscode.window.showWarningMessage(
+			t("common:checkpoint_storage.confirm_purge", { workspace: workspace || unknownWorkspace }),
+			{ modal: true },
+			purge,
+		)
+
+		if (answer !== purge) {
+			return
+		}
+
+		const result = await purgeWorkspaceCheckpoints({ ...this.getCheckpointStorageOptions(), workspace })
+		await this.refreshTaskSizes(result.deletedTaskIds)
+
+		vscode.window.showInformationMessage(
+			t("common:checkpoint_storage.purged", { size: (result.freedBytes / (1024 * 1024)).toFixed(1) }),
+		)
+	}
+
+	private getCheckpointStorageOptions() {
+		return {
+			globalStorageDir: this.contextProxy.globalStorageUri.fsPath,
+			taskHistory: this.getGlobalState("taskHistory") ?? [],
+			// The checkpoints of open tasks are still in use.
+			activeTaskIds: this.clineStack.map((cline) => cline.taskId),
+			log: (message: string) => this.log(message),
+		}
+	}
+
+	// The size of a task in the history includes its checkpoints.
+	private async refreshTaskSizes(taskIds: string[]) {
+		if (taskIds.length === 0) {
+			return
+		}
+
+		const globalStorageDir = this.contextProxy.globalStorageUri.fsPath
+		const history = this.getGlobalState("taskHistory") ?? []
+
+		const updatedHistory = await Promise.all(
+			history.map(async (item: HistoryItem) =>
+				taskIds.includes(item.id)
+					? { ...item, size: Number(await getFolderSize.loose(path.join(globalStorageDir, "tasks", item.id))) }
+					: item,
+			),
+		)
+
+		await this.updateGlobalState("taskHistory", updatedHistory)
+		await this.postStateToWebview()
+	}
+
 	async exportTaskWithId(id: string) {
 		const { historyItem, apiConversationHistory } = await this.getTaskWithId(id)
 		await downloadTask(historyItem.ts, apiConversationHistory)
@@ -1216,6 +1428,7 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			ttsSpeed,
 			diffEnabled,
 			enableCheckpoints,
+			checkpointRetention,
 			taskHistory,
 			soundVolume,
 			browserViewportSize,
@@ -1232,6 +1445,11 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			terminalZshOhMy,
 			terminalZshP10k,
 			terminalZdotdir,
+			terminalBackend,
+			terminalCommandTimeout,
+			terminalEnvAllowlist,
+			terminalConfineToWorkspace,
+			testRunTimeout,
 			fuzzyMatchThreshold,
 			mcpEnabled,
 			enableMcpServerCreation,
@@ -1253,11 +1471,18 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			showKodelyIgnoredFiles,
 			language,
 			maxReadFileLine,
+			slidingWindowStrategy,
+			condensingApiConfigName,
+			diagnosticsSeverity,
+			maxDiagnosticsPerFile,
 			optimizationLevel,
 			maxContextWindowUsage,
 			useLocalRag,
 			maxOutputTokens,
 			compressCodeInContext,
+			codeCompressionLevel,
+			globalCostBudget,
+			modelRoutingPolicy,
 		} = await this.getState()
 
 		const telemetryKey = process.env.POSTHOG_API_KEY
@@ -1291,6 +1516,7 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			ttsSpeed: ttsSpeed ?? 1.0,
 			diffEnabled: diffEnabled ?? true,
 			enableCheckpoints: enableCheckpoints ?? true,
+			checkpointRetention,
 			shouldShowAnnouncement:
 				telemetrySetting !== "unset" && lastShownAnnouncementId !== this.latestAnnouncementId,
 			allowedCommands,
@@ -1309,6 +1535,11 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			terminalZshOhMy: terminalZshOhMy ?? false,
 			terminalZshP10k: terminalZshP10k ?? false,
 			terminalZdotdir: terminalZdotdir ?? false,
+			terminalBackend: terminalBackend ?? "vscode",
+			terminalCommandTimeout: terminalCommandTimeout ?? 0,
+			terminalEnvAllowlist: terminalEnvAllowlist ?? [],
+			terminalConfineToWorkspace: terminalConfineToWorkspace ?? false,
+			testRunTimeout: testRunTimeout ?? 600_000,
 			fuzzyMatchThreshold: fuzzyMatchThreshold ?? 1.0,
 			mcpEnabled: mcpEnabled ?? true,
 			enableMcpServerCreation: enableMcpServerCreation ?? true,
@@ -1323,6 +1554,10 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			enhancementApiConfigId,
 			autoApprovalEnabled: autoApprovalEnabled ?? false,
 			customModes: await this.customModesManager.getCustomModes(),
+			workspaceCommandPolicy: await this.commandPolicyManager.getWorkspaceCommandPolicy(cwd),
+			backgroundProcesses: TerminalRegistry.getBackgroundProcesses(this.getCurrentCline()?.taskId).map(
+				(process) => process.getInfo(),
+			),
 			experiments: experiments ?? experimentDefault,
 			mcpServers: this.mcpHub?.getAllServers() ?? [],
 			maxOpenTabsContext: maxOpenTabsContext ?? 20,
@@ -1336,7 +1571,19 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			language,
 			renderContext: this.renderContext,
 			maxReadFileLine: maxReadFileLine ?? 500,
+			slidingWindowStrategy: slidingWindowStrategy ?? "summarize",
+			condensingApiConfigName,
+			diagnosticsSeverity: diagnosticsSeverity ?? "error",
+			maxDiagnosticsPerFile: maxDiagnosticsPerFile ?? 10,
 			settingsImportedAt: this.settingsImportedAt,
+			optimizationLevel,
+			maxContextWindowUsage,
+			useLocalRag,
+			maxOutputTokens,
+			compressCodeInContext,
+			codeCompressionLevel,
+			globalCostBudget,
+			modelRoutingPolicy,
 		}
 	}
 
@@ -1384,6 +1631,7 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			ttsSpeed: stateValues.ttsSpeed ?? 1.0,
 			diffEnabled: stateValues.diffEnabled ?? true,
 			enableCheckpoints: stateValues.enableCheckpoints ?? true,
+			checkpointRetention: stateValues.checkpointRetention,
 			soundVolume: stateValues.soundVolume,
 			browserViewportSize: stateValues.browserViewportSize ?? "900x600",
 			screenshotQuality: stateValues.screenshotQuality ?? 75,
@@ -1401,6 +1649,11 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			terminalZshOhMy: stateValues.terminalZshOhMy ?? false,
 			terminalZshP10k: stateValues.terminalZshP10k ?? false,
 			terminalZdotdir: stateValues.terminalZdotdir ?? false,
+			terminalBackend: stateValues.terminalBackend ?? "vscode",
+			terminalCommandTimeout: stateValues.terminalCommandTimeout ?? 0,
+			terminalEnvAllowlist: stateValues.terminalEnvAllowlist ?? [],
+			terminalConfineToWorkspace: stateValues.terminalConfineToWorkspace ?? false,
+			testRunTimeout: stateValues.testRunTimeout ?? 600_000,
 			mode: stateValues.mode ?? defaultModeSlug,
 			language: stateValues.language ?? formatLanguage(vscode.env.language),
 			mcpEnabled: stateValues.mcpEnabled ?? true,
@@ -1412,6 +1665,9 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			useLocalRag: stateValues.useLocalRag ?? true,
 			maxOutputTokens: stateValues.maxOutputTokens ?? 2000,
 			compressCodeInContext: stateValues.compressCodeInContext ?? false,
+			codeCompressionLevel: stateValues.codeCompressionLevel ?? "signatures",
+			globalCostBudget: stateValues.globalCostBudget,
+			modelRoutingPolicy: stateValues.modelRoutingPolicy,
 			currentApiConfigName: stateValues.currentApiConfigName ?? "default",
 			listApiConfigMeta: stateValues.listApiConfigMeta ?? [],
 			pinnedApiConfigs: stateValues.pinnedApiConfigs ?? {},
@@ -1429,6 +1685,10 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			telemetrySetting: stateValues.telemetrySetting || "unset",
 			showKodelyIgnoredFiles: stateValues.showKodelyIgnoredFiles ?? true,
 			maxReadFileLine: stateValues.maxReadFileLine ?? 500,
+			slidingWindowStrategy: stateValues.slidingWindowStrategy ?? "summarize",
+			condensingApiConfigName: stateValues.condensingApiConfigName,
+			diagnosticsSeverity: stateValues.diagnosticsSeverity ?? "error",
+			maxDiagnosticsPerFile: stateValues.maxDiagnosticsPerFile ?? 10,
 		}
 	}
 
@@ -4,6 +4,7 @@ import * as vscode from "vscode"
 import axios from "axios"
 
 import { ClineProvider } from "../ClineProvider"
+import { Cline } from "../../Cline"
 import { ExtensionMessage, ExtensionState } from "../../../shared/ExtensionMessage"
 import { setSoundEnabled } from "../../../utils/sound"
 import { setTtsEnabled } from "../../../utils/tts"
@@ -1045,6 +1046,38 @@ describe("ClineProvider", () => {
 		})
 	})
 
+	describe("forkTask", () => {
+		test("opens the fork of the current task", async () => {
+			const mockCline = new (Cline as any)()
+			const forkItem = { id: "fork-id", forkedFromTaskId: "test-task-id", forkedFromTs: 4000 }
+			mockCline.fork = jest.fn().mockResolvedValue(forkItem)
+			await provider.addClineToStack(mockCline)
+
+			const updateTaskHistory = jest.spyOn(provider, "updateTaskHistory").mockResolvedValue([])
+			const initClineWithHistoryItem = jest
+				.spyOn(provider, "initClineWithHistoryItem")
+				.mockResolvedValue(undefined as any)
+
+			await provider.forkTask(4000)
+
+			expect(mockCline.fork).toHaveBeenCalledWith(4000)
+			expect(updateTaskHistory).toHaveBeenCalledWith(forkItem)
+			expect(initClineWithHistoryItem).toHaveBeenCalledWith(forkItem)
+		})
+
+		test("stays on the current task if there is nothing to fork", async () => {
+			const mockCline = new (Cline as any)()
+			mockCline.fork = jest.fn().mockResolvedValue(undefined)
+			await provider.addClineToStack(mockCline)
+
+			const initClineWithHistoryItem = jest.spyOn(provider, "initClineWithHistoryItem")
+
+			await provider.forkTask(1000)
+
+			expect(initClineWithHistoryItem).not.toHaveBeenCalled()
+		})
+	})
+
 	describe("getSystemPrompt", () => {
 		beforeEach(async () => {
 			mockPostMessage.mockClear()
@@ -1,25 +1,49 @@
+import * as os from "os"
 import * as path from "path"
 import fs from "fs/promises"
 import pWaitFor from "p-wait-for"
 import * as vscode from "vscode"
 
 import { ClineProvider } from "./ClineProvider"
-import { Language, ApiConfigMeta } from "../../schemas"
+import {
+	Language,
+	ApiConfigMeta,
+	CodeCompressionLevel,
+	CostBudget,
+	CheckpointRetention,
+	ModelRoutingPolicy,
+	SlidingWindowStrategy,
+	DiagnosticsSeverity,
+	TerminalBackend,
+} from "../../schemas"
 import { changeLanguage, t } from "../../i18n"
 import { ApiConfiguration } from "../../shared/api"
 import { supportPrompt } from "../../shared/support-prompt"
 import { GlobalFileNames } from "../../shared/globalFileNames"
 
-import { checkoutDiffPayloadSchema, checkoutRestorePayloadSchema, WebviewMessage } from "../../shared/WebviewMessage"
+import {
+	checkoutDiffPayloadSchema,
+	checkoutRestorePayloadSchema,
+	checkpointRestoreFilesPayloadSchema,
+	checkpointRestoreHunksPayloadSchema,
+	WebviewMessage,
+} from "../../shared/WebviewMessage"
 import { checkExistKey } from "../../shared/checkExistApiConfig"
 import { EXPERIMENT_IDS, experimentDefault, ExperimentId } from "../../shared/experiments"
 import { Terminal } from "../../integrations/terminal/Terminal"
+import { HeadlessTerminal } from "../../integrations/terminal/HeadlessTerminal"
+import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
 import { CostOptimizationLevel } from "../cost-optimization/CostOptimizationManager"
+import { SpendLedger } from "../cost-optimization/SpendLedger"
 import { openFile, openImage } from "../../integrations/misc/open-file"
 import { selectImages } from "../../integrations/misc/process-images"
 import { getTheme } from "../../integrations/theme/getTheme"
 import { discoverChromeHostUrl, tryChromeHostUrl } from "../../services/browser/browserDiscovery"
 import { searchWorkspaceFiles } from "../../services/search/file-search"
+import { McpAuditLog } from "../../services/mcp/McpAuditLog"
+import { renderPromptMessages } from "../../services/mcp/prompts"
+import { renderResourceContents } from "../../services/mcp/resources"
+import { expandUriTemplate, isUriTemplate } from "../../services/mcp/uri-template"
 import { fileExistsAtPath } from "../../utils/fs"
 import { playSound, setSoundEnabled, setSoundVolume } from "../../utils/sound"
 import { playTts, setTtsEnabled, setTtsSpeed, stopTts } from "../../utils/tts"
@@ -37,13 +61,16 @@ import { getLmStudioModels } from "../../api/providers/lmstudio"
 import { openMention } from "../mentions"
 import { telemetryService } from "../../services/telemetry/TelemetryService"
 import { TelemetrySetting } from "../../shared/TelemetrySetting"
-import { getWorkspacePath } from "../../utils/path"
+import { getWorkspacePath, getWorkspaceRoots } from "../../utils/path"
 import { Mode, defaultModeSlug, getModeBySlug, getGroupName } from "../../shared/modes"
 import { SYSTEM_PROMPT } from "../prompts/system"
 import { buildApiHandler } from "../../api"
 import { GlobalState } from "../../schemas"
 import { MultiSearchReplaceDiffStrategy } from "../diff/strategies/multi-search-replace"
 
+// Tool calls shown in the MCP view; exports contain the whole audit log
+const MCP_AUDIT_LOG_VIEW_LIMIT = 200
+
 export const webviewMessageHandler = async (provider: ClineProvider, message: WebviewMessage) => {
 	// Utility functions provided for concise get/update of global state via contextProxy API.
 	const getGlobalState = <K extends keyof GlobalState>(key: K) => provider.contextProxy.getValue(key)
@@ -486,6 +513,108 @@ export const webviewMessageHandler = async (provider: ClineProvider, message: We
 
 			break
 		}
+		case "requestCheckpointTimeline": {
+			const checkpointTimeline = (await provider.getCurrentCline()?.getCheckpointTimeline()) ?? []
+			await provider.postMessageToWebview({ type: "checkpointTimeline", checkpointTimeline })
+			break
+		}
+		case "checkpointRestoreFiles": {
+			const result = checkpointRestoreFilesPayloadSchema.safeParse(message.payload)
+
+			if (result.success) {
+				try {
+					await provider.getCurrentCline()?.checkpointRestoreFiles(result.data)
+				} catch (error) {
+					provider.log(
+						`Error restoring files from checkpoint: ${error instanceof Error ? error.message : String(error)}`,
+					)
+					vscode.window.showErrorMessage(t("common:errors.checkpoint_failed"))
+				}
+			}
+
+			break
+		}
+		case "requestCheckpointRestoreHunks":
+		case "checkpointRestoreHunks": {
+			const result = checkpointRestoreHunksPayloadSchema.safeParse(message.payload)
+			const cline = provider.getCurrentCline()
+
+			if (!result.success || !cline) {
+				break
+			}
+
+			const { commitHash, path, hunks } = result.data
+
+			try {
+				if (message.type === "checkpointRestoreHunks" && hunks) {
+					await cline.checkpointRestoreHunks({ commitHash, path, hunks })
+				}
+
+				// The remaining hunks are sent back after a restore.
+				await provider.postMessageToWebview({
+					type: "checkpointRestoreHunks",
+					checkpointRestoreHunks: {
+						commitHash,
+						path,
+						hunks: await cline.getCheckpointRestoreHunks({ commitHash, path }),
+					},
+				})
+			} catch (error) {
+				provider.log(
+					`Error restoring hunks from checkpoint: ${error instanceof Error ? error.message : String(error)}`,
+				)
+				vscode.window.showErrorMessage(t("common:errors.checkpoint_failed"))
+			}
+
+			break
+		}
+		case "exportCheckpoints":
+			await provider.exportCheckpoints()
+			break
+		case "requestCheckpointStorage":
+			await provider.postMessageToWebview({
+				type: "checkpointStorage",
+				checkpointStorage: await provider.getCheckpointStorageUsage(),
+			})
+			break
+		case "collectCheckpointGarbage":
+		case "purgeWorkspaceCheckpoints":
+			try {
+				if (message.type === "collectCheckpointGarbage") {
+					await provider.collectCheckpointGarbage()
+				} else {
+					await provider.purgeWorkspaceCheckpoints(message.text)
+				}
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error)
+				provider.log(`Error cleaning up checkpoints: ${errorMessage}`)
+				vscode.window.showErrorMessage(t("common:errors.checkpoint_cleanup", { error: errorMessage }))
+			}
+
+			await provider.postMessageToWebview({
+				type: "checkpointStorage",
+				checkpointStorage: await provider.getCheckpointStorageUsage(),
+			})
+			break
+		case "forkTask": {
+			if (typeof message.value !== "number") {
+				break
+			}
+
+			// Stop the current task so that its messages are complete and it
+			// doesn't touch the workspace while the fork rewinds it.
+			await provider.cancelTask()
+
+			try {
+				await pWaitFor(() => provider.getCurrentCline()?.isInitialized === true, { timeout: 3_000 })
+				await provider.forkTask(message.value)
+			} catch (error) {
+				provider.log(`Error forking task: ${error instanceof Error ? error.message : String(error)}`)
+				vscode.window.showErrorMessage(t("common:errors.fork_failed"))
+			}
+
+			break
+		}
 		case "cancelTask":
 			await provider.cancelTask()
 			break
@@ -548,6 +677,111 @@ export const webviewMessageHandler = async (provider: ClineProvider, message: We
 			}
 			break
 		}
+		case "runMcpPrompt": {
+			if (!message.serverName || !message.promptName) {
+				break
+			}
+
+			try {
+				const prompt = await provider
+					.getMcpHub()
+					?.getPrompt(message.serverName, message.promptName, message.promptArguments, message.source)
+
+				if (prompt) {
+					// Sent like a message the user typed, so it starts a task or answers the current one.
+					const { text, images } = renderPromptMessages(prompt)
+					await provider.postMessageToWebview({ type: "invoke", invoke: "sendMessage", text, images })
+				}
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error)
+				provider.log(`Failed to run MCP prompt ${message.serverName}:${message.promptName}: ${errorMessage}`)
+				vscode.window.showErrorMessage(
+					t("common:errors.run_mcp_prompt", {
+						prompt: `${message.serverName}:${message.promptName}`,
+						error: errorMessage,
+					}),
+				)
+			}
+			break
+		}
+		case "attachMcpResource": {
+			if (!message.serverName || !message.text) {
+				break
+			}
+
+			const uri = isUriTemplate(message.text)
+				? expandUriTemplate(message.text, message.resourceArguments ?? {})
+				: message.text
+
+			try {
+				const resource = await provider.getMcpHub()?.readResource(message.serverName, uri, message.source)
+
+				if (resource) {
+					const { text, images } = renderResourceContents(resource.contents, true)
+					await provider.postMessageToWebview({ type: "action", action: "chatButtonClicked" })
+					await provider.postMessageToWebview({ type: "invoke", invoke: "setChatBoxMessage", text, images })
+				}
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error)
+				provider.log(`Failed to attach MCP resource ${uri}: ${errorMessage}`)
+				vscode.window.showErrorMessage(t("common:errors.attach_mcp_resource", { uri, error: errorMessage }))
+			}
+			break
+		}
+		case "completeMcpResourceArgument": {
+			if (!message.serverName || !message.text || !message.argumentName) {
+				break
+			}
+
+			const completions =
+				(await provider
+					.getMcpHub()
+					?.getCompletions(
+						message.serverName,
+						{ type: "ref/resource", uri: message.text },
+						{ name: message.argumentName, value: message.query ?? "" },
+						message.source,
+					)
+					.catch(() => [])) ?? []
+
+			await provider.postMessageToWebview({ type: "mcpCompletion", requestId: message.requestId, completions })
+			break
+		}
+		case "requestMcpAuditLog": {
+			const entries = await McpAuditLog.getInstance(provider.context).getEntries()
+
+			await provider.postMessageToWebview({
+				type: "mcpAuditLog",
+				mcpAuditLog: entries.slice(-MCP_AUDIT_LOG_VIEW_LIMIT).reverse(),
+			})
+			break
+		}
+		case "exportMcpAuditLog": {
+			const uri = await vscode.window.showSaveDialog({
+				filters: { JSON: ["json"] },
+				defaultUri: vscode.Uri.file(path.join(os.homedir(), "Documents", "kodely-mcp-audit-log.json")),
+			})
+
+			if (!uri) {
+				break
+			}
+
+			try {
+				const entries = await McpAuditLog.getInstance(provider.context).getEntries()
+				await fs.mkdir(path.dirname(uri.fsPath), { recursive: true })
+				await fs.writeFile(uri.fsPath, JSON.stringify(entries, null, 2), "utf-8")
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error)
+				provider.log(`Failed to export MCP audit log: ${errorMessage}`)
+				vscode.window.showErrorMessage(t("common:errors.export_mcp_audit_log", { error: errorMessage }))
+			}
+			break
+		}
+		case "clearMcpAuditLog": {
+			await McpAuditLog.getInstance(provider.context).clear()
+			await provider.postMessageToWebview({ type: "mcpAuditLog", mcpAuditLog: [] })
+			break
+		}
 		case "restartMcpServer": {
 			try {
 				await provider.getMcpHub()?.restartConnection(message.text!, message.source as "global" | "project")
@@ -773,6 +1007,36 @@ export const webviewMessageHandler = async (provider: ClineProvider, message: We
 				Terminal.setTerminalZdotdir(message.bool)
 			}
 			break
+		case "terminalBackend":
+			await updateGlobalState("terminalBackend", message.text as TerminalBackend)
+			await provider.postStateToWebview()
+			break
+		case "terminalCommandTimeout":
+			await updateGlobalState("terminalCommandTimeout", message.value)
+			await provider.postStateToWebview()
+			if (message.value !== undefined) {
+				HeadlessTerminal.setCommandTimeout(message.value)
+			}
+			break
+		case "terminalEnvAllowlist":
+			await updateGlobalState("terminalEnvAllowlist", message.commands)
+			await provider.postStateToWebview()
+			HeadlessTerminal.setEnvAllowlist(message.commands)
+			break
+		case "terminalConfineToWorkspace":
+			await updateGlobalState("terminalConfineToWorkspace", message.bool)
+			await provider.postStateToWebview()
+			break
+		case "testRunTimeout":
+			await updateGlobalState("testRunTimeout", message.value)
+			await provider.postStateToWebview()
+			break
+		case "stopBackgroundProcess":
+			if (message.text) {
+				await TerminalRegistry.getBackgroundProcess(provider.getCurrentCline()?.taskId, message.text)?.stop()
+				await provider.postStateToWebview()
+			}
+			break
 		case "mode":
 			await provider.handleModeSwitch(message.text as Mode)
 			break
@@ -958,6 +1222,22 @@ export const webviewMessageHandler = async (provider: ClineProvider, message: We
 			await updateGlobalState("maxReadFileLine", message.value)
 			await provider.postStateToWebview()
 			break
+		case "slidingWindowStrategy":
+			await updateGlobalState("slidingWindowStrategy", message.text as SlidingWindowStrategy)
+			await provider.postStateToWebview()
+			break
+		case "condensingApiConfigName":
+			await updateGlobalState("condensingApiConfigName", message.text || undefined)
+			await provider.postStateToWebview()
+			break
+		case "diagnosticsSeverity":
+			await updateGlobalState("diagnosticsSeverity", message.text as DiagnosticsSeverity)
+			await provider.postStateToWebview()
+			break
+		case "maxDiagnosticsPerFile":
+			await updateGlobalState("maxDiagnosticsPerFile", message.value)
+			await provider.postStateToWebview()
+			break
 		case "toggleApiConfigPin":
 			if (message.text) {
 				const currentPinned = getGlobalState("pinnedApiConfigs") ?? {}
@@ -1095,6 +1375,7 @@ export const webviewMessageHandler = async (provider: ClineProvider, message: We
 					message.query || "",
 					workspacePath,
 					20, // Use default limit, as filtering is now done in the backend
+					getWorkspaceRoots(),
 				)
 
 				// Send results back to webview
@@ -1357,29 +1638,77 @@ export const webviewMessageHandler = async (provider: ClineProvider, message: We
 		}
 		case "optimizationLevel": {
 			await updateGlobalState("optimizationLevel", message.text as unknown as CostOptimizationLevel)
+			await provider.costOptimizationManager.updateSettings({
+				optimizationLevel: message.text as unknown as CostOptimizationLevel,
+			})
 			await provider.postStateToWebview()
 			break
 		}
 		case "maxContextWindowUsage": {
 			await updateGlobalState("maxContextWindowUsage", message.value as number)
+			await provider.costOptimizationManager.updateSettings({ maxContextWindowUsage: message.value as number })
 			await provider.postStateToWebview()
 			break
 		}
 		case "useLocalRag": {
 			await updateGlobalState("useLocalRag", message.bool)
+			await provider.costOptimizationManager.updateSettings({ useLocalRag: message.bool ?? true })
 			await provider.postStateToWebview()
 			break
 		}
 		case "maxOutputTokens": {
 			await updateGlobalState("maxOutputTokens", message.value as number)
+			await provider.costOptimizationManager.updateSettings({ maxOutputTokens: message.value as number })
 			await provider.postStateToWebview()
 			break
 		}
 		case "compressCodeInContext": {
 			await updateGlobalState("compressCodeInContext", message.bool)
+			await provider.costOptimizationManager.updateSettings({ compressCodeInContext: message.bool ?? false })
 			await provider.postStateToWebview()
 			break
 		}
+		case "codeCompressionLevel": {
+			await updateGlobalState("codeCompressionLevel", message.text as CodeCompressionLevel)
+			await provider.postStateToWebview()
+			break
+		}
+		case "globalCostBudget":
+			await updateGlobalState("globalCostBudget", message.values as CostBudget)
+			await provider.postStateToWebview()
+			break
+		case "checkpointRetention":
+			await updateGlobalState("checkpointRetention", message.values as CheckpointRetention)
+			await provider.postStateToWebview()
+			break
+		case "modelRoutingPolicy":
+			await updateGlobalState("modelRoutingPolicy", message.values as ModelRoutingPolicy)
+			await provider.postStateToWebview()
+			break
+		case "requestSpendSummary": {
+			const ledger = SpendLedger.getInstance(provider.context)
+
+			await provider.postMessageToWebview({
+				type: "spendSummary",
+				spendSummary: { day: await ledger.getSpend("day"), month: await ledger.getSpend("month") },
+			})
+			break
+		}
+		case "requestRagIndexStatus":
+			await provider.postMessageToWebview({
+				type: "ragIndexStatus",
+				ragIndexStatus: provider.localRagService.getStatus(),
+			})
+			break
+		case "rebuildRagIndex":
+			// Progress is reported through status updates
+			provider.localRagService.rebuildIndex().catch((error) => {
+				provider.log(`Error rebuilding RAG index: ${error}`)
+			})
+			break
+		case "clearRagIndex":
+			await provider.localRagService.clearIndex()
+			break
 	}
 }
 
@@ -1397,6 +1726,7 @@ const generateSystemPrompt = async (provider: ClineProvider, message: WebviewMes
 		browserToolEnabled,
 		language,
 		optimizationLevel,
+		useLocalRag,
 	} = await provider.getState()
 
 	const diffStrategy = new MultiSearchReplaceDiffStrategy(fuzzyMatchThreshold)
@@ -1445,6 +1775,7 @@ const generateSystemPrompt = async (provider: ClineProvider, message: WebviewMes
 		language,
 		kodelyIgnoreInstructions,
 		optimizationLevel as unknown as CostOptimizationLevel,
+		useLocalRag ?? true,
 	)
 	return systemPrompt
 }
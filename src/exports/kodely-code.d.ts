@@ -191,6 +191,13 @@ type ProviderSettings = {
   rateLimitSeconds?: number | undefined;
   diffEnabled?: boolean | undefined;
   fuzzyMatchThreshold?: number | undefined;
+  costBudget?:
+    | {
+        perTask?: number | undefined;
+        perDay?: number | undefined;
+        perMonth?: number | undefined;
+      }
+    | undefined;
   fakeAi?: unknown | undefined;
 };
 
@@ -244,6 +251,8 @@ type GlobalSettings = {
         totalCost: number;
         size?: number | undefined;
         workspace?: string | undefined;
+        forkedFromTaskId?: string | undefined;
+        forkedFromTs?: number | undefined;
       }[]
     | undefined;
   optimizationLevel?: ("low" | "balanced" | "high") | undefined;
@@ -251,6 +260,51 @@ type GlobalSettings = {
   useLocalRag?: boolean | undefined;
   maxOutputTokens?: number | undefined;
   compressCodeInContext?: boolean | undefined;
+  codeCompressionLevel?: ("comments" | "signatures" | "skeleton") | undefined;
+  globalCostBudget?:
+    | {
+        perTask?: number | undefined;
+        perDay?: number | undefined;
+        perMonth?: number | undefined;
+      }
+    | undefined;
+  modelRoutingPolicy?:
+    | {
+        low?:
+          | {
+              profile: string;
+              modes?: string[] | undefined;
+              lastTools?: string[] | undefined;
+              lastToolFailed?: boolean | undefined;
+              minConsecutiveMistakes?: number | undefined;
+              minContextTokens?: number | undefined;
+              maxContextTokens?: number | undefined;
+            }[]
+          | undefined;
+        balanced?:
+          | {
+              profile: string;
+              modes?: string[] | undefined;
+              lastTools?: string[] | undefined;
+              lastToolFailed?: boolean | undefined;
+              minConsecutiveMistakes?: number | undefined;
+              minContextTokens?: number | undefined;
+              maxContextTokens?: number | undefined;
+            }[]
+          | undefined;
+        high?:
+          | {
+              profile: string;
+              modes?: string[] | undefined;
+              lastTools?: string[] | undefined;
+              lastToolFailed?: boolean | undefined;
+              minConsecutiveMistakes?: number | undefined;
+              minContextTokens?: number | undefined;
+              maxContextTokens?: number | undefined;
+            }[]
+          | undefined;
+      }
+    | undefined;
   autoApprovalEnabled?: boolean | undefined;
   alwaysAllowReadOnly?: boolean | undefined;
   alwaysAllowReadOnlyOutsideWorkspace?: boolean | undefined;
@@ -272,6 +326,13 @@ type GlobalSettings = {
   remoteBrowserHost?: string | undefined;
   cachedChromeHostUrl?: string | undefined;
   enableCheckpoints?: boolean | undefined;
+  checkpointRetention?:
+    | {
+        maxAgeDays?: number | undefined;
+        maxTasks?: number | undefined;
+        maxSizeMb?: number | undefined;
+      }
+    | undefined;
   ttsEnabled?: boolean | undefined;
   ttsSpeed?: number | undefined;
   soundEnabled?: boolean | undefined;
@@ -280,6 +341,10 @@ type GlobalSettings = {
   maxWorkspaceFiles?: number | undefined;
   showKodelyIgnoredFiles?: boolean | undefined;
   maxReadFileLine?: number | undefined;
+  slidingWindowStrategy?: ("truncate" | "summarize") | undefined;
+  condensingApiConfigName?: string | undefined;
+  diagnosticsSeverity?: ("error" | "warning" | "information" | "hint") | undefined;
+  maxDiagnosticsPerFile?: number | undefined;
   terminalOutputLineLimit?: number | undefined;
   terminalShellIntegrationTimeout?: number | undefined;
   terminalCommandDelay?: number | undefined;
@@ -288,6 +353,11 @@ type GlobalSettings = {
   terminalZshOhMy?: boolean | undefined;
   terminalZshP10k?: boolean | undefined;
   terminalZdotdir?: boolean | undefined;
+  terminalBackend?: ("vscode" | "headless") | undefined;
+  terminalCommandTimeout?: number | undefined;
+  terminalEnvAllowlist?: string[] | undefined;
+  terminalConfineToWorkspace?: boolean | undefined;
+  testRunTimeout?: number | undefined;
   rateLimitSeconds?: number | undefined;
   diffEnabled?: boolean | undefined;
   fuzzyMatchThreshold?: number | undefined;
@@ -343,6 +413,16 @@ type GlobalSettings = {
             ]
         )[];
         source?: ("global" | "project") | undefined;
+        terminalBackend?: ("vscode" | "headless") | undefined;
+        commandPolicy?:
+          | {
+              rules: {
+                action: "allow" | "deny";
+                command: string;
+                description?: string | undefined;
+              }[];
+            }
+          | undefined;
       }[]
     | undefined;
   customModePrompts?:
@@ -377,6 +457,7 @@ type ClineMessage = {
         | "resume_task"
         | "resume_completed_task"
         | "mistake_limit_reached"
+        | "budget_exceeded"
         | "browser_action_launch"
         | "use_mcp_server"
         | "finishTask"
@@ -410,6 +491,8 @@ type ClineMessage = {
         | "checkpoint_saved"
         | "kodelyignore_error"
         | "diff_error"
+        | "condense_context"
+        | "test_results"
       )
     | undefined;
   text?: string | undefined;
@@ -458,6 +541,7 @@ type KodelyCodeEvents = {
               | "resume_task"
               | "resume_completed_task"
               | "mistake_limit_reached"
+              | "budget_exceeded"
               | "browser_action_launch"
               | "use_mcp_server"
               | "finishTask"
@@ -491,6 +575,8 @@ type KodelyCodeEvents = {
               | "checkpoint_saved"
               | "kodelyignore_error"
               | "diff_error"
+              | "condense_context"
+              | "test_results"
             )
           | undefined;
         text?: string | undefined;
@@ -244,6 +244,8 @@ type GlobalSettings = {
 				totalCost: number
 				size?: number | undefined
 				workspace?: string | undefined
+				forkedFromTaskId?: string | undefined
+				forkedFromTs?: number | undefined
 		  }[]
 		| undefined
 	autoApprovalEnabled?: boolean | undefined
@@ -374,6 +376,7 @@ type ClineMessage = {
 				| "resume_task"
 				| "resume_completed_task"
 				| "mistake_limit_reached"
+				| "budget_exceeded"
 				| "browser_action_launch"
 				| "use_mcp_server"
 				| "finishTask"
@@ -407,6 +410,8 @@ type ClineMessage = {
 				| "checkpoint_saved"
 				| "kodelyignore_error"
 				| "diff_error"
+				| "condense_context"
+				| "test_results"
 		  )
 		| undefined
 	text?: string | undefined
@@ -455,6 +460,7 @@ type KodelyEvents = {
 							| "resume_task"
 							| "resume_completed_task"
 							| "mistake_limit_reached"
+							| "budget_exceeded"
 							| "browser_action_launch"
 							| "use_mcp_server"
 							| "finishTask"
@@ -488,6 +494,8 @@ type KodelyEvents = {
 							| "checkpoint_saved"
 							| "kodelyignore_error"
 							| "diff_error"
+							| "condense_context"
+							| "test_results"
 					  )
 					| undefined
 				text?: string | undefined
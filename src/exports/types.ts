@@ -192,6 +192,13 @@ type ProviderSettings = {
   rateLimitSeconds?: number | undefined;
   diffEnabled?: boolean | undefined;
   fuzzyMatchThreshold?: number | undefined;
+  costBudget?:
+    | {
+        perTask?: number | undefined;
+        perDay?: number | undefined;
+        perMonth?: number | undefined;
+      }
+    | undefined;
   fakeAi?: unknown | undefined;
 };
 
@@ -247,6 +254,8 @@ type GlobalSettings = {
         totalCost: number;
         size?: number | undefined;
         workspace?: string | undefined;
+        forkedFromTaskId?: string | undefined;
+        forkedFromTs?: number | undefined;
       }[]
     | undefined;
   optimizationLevel?: ("low" | "balanced" | "high") | undefined;
@@ -254,6 +263,51 @@ type GlobalSettings = {
   useLocalRag?: boolean | undefined;
   maxOutputTokens?: number | undefined;
   compressCodeInContext?: boolean | undefined;
+  codeCompressionLevel?: ("comments" | "signatures" | "skeleton") | undefined;
+  globalCostBudget?:
+    | {
+        perTask?: number | undefined;
+        perDay?: number | undefined;
+        perMonth?: number | undefined;
+      }
+    | undefined;
+  modelRoutingPolicy?:
+    | {
+        low?:
+          | {
+              profile: string;
+              modes?: string[] | undefined;
+              lastTools?: string[] | undefined;
+              lastToolFailed?: boolean | undefined;
+              minConsecutiveMistakes?: number | undefined;
+              minContextTokens?: number | undefined;
+              maxContextTokens?: number | undefined;
+            }[]
+          | undefined;
+        balanced?:
+          | {
+              profile: string;
+              modes?: string[] | undefined;
+              lastTools?: string[] | undefined;
+              lastToolFailed?: boolean | undefined;
+              minConsecutiveMistakes?: number | undefined;
+              minContextTokens?: number | undefined;
+              maxContextTokens?: number | undefined;
+            }[]
+          | undefined;
+        high?:
+          | {
+              profile: string;
+              modes?: string[] | undefined;
+              lastTools?: string[] | undefined;
+              lastToolFailed?: boolean | undefined;
+              minConsecutiveMistakes?: number | undefined;
+              minContextTokens?: number | undefined;
+              maxContextTokens?: number | undefined;
+            }[]
+          | undefined;
+      }
+    | undefined;
   autoApprovalEnabled?: boolean | undefined;
   alwaysAllowReadOnly?: boolean | undefined;
   alwaysAllowReadOnlyOutsideWorkspace?: boolean | undefined;
@@ -275,6 +329,13 @@ type GlobalSettings = {
   remoteBrowserHost?: string | undefined;
   cachedChromeHostUrl?: string | undefined;
   enableCheckpoints?: boolean | undefined;
+  checkpointRetention?:
+    | {
+        maxAgeDays?: number | undefined;
+        maxTasks?: number | undefined;
+        maxSizeMb?: number | undefined;
+      }
+    | undefined;
   ttsEnabled?: boolean | undefined;
   ttsSpeed?: number | undefined;
   soundEnabled?: boolean | undefined;
@@ -283,6 +344,10 @@ type GlobalSettings = {
   maxWorkspaceFiles?: number | undefined;
   showKodelyIgnoredFiles?: boolean | undefined;
   maxReadFileLine?: number | undefined;
+  slidingWindowStrategy?: ("truncate" | "summarize") | undefined;
+  condensingApiConfigName?: string | undefined;
+  diagnosticsSeverity?: ("error" | "warning" | "information" | "hint") | undefined;
+  maxDiagnosticsPerFile?: number | undefined;
   terminalOutputLineLimit?: number | undefined;
   terminalShellIntegrationTimeout?: number | undefined;
   terminalCommandDelay?: number | undefined;
@@ -291,6 +356,11 @@ type GlobalSettings = {
   terminalZshOhMy?: boolean | undefined;
   terminalZshP10k?: boolean | undefined;
   terminalZdotdir?: boolean | undefined;
+  terminalBackend?: ("vscode" | "headless") | undefined;
+  terminalCommandTimeout?: number | undefined;
+  terminalEnvAllowlist?: string[] | undefined;
+  terminalConfineToWorkspace?: boolean | undefined;
+  testRunTimeout?: number | undefined;
   rateLimitSeconds?: number | undefined;
   diffEnabled?: boolean | undefined;
   fuzzyMatchThreshold?: number | undefined;
@@ -346,6 +416,16 @@ type GlobalSettings = {
             ]
         )[];
         source?: ("global" | "project") | undefined;
+        terminalBackend?: ("vscode" | "headless") | undefined;
+        commandPolicy?:
+          | {
+              rules: {
+                action: "allow" | "deny";
+                command: string;
+                description?: string | undefined;
+              }[];
+            }
+          | undefined;
       }[]
     | undefined;
   customModePrompts?:
@@ -382,6 +462,7 @@ type ClineMessage = {
         | "resume_task"
         | "resume_completed_task"
         | "mistake_limit_reached"
+        | "budget_exceeded"
         | "browser_action_launch"
         | "use_mcp_server"
         | "finishTask"
@@ -415,6 +496,8 @@ type ClineMessage = {
         | "checkpoint_saved"
         | "kodelyignore_error"
         | "diff_error"
+        | "condense_context"
+        | "test_results"
       )
     | undefined;
   text?: string | undefined;
@@ -467,6 +550,7 @@ type KodelyCodeEvents = {
               | "resume_task"
               | "resume_completed_task"
               | "mistake_limit_reached"
+              | "budget_exceeded"
               | "browser_action_launch"
               | "use_mcp_server"
               | "finishTask"
@@ -500,6 +584,8 @@ type KodelyCodeEvents = {
               | "checkpoint_saved"
               | "kodelyignore_error"
               | "diff_error"
+              | "condense_context"
+              | "test_results"
             )
           | undefined;
         text?: string | undefined;
@@ -53,15 +53,14 @@ export async function activate(context: vscode.ExtensionContext) {
 	const costOptimizationManager = new CostOptimizationManager(context)
 
 	// Initialize local RAG service
-	const localRagService = new LocalRagService(context)
+	const localRagService = LocalRagService.getInstance(context)
+	context.subscriptions.push(localRagService)
 	await localRagService.initialize()
 
-	// Index workspace files for RAG if workspace folders exist
-	if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-		localRagService.indexWorkspace(vscode.workspace.workspaceFolders).catch(error => {
-			console.error('Error indexing workspace:', error)
-		})
-	}
+	// Index workspace files for RAG; file watchers keep the index up to date afterwards
+	localRagService.indexWorkspace().catch(error => {
+		console.error('Error indexing workspace:', error)
+	})
 
 	// Get default commands from configuration.
 	const defaultCommands = vscode.workspace.getConfiguration("kodely").get<string[]>("allowedCommands") || []
@@ -82,6 +81,13 @@ export async function activate(context: vscode.ExtensionContext) {
 
 	registerCommands({ context, outputChannel, provider })
 
+	// Enforce the checkpoint retention settings; no task of this window is running yet.
+	provider.collectCheckpointGarbage().catch((error) => {
+		outputChannel.appendLine(
+			`Error collecting checkpoint garbage: ${error instanceof Error ? error.message : String(error)}`,
+		)
+	})
+
 	/**
 	 * We use the text document content provider API to show the left side for diff
 	 * view by creating a virtual document for the original content. This makes it
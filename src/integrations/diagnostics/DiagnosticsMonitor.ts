@@ -0,0 +1,144 @@
+import * as vscode from "vscode"
+import pWaitFor from "p-wait-for"
+
+import { DiagnosticsSeverity, diagnosticsSeverities } from "../../schemas"
+
+import { diagnosticsToProblemsString, getNewDiagnostics } from "./index"
+
+// Language servers usually publish diagnostics in several rounds after a file
+// is saved, so we wait until they have been quiet for a moment.
+const SETTLE_QUIET_MS = 500
+const SETTLE_TIMEOUT_MS = 5_000
+
+type Diagnostics = [vscode.Uri, vscode.Diagnostic[]][]
+
+export type DiagnosticsReportOptions = {
+	// The least severe problems to report
+	severity?: DiagnosticsSeverity
+	// 0 reports no problems at all
+	maxPerFile?: number
+}
+
+/**
+ * Returns the diagnostic severities that are at least as severe as `severity`.
+ */
+export const getDiagnosticSeverities = (severity: DiagnosticsSeverity) =>
+	// `vscode.DiagnosticSeverity` is ordered like `diagnosticsSeverities`, most severe first.
+	[
+		vscode.DiagnosticSeverity.Error,
+		vscode.DiagnosticSeverity.Warning,
+		vscode.DiagnosticSeverity.Information,
+		vscode.DiagnosticSeverity.Hint,
+	].slice(0, diagnosticsSeverities.indexOf(severity) + 1)
+
+/**
+ * Tracks the problems introduced by a task's edits across a whole turn.
+ *
+ * The diagnostics are snapshotted before the first edit of a turn (see
+ * `DiffViewProvider.open`) and compared against the settled diagnostics once
+ * the turn is over, which catches the problems that language servers only
+ * report a while after a file was saved, or in files other than the edited
+ * one. Problems that a tool already reported are not repeated.
+ */
+export class DiagnosticsMonitor {
+	private preDiagnostics?: Diagnostics
+	private reportedDiagnostics: Diagnostics = []
+	private lastChangeTime = 0
+	private changeListener?: vscode.Disposable
+
+	constructor(private cwd: string) {}
+
+	/**
+	 * Snapshots the diagnostics before an edit. Only the first snapshot of a
+	 * turn is kept so that the problems of all its edits get reported.
+	 */
+	beforeEdit(diagnostics: Diagnostics = vscode.languages.getDiagnostics()) {
+		if (this.preDiagnostics) {
+			return
+		}
+
+		this.preDiagnostics = diagnostics
+		this.changeListener = vscode.languages.onDidChangeDiagnostics(() => {
+			this.lastChangeTime = Date.now()
+		})
+	}
+
+	/**
+	 * Called once an edit is saved, with the problems of the given severities
+	 * that were already reported to the model in the result of the tool.
+	 */
+	afterEdit(reportedDiagnostics: Diagnostics = [], severities: vscode.DiagnosticSeverity[] = []) {
+		this.lastChangeTime = Date.now()
+
+		for (const [uri, fileDiagnostics] of reportedDiagnostics) {
+			const reported = fileDiagnostics.filter((diagnostic) => severities.includes(diagnostic.severity))
+
+			if (reported.length > 0) {
+				this.reportedDiagnostics.push([uri, reported])
+			}
+		}
+	}
+
+	/**
+	 * Waits for the language servers to settle and lists the problems that
+	 * appeared since the first edit of the turn, then starts a new turn.
+	 *
+	 * @returns an empty string if there are no new problems
+	 */
+	async getNewProblems({ severity = "error", maxPerFile = 10 }: DiagnosticsReportOptions = {}): Promise<string> {
+		if (!this.preDiagnostics) {
+			return ""
+		}
+
+		try {
+			if (maxPerFile <= 0) {
+				return ""
+			}
+
+			await this.waitForSettled()
+
+			const newDiagnostics = getNewDiagnostics(this.preDiagnostics, vscode.languages.getDiagnostics())
+			const unreportedDiagnostics = getNewDiagnostics(this.mergeReported(), newDiagnostics)
+
+			return await diagnosticsToProblemsString(
+				unreportedDiagnostics,
+				getDiagnosticSeverities(severity),
+				this.cwd,
+				maxPerFile,
+			)
+		} finally {
+			this.reset()
+		}
+	}
+
+	reset() {
+		this.preDiagnostics = undefined
+		this.reportedDiagnostics = []
+		this.changeListener?.dispose()
+		this.changeListener = undefined
+	}
+
+	dispose() {
+		this.reset()
+	}
+
+	private async waitForSettled() {
+		await pWaitFor(() => Date.now() - this.lastChangeTime >= SETTLE_QUIET_MS, {
+			interval: 100,
+			timeout: SETTLE_TIMEOUT_MS,
+		}).catch(() => {})
+	}
+
+	// `getNewDiagnostics` expects a single entry per file.
+	private mergeReported(): Diagnostics {
+		const merged = new Map<string, [vscode.Uri, vscode.Diagnostic[]]>()
+
+		for (const [uri, diagnostics] of this.reportedDiagnostics) {
+			const entry = merged.get(uri.toString()) ?? [uri, []]
+			entry[1].push(...diagnostics)
+			merged.set(uri.toString(), entry)
+		}
+
+		return Array.from(merged.values())
+	}
+}
@@ -0,0 +1,140 @@
+// npx jest src/integrations/diagnostics/__tests__/DiagnosticsMonitor.test.ts
+
+import * as vscode from "vscode"
+
+import { DiagnosticsMonitor, getDiagnosticSeverities } from "../DiagnosticsMonitor"
+
+jest.mock("vscode", () => ({
+	languages: {
+		getDiagnostics: jest.fn(),
+		onDidChangeDiagnostics: jest.fn(),
+	},
+	workspace: {
+		openTextDocument: jest.fn().mockResolvedValue({ lineAt: (line: number) => ({ text: `line ${line + 1}` }) }),
+	},
+	DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+}))
+
+const uri = (fsPath: string) => ({ fsPath, toString: () => `file://${fsPath}` }) as unknown as vscode.Uri
+
+const diagnostic = (line: number, message: string, severity: vscode.DiagnosticSeverity) =>
+	({ range: { start: { line, character: 0 } }, message, severity, source: "ts" }) as vscode.Diagnostic
+
+describe("DiagnosticsMonitor", () => {
+	const cwd = "/project"
+	const getDiagnostics = vscode.languages.getDiagnostics as unknown as jest.Mock
+	const onDidChangeDiagnostics = vscode.languages.onDidChangeDiagnostics as jest.Mock
+	const dispose = jest.fn()
+
+	let monitor: DiagnosticsMonitor
+
+	beforeEach(() => {
+		jest.clearAllMocks()
+		jest.useFakeTimers()
+		onDidChangeDiagnostics.mockReturnValue({ dispose })
+		monitor = new DiagnosticsMonitor(cwd)
+	})
+
+	afterEach(() => {
+		jest.useRealTimers()
+	})
+
+	const getNewProblems = async (...args: Parameters<DiagnosticsMonitor["getNewProblems"]>) => {
+		const problems = monitor.getNewProblems(...args)
+		await jest.runAllTimersAsync()
+		return problems
+	}
+
+	it("reports nothing without edits", async () => {
+		expect(await monitor.getNewProblems()).toBe("")
+		expect(getDiagnostics).not.toHaveBeenCalled()
+	})
+
+	it("reports the problems introduced since the first edit of the turn", async () => {
+		const existing = diagnostic(0, "existing", vscode.DiagnosticSeverity.Error)
+
+		monitor.beforeEdit([[uri("/project/a.ts"), [existing]]])
+		// A second edit in the same turn keeps the first snapshot.
+		monitor.beforeEdit([[uri("/project/a.ts"), [existing, diagnostic(4, "first edit", 0)]]])
+		monitor.afterEdit()
+
+		getDiagnostics.mockReturnValue([
+			[uri("/project/a.ts"), [existing, diagnostic(4, "first edit", vscode.DiagnosticSeverity.Error)]],
+			[uri("/project/b.ts"), [diagnostic(1, "in another file", vscode.DiagnosticSeverity.Error)]],
+		])
+
+		expect(await getNewProblems()).toBe(
+			"a.ts\n- [ts Error] 5 | line 5 : first edit\n\nb.ts\n- [ts Error] 2 | line 2 : in another file",
+		)
+		expect(dispose).toHaveBeenCalled()
+
+		// The next turn starts from scratch.
+		expect(await monitor.getNewProblems()).toBe("")
+	})
+
+	it("waits for the diagnostics to settle", async () => {
+		monitor.beforeEdit([])
+		monitor.afterEdit()
+		getDiagnostics.mockReturnValue([])
+
+		const problems = monitor.getNewProblems()
+		await jest.advanceTimersByTimeAsync(400)
+
+		// A language server publishes late diagnostics.
+		getDiagnostics.mockReturnValue([[uri("/project/a.ts"), [diagnostic(0, "late", 0)]]])
+		onDidChangeDiagnostics.mock.calls[0][0]()
+		await jest.advanceTimersByTimeAsync(400)
+		expect(getDiagnostics).not.toHaveBeenCalled()
+
+		await jest.runAllTimersAsync()
+		expect(await problems).toBe("a.ts\n- [ts Error] 1 | line 1 : late")
+	})
+
+	it("skips the problems the tool already reported", async () => {
+		const reported = diagnostic(0, "reported", vscode.DiagnosticSeverity.Error)
+		const warning = diagnostic(1, "warning", vscode.DiagnosticSeverity.Warning)
+
+		monitor.beforeEdit([])
+		monitor.afterEdit([[uri("/project/a.ts"), [reported, warning]]], [vscode.DiagnosticSeverity.Error])
+		getDiagnostics.mockReturnValue([[uri("/project/a.ts"), [reported, warning]]])
+
+		expect(await getNewProblems({ severity: "warning" })).toBe("a.ts\n- [ts Warning] 2 | line 2 : warning")
+	})
+
+	it("applies the severity and the per-file limit", async () => {
+		monitor.beforeEdit([])
+		monitor.afterEdit()
+		getDiagnostics.mockReturnValue([
+			[
+				uri("/project/a.ts"),
+				[
+					diagnostic(0, "hint", vscode.DiagnosticSeverity.Hint),
+					diagnostic(1, "warning", vscode.DiagnosticSeverity.Warning),
+					diagnostic(2, "first error", vscode.DiagnosticSeverity.Error),
+					diagnostic(3, "second error", vscode.DiagnosticSeverity.Error),
+				],
+			],
+		])
+
+		expect(await getNewProblems({ severity: "warning", maxPerFile: 2 })).toBe(
+			"a.ts\n- [ts Error] 3 | line 3 : first error\n- [ts Error] 4 | line 4 : second error\n- (1 more problems omitted)",
+		)
+	})
+
+	it("reports nothing when the per-file limit is 0", async () => {
+		monitor.beforeEdit([])
+		getDiagnostics.mockReturnValue([[uri("/project/a.ts"), [diagnostic(0, "error", 0)]]])
+
+		expect(await monitor.getNewProblems({ maxPerFile: 0 })).toBe("")
+		expect(dispose).toHaveBeenCalled()
+	})
+
+	it("maps a severity to the severities at least as severe", () => {
+		expect(getDiagnosticSeverities("error")).toEqual([vscode.DiagnosticSeverity.Error])
+		expect(getDiagnosticSeverities("information")).toEqual([
+			vscode.DiagnosticSeverity.Error,
+			vscode.DiagnosticSeverity.Warning,
+			vscode.DiagnosticSeverity.Information,
+		])
+	})
+})
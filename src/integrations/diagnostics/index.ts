@@ -7,10 +7,11 @@ export function getNewDiagnostics(
 	newDiagnostics: [vscode.Uri, vscode.Diagnostic[]][],
 ): [vscode.Uri, vscode.Diagnostic[]][] {
 	const newProblems: [vscode.Uri, vscode.Diagnostic[]][] = []
-	const oldMap = new Map(oldDiagnostics)
+	// Snapshots from different `getDiagnostics` calls don't share `Uri` instances.
+	const oldMap = new Map(oldDiagnostics.map(([uri, diags]) => [uri.toString(), diags]))
 
 	for (const [uri, newDiags] of newDiagnostics) {
-		const oldDiags = oldMap.get(uri) || []
+		const oldDiags = oldMap.get(uri.toString()) || []
 		const newProblemsForUri = newDiags.filter((newDiag) => !oldDiags.some((oldDiag) => deepEqual(oldDiag, newDiag)))
 
 		if (newProblemsForUri.length > 0) {
@@ -74,14 +75,18 @@ export async function diagnosticsToProblemsString(
 	diagnostics: [vscode.Uri, vscode.Diagnostic[]][],
 	severities: vscode.DiagnosticSeverity[],
 	cwd: string,
+	maxProblemsPerFile?: number,
 ): Promise<string> {
 	const documents = new Map<vscode.Uri, vscode.TextDocument>()
 	let result = ""
 	for (const [uri, fileDiagnostics] of diagnostics) {
-		const problems = fileDiagnostics.filter((d) => severities.includes(d.severity))
+		// most severe first, so that the errors are kept when the list is truncated
+		const problems = fileDiagnostics
+			.filter((d) => severities.includes(d.severity))
+			.sort((a, b) => a.severity - b.severity)
 		if (problems.length > 0) {
 			result += `\n\n${path.relative(cwd, uri.fsPath).toPosix()}`
-			for (const diagnostic of problems) {
+			for (const diagnostic of problems.slice(0, maxProblemsPerFile)) {
 				let label: string
 				switch (diagnostic.severity) {
 					case vscode.DiagnosticSeverity.Error:
@@ -106,6 +111,9 @@ export async function diagnosticsToProblemsString(
 				const lineContent = document.lineAt(diagnostic.range.start.line).text
 				result += `\n- [${source}${label}] ${line} | ${lineContent} : ${diagnostic.message}`
 			}
+			if (maxProblemsPerFile !== undefined && problems.length > maxProblemsPerFile) {
+				result += `\n- (${problems.length - maxProblemsPerFile} more problems omitted)`
+			}
 		}
 	}
 	return result.trim()
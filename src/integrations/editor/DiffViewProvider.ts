@@ -2,11 +2,12 @@ import * as vscode from "vscode"
 import * as path from "path"
 import * as fs from "fs/promises"
 import { createDirectoriesForFile } from "../../utils/fs"
-import { arePathsEqual } from "../../utils/path"
+import { arePathsEqual, resolveWorkspacePath } from "../../utils/path"
 import { formatResponse } from "../../core/prompts/responses"
 import { DecorationController } from "./DecorationController"
 import * as diff from "diff"
 import { diagnosticsToProblemsString, getNewDiagnostics } from "../diagnostics"
+import { DiagnosticsMonitor } from "../diagnostics/DiagnosticsMonitor"
 import stripBom from "strip-bom"
 
 export const DIFF_VIEW_URI_SCHEME = "cline-diff"
@@ -25,12 +26,15 @@ export class DiffViewProvider {
 	private streamedLines: string[] = []
 	private preDiagnostics: [vscode.Uri, vscode.Diagnostic[]][] = []
 
-	constructor(private cwd: string) {}
+	constructor(
+		private cwd: string,
+		private diagnosticsMonitor?: DiagnosticsMonitor,
+	) {}
 
 	async open(relPath: string): Promise<void> {
 		this.relPath = relPath
 		const fileExists = this.editType === "modify"
-		const absolutePath = path.resolve(this.cwd, relPath)
+		const absolutePath = resolveWorkspacePath(this.cwd, relPath)
 		this.isEditing = true
 		// if the file is already open, ensure it's not dirty before getting its contents
 		if (fileExists) {
@@ -44,6 +48,7 @@ export class DiffViewProvider {
 
 		// get diagnostics before editing the file, we'll compare to diagnostics after editing to see if cline needs to fix anything
 		this.preDiagnostics = vscode.languages.getDiagnostics()
+		this.diagnosticsMonitor?.beforeEdit(this.preDiagnostics)
 
 		if (fileExists) {
 			this.originalContent = await fs.readFile(absolutePath, "utf-8")
@@ -149,7 +154,7 @@ export class DiffViewProvider {
 		if (!this.relPath || !this.newContent || !this.activeDiffEditor) {
 			return { newProblemsMessage: undefined, userEdits: undefined, finalContent: undefined }
 		}
-		const absolutePath = path.resolve(this.cwd, this.relPath)
+		const absolutePath = resolveWorkspacePath(this.cwd, this.relPath)
 		const updatedDocument = this.activeDiffEditor.document
 		const editedContent = updatedDocument.getText()
 		if (updatedDocument.isDirty) {
@@ -177,13 +182,13 @@ export class DiffViewProvider {
 		initial fix is usually correct and it may just take time for linters to catch up.
 		*/
 		const postDiagnostics = vscode.languages.getDiagnostics()
-		const newProblems = await diagnosticsToProblemsString(
-			getNewDiagnostics(this.preDiagnostics, postDiagnostics),
-			[
-				vscode.DiagnosticSeverity.Error, // only including errors since warnings can be distracting (if user wants to fix warnings they can use the @problems mention)
-			],
-			this.cwd,
-		) // will be empty string if no errors
+		const newDiagnostics = getNewDiagnostics(this.preDiagnostics, postDiagnostics)
+		const severities = [
+			vscode.DiagnosticSeverity.Error, // only including errors since warnings can be distracting (if user wants to fix warnings they can use the @problems mention)
+		]
+		const newProblems = await diagnosticsToProblemsString(newDiagnostics, severities, this.cwd) // will be empty string if no errors
+		// the problems that show up later are reported with the environment details
+		this.diagnosticsMonitor?.afterEdit(newDiagnostics, severities)
 		const newProblemsMessage =
 			newProblems.length > 0 ? `\n\nNew problems detected after saving the file:\n${newProblems}` : ""
 
@@ -212,7 +217,7 @@ export class DiffViewProvider {
 		}
 		const fileExists = this.editType === "modify"
 		const updatedDocument = this.activeDiffEditor.document
-		const absolutePath = path.resolve(this.cwd, this.relPath)
+		const absolutePath = resolveWorkspacePath(this.cwd, this.relPath)
 		if (!fileExists) {
 			if (updatedDocument.isDirty) {
 				await updatedDocument.save()
@@ -269,7 +274,7 @@ export class DiffViewProvider {
 		if (!this.relPath) {
 			throw new Error("No file path set")
 		}
-		const uri = vscode.Uri.file(path.resolve(this.cwd, this.relPath))
+		const uri = vscode.Uri.file(resolveWorkspacePath(this.cwd, this.relPath))
 		// If this diff editor is already open (ie if a previous write file was interrupted) then we should activate that instead of opening a new diff
 		const diffTab = vscode.window.tabGroups.all
 			.flatMap((group) => group.tabs)
@@ -0,0 +1,208 @@
+import { ChildProcess, spawn } from "child_process"
+import { EventEmitter } from "events"
+import { constants } from "os"
+import stripAnsi from "strip-ansi"
+
+import { BackgroundProcessInfo, BackgroundProcessStatus } from "../../shared/ExtensionMessage"
+import { ExitCodeDetails, TerminalProcess } from "./TerminalProcess"
+import { KILL_GRACE_PERIOD, signalProcessTree } from "./HeadlessTerminalProcess"
+
+// Only the end of the output of long-lived processes is kept.
+const MAX_OUTPUT_LENGTH = 1_000_000
+
+export interface BackgroundProcessEvents {
+	output: [data: string]
+	exit: [exitDetails: ExitCodeDetails]
+}
+
+export type BackgroundProcessWaitResult = {
+	matched: boolean
+	// The output since the last read, up to the end of the line that matched.
+	output: string
+}
+
+/**
+ * A long-running process a task started to keep running beside it, like a dev
+ * server or a watcher. Unlike commands, it doesn't block the task: the task
+ * reads its output when it needs it, or waits for some output to appear.
+ */
+export class BackgroundProcess extends EventEmitter<BackgroundProcessEvents> {
+	status: BackgroundProcessStatus = "running"
+	exitDetails?: ExitCodeDetails
+	readonly startedAt = Date.now()
+	private child?: ChildProcess
+	private output: string = ""
+	private readIndex: number = 0
+
+	constructor(
+		public readonly taskId: string,
+		public readonly name: string,
+		public readonly command: string,
+		public readonly cwd: string,
+	) {
+		super()
+	}
+
+	get pid(): number | undefined {
+		return this.child?.pid
+	}
+
+	start(env: NodeJS.ProcessEnv) {
+		const child = spawn(this.command, {
+			cwd: this.cwd,
+			env,
+			shell: true,
+			detached: process.platform !== "win32",
+			stdio: ["ignore", "pipe", "pipe"],
+			windowsHide: true,
+		})
+
+		this.child = child
+
+		child.stdout?.setEncoding("utf8").on("data", (data: string) => this.onData(data))
+		child.stderr?.setEncoding("utf8").on("data", (data: string) => this.onData(data))
+
+		child.once("error", (error) => {
+			if (child.pid === undefined) {
+				this.onData(`${error.message}\n`)
+				this.onExit({ exitCode: undefined })
+			}
+		})
+
+		// "close" waits for the output to end, which makes sure none of it is missed.
+		child.once("close", (code, signal) => this.onChildExit(code, signal))
+	}
+
+	hasUnreadOutput(): boolean {
+		return this.readIndex < this.output.length
+	}
+
+	/**
+	 * Returns the output since the last read.
+	 */
+	read(): string {
+		return this.readUntil(this.output.length)
+	}
+
+	/**
+	 * Waits until the output since the last read matches `pattern`, the process
+	 * exits or `timeoutMs` passed, and reads the output.
+	 */
+	waitFor(pattern: RegExp, timeoutMs: number): Promise<BackgroundProcessWaitResult> {
+		return new Promise((resolve) => {
+			const check = () => {
+				const match = pattern.exec(this.output.slice(this.readIndex))
+
+				if (match) {
+					const matchEnd = this.readIndex + match.index + match[0].length
+					const lineEnd = this.output.indexOf("\n", matchEnd)
+					finish(true, lineEnd === -1 ? this.output.length : lineEnd + 1)
+				} else if (this.status !== "running") {
+					finish(false, this.output.length)
+				}
+			}
+
+			const finish = (matched: boolean, end: number) => {
+				clearTimeout(timeout)
+				this.off("output", check)
+				this.off("exit", check)
+				resolve({ matched, output: this.readUntil(end) })
+			}
+
+			const timeout = setTimeout(() => finish(false, this.output.length), timeoutMs)
+
+			this.on("output", check)
+			this.on("exit", check)
+
+			check()
+		})
+	}
+
+	/**
+	 * Terminates the process along with the processes it spawned, and waits
+	 * for it to exit, or for the grace period before it is killed to pass.
+	 */
+	async stop(): Promise<void> {
+		const child = this.child
+		const pid = child?.pid
+
+		if (this.status !== "running" || !child || pid === undefined) {
+			return
+		}
+
+		this.status = "stopped"
+
+		await new Promise<void>((resolve) => {
+			// Unlike "close", "exit" doesn't wait for the processes it spawned to
+			// close the output they inherited. Those are still killed after the
+			// grace period if they ignore SIGTERM.
+			const onExit = (code: number | null, signal: NodeJS.Signals | null) => {
+				this.onChildExit(code, signal)
+				resolve()
+			}
+
+			setTimeout(() => {
+				child.off("exit", onExit)
+				signalProcessTree(pid, "SIGKILL")
+				resolve()
+			}, KILL_GRACE_PERIOD).unref()
+
+			signalProcessTree(pid, "SIGTERM")
+
+			if (child.exitCode !== null || child.signalCode !== null) {
+				onExit(child.exitCode, child.signalCode)
+			} else {
+				child.once("exit", onExit)
+			}
+		})
+	}
+
+	getInfo(): BackgroundProcessInfo {
+		return {
+			name: this.name,
+			command: this.command,
+			status: this.status,
+			exitCode: this.exitDetails?.exitCode,
+			startedAt: this.startedAt,
+		}
+	}
+
+	private readUntil(end: number): string {
+		const output = this.output.slice(this.readIndex, end)
+		this.readIndex = end
+		return stripAnsi(output)
+	}
+
+	private onData(data: string) {
+		this.output += data
+
+		if (this.output.length > MAX_OUTPUT_LENGTH) {
+			const dropped = this.output.length - MAX_OUTPUT_LENGTH
+			this.output = this.output.slice(dropped)
+			this.readIndex = Math.max(0, this.readIndex - dropped)
+		}
+
+		this.emit("output", data)
+	}
+
+	private onChildExit(code: number | null, signal: NodeJS.Signals | null) {
+		const signalNumber = signal ? constants.signals[signal] : undefined
+
+		this.onExit(
+			signalNumber !== undefined
+				? TerminalProcess.interpretExitCode(128 + signalNumber)
+				: TerminalProcess.interpretExitCode(code ?? undefined),
+		)
+	}
+
+	private onExit(exitDetails: ExitCodeDetails) {
+		if (this.exitDetails) {
+			return
+		}
+
+		// A stopped process keeps its status, whatever its exit code.
+		this.status = this.status === "stopped" ? "stopped" : "exited"
+		this.exitDetails = exitDetails
+		this.emit("exit", exitDetails)
+	}
+}
@@ -0,0 +1,182 @@
+import { ExitCodeDetails, mergePromise } from "./TerminalProcess"
+import type { CommandCallbacks } from "./Terminal"
+import { HeadlessTerminalProcess } from "./HeadlessTerminalProcess"
+import type { KodelyTerminal, KodelyTerminalProcessResultPromise } from "./types"
+
+// Variables that are always passed to commands, an allowlist or not, since
+// shells can't find or start anything without them.
+const REQUIRED_ENV_VARIABLES = ["PATH", "PATHEXT", "SystemRoot", "ComSpec", "HOME", "USERPROFILE"]
+
+/**
+ * Matches an environment variable name against an allowlist entry, which is
+ * either a name or a prefix ending with `*`, e.g. `NODE_*`.
+ */
+const matchesEnvEntry = (name: string, entry: string) => {
+	// Environment variable names are case-insensitive on Windows.
+	const [key, pattern] = process.platform === "win32" ? [name.toUpperCase(), entry.toUpperCase()] : [name, entry]
+
+	return pattern.endsWith("*") ? key.startsWith(pattern.slice(0, -1)) : key === pattern
+}
+
+/**
+ * Builds the environment of the commands run headless.
+ *
+ * @param allowlist - Names or `PREFIX_*` patterns of the variables to pass on;
+ * all variables are passed on when there is no allowlist
+ */
+export function getHeadlessEnvironment(allowlist?: string[], env: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+	const entries = allowlist?.length ? [...REQUIRED_ENV_VARIABLES, ...allowlist] : undefined
+	const result: NodeJS.ProcessEnv = {}
+
+	for (const [name, value] of Object.entries(env)) {
+		if (!entries || entries.some((entry) => matchesEnvEntry(name, entry))) {
+			result[name] = value
+		}
+	}
+
+	// Commands can't be interacted with, so don't let them wait for a pager.
+	return { ...result, PAGER: "cat", GIT_PAGER: "cat" }
+}
+
+/**
+ * A terminal without a VS Code terminal behind it, running each command in a
+ * child process of the extension host. Unlike a shell, it doesn't keep state
+ * between commands: every command starts in the terminal's working directory.
+ */
+export class HeadlessTerminal implements KodelyTerminal {
+	private static commandTimeout: number = 0
+	private static envAllowlist: string[] | undefined = undefined
+
+	public busy: boolean = false
+	public running: boolean = false
+	public process?: HeadlessTerminalProcess
+	public taskId?: string
+	public completedProcesses: HeadlessTerminalProcess[] = []
+
+	constructor(
+		public id: number,
+		private cwd: string,
+	) {}
+
+	public getCurrentWorkingDirectory(): string {
+		return this.cwd
+	}
+
+	public getEnvironment(): NodeJS.ProcessEnv {
+		return HeadlessTerminal.getEnvironment()
+	}
+
+	public getCommandTimeout(): number {
+		return HeadlessTerminal.commandTimeout
+	}
+
+	/**
+	 * Handles the exit of the running command, see `Terminal.shellExecutionComplete`.
+	 */
+	public shellExecutionComplete(exitDetails: ExitCodeDetails): void {
+		this.busy = false
+		this.running = false
+
+		if (this.process) {
+			if (this.process.hasUnretrievedOutput()) {
+				this.completedProcesses.unshift(this.process)
+			}
+
+			this.process.emit("shell_execution_complete", exitDetails)
+			this.process = undefined
+		}
+	}
+
+	public getLastCommand(): string {
+		if (this.process) {
+			return this.process.command
+		} else if (this.completedProcesses.length > 0) {
+			return this.completedProcesses[0].command
+		}
+		return ""
+	}
+
+	public cleanCompletedProcessQueue(): void {
+		this.completedProcesses = this.completedProcesses.filter((process) => process.hasUnretrievedOutput())
+	}
+
+	public getProcessesWithOutput(): HeadlessTerminalProcess[] {
+		this.cleanCompletedProcessQueue()
+		return [...this.completedProcesses]
+	}
+
+	public getUnretrievedOutput(): string {
+		let output = ""
+
+		for (const process of this.completedProcesses) {
+			output += process.getUnretrievedOutput()
+		}
+
+		output += this.process?.getUnretrievedOutput() ?? ""
+
+		this.cleanCompletedProcessQueue()
+
+		return output
+	}
+
+	public runCommand(command: string, callbacks?: CommandCallbacks): KodelyTerminalProcessResultPromise {
+		this.busy = true
+		this.running = true
+
+		const process = new HeadlessTerminalProcess(this)
+		process.command = command
+		this.process = process
+
+		if (callbacks?.onLine) {
+			process.on("line", (line) => callbacks.onLine!(line, process))
+		}
+		if (callbacks?.onCompleted) {
+			process.once("completed", (output) => callbacks.onCompleted!(output, process))
+		}
+		if (callbacks?.onShellExecutionComplete) {
+			process.once("shell_execution_complete", (details) => callbacks.onShellExecutionComplete!(details, process))
+		}
+
+		const promise = new Promise<void>((resolve, reject) => {
+			process.once("continue", () => resolve())
+			process.once("error", (error) => {
+				console.error(`[HeadlessTerminal ${this.id}] error:`, error)
+				reject(error)
+			})
+		})
+
+		process.run(command)
+
+		return mergePromise(process, promise)
+	}
+
+	/**
+	 * Terminates the running command, if any.
+	 */
+	public kill(): void {
+		this.process?.kill()
+	}
+
+	/**
+	 * The environment of the commands run without a terminal, see `getHeadlessEnvironment`.
+	 */
+	public static getEnvironment(): NodeJS.ProcessEnv {
+		return getHeadlessEnvironment(HeadlessTerminal.envAllowlist)
+	}
+
+	/**
+	 * Sets how long commands may run before they are terminated, 0 for no limit
+	 * @param timeoutMs The timeout in milliseconds
+	 */
+	public static setCommandTimeout(timeoutMs: number): void {
+		HeadlessTerminal.commandTimeout = timeoutMs
+	}
+
+	/**
+	 * Sets the environment variables passed to commands, undefined or empty for all
+	 * @param allowlist Variable names or `PREFIX_*` patterns
+	 */
+	public static setEnvAllowlist(allowlist: string[] | undefined): void {
+		HeadlessTerminal.envAllowlist = allowlist
+	}
+}
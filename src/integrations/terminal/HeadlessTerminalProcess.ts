@@ -0,0 +1,197 @@
+import { ChildProcess, spawn } from "child_process"
+import { EventEmitter } from "events"
+import { constants } from "os"
+import stripAnsi from "strip-ansi"
+
+import { ExitCodeDetails, TerminalProcess, TerminalProcessEvents } from "./TerminalProcess"
+import type { HeadlessTerminal } from "./HeadlessTerminal"
+import type { KodelyTerminalProcess } from "./types"
+
+// how long to wait after a process outputs anything before we consider it "cool" again
+const PROCESS_HOT_TIMEOUT = 2_000
+
+// how long a process gets to exit after SIGTERM before it is killed
+export const KILL_GRACE_PERIOD = 3_000
+
+/**
+ * Sends a signal to a process started with `detached` and to the processes it
+ * spawned, which share its process group. Windows has no signals, so the
+ * process tree is killed right away.
+ */
+export function signalProcessTree(pid: number, signal: NodeJS.Signals) {
+	try {
+		if (process.platform === "win32") {
+			spawn("taskkill", ["/pid", String(pid), "/T", "/F"], { windowsHide: true })
+		} else {
+			process.kill(-pid, signal)
+		}
+	} catch (error) {
+		// The process group is already gone.
+	}
+}
+
+/**
+ * Runs a command with `child_process` instead of a VS Code terminal, which
+ * works without shell integration, e.g. in remote or headless setups.
+ *
+ * It emits the same events as `TerminalProcess` in the same order, so callers
+ * can't tell them apart: "line" while output comes in, then
+ * "shell_execution_complete", "completed" and "continue" once the command
+ * exits.
+ */
+export class HeadlessTerminalProcess extends EventEmitter<TerminalProcessEvents> implements KodelyTerminalProcess {
+	command: string = ""
+	isHot: boolean = false
+	private isListening: boolean = true
+	private isRunning: boolean = false
+	private fullOutput: string = ""
+	private lastRetrievedIndex: number = 0
+	private lastEmitTime_ms: number = 0
+	private child?: ChildProcess
+	private hotTimer?: NodeJS.Timeout
+	private timeoutTimer?: NodeJS.Timeout
+	private timedOut: boolean = false
+
+	constructor(private terminalInfo: HeadlessTerminal) {
+		super()
+	}
+
+	run(command: string) {
+		this.command = command
+		this.isRunning = true
+
+		const child = spawn(command, {
+			cwd: this.terminalInfo.getCurrentWorkingDirectory(),
+			env: this.terminalInfo.getEnvironment(),
+			shell: true,
+			// Puts the command in its own process group so that `kill` reaches
+			// the processes it spawns too.
+			detached: process.platform !== "win32",
+			stdio: ["ignore", "pipe", "pipe"],
+			windowsHide: true,
+		})
+
+		this.child = child
+		// Trigger UI to proceed, like `TerminalProcess` does once the command output starts.
+		this.emit("line", "")
+
+		child.stdout?.setEncoding("utf8").on("data", (data: string) => this.onData(data))
+		child.stderr?.setEncoding("utf8").on("data", (data: string) => this.onData(data))
+
+		child.once("error", (error) => {
+			// The command could not be spawned at all, e.g. because the working
+			// directory was removed. "close" follows if it was spawned.
+			if (child.pid === undefined) {
+				this.onData(`${error.message}\n`)
+				this.complete({ exitCode: undefined })
+			}
+		})
+
+		child.once("close", (code, signal) => {
+			const signalNumber = signal ? constants.signals[signal] : undefined
+
+			this.complete(
+				signalNumber !== undefined
+					? TerminalProcess.interpretExitCode(128 + signalNumber)
+					: TerminalProcess.interpretExitCode(code ?? undefined),
+			)
+		})
+
+		const timeout = this.terminalInfo.getCommandTimeout()
+
+		if (timeout > 0) {
+			this.timeoutTimer = setTimeout(() => {
+				this.timedOut = true
+				this.kill()
+			}, timeout)
+		}
+	}
+
+	/**
+	 * Terminates the command along with the processes it spawned.
+	 */
+	kill() {
+		const pid = this.child?.pid
+
+		if (!this.isRunning || pid === undefined) {
+			return
+		}
+
+		signalProcessTree(pid, "SIGTERM")
+
+		setTimeout(() => {
+			if (this.isRunning) {
+				signalProcessTree(pid, "SIGKILL")
+			}
+		}, KILL_GRACE_PERIOD).unref()
+	}
+
+	private onData(data: string) {
+		this.fullOutput += data
+
+		const now = Date.now()
+		if (this.isListening && (now - this.lastEmitTime_ms > 100 || this.lastEmitTime_ms === 0)) {
+			this.emitRemainingBufferIfListening()
+			this.lastEmitTime_ms = now
+		}
+
+		// This stalls API requests until the process is cool again.
+		this.isHot = true
+		if (this.hotTimer) {
+			clearTimeout(this.hotTimer)
+		}
+		this.hotTimer = setTimeout(() => {
+			this.isHot = false
+		}, PROCESS_HOT_TIMEOUT)
+	}
+
+	private complete(exitDetails: ExitCodeDetails) {
+		if (!this.isRunning) {
+			return
+		}
+
+		this.isRunning = false
+		clearTimeout(this.hotTimer)
+		clearTimeout(this.timeoutTimer)
+		this.isHot = false
+
+		if (this.timedOut) {
+			this.fullOutput += `\n<command timed out after ${this.terminalInfo.getCommandTimeout() / 1000}s and was terminated>\n`
+		}
+
+		this.emitRemainingBufferIfListening()
+		this.terminalInfo.shellExecutionComplete(exitDetails)
+		this.emit("completed", stripAnsi(this.fullOutput))
+		this.emit("continue")
+	}
+
+	private emitRemainingBufferIfListening() {
+		if (this.isListening) {
+			const remainingBuffer = this.getUnretrievedOutput()
+			if (remainingBuffer !== "") {
+				this.emit("line", remainingBuffer)
+			}
+		}
+	}
+
+	continue() {
+		this.emitRemainingBufferIfListening()
+		this.isListening = false
+		this.removeAllListeners("line")
+		this.emit("continue")
+	}
+
+	hasUnretrievedOutput(): boolean {
+		return this.lastRetrievedIndex < this.fullOutput.length
+	}
+
+	// Returns complete lines while the command is running, and everything once it exited.
+	getUnretrievedOutput(): string {
+		const unretrieved = this.fullOutput.slice(this.lastRetrievedIndex)
+		const endIndex = this.isRunning ? unretrieved.lastIndexOf("\n") + 1 : unretrieved.length
+
+		this.lastRetrievedIndex += endIndex
+
+		return stripAnsi(unretrieved.slice(0, endIndex))
+	}
+}
@@ -2,19 +2,20 @@ import * as vscode from "vscode"
 import pWaitFor from "p-wait-for"
 import { ExitCodeDetails, mergePromise, TerminalProcess, TerminalProcessResultPromise } from "./TerminalProcess"
 import { truncateOutput, applyRunLengthEncoding } from "../misc/extract-text"
+import type { KodelyTerminal, KodelyTerminalProcess } from "./types"
 // Import TerminalRegistry here to avoid circular dependencies
 const { TerminalRegistry } = require("./TerminalRegistry")
 
 export const TERMINAL_SHELL_INTEGRATION_TIMEOUT = 5000
 
 export interface CommandCallbacks {
-	onLine?: (line: string, process: TerminalProcess) => void
-	onCompleted?: (output: string | undefined, process: TerminalProcess) => void
-	onShellExecutionComplete?: (details: ExitCodeDetails, process: TerminalProcess) => void
-	onNoShellIntegration?: (message: string, process: TerminalProcess) => void
+	onLine?: (line: string, process: KodelyTerminalProcess) => void
+	onCompleted?: (output: string | undefined, process: KodelyTerminalProcess) => void
+	onShellExecutionComplete?: (details: ExitCodeDetails, process: KodelyTerminalProcess) => void
+	onNoShellIntegration?: (message: string, process: KodelyTerminalProcess) => void
 }
 
-export class Terminal {
+export class Terminal implements KodelyTerminal {
 	private static shellIntegrationTimeout: number = TERMINAL_SHELL_INTEGRATION_TIMEOUT
 	private static commandDelay: number = 0
 	private static powershellCounter: boolean = false
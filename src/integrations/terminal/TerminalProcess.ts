@@ -687,7 +687,10 @@ export class TerminalProcess extends EventEmitter<TerminalProcessEvents> {
 export type TerminalProcessResultPromise = TerminalProcess & Promise<void>
 
 // Similar to execa's ResultPromise, this lets us create a mixin of both a TerminalProcess and a Promise: https://github.com/sindresorhus/execa/blob/main/lib/methods/promise.js
-export function mergePromise(process: TerminalProcess, promise: Promise<void>): TerminalProcessResultPromise {
+export function mergePromise<P extends EventEmitter<TerminalProcessEvents> = TerminalProcess>(
+	process: P,
+	promise: Promise<void>,
+): P & Promise<void> {
 	const nativePromisePrototype = (async () => {})().constructor.prototype
 	const descriptors = ["then", "catch", "finally"].map(
 		(property) => [property, Reflect.getOwnPropertyDescriptor(nativePromisePrototype, property)] as const,
@@ -698,5 +701,5 @@ export function mergePromise(process: TerminalProcess, promise: Promise<void>):
 			Reflect.defineProperty(process, property, { ...descriptor, value })
 		}
 	}
-	return process as TerminalProcessResultPromise
+	return process as P & Promise<void>
 }
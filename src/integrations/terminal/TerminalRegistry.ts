@@ -3,11 +3,16 @@ import * as path from "path"
 import { arePathsEqual } from "../../utils/path"
 import { Terminal } from "./Terminal"
 import { TerminalProcess } from "./TerminalProcess"
+import { HeadlessTerminal } from "./HeadlessTerminal"
+import { BackgroundProcess } from "./BackgroundProcess"
+import type { KodelyTerminal } from "./types"
 
 // Although vscode.window.terminals provides a list of all open terminals, there's no way to know whether they're busy or not (exitStatus does not provide useful information for most commands). In order to prevent creating too many terminals, we need to keep track of terminals through the life of the extension, as well as session specific terminals for the life of a task (to get latest unretrieved output).
 // Since we have promises keeping track of terminal processes, we get the added benefit of keep track of busy terminals even after a task is closed.
 export class TerminalRegistry {
 	private static terminals: Terminal[] = []
+	private static headlessTerminals: HeadlessTerminal[] = []
+	private static backgroundProcesses: BackgroundProcess[] = []
 	private static nextTerminalId = 1
 	private static disposables: vscode.Disposable[] = []
 	private static terminalTmpDirs: Map<number, string> = new Map()
@@ -181,7 +186,13 @@ export class TerminalRegistry {
 		return newTerminal
 	}
 
-	static getTerminal(id: number): Terminal | undefined {
+	static getTerminal(id: number): KodelyTerminal | undefined {
+		const headlessTerminal = this.headlessTerminals.find((t) => t.id === id)
+
+		if (headlessTerminal) {
+			return headlessTerminal
+		}
+
 		const terminalInfo = this.terminals.find((t) => t.id === id)
 
 		if (terminalInfo && this.isTerminalClosed(terminalInfo.terminal)) {
@@ -192,7 +203,7 @@ export class TerminalRegistry {
 		return terminalInfo
 	}
 
-	static updateTerminal(id: number, updates: Partial<Terminal>) {
+	static updateTerminal(id: number, updates: Partial<KodelyTerminal>) {
 		const terminal = this.getTerminal(id)
 
 		if (terminal) {
@@ -263,8 +274,8 @@ export class TerminalRegistry {
 	 * @param taskId Optional task ID to filter terminals by
 	 * @returns Array of Terminal objects
 	 */
-	static getTerminals(busy: boolean, taskId?: string): Terminal[] {
-		return this.getAllTerminals().filter((t) => {
+	static getTerminals(busy: boolean, taskId?: string): KodelyTerminal[] {
+		return [...this.getAllTerminals(), ...this.headlessTerminals].filter((t) => {
 			// Filter by busy state
 			if (t.busy !== busy) {
 				return false
@@ -289,8 +300,8 @@ export class TerminalRegistry {
 	 * @param busy Whether to get busy or non-busy terminals
 	 * @returns Array of Terminal objects
 	 */
-	static getBackgroundTerminals(busy?: boolean): Terminal[] {
-		return this.getAllTerminals().filter((t) => {
+	static getBackgroundTerminals(busy?: boolean): KodelyTerminal[] {
+		return [...this.getAllTerminals(), ...this.headlessTerminals].filter((t) => {
 			// Only get background terminals (taskId undefined)
 			if (t.taskId !== undefined) {
 				return false
@@ -315,6 +326,12 @@ export class TerminalRegistry {
 
 		this.disposables.forEach((disposable) => disposable.dispose())
 		this.disposables = []
+
+		// Unlike VS Code terminals, headless commands would outlive the extension.
+		this.headlessTerminals.forEach((terminal) => terminal.kill())
+		this.headlessTerminals = []
+		this.backgroundProcesses.forEach((process) => process.stop())
+		this.backgroundProcesses = []
 	}
 
 	/**
@@ -464,11 +481,11 @@ unset ROO_ZDOTDIR
 	static releaseTerminalsForTask(taskId?: string): void {
 		if (!taskId) return
 
-		this.terminals.forEach((terminal) => {
+		for (const terminal of [...this.terminals, ...this.headlessTerminals]) {
 			if (terminal.taskId === taskId) {
 				terminal.taskId = undefined
 			}
-		})
+		}
 	}
 
 	/**
@@ -524,4 +541,60 @@ unset ROO_ZDOTDIR
 
 		return terminal
 	}
+
+	/**
+	 * Gets an idle headless terminal for the given working directory or creates one
+	 * @param cwd The working directory path
+	 * @param taskId Optional task ID to associate with the terminal
+	 * @returns A HeadlessTerminal instance
+	 */
+	static getOrCreateHeadlessTerminal(cwd: string, taskId?: string): HeadlessTerminal {
+		let terminal = this.headlessTerminals.find((t) => !t.busy && arePathsEqual(t.getCurrentWorkingDirectory(), cwd))
+
+		if (!terminal) {
+			terminal = new HeadlessTerminal(this.nextTerminalId++, cwd)
+			this.headlessTerminals.push(terminal)
+		}
+
+		terminal.taskId = taskId
+
+		return terminal
+	}
+
+	/**
+	 * Starts a named background process for a task, see `BackgroundProcess`.
+	 * A process that exited can be started again under the same name.
+	 * @throws if a process with that name is still running
+	 */
+	static startBackgroundProcess(taskId: string, name: string, command: string, cwd: string): BackgroundProcess {
+		if (this.getBackgroundProcess(taskId, name)?.status === "running") {
+			throw new Error(`A background process named '${name}' is already running`)
+		}
+
+		const process = new BackgroundProcess(taskId, name, command, cwd)
+
+		this.backgroundProcesses = this.backgroundProcesses.filter((p) => p.taskId !== taskId || p.name !== name)
+		this.backgroundProcesses.push(process)
+		process.start(HeadlessTerminal.getEnvironment())
+
+		return process
+	}
+
+	static getBackgroundProcess(taskId: string | undefined, name: string): BackgroundProcess | undefined {
+		return this.backgroundProcesses.find((p) => p.taskId === taskId && p.name === name)
+	}
+
+	static getBackgroundProcesses(taskId: string | undefined): BackgroundProcess[] {
+		return this.backgroundProcesses.filter((p) => p.taskId === taskId)
+	}
+
+	/**
+	 * Stops the background processes of a task and forgets about them.
+	 */
+	static async stopBackgroundProcesses(taskId: string): Promise<void> {
+		const processes = this.getBackgroundProcesses(taskId)
+
+		this.backgroundProcesses = this.backgroundProcesses.filter((p) => p.taskId !== taskId)
+		await Promise.all(processes.map((process) => process.stop()))
+	}
 }
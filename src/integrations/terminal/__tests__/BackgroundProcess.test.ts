@@ -0,0 +1,109 @@
+// npx jest src/integrations/terminal/__tests__/BackgroundProcess.test.ts
+
+import * as os from "os"
+
+import { BackgroundProcess } from "../BackgroundProcess"
+import { TerminalRegistry } from "../TerminalRegistry"
+
+jest.mock("vscode", () => ({
+	window: {
+		createTerminal: jest.fn(),
+		onDidCloseTerminal: jest.fn().mockReturnValue({ dispose: jest.fn() }),
+	},
+	ThemeIcon: jest.fn(),
+}))
+
+const isWindows = process.platform === "win32"
+
+const exited = (process: BackgroundProcess) =>
+	process.status === "running" ? new Promise((resolve) => process.once("exit", resolve)) : Promise.resolve()
+
+;(isWindows ? describe.skip : describe)("BackgroundProcess", () => {
+	const processes: BackgroundProcess[] = []
+
+	const start = (command: string) => {
+		const process = new BackgroundProcess("task-1", "test", command, os.tmpdir())
+		processes.push(process)
+		process.start(globalThis.process.env)
+		return process
+	}
+
+	afterEach(async () => {
+		await Promise.all(processes.splice(0).map((process) => process.stop()))
+		await TerminalRegistry.stopBackgroundProcesses("task-1")
+	})
+
+	it("reads the output since the last read", async () => {
+		const process = start("echo first && echo second >&2")
+
+		await exited(process)
+
+		expect(process.hasUnreadOutput()).toBe(true)
+		expect(process.read()).toBe("first\nsecond\n")
+		expect(process.hasUnreadOutput()).toBe(false)
+		expect(process.read()).toBe("")
+		expect(process.getInfo()).toMatchObject({ name: "test", status: "exited", exitCode: 0 })
+	})
+
+	it("waits for the output to match a pattern", async () => {
+		const process = start("echo starting && sleep 0.2 && echo ready on port 3000 && echo more && sleep 30")
+
+		const result = await process.waitFor(/ready on port \d+/, 10_000)
+
+		expect(result.matched).toBe(true)
+		expect(result.output).toMatch(/^starting\nready on port 3000\n$/)
+		expect(process.status).toBe("running")
+	})
+
+	it("stops waiting when the process exits or the timeout passes", async () => {
+		const exiting = start("echo failed && exit 1")
+
+		expect(await exiting.waitFor(/ready/, 10_000)).toEqual({ matched: false, output: "failed\n" })
+		expect(exiting.exitDetails?.exitCode).toBe(1)
+
+		const running = start("echo waiting && sleep 30")
+
+		expect(await running.waitFor(/ready/, 200)).toEqual({ matched: false, output: "waiting\n" })
+		expect(running.status).toBe("running")
+	})
+
+	it("stops the process and the processes it spawned", async () => {
+		const process = start("sleep 30 & sleep 30; wait")
+
+		await process.stop()
+
+		expect(process.status).toBe("stopped")
+		expect(process.exitDetails).toBeDefined()
+	})
+
+	it("stops without waiting for spawned processes that keep the output open", async () => {
+		// setsid moves the shell out of the process group, so it outlives the stop.
+		const process = start("setsid sh -c 'echo started $$ && sleep 10' & wait")
+
+		const { output } = await process.waitFor(/started \d+/, 10_000)
+		const stoppedAt = Date.now()
+		await process.stop()
+
+		expect(Date.now() - stoppedAt).toBeLessThan(1_000)
+		expect(process.status).toBe("stopped")
+		expect(process.exitDetails).toBeDefined()
+
+		// setsid made the shell the leader of its own process group.
+		globalThis.process.kill(-Number(/started (\d+)/.exec(output)![1]), "SIGKILL")
+	})
+
+	it("is tracked per task by the registry", async () => {
+		const process = TerminalRegistry.startBackgroundProcess("task-1", "server", "sleep 30", os.tmpdir())
+
+		expect(() => TerminalRegistry.startBackgroundProcess("task-1", "server", "sleep 30", os.tmpdir())).toThrow(
+			"already running",
+		)
+		expect(TerminalRegistry.getBackgroundProcess("task-1", "server")).toBe(process)
+		expect(TerminalRegistry.getBackgroundProcess("task-2", "server")).toBeUndefined()
+
+		await TerminalRegistry.stopBackgroundProcesses("task-1")
+
+		expect(process.status).toBe("stopped")
+		expect(TerminalRegistry.getBackgroundProcesses("task-1")).toEqual([])
+	})
+})
@@ -0,0 +1,127 @@
+// npx jest src/integrations/terminal/__tests__/HeadlessTerminal.test.ts
+
+import * as fs from "fs"
+import * as os from "os"
+
+import { HeadlessTerminal, getHeadlessEnvironment } from "../HeadlessTerminal"
+import { TerminalRegistry } from "../TerminalRegistry"
+
+jest.mock("vscode", () => ({
+	window: {
+		createTerminal: jest.fn(),
+		onDidCloseTerminal: jest.fn().mockReturnValue({ dispose: jest.fn() }),
+	},
+	ThemeIcon: jest.fn(),
+}))
+
+const isWindows = process.platform === "win32"
+
+describe("HeadlessTerminal", () => {
+	afterEach(() => {
+		HeadlessTerminal.setCommandTimeout(0)
+		HeadlessTerminal.setEnvAllowlist(undefined)
+	})
+
+	;(isWindows ? describe.skip : describe)("runCommand", () => {
+		it("emits the events of a terminal process in order", async () => {
+			const terminal = new HeadlessTerminal(1, os.tmpdir())
+			const events: string[] = []
+			let output = ""
+			let exitCode: number | undefined
+
+			await terminal.runCommand("echo first && echo second >&2 && exit 3", {
+				onLine: (line) => {
+					events.push("line")
+					output += line
+				},
+				onShellExecutionComplete: (details) => {
+					events.push("shell_execution_complete")
+					exitCode = details.exitCode
+				},
+				onCompleted: () => events.push("completed"),
+			})
+
+			expect(events[0]).toBe("line")
+			expect(events.slice(-2)).toEqual(["shell_execution_complete", "completed"])
+			expect(output).toBe("first\nsecond\n")
+			expect(exitCode).toBe(3)
+			expect(terminal.busy).toBe(false)
+			expect(terminal.running).toBe(false)
+			expect(terminal.getLastCommand()).toBe("")
+		})
+
+		it("runs commands in the working directory of the terminal", async () => {
+			const terminal = new HeadlessTerminal(1, os.tmpdir())
+			let output = ""
+
+			await terminal.runCommand("pwd", { onCompleted: (completed) => (output = completed ?? "") })
+
+			expect(output.trim()).toBe(fs.realpathSync(os.tmpdir()))
+		})
+
+		it("terminates commands that run longer than the timeout", async () => {
+			HeadlessTerminal.setCommandTimeout(200)
+
+			const terminal = new HeadlessTerminal(1, os.tmpdir())
+			let output = ""
+			let signalName: string | undefined
+
+			await terminal.runCommand("echo started && sleep 10", {
+				onCompleted: (completed) => (output = completed ?? ""),
+				onShellExecutionComplete: (details) => (signalName = details.signalName),
+			})
+
+			expect(output).toContain("started")
+			expect(output).toContain("<command timed out after 0.2s and was terminated>")
+			expect(signalName).toBe("SIGTERM")
+		})
+
+		it("keeps the output that wasn't retrieved once the process continued", async () => {
+			const terminal = new HeadlessTerminal(1, os.tmpdir())
+			const process = terminal.runCommand("sleep 0.3 && echo later")
+
+			const exited = new Promise((resolve) => process.once("shell_execution_complete", resolve))
+			process.continue()
+			await process
+			await exited
+
+			expect(terminal.getProcessesWithOutput()).toHaveLength(1)
+			expect(terminal.getUnretrievedOutput()).toBe("later\n")
+			expect(terminal.getProcessesWithOutput()).toHaveLength(0)
+		})
+	})
+
+	describe("getHeadlessEnvironment", () => {
+		const env = { PATH: "/bin", HOME: "/home/user", NODE_ENV: "test", NPM_CONFIG_CACHE: "/cache", SECRET: "x" }
+
+		it("passes on all variables without an allowlist", () => {
+			expect(getHeadlessEnvironment(undefined, env)).toEqual({ ...env, PAGER: "cat", GIT_PAGER: "cat" })
+			expect(getHeadlessEnvironment([], env)).toEqual({ ...env, PAGER: "cat", GIT_PAGER: "cat" })
+		})
+
+		it("passes on the allowed and required variables only", () => {
+			expect(getHeadlessEnvironment(["NODE_ENV", "NPM_*"], env)).toEqual({
+				PATH: "/bin",
+				HOME: "/home/user",
+				NODE_ENV: "test",
+				NPM_CONFIG_CACHE: "/cache",
+				PAGER: "cat",
+				GIT_PAGER: "cat",
+			})
+		})
+	})
+
+	describe("TerminalRegistry.getOrCreateHeadlessTerminal", () => {
+		it("reuses idle terminals with the same working directory", () => {
+			const terminal = TerminalRegistry.getOrCreateHeadlessTerminal("/project", "task-1")
+
+			expect(TerminalRegistry.getOrCreateHeadlessTerminal("/project", "task-2")).toBe(terminal)
+			expect(terminal.taskId).toBe("task-2")
+
+			terminal.busy = true
+			expect(TerminalRegistry.getOrCreateHeadlessTerminal("/project")).not.toBe(terminal)
+			expect(TerminalRegistry.getOrCreateHeadlessTerminal("/other")).not.toBe(terminal)
+			expect(TerminalRegistry.getTerminal(terminal.id)).toBe(terminal)
+		})
+	})
+})
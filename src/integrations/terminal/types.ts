@@ -0,0 +1,37 @@
+import { EventEmitter } from "events"
+
+import type { CommandCallbacks } from "./Terminal"
+import type { TerminalProcessEvents } from "./TerminalProcess"
+
+/**
+ * What the rest of the extension uses of a process running in a terminal,
+ * whether it runs in a VS Code terminal (`TerminalProcess`) or headless
+ * (`HeadlessTerminalProcess`).
+ */
+export interface KodelyTerminalProcess extends EventEmitter<TerminalProcessEvents> {
+	command: string
+	isHot: boolean
+	continue(): void
+	hasUnretrievedOutput(): boolean
+	getUnretrievedOutput(): string
+}
+
+export type KodelyTerminalProcessResultPromise = KodelyTerminalProcess & Promise<void>
+
+/**
+ * What the rest of the extension uses of a terminal, see `Terminal` and
+ * `HeadlessTerminal`.
+ */
+export interface KodelyTerminal {
+	id: number
+	busy: boolean
+	running: boolean
+	taskId?: string
+	process?: KodelyTerminalProcess
+	getCurrentWorkingDirectory(): string
+	getLastCommand(): string
+	getProcessesWithOutput(): KodelyTerminalProcess[]
+	cleanCompletedProcessQueue(): void
+	getUnretrievedOutput(): string
+	runCommand(command: string, callbacks?: CommandCallbacks): KodelyTerminalProcessResultPromise
+}
@@ -0,0 +1,189 @@
+// npx jest src/integrations/test-runner/__tests__/index.test.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { ClineTestRunSummary } from "../../../shared/ExtensionMessage"
+import { collectTestResults, createTestRun, detectTestRunner, formatTestRunSummary } from "../index"
+
+describe("detectTestRunner", () => {
+	let cwd: string
+
+	beforeEach(async () => {
+		cwd = await fs.mkdtemp(path.join(os.tmpdir(), "test-runner-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(cwd, { recursive: true, force: true })
+	})
+
+	it("detects the runner from the project's files", async () => {
+		expect(await detectTestRunner(cwd)).toBeUndefined()
+
+		await fs.writeFile(path.join(cwd, "pyproject.toml"), "[tool.pytest.ini_options]\naddopts = '-q'\n")
+		expect(await detectTestRunner(cwd)).toBe("pytest")
+
+		await fs.writeFile(path.join(cwd, "go.mod"), "module example.com/calc\n")
+		expect(await detectTestRunner(cwd)).toBe("go")
+
+		await fs.writeFile(path.join(cwd, "Cargo.toml"), '[package]\nname = "calc"\n')
+		expect(await detectTestRunner(cwd)).toBe("cargo")
+
+		await fs.writeFile(path.join(cwd, "package.json"), JSON.stringify({ scripts: { test: "jest --ci" } }))
+		expect(await detectTestRunner(cwd)).toBe("jest")
+
+		await fs.writeFile(path.join(cwd, "package.json"), JSON.stringify({ devDependencies: { vitest: "^3.0.0" } }))
+		expect(await detectTestRunner(cwd)).toBe("vitest")
+	})
+})
+
+describe("createTestRun", () => {
+	it("runs the runners with machine-readable reporters", () => {
+		const jest = createTestRun("jest", "src/math.test.ts")
+
+		expect(jest.reportFile).toMatch(/kodely-test-report-.+\.json$/)
+		expect(jest.command).toContain("npx jest --json --testLocationInResults")
+		expect(jest.command).toContain(jest.reportFile)
+		expect(jest.command).toMatch(/ src\/math\.test\.ts$/)
+
+		expect(createTestRun("pytest").command).toMatch(/^pytest -o junit_family=xunit1 .*--junitxml=.+\.xml'?$/)
+		expect(createTestRun("go")).toEqual({ runner: "go", command: "go test -json ./..." })
+		expect(createTestRun("cargo", "tests::adds")).toEqual({
+			runner: "cargo",
+			command: "cargo test --no-fail-fast tests::adds",
+		})
+	})
+
+	it("quotes the target", () => {
+		const quoted = process.platform === "win32" ? '"tests/my tests"' : "'tests/my tests'"
+
+		expect(createTestRun("go", "tests/my tests").command).toBe(`go test -json ${quoted}`)
+	})
+})
+
+describe("collectTestResults", () => {
+	it("reads and deletes the report", async () => {
+		const testRun = createTestRun("jest")
+		await fs.writeFile(
+			testRun.reportFile!,
+			JSON.stringify({
+				testResults: [{ name: "/project/a.test.ts", assertionResults: [{ title: "works", status: "passed" }] }],
+			}),
+		)
+
+		const summary = await collectTestResults(testRun, { cwd: "/project", output: "", exitCode: 0 })
+
+		expect(summary).toEqual({
+			runner: "jest",
+			command: testRun.command,
+			passed: 1,
+			failed: 0,
+			skipped: 0,
+			exitCode: 0,
+			failures: [],
+		})
+		await expect(fs.access(testRun.reportFile!)).rejects.toThrow()
+	})
+
+	it("reports the output when there are no results", async () => {
+		const summary = await collectTestResults(createTestRun("jest"), {
+			cwd: "/project",
+			output: "sh: 1: jest: not found\n",
+			exitCode: 127,
+		})
+
+		expect(summary).toMatchObject({ failed: 0, exitCode: 127, error: "sh: 1: jest: not found" })
+	})
+
+	it("reports the output when the run failed without a failed test", async () => {
+		const summary = await collectTestResults(createTestRun("cargo"), {
+			cwd: "/project",
+			output: "error[E0425]: cannot find value `x` in this scope\n",
+			exitCode: 101,
+		})
+
+		expect(summary.error).toBe("error[E0425]: cannot find value `x` in this scope")
+	})
+
+	it("reports the files of go tests relative to the module", async () => {
+		const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "test-runner-"))
+
+		try {
+			await fs.writeFile(path.join(cwd, "go.mod"), "module example.com/calc\n\ngo 1.22\n")
+
+			const summary = await collectTestResults(createTestRun("go"), {
+				cwd,
+				output: [
+					{
+						Action: "output",
+						Package: "example.com/calc/ops",
+						Test: "TestSub",
+						Output: "ops_test.go:9: wrong\n",
+					},
+					{ Action: "fail", Package: "example.com/calc/ops", Test: "TestSub" },
+				]
+					.map((event) => JSON.stringify(event))
+					.join("\n"),
+				exitCode: 1,
+			})
+
+			expect(summary.failures).toEqual([
+				{
+					name: "example.com/calc/ops TestSub",
+					file: path.join("ops", "ops_test.go"),
+					line: 9,
+					message: "ops_test.go:9: wrong",
+				},
+			])
+		} finally {
+			await fs.rm(cwd, { recursive: true, force: true })
+		}
+	})
+})
+
+describe("formatTestRunSummary", () => {
+	it("describes the failing tests", () => {
+		const summary: ClineTestRunSummary = {
+			runner: "vitest",
+			command: "npx vitest run",
+			passed: 3,
+			failed: 2,
+			skipped: 0,
+			exitCode: 1,
+			failures: [
+				{ name: "math › adds", file: "src/math.test.ts", line: 5, message: "Expected: 3\nReceived: 2" },
+				{ name: "src/broken.test.ts" },
+			],
+		}
+
+		expect(formatTestRunSummary(summary)).toBe(
+			[
+				"Ran the tests with vitest: 2 failed, 3 passed, 0 skipped (exit code 1).",
+				"",
+				"Failing tests:",
+				"1. math › adds (src/math.test.ts:5)",
+				"   Expected: 3",
+				"   Received: 2",
+				"2. src/broken.test.ts",
+			].join("\n"),
+		)
+	})
+
+	it("says when the results are partial because the run timed out", () => {
+		const summary: ClineTestRunSummary = {
+			runner: "go",
+			command: "go test -json ./...",
+			passed: 4,
+			failed: 0,
+			skipped: 0,
+			exitCode: 143,
+			failures: [],
+			timedOutAfter: 600,
+		}
+
+		expect(formatTestRunSummary(summary)).toBe(
+			"Ran the tests with go: 0 failed, 4 passed, 0 skipped (exit code 143). The run timed out after 600s and was terminated, so these results are partial.",
+		)
+	})
+})
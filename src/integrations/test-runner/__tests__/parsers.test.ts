@@ -0,0 +1,283 @@
+// npx jest src/integrations/test-runner/__tests__/parsers.test.ts
+
+import * as path from "path"
+
+import {
+	cleanFailureMessage,
+	parseCargoTestOutput,
+	parseGoTestOutput,
+	parseJUnitReport,
+	parseJestReport,
+} from "../parsers"
+
+const cwd = path.resolve("/project")
+const testFile = path.join(cwd, "src", "math.test.ts")
+
+describe("cleanFailureMessage", () => {
+	it("removes stack frames", () => {
+		expect(
+			cleanFailureMessage(
+				"Error: expect(received).toBe(expected)\n\nExpected: 3\nReceived: 2\n    at Object.<anonymous> (/project/src/math.test.ts:5:17)\n",
+			),
+		).toBe("Error: expect(received).toBe(expected)\n\nExpected: 3\nReceived: 2")
+		expect(cleanFailureMessage("")).toBeUndefined()
+	})
+
+	it("shortens long messages", () => {
+		const message = cleanFailureMessage(Array.from({ length: 30 }, (_, i) => `line ${i}`).join("\n"))
+
+		expect(message?.split("\n")).toHaveLength(21)
+		expect(message).toMatch(/\[10 more lines\]$/)
+	})
+})
+
+describe("parseJestReport", () => {
+	it("reports the failed assertions with the line in the stack", () => {
+		const report = JSON.stringify({
+			testResults: [
+				{
+					name: testFile,
+					status: "failed",
+					message: "",
+					assertionResults: [
+						{ ancestorTitles: ["math"], title: "adds", status: "passed", failureMessages: [] },
+						{
+							ancestorTitles: ["math", "subtract"],
+							title: "subtracts",
+							status: "failed",
+							location: { line: 10, column: 3 },
+							failureMessages: [
+								`Error: expect(received).toBe(expected)\n\nExpected: 1\nReceived: 2\n    at Object.<anonymous> (${testFile}:12:19)`,
+							],
+						},
+						{ ancestorTitles: ["math"], title: "divides", status: "pending", failureMessages: [] },
+						{ ancestorTitles: [], title: "multiplies", status: "todo", failureMessages: [] },
+					],
+				},
+				{
+					name: path.join(cwd, "src", "broken.test.ts"),
+					status: "failed",
+					message: "SyntaxError: Unexpected token (3:4)",
+					assertionResults: [],
+				},
+			],
+		})
+
+		expect(parseJestReport(report, cwd)).toEqual({
+			passed: 1,
+			failed: 2,
+			skipped: 2,
+			failures: [
+				{
+					name: "math › subtract › subtracts",
+					file: path.join("src", "math.test.ts"),
+					line: 12,
+					message: "Error: expect(received).toBe(expected)\n\nExpected: 1\nReceived: 2",
+				},
+				{
+					name: path.join("src", "broken.test.ts"),
+					file: path.join("src", "broken.test.ts"),
+					message: "SyntaxError: Unexpected token (3:4)",
+				},
+			],
+		})
+	})
+
+	it("falls back to the location of the test", () => {
+		const report = JSON.stringify({
+			testResults: [
+				{
+					name: testFile,
+					status: "failed",
+					assertionResults: [
+						{
+							fullName: "math adds",
+							status: "failed",
+							location: { line: 4, column: 2 },
+							failureMessages: ["AssertionError: expected 2 to be 3"],
+						},
+					],
+				},
+			],
+		})
+
+		expect(parseJestReport(report, cwd).failures[0]).toMatchObject({ name: "math adds", line: 4 })
+	})
+})
+
+describe("parseJUnitReport", () => {
+	it("reports the failures of a pytest report", () => {
+		const report = `<?xml version="1.0" encoding="utf-8"?>
+<testsuites>
+	<testsuite name="pytest" errors="1" failures="1" skipped="1" tests="4" time="0.05">
+		<testcase classname="tests.test_app" name="test_ok" file="tests/test_app.py" line="2" time="0.001" />
+		<testcase classname="tests.test_app" name="test_fails" file="tests/test_app.py" line="5" time="0.002">
+			<failure message="assert 1 == 2">def test_fails():
+&gt;       assert 1 == 2
+E       assert 1 == 2
+
+tests/test_app.py:7: AssertionError</failure>
+		</testcase>
+		<testcase classname="tests.test_app" name="test_skipped" file="tests/test_app.py" line="9" time="0">
+			<skipped type="pytest.skip" message="not ready">not ready</skipped>
+		</testcase>
+		<testcase classname="tests.test_app" name="test_error" file="tests/test_app.py" line="12" time="0">
+			<error message="failed on setup with &quot;fixture 'db' not found&quot;" />
+		</testcase>
+	</testsuite>
+</testsuites>`
+
+		expect(parseJUnitReport(report, cwd)).toEqual({
+			passed: 1,
+			failed: 2,
+			skipped: 1,
+			failures: [
+				{ name: "tests.test_app.test_fails", file: "tests/test_app.py", line: 7, message: "assert 1 == 2" },
+				{
+					name: "tests.test_app.test_error",
+					file: "tests/test_app.py",
+					line: 13,
+					message: "failed on setup with \"fixture 'db' not found\"",
+				},
+			],
+		})
+	})
+})
+
+describe("parseGoTestOutput", () => {
+	const events = (...lines: object[]) => lines.map((line) => JSON.stringify(line)).join("\n")
+
+	it("reports the failed tests with their output", () => {
+		const output = events(
+			{ Action: "run", Package: "example.com/calc", Test: "TestAdd" },
+			{ Action: "output", Package: "example.com/calc", Test: "TestAdd", Output: "=== RUN   TestAdd\n" },
+			{ Action: "pass", Package: "example.com/calc", Test: "TestAdd" },
+			{ Action: "output", Package: "example.com/calc", Test: "TestSub", Output: "=== RUN   TestSub\n" },
+			{
+				Action: "output",
+				Package: "example.com/calc",
+				Test: "TestSub",
+				Output: "    calc_test.go:14: Sub(3, 1) = 1, want 2\n",
+			},
+			{ Action: "output", Package: "example.com/calc", Test: "TestSub", Output: "--- FAIL: TestSub (0.00s)\n" },
+			{ Action: "fail", Package: "example.com/calc", Test: "TestSub" },
+			{ Action: "skip", Package: "example.com/calc", Test: "TestDiv" },
+			{ Action: "output", Package: "example.com/calc", Output: "FAIL\n" },
+			{ Action: "fail", Package: "example.com/calc" },
+		)
+
+		expect(parseGoTestOutput(output)).toEqual({
+			passed: 1,
+			failed: 1,
+			skipped: 1,
+			failures: [
+				{
+					name: "example.com/calc TestSub",
+					file: "calc_test.go",
+					line: 14,
+					message: "calc_test.go:14: Sub(3, 1) = 1, want 2",
+				},
+			],
+		})
+	})
+
+	it("reports the files relative to the module", () => {
+		const output = events(
+			{
+				Action: "output",
+				Package: "example.com/calc/ops",
+				Test: "TestSub",
+				Output: "    ops_test.go:9: wrong\n",
+			},
+			{ Action: "fail", Package: "example.com/calc/ops", Test: "TestSub" },
+			{ Action: "fail", Package: "example.com/calc/ops" },
+		)
+
+		expect(parseGoTestOutput(output, "example.com/calc").failures[0].file).toBe(path.join("ops", "ops_test.go"))
+		expect(parseGoTestOutput(output, "example.com/other").failures[0].file).toBe("ops_test.go")
+	})
+
+	it("reports packages that fail to build", () => {
+		const output = [
+			events({
+				ImportPath: "example.com/calc [example.com/calc.test]",
+				Action: "build-output",
+				Output: "# example.com/calc\n",
+			}),
+			events({
+				ImportPath: "example.com/calc [example.com/calc.test]",
+				Action: "build-output",
+				Output: "./calc.go:3:1: syntax error: non-declaration statement outside function body\n",
+			}),
+			"FAIL\texample.com/calc [build failed]",
+			events({
+				Action: "fail",
+				Package: "example.com/calc",
+				FailedBuild: "example.com/calc [example.com/calc.test]",
+			}),
+		].join("\n")
+
+		expect(parseGoTestOutput(output)).toEqual({
+			passed: 0,
+			failed: 1,
+			skipped: 0,
+			failures: [
+				{
+					name: "example.com/calc",
+					message:
+						"# example.com/calc\n./calc.go:3:1: syntax error: non-declaration statement outside function body",
+				},
+			],
+		})
+	})
+})
+
+describe("parseCargoTestOutput", () => {
+	it("reports the panics of the failed tests", () => {
+		const output = `   Compiling calc v0.1.0 (/project)
+    Finished \`test\` profile [unoptimized + debuginfo] target(s) in 0.50s
+     Running unittests src/lib.rs (target/debug/deps/calc-1a2b3c)
+
+running 4 tests
+test tests::adds ... ok
+test tests::subtracts ... FAILED
+test tests::divides ... ignored
+test tests::old_panic ... FAILED
+
+failures:
+
+---- tests::subtracts stdout ----
+
+thread 'tests::subtracts' panicked at src/lib.rs:14:9:
+assertion \`left == right\` failed
+  left: 1
+ right: 2
+note: run with \`RUST_BACKTRACE=1\` environment variable to display a backtrace
+
+---- tests::old_panic stdout ----
+thread 'tests::old_panic' panicked at 'division by zero', src/lib.rs:20:5
+
+
+failures:
+    tests::subtracts
+    tests::old_panic
+
+test result: FAILED. 1 passed; 2 failed; 1 ignored; 0 measured; 0 filtered out; finished in 0.00s
+`
+
+		expect(parseCargoTestOutput(output, cwd)).toEqual({
+			passed: 1,
+			failed: 2,
+			skipped: 1,
+			failures: [
+				{
+					name: "tests::subtracts",
+					file: "src/lib.rs",
+					line: 14,
+					message: "assertion `left == right` failed\n  left: 1\n right: 2",
+				},
+				{ name: "tests::old_panic", file: "src/lib.rs", line: 20, message: "division by zero" },
+			],
+		})
+	})
+})
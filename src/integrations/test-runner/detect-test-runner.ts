@@ -0,0 +1,93 @@
+import * as path from "path"
+import fs from "fs/promises"
+
+import { TestRunnerName } from "../../shared/ExtensionMessage"
+import { fileExistsAtPath } from "../../utils/fs"
+
+const readFile = (filePath: string) => fs.readFile(filePath, "utf8").catch(() => undefined)
+
+async function detectNodeTestRunner(cwd: string): Promise<TestRunnerName | undefined> {
+	const content = await readFile(path.join(cwd, "package.json"))
+
+	if (!content) {
+		return undefined
+	}
+
+	let packageJson: {
+		dependencies?: Record<string, string>
+		devDependencies?: Record<string, string>
+		scripts?: Record<string, string>
+	}
+
+	try {
+		packageJson = JSON.parse(content)
+	} catch {
+		return undefined
+	}
+
+	const dependencies = { ...packageJson?.dependencies, ...packageJson?.devDependencies }
+	const testScript: string = packageJson?.scripts?.test ?? ""
+
+	if ("vitest" in dependencies || /\bvitest\b/.test(testScript)) {
+		return "vitest"
+	}
+
+	if ("jest" in dependencies || /\bjest\b/.test(testScript)) {
+		return "jest"
+	}
+
+	return undefined
+}
+
+async function isPytestProject(cwd: string): Promise<boolean> {
+	if (
+		(await fileExistsAtPath(path.join(cwd, "pytest.ini"))) ||
+		(await fileExistsAtPath(path.join(cwd, "conftest.py")))
+	) {
+		return true
+	}
+
+	const configs: [string, RegExp][] = [
+		["pyproject.toml", /\[tool\.pytest|\bpytest\b/],
+		["setup.cfg", /\[tool:pytest\]/],
+		["tox.ini", /\[pytest\]|\bpytest\b/],
+	]
+
+	for (const [file, pattern] of configs) {
+		const content = await readFile(path.join(cwd, file))
+
+		if (content && pattern.test(content)) {
+			return true
+		}
+	}
+
+	return false
+}
+
+/**
+ * Detects the test runner of the project in `cwd` from its manifests and
+ * configuration files.
+ *
+ * @returns the runner, undefined if there is none it knows of
+ */
+export async function detectTestRunner(cwd: string): Promise<TestRunnerName | undefined> {
+	const nodeRunner = await detectNodeTestRunner(cwd)
+
+	if (nodeRunner) {
+		return nodeRunner
+	}
+
+	if (await fileExistsAtPath(path.join(cwd, "Cargo.toml"))) {
+		return "cargo"
+	}
+
+	if (await fileExistsAtPath(path.join(cwd, "go.mod"))) {
+		return "go"
+	}
+
+	if (await isPytestProject(cwd)) {
+		return "pytest"
+	}
+
+	return undefined
+}
@@ -0,0 +1,172 @@
+import * as os from "os"
+import * as path from "path"
+import * as crypto from "crypto"
+import fs from "fs/promises"
+
+import { ClineTestRunSummary, TestRunnerName } from "../../shared/ExtensionMessage"
+import { TestResults, parseCargoTestOutput, parseGoTestOutput, parseJUnitReport, parseJestReport } from "./parsers"
+
+export { detectTestRunner } from "./detect-test-runner"
+
+// Only this many failures are described to the model; the webview shows all of them.
+const MAX_REPORTED_FAILURES = 30
+
+interface TestRunner {
+	// The extension of the report the runner writes to a file, if it doesn't
+	// report its results in its output.
+	reportExtension?: string
+	getCommand(target: string | undefined, reportFile: string): string
+	parse(output: string, report: string | undefined, cwd: string): TestResults | Promise<TestResults>
+}
+
+/**
+ * Quotes an argument for the shell the command runs in, unless it doesn't
+ * need quoting.
+ */
+const quote = (arg: string) => {
+	if (/^[\w@%+=:,./-]+$/.test(arg)) {
+		return arg
+	}
+
+	return process.platform === "win32" ? `"${arg.replace(/"/g, '""')}"` : `'${arg.replace(/'/g, "'\\''")}'`
+}
+
+const joinArgs = (...args: (string | undefined)[]) => args.filter(Boolean).join(" ")
+
+const requireReport = (report: string | undefined) => {
+	if (report === undefined) {
+		throw new Error("The test runner didn't write a report")
+	}
+	return report
+}
+
+/**
+ * Reads the path of the go module in `cwd` from its go.mod.
+ */
+const readGoModulePath = async (cwd: string) => {
+	const goMod = await fs.readFile(path.join(cwd, "go.mod"), "utf8").catch(() => "")
+	return /^module\s+"?([^\s"]+)"?/m.exec(goMod)?.[1]
+}
+
+const TEST_RUNNERS: Record<TestRunnerName, TestRunner> = {
+	jest: {
+		reportExtension: ".json",
+		getCommand: (target, reportFile) =>
+			joinArgs(
+				"npx jest --json --testLocationInResults",
+				quote(`--outputFile=${reportFile}`),
+				target && quote(target),
+			),
+		parse: (_output, report, cwd) => parseJestReport(requireReport(report), cwd),
+	},
+	vitest: {
+		reportExtension: ".json",
+		getCommand: (target, reportFile) =>
+			joinArgs("npx vitest run --reporter=json", quote(`--outputFile=${reportFile}`), target && quote(target)),
+		parse: (_output, report, cwd) => parseJestReport(requireReport(report), cwd),
+	},
+	pytest: {
+		reportExtension: ".xml",
+		getCommand: (target, reportFile) =>
+			joinArgs("pytest -o junit_family=xunit1", quote(`--junitxml=${reportFile}`), target && quote(target)),
+		parse: (_output, report, cwd) => parseJUnitReport(requireReport(report), cwd),
+	},
+	go: {
+		getCommand: (target) => joinArgs("go test -json", quote(target || "./...")),
+		parse: async (output, _report, cwd) => parseGoTestOutput(output, await readGoModulePath(cwd)),
+	},
+	cargo: {
+		getCommand: (target) => joinArgs("cargo test --no-fail-fast", target && quote(target)),
+		parse: (output, _report, cwd) => parseCargoTestOutput(output, cwd),
+	},
+}
+
+export interface TestRun {
+	runner: TestRunnerName
+	command: string
+	reportFile?: string
+}
+
+/**
+ * Builds the command running the tests of `target`, or all tests, with a
+ * reporter whose results `collectTestResults` can read.
+ *
+ * @param target - A test file or directory, a package pattern for go, a test name filter for cargo
+ */
+export function createTestRun(runner: TestRunnerName, target?: string): TestRun {
+	const { reportExtension, getCommand } = TEST_RUNNERS[runner]
+	const reportFile = reportExtension
+		? path.join(os.tmpdir(), `kodely-test-report-${crypto.randomUUID()}${reportExtension}`)
+		: undefined
+
+	return { runner, command: getCommand(target, reportFile ?? ""), reportFile }
+}
+
+/**
+ * Reads the results of a test run from its report or output, and deletes the
+ * report. When there are no results, or the run failed without a failed test,
+ * the summary has the output of the run as its error.
+ */
+export async function collectTestResults(
+	{ runner, command, reportFile }: TestRun,
+	{ cwd, output, exitCode }: { cwd: string; output: string; exitCode?: number },
+): Promise<ClineTestRunSummary> {
+	const report = reportFile ? await fs.readFile(reportFile, "utf8").catch(() => undefined) : undefined
+
+	if (reportFile) {
+		await fs.rm(reportFile, { force: true }).catch(() => {})
+	}
+
+	const summary: ClineTestRunSummary = { runner, command, passed: 0, failed: 0, skipped: 0, exitCode, failures: [] }
+
+	try {
+		Object.assign(summary, await TEST_RUNNERS[runner].parse(output, report, cwd))
+	} catch (error) {
+		console.error(`[collectTestResults] Failed to read the results of ${runner}:`, error)
+		return { ...summary, error: output.trim() || (error instanceof Error ? error.message : String(error)) }
+	}
+
+	if (summary.failed === 0 && exitCode !== undefined && exitCode !== 0) {
+		summary.error = output.trim() || `The tests exited with code ${exitCode}.`
+	}
+
+	return summary
+}
+
+/**
+ * Describes the results of a test run to the model.
+ */
+export function formatTestRunSummary(summary: ClineTestRunSummary): string {
+	const { runner, passed, failed, skipped, exitCode, failures, error, timedOutAfter } = summary
+	const exitInfo = exitCode !== undefined ? ` (exit code ${exitCode})` : ""
+	let result = `Ran the tests with ${runner}: ${failed} failed, ${passed} passed, ${skipped} skipped${exitInfo}.`
+
+	if (timedOutAfter !== undefined) {
+		result += ` The run timed out after ${timedOutAfter}s and was terminated, so these results are partial.`
+	}
+
+	if (failures.length > 0) {
+		result += "\n\nFailing tests:"
+
+		failures.slice(0, MAX_REPORTED_FAILURES).forEach((failure, index) => {
+			const location = failure.file
+				? ` (${failure.file}${failure.line !== undefined ? `:${failure.line}` : ""})`
+				: ""
+			result += `\n${index + 1}. ${failure.name}${location}`
+
+			if (failure.message) {
+				result += `\n${failure.message.replace(/^/gm, "   ")}`
+			}
+		})
+
+		if (failures.length > MAX_REPORTED_FAILURES) {
+			result += `\n[${failures.length - MAX_REPORTED_FAILURES} more failing tests]`
+		}
+	}
+
+	if (error) {
+		result += `\n\nThe test run failed without reporting a failed test. Its output:\n${error}`
+	}
+
+	return result
+}
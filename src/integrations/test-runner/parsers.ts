@@ -0,0 +1,332 @@
+import * as path from "path"
+import stripAnsi from "strip-ansi"
+
+import { ClineTestRunSummary } from "../../shared/ExtensionMessage"
+import { parseXml } from "../../utils/xml"
+
+export type TestResults = Pick<ClineTestRunSummary, "passed" | "failed" | "skipped" | "failures">
+
+// The parts of the reports the parsers read.
+
+interface JestAssertionResult {
+	ancestorTitles?: string[]
+	title?: string
+	fullName?: string
+	status: string
+	failureMessages?: string[]
+	location?: { line: number } | null
+}
+
+interface JestReport {
+	testResults?: { name: string; status?: string; message?: string; assertionResults?: JestAssertionResult[] }[]
+}
+
+type JUnitFailure = string | { "#text"?: string; "@_message"?: string }
+
+interface JUnitTestCase {
+	"@_classname"?: string
+	"@_name": string
+	"@_file"?: string
+	"@_line"?: string
+	skipped?: unknown
+	failure?: JUnitFailure | JUnitFailure[]
+	error?: JUnitFailure | JUnitFailure[]
+}
+
+interface JUnitTestSuite {
+	testcase?: JUnitTestCase | JUnitTestCase[]
+}
+
+interface JUnitReport {
+	testsuites?: { testsuite?: JUnitTestSuite | JUnitTestSuite[] }
+	testsuite?: JUnitTestSuite | JUnitTestSuite[]
+}
+
+interface GoTestEvent {
+	Action: string
+	Package?: string
+	ImportPath?: string
+	Test?: string
+	Output?: string
+}
+
+// Assertion messages are cut to this many lines; stack traces are dropped entirely.
+const MAX_MESSAGE_LINES = 20
+
+const emptyResults = (): TestResults => ({ passed: 0, failed: 0, skipped: 0, failures: [] })
+
+const toArray = <T>(value: T | T[] | undefined): T[] =>
+	value === undefined ? [] : Array.isArray(value) ? value : [value]
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * Makes paths inside `cwd` relative to it, and leaves the others as they are.
+ */
+const toRelativePath = (file: string, cwd: string) => {
+	const relativePath = path.relative(cwd, file)
+	return !path.isAbsolute(file) || relativePath.startsWith("..") ? file : relativePath
+}
+
+/**
+ * Removes colors, stack frames and blank lines around a failure message, and
+ * shortens it to `MAX_MESSAGE_LINES` lines.
+ */
+export function cleanFailureMessage(message: string | undefined): string | undefined {
+	if (!message) {
+		return undefined
+	}
+
+	const lines = stripAnsi(message)
+		.split(/\r?\n/)
+		.filter((line) => !/^\s+at /.test(line))
+		.join("\n")
+		.trim()
+		.split("\n")
+
+	const result =
+		lines.length > MAX_MESSAGE_LINES
+			? [...lines.slice(0, MAX_MESSAGE_LINES), `[${lines.length - MAX_MESSAGE_LINES} more lines]`].join("\n")
+			: lines.join("\n")
+
+	return result || undefined
+}
+
+/**
+ * Parses the JSON report Jest writes with `--json`, which Vitest's `json`
+ * reporter writes too. A test file that fails to run counts as one failed test.
+ */
+export function parseJestReport(report: string, cwd: string): TestResults {
+	const results = emptyResults()
+	const json: JestReport = JSON.parse(report)
+
+	for (const suite of toArray(json.testResults)) {
+		const file = toRelativePath(suite.name, cwd)
+		const assertions = toArray(suite.assertionResults)
+
+		if (assertions.length === 0 && suite.status === "failed") {
+			results.failed++
+			results.failures.push({ name: file, file, message: cleanFailureMessage(suite.message) })
+			continue
+		}
+
+		for (const test of assertions) {
+			if (test.status === "passed") {
+				results.passed++
+				continue
+			}
+
+			if (test.status !== "failed") {
+				results.skipped++
+				continue
+			}
+
+			const failureMessage = toArray(test.failureMessages).join("\n")
+			// The stack points at the failed assertion, the location at the test.
+			const stackLine = new RegExp(`${escapeRegExp(suite.name)}:(\\d+):\\d+`).exec(stripAnsi(failureMessage))?.[1]
+
+			results.failed++
+			results.failures.push({
+				name: test.title ? [...toArray(test.ancestorTitles), test.title].join(" › ") : (test.fullName ?? ""),
+				file,
+				line: stackLine ? Number(stackLine) : (test.location?.line ?? undefined),
+				message: cleanFailureMessage(failureMessage),
+			})
+		}
+	}
+
+	return results
+}
+
+/**
+ * Parses a JUnit XML report, as pytest writes with `--junitxml`.
+ */
+export function parseJUnitReport(report: string, cwd: string): TestResults {
+	const results = emptyResults()
+	const xml = parseXml(report) as JUnitReport | undefined
+	const suites = [...toArray(xml?.testsuites?.testsuite), ...toArray(xml?.testsuite)]
+
+	for (const testCase of suites.flatMap((suite) => toArray(suite.testcase))) {
+		if (testCase.skipped !== undefined) {
+			results.skipped++
+			continue
+		}
+
+		const failure = toArray(testCase.failure)[0] ?? toArray(testCase.error)[0]
+
+		if (failure === undefined) {
+			results.passed++
+			continue
+		}
+
+		const text: string = typeof failure === "string" ? failure : (failure["#text"] ?? "")
+		const message: string | undefined = typeof failure === "string" ? undefined : failure["@_message"]
+		// pytest ends the traceback with the line that failed, e.g. `tests/test_app.py:12: AssertionError`.
+		const tracebackLine = [...text.matchAll(/^(\S+\.py):(\d+): /gm)].pop()
+		const name = testCase["@_classname"] ? `${testCase["@_classname"]}.${testCase["@_name"]}` : testCase["@_name"]
+
+		results.failed++
+		results.failures.push({
+			name,
+			file: tracebackLine
+				? toRelativePath(tracebackLine[1], cwd)
+				: testCase["@_file"] && toRelativePath(testCase["@_file"], cwd),
+			// The line of the test case is 0-based.
+			line: tracebackLine
+				? Number(tracebackLine[2])
+				: testCase["@_line"] !== undefined
+					? Number(testCase["@_line"]) + 1
+					: undefined,
+			message: cleanFailureMessage(message || text.split("\n").slice(-MAX_MESSAGE_LINES).join("\n")),
+		})
+	}
+
+	return results
+}
+
+/**
+ * Makes a file of a go package relative to the module's directory. Go reports
+ * files relative to their package's directory, which is the package path
+ * without the module path.
+ */
+const toGoModuleFile = (file: string, pkg: string, modulePath: string | undefined) => {
+	if (!modulePath || (pkg !== modulePath && !pkg.startsWith(`${modulePath}/`))) {
+		return file
+	}
+
+	return path.join(pkg.slice(modulePath.length + 1), file)
+}
+
+/**
+ * Parses the output of `go test -json`. A package that fails without a
+ * failed test, e.g. because it doesn't compile, counts as one failed test.
+ *
+ * @param modulePath - The path of the module the tests ran in, from its go.mod
+ */
+export function parseGoTestOutput(output: string, modulePath?: string): TestResults {
+	const results = emptyResults()
+	const testOutput = new Map<string, string[]>()
+	const packageOutput = new Map<string, string[]>()
+	const packagesWithFailedTests = new Set<string>()
+
+	for (const line of output.split(/\r?\n/)) {
+		if (!line.startsWith("{")) {
+			continue
+		}
+
+		let event: GoTestEvent
+
+		try {
+			event = JSON.parse(line)
+		} catch {
+			continue
+		}
+
+		// Build errors are reported for the test binary, e.g. "example.com/pkg [example.com/pkg.test]".
+		const pkg: string = event.Package ?? event.ImportPath?.split(" ")[0] ?? ""
+
+		if (event.Action === "output" || event.Action === "build-output") {
+			const key = event.Test ? `${pkg} ${event.Test}` : pkg
+			const outputs = event.Test ? testOutput : packageOutput
+			outputs.set(key, [...(outputs.get(key) ?? []), event.Output ?? ""])
+			continue
+		}
+
+		if (!event.Test) {
+			if (event.Action === "fail" && event.Package && !packagesWithFailedTests.has(pkg)) {
+				results.failed++
+				results.failures.push({
+					name: pkg,
+					message: cleanFailureMessage(
+						(packageOutput.get(pkg) ?? []).filter((text) => !/^(FAIL|ok)\s/.test(text)).join(""),
+					),
+				})
+			}
+			continue
+		}
+
+		switch (event.Action) {
+			case "pass":
+				results.passed++
+				break
+			case "skip":
+				results.skipped++
+				break
+			case "fail": {
+				const lines = (testOutput.get(`${pkg} ${event.Test}`) ?? []).filter(
+					(text) => !/^\s*(=== (RUN|PAUSE|CONT|NAME)|--- (FAIL|PASS|SKIP):)/.test(text),
+				)
+				const location = lines.map((text) => /^\s*([\w./-]+\.go):(\d+):/.exec(text)).find(Boolean)
+
+				packagesWithFailedTests.add(pkg)
+				results.failed++
+				results.failures.push({
+					name: `${pkg} ${event.Test}`,
+					file: location ? toGoModuleFile(location[1], pkg, modulePath) : undefined,
+					line: location ? Number(location[2]) : undefined,
+					message: cleanFailureMessage(lines.map((text) => text.trim()).join("\n")),
+				})
+				break
+			}
+		}
+	}
+
+	return results
+}
+
+/**
+ * Parses the output of `cargo test`, which has no machine-readable format on
+ * stable Rust.
+ */
+export function parseCargoTestOutput(output: string, cwd: string): TestResults {
+	const results = emptyResults()
+	const failedTests: string[] = []
+	const testOutputs = new Map<string, string[]>()
+	let currentOutput: string[] | undefined
+
+	for (const line of stripAnsi(output).split(/\r?\n/)) {
+		const result = /^test (.+?) \.\.\. (ok|FAILED|ignored)/.exec(line)
+
+		if (result) {
+			currentOutput = undefined
+
+			if (result[2] === "ok") {
+				results.passed++
+			} else if (result[2] === "ignored") {
+				results.skipped++
+			} else {
+				failedTests.push(result[1])
+			}
+			continue
+		}
+
+		const header = /^---- (.+) stdout ----$/.exec(line)
+
+		if (header) {
+			currentOutput = []
+			testOutputs.set(header[1], currentOutput)
+		} else if (/^(failures:|test result:|running \d+ tests?)/.test(line)) {
+			currentOutput = undefined
+		} else {
+			currentOutput?.push(line)
+		}
+	}
+
+	for (const name of failedTests) {
+		const lines = (testOutputs.get(name) ?? []).filter((line) => !line.startsWith("note: run with `RUST_BACKTRACE"))
+		const text = lines.join("\n")
+		// Since Rust 1.73: "thread 'x' panicked at src/lib.rs:10:5:\nmessage",
+		// before: "thread 'x' panicked at 'message', src/lib.rs:10:5".
+		const panic = /panicked at (?:'([\s\S]*?)', )?([^\s:']+):(\d+):\d+:?/.exec(text)
+
+		results.failed++
+		results.failures.push({
+			name,
+			file: panic ? toRelativePath(panic[2], cwd) : undefined,
+			line: panic ? Number(panic[3]) : undefined,
+			message: cleanFailureMessage(panic ? (panic[1] ?? text.slice(panic.index + panic[0].length)) : text),
+		})
+	}
+
+	return results
+}
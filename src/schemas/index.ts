@@ -93,6 +93,124 @@ export const reasoningEffortsSchema = z.enum(reasoningEfforts)
 
 export type ReasoningEffort = z.infer<typeof reasoningEffortsSchema>
 
+/**
+ * CodeCompressionLevel
+ */
+
+export const codeCompressionLevels = ["comments", "signatures", "skeleton"] as const
+
+export const codeCompressionLevelsSchema = z.enum(codeCompressionLevels)
+
+export type CodeCompressionLevel = z.infer<typeof codeCompressionLevelsSchema>
+
+/**
+ * SlidingWindowStrategy
+ */
+
+export const slidingWindowStrategies = ["truncate", "summarize"] as const
+
+export const slidingWindowStrategiesSchema = z.enum(slidingWindowStrategies)
+
+export type SlidingWindowStrategy = z.infer<typeof slidingWindowStrategiesSchema>
+
+/**
+ * DiagnosticsSeverity
+ */
+
+export const diagnosticsSeverities = ["error", "warning", "information", "hint"] as const
+
+export const diagnosticsSeveritySchema = z.enum(diagnosticsSeverities)
+
+export type DiagnosticsSeverity = z.infer<typeof diagnosticsSeveritySchema>
+
+/**
+ * TerminalBackend
+ */
+
+export const terminalBackends = ["vscode", "headless"] as const
+
+export const terminalBackendsSchema = z.enum(terminalBackends)
+
+export type TerminalBackend = z.infer<typeof terminalBackendsSchema>
+
+/**
+ * CommandPolicy
+ */
+
+export const commandPolicyActions = ["allow", "deny"] as const
+
+export const commandPolicyActionsSchema = z.enum(commandPolicyActions)
+
+export type CommandPolicyAction = z.infer<typeof commandPolicyActionsSchema>
+
+export const commandPolicyRuleSchema = z.object({
+	action: commandPolicyActionsSchema,
+	// A command with argument patterns, e.g. "git push * --force*", see `src/shared/commandPolicy.ts`.
+	command: z.string().min(1, "Command is required"),
+	description: z.string().optional(),
+})
+
+export type CommandPolicyRule = z.infer<typeof commandPolicyRuleSchema>
+
+export const commandPolicySchema = z.object({
+	rules: z.array(commandPolicyRuleSchema),
+})
+
+export type CommandPolicy = z.infer<typeof commandPolicySchema>
+
+/**
+ * CostBudget
+ */
+
+export const costBudgetSchema = z.object({
+	perTask: z.number().optional(),
+	perDay: z.number().optional(),
+	perMonth: z.number().optional(),
+})
+
+export type CostBudget = z.infer<typeof costBudgetSchema>
+
+/**
+ * CheckpointRetention
+ */
+
+export const checkpointRetentionSchema = z.object({
+	maxAgeDays: z.number().optional(),
+	maxTasks: z.number().optional(),
+	maxSizeMb: z.number().optional(),
+})
+
+export type CheckpointRetention = z.infer<typeof checkpointRetentionSchema>
+
+/**
+ * ModelRoutingRule
+ */
+
+export const modelRoutingRuleSchema = z.object({
+	// Name of the provider profile requests matching the rule are sent with.
+	profile: z.string(),
+	modes: z.array(z.string()).optional(),
+	lastTools: z.array(z.string()).optional(),
+	lastToolFailed: z.boolean().optional(),
+	minConsecutiveMistakes: z.number().optional(),
+	minContextTokens: z.number().optional(),
+	maxContextTokens: z.number().optional(),
+})
+
+export type ModelRoutingRule = z.infer<typeof modelRoutingRuleSchema>
+
+/**
+ * ModelRoutingPolicy
+ */
+
+export const modelRoutingPolicySchema = z.object({
+	low: z.array(modelRoutingRuleSchema).optional(),
+	balanced: z.array(modelRoutingRuleSchema).optional(),
+	high: z.array(modelRoutingRuleSchema).optional(),
+})
+
+export type ModelRoutingPolicy = z.infer<typeof modelRoutingPolicySchema>
+
 /**
  * ModelInfo
  */
@@ -146,6 +264,8 @@ export const historyItemSchema = z.object({
 	totalCost: z.number(),
 	size: z.number().optional(),
 	workspace: z.string().optional(),
+	forkedFromTaskId: z.string().optional(),
+	forkedFromTs: z.number().optional(),
 })
 
 export type HistoryItem = z.infer<typeof historyItemSchema>
@@ -216,6 +336,8 @@ export const modeConfigSchema = z.object({
 	customInstructions: z.string().optional(),
 	groups: groupEntryArraySchema,
 	source: z.enum(["global", "project"]).optional(),
+	terminalBackend: terminalBackendsSchema.optional(),
+	commandPolicy: commandPolicySchema.optional(),
 })
 
 export type ModeConfig = z.infer<typeof modeConfigSchema>
@@ -394,6 +516,7 @@ export const providerSettingsSchema = z.object({
 	rateLimitSeconds: z.number().optional(),
 	diffEnabled: z.boolean().optional(),
 	fuzzyMatchThreshold: z.number().optional(),
+	costBudget: costBudgetSchema.optional(),
 	// Fake AI
 	fakeAi: z.unknown().optional(),
 })
@@ -485,6 +608,7 @@ const providerSettingsRecord: ProviderSettingsRecord = {
 	rateLimitSeconds: undefined,
 	diffEnabled: undefined,
 	fuzzyMatchThreshold: undefined,
+	costBudget: undefined,
 	// Fake AI
 	fakeAi: undefined,
 	// X.AI (Grok)
@@ -512,6 +636,9 @@ export const globalSettingsSchema = z.object({
 	useLocalRag: z.boolean().optional(),
 	maxOutputTokens: z.number().min(100).max(10000).optional(),
 	compressCodeInContext: z.boolean().optional(),
+	codeCompressionLevel: codeCompressionLevelsSchema.optional(),
+	globalCostBudget: costBudgetSchema.optional(),
+	modelRoutingPolicy: modelRoutingPolicySchema.optional(),
 
 	autoApprovalEnabled: z.boolean().optional(),
 	alwaysAllowReadOnly: z.boolean().optional(),
@@ -536,6 +663,7 @@ export const globalSettingsSchema = z.object({
 	cachedChromeHostUrl: z.string().optional(),
 
 	enableCheckpoints: z.boolean().optional(),
+	checkpointRetention: checkpointRetentionSchema.optional(),
 
 	ttsEnabled: z.boolean().optional(),
 	ttsSpeed: z.number().optional(),
@@ -546,6 +674,10 @@ export const globalSettingsSchema = z.object({
 	maxWorkspaceFiles: z.number().optional(),
 	showKodelyIgnoredFiles: z.boolean().optional(),
 	maxReadFileLine: z.number().optional(),
+	slidingWindowStrategy: slidingWindowStrategiesSchema.optional(),
+	condensingApiConfigName: z.string().optional(),
+	diagnosticsSeverity: diagnosticsSeveritySchema.optional(),
+	maxDiagnosticsPerFile: z.number().optional(),
 
 	terminalOutputLineLimit: z.number().optional(),
 	terminalShellIntegrationTimeout: z.number().optional(),
@@ -555,6 +687,11 @@ export const globalSettingsSchema = z.object({
 	terminalZshOhMy: z.boolean().optional(),
 	terminalZshP10k: z.boolean().optional(),
 	terminalZdotdir: z.boolean().optional(),
+	terminalBackend: terminalBackendsSchema.optional(),
+	terminalCommandTimeout: z.number().optional(),
+	terminalEnvAllowlist: z.array(z.string()).optional(),
+	terminalConfineToWorkspace: z.boolean().optional(),
+	testRunTimeout: z.number().optional(),
 
 	rateLimitSeconds: z.number().optional(),
 	diffEnabled: z.boolean().optional(),
@@ -595,6 +732,9 @@ const globalSettingsRecord: GlobalSettingsRecord = {
 	useLocalRag: undefined,
 	maxOutputTokens: undefined,
 	compressCodeInContext: undefined,
+	codeCompressionLevel: undefined,
+	globalCostBudget: undefined,
+	modelRoutingPolicy: undefined,
 
 	autoApprovalEnabled: undefined,
 	alwaysAllowReadOnly: undefined,
@@ -618,6 +758,7 @@ const globalSettingsRecord: GlobalSettingsRecord = {
 	remoteBrowserHost: undefined,
 
 	enableCheckpoints: undefined,
+	checkpointRetention: undefined,
 
 	ttsEnabled: undefined,
 	ttsSpeed: undefined,
@@ -628,6 +769,10 @@ const globalSettingsRecord: GlobalSettingsRecord = {
 	maxWorkspaceFiles: undefined,
 	showKodelyIgnoredFiles: undefined,
 	maxReadFileLine: undefined,
+	slidingWindowStrategy: undefined,
+	condensingApiConfigName: undefined,
+	diagnosticsSeverity: undefined,
+	maxDiagnosticsPerFile: undefined,
 
 	terminalOutputLineLimit: undefined,
 	terminalShellIntegrationTimeout: undefined,
@@ -637,6 +782,11 @@ const globalSettingsRecord: GlobalSettingsRecord = {
 	terminalZshOhMy: undefined,
 	terminalZshP10k: undefined,
 	terminalZdotdir: undefined,
+	terminalBackend: undefined,
+	terminalCommandTimeout: undefined,
+	terminalEnvAllowlist: undefined,
+	terminalConfineToWorkspace: undefined,
+	testRunTimeout: undefined,
 
 	rateLimitSeconds: undefined,
 	diffEnabled: undefined,
@@ -742,6 +892,7 @@ export const clineAsks = [
 	"resume_task",
 	"resume_completed_task",
 	"mistake_limit_reached",
+	"budget_exceeded",
 	"browser_action_launch",
 	"use_mcp_server",
 	"finishTask",
@@ -780,6 +931,8 @@ export const clineSays = [
 	"checkpoint_saved",
 	"kodelyignore_error",
 	"diff_error",
+	"condense_context",
+	"test_results",
 ] as const
 
 export const clineSaySchema = z.enum(clineSays)
@@ -834,6 +987,8 @@ export type TokenUsage = z.infer<typeof tokenUsageSchema>
 
 export const toolNames = [
 	"execute_command",
+	"background_process",
+	"run_tests",
 	"read_file",
 	"write_to_file",
 	"append_to_file",
@@ -843,6 +998,7 @@ export const toolNames = [
 	"search_files",
 	"list_files",
 	"list_code_definition_names",
+	"codebase_search",
 	"browser_action",
 	"use_mcp_tool",
 	"access_mcp_resource",
@@ -0,0 +1,434 @@
+import fs from "fs/promises"
+import * as path from "path"
+import EventEmitter from "events"
+
+import simpleGit from "simple-git"
+
+import { fileExistsAtPath } from "../../utils/fs"
+import { getQualifiedPath } from "../../utils/path"
+import { CheckpointFileChange, CheckpointRestoreHunk } from "../../shared/checkpoints"
+
+import {
+	CheckpointDiff,
+	CheckpointEventMap,
+	CheckpointExportOptions,
+	CheckpointExportResult,
+	CheckpointResult,
+	MultiRootCheckpointServiceOptions,
+} from "./types"
+import { ShadowCheckpointService } from "./ShadowCheckpointService"
+import { RepoPerTaskCheckpointService } from "./RepoPerTaskCheckpointService"
+
+/**
+ * Checkpoints every folder of a multi-root workspace together, with a shadow
+ * git repo per folder.
+ *
+ * With a single folder a checkpoint is identified by the commit hash of its
+ * shadow repo, like with `RepoPerTaskCheckpointService`. With more folders the
+ * checkpoint id lists the commit of each folder, keyed by a hash of the folder
+ * path: `<folder hash>:<commit>,<folder hash>:<commit>`.
+ */
+export class MultiRootCheckpointService extends EventEmitter {
+	public readonly taskId: string
+
+	private services: ShadowCheckpointService[]
+	private heads: string[] = []
+	private checkpoints: string[] = []
+	private readonly log: (message: string) => void
+
+	public get workspaceDirs() {
+		return this.services.map((service) => service.workspaceDir)
+	}
+
+	public get baseHash() {
+		return this.formatCheckpointId(this.services.map((service) => service.baseHash ?? ""))
+	}
+
+	public get isInitialized() {
+		return this.services.every((service) => service.isInitialized)
+	}
+
+	private constructor(taskId: string, services: ShadowCheckpointService[], log: (message: string) => void) {
+		super()
+
+		this.taskId = taskId
+		this.services = services
+		this.log = log
+	}
+
+	public static create({
+		taskId,
+		workspaceDir,
+		additionalWorkspaceDirs = [],
+		shadowDir,
+		log = console.log,
+	}: MultiRootCheckpointServiceOptions) {
+		// The first folder keeps the shadow repo location of single-root tasks
+		const services: ShadowCheckpointService[] = [
+			RepoPerTaskCheckpointService.create({ taskId, workspaceDir, shadowDir, log }),
+		]
+
+		for (const dir of additionalWorkspaceDirs) {
+			const checkpointsDir = path.join(
+				shadowDir,
+				"tasks",
+				taskId,
+				"workspace-checkpoints",
+				ShadowCheckpointService.hashWorkspaceDir(dir),
+			)
+
+			try {
+				services.push(new RepoPerTaskCheckpointService(taskId, checkpointsDir, dir, log))
+			} catch (error) {
+				log(
+					`[MultiRootCheckpointService#create] skipping ${dir}: ${error instanceof Error ? error.message : String(error)}`,
+				)
+			}
+		}
+
+		return new MultiRootCheckpointService(taskId, services, log)
+	}
+
+	public async initShadowGit() {
+		const startTime = Date.now()
+		const [primary, ...others] = this.services
+		const { created } = await primary.initShadowGit()
+
+		const results = await Promise.allSettled(others.map((service) => service.initShadowGit()))
+
+		// A folder whose shadow repo can't be used doesn't keep the others from being checkpointed
+		this.services = [
+			primary,
+			...others.filter((service, index) => {
+				const result = results[index]
+
+				if (result.status === "rejected") {
+					this.log(
+						`[MultiRootCheckpointService#initShadowGit] disabling checkpoints for ${service.workspaceDir}: ${result.reason}`,
+					)
+				}
+
+				return result.status === "fulfilled"
+			}),
+		]
+
+		this.heads = this.services.map((service) => service.baseHash!)
+		const duration = Date.now() - startTime
+
+		this.emit("initialize", {
+			type: "initialize",
+			workspaceDir: primary.workspaceDir,
+			baseHash: this.baseHash,
+			created,
+			duration,
+		})
+
+		return { created, duration }
+	}
+
+	public async saveCheckpoint(message: string): Promise<CheckpointResult | undefined> {
+		const startTime = Date.now()
+		const isFirst = this.checkpoints.length === 0
+		const fromHash = this.checkpoints[this.checkpoints.length - 1] ?? this.baseHash
+
+		const results = await Promise.all(this.services.map((service) => service.saveCheckpoint(message)))
+
+		results.forEach((result, index) => {
+			if (result?.commit) {
+				this.heads[index] = result.commit
+			}
+		})
+
+		const toHash = this.formatCheckpointId(this.heads)
+		this.checkpoints.push(toHash)
+
+		if (isFirst || toHash !== fromHash) {
+			this.emit("checkpoint", { type: "checkpoint", isFirst, fromHash, toHash, duration: Date.now() - startTime })
+		}
+
+		return toHash !== fromHash ? { commit: toHash } : undefined
+	}
+
+	public async restoreCheckpoint(checkpointId: string) {
+		const start = Date.now()
+
+		for (const [index, commit] of this.parseCheckpointId(checkpointId)) {
+			await this.services[index].restoreCheckpoint(commit)
+			this.heads[index] = commit
+		}
+
+		const checkpointIndex = this.checkpoints.indexOf(checkpointId)
+
+		if (checkpointIndex !== -1) {
+			this.checkpoints = this.checkpoints.slice(0, checkpointIndex + 1)
+		}
+
+		this.emit("restore", { type: "restore", commitHash: checkpointId, duration: Date.now() - start })
+	}
+
+	/**
+	 * Diffs two checkpoints, or a checkpoint and the working tree if `to` is
+	 * omitted. Paths in folders other than the first are qualified with the
+	 * folder name, like `backend:src/index.ts`.
+	 */
+	public async getDiff({ from, to }: { from?: string; to?: string }): Promise<CheckpointDiff[]> {
+		const fromCommits = from ? this.parseCheckpointId(from) : new Map<number, string>()
+		const toCommits = to ? this.parseCheckpointId(to) : undefined
+		const diffs: CheckpointDiff[] = []
+
+		for (const [index, service] of this.services.entries()) {
+			// Folders added after the checkpoint was saved have nothing to compare
+			if (toCommits && !toCommits.has(index)) {
+				continue
+			}
+
+			const changes = await service.getDiff({ from: fromCommits.get(index), to: toCommits?.get(index) })
+
+			diffs.push(
+				...changes.map((change) => ({
+					...change,
+					paths: { ...change.paths, relative: this.getRelativePath(change.paths) },
+				})),
+			)
+		}
+
+		return diffs
+	}
+
+	/**
+	 * Lists the files changed between two checkpoints. Paths are qualified the
+	 * same way as in `getDiff`.
+	 */
+	public async getChangedFiles({ from, to }: { from: string; to: string }): Promise<CheckpointFileChange[]> {
+		const fromCommits = this.parseCheckpointId(from)
+		const toCommits = this.parseCheckpointId(to)
+		const changes: CheckpointFileChange[] = []
+
+		for (const [index, service] of this.services.entries()) {
+			const fromCommit = fromCommits.get(index)
+			const toCommit = toCommits.get(index)
+
+			if (!fromCommit || !toCommit) {
+				continue
+			}
+
+			const files = await service.getChangedFiles({ from: fromCommit, to: toCommit })
+
+			changes.push(
+				...files.map((file) => ({
+					...file,
+					paths: { ...file.paths, relative: this.getRelativePath(file.paths) },
+				})),
+			)
+		}
+
+		return changes
+	}
+
+	/**
+	 * Restores some files, given by their absolute paths, to a checkpoint.
+	 */
+	public async restoreFiles(checkpointId: string, absolutePaths: string[]) {
+		const commits = this.parseCheckpointId(checkpointId)
+
+		for (const [index, service] of this.services.entries()) {
+			const commit = commits.get(index)
+			const relPaths = absolutePaths
+				.filter((absolutePath) => this.findServiceIndex(absolutePath) === index)
+				.map((absolutePath) => path.relative(service.workspaceDir, absolutePath))
+
+			if (commit && relPaths.length > 0) {
+				await service.restoreFiles(commit, relPaths)
+			}
+		}
+	}
+
+	public async getRestoreHunks(checkpointId: string, absolutePath: string): Promise<CheckpointRestoreHunk[]> {
+		const { service, commit, relPath } = this.resolveFile(checkpointId, absolutePath)
+		return service.getRestoreHunks(commit, relPath)
+	}
+
+	public async restoreHunks(checkpointId: string, absolutePath: string, hunkIndexes: number[]) {
+		const { service, commit, relPath } = this.resolveFile(checkpointId, absolutePath)
+		await service.restoreHunks(commit, relPath, hunkIndexes)
+	}
+
+	/**
+	 * Exports checkpoint steps to the git repo of each workspace folder, either
+	 * as a branch or as a `git format-patch` series. Patches of folders other
+	 * than the first go into a subdirectory named after the folder.
+	 */
+	public async exportCheckpoints({
+		steps,
+		format,
+		branch,
+		outputDir,
+	}: CheckpointExportOptions): Promise<CheckpointExportResult[]> {
+		const parsedSteps = steps.map((step) => ({
+			from: this.parseCheckpointId(step.from),
+			to: this.parseCheckpointId(step.to),
+			message: step.message,
+		}))
+
+		const results: CheckpointExportResult[] = []
+
+		for (const [index, service] of this.services.entries()) {
+			const serviceSteps = parsedSteps
+				.map(({ from, to, message }) => ({ from: from.get(index) ?? "", to: to.get(index) ?? "", message }))
+				.filter(({ from, to }) => from && to && from !== to)
+
+			if (serviceSteps.length === 0) {
+				continue
+			}
+
+			const exported = await service.exportCommits(serviceSteps)
+
+			if (!exported) {
+				continue
+			}
+
+			const { repoDir, baseCommit, headCommit, commits } = exported
+			const repo = simpleGit(repoDir)
+
+			if (format === "branch") {
+				if (!branch) {
+					throw new Error("A branch name is required to export checkpoints as a branch")
+				}
+
+				await repo.branch([branch, headCommit])
+				results.push({ workspaceDir: service.workspaceDir, commits, branch })
+			} else {
+				if (!outputDir) {
+					throw new Error("An output directory is required to export checkpoints as patches")
+				}
+
+				const dir = index === 0 ? outputDir : path.join(outputDir, path.basename(service.workspaceDir))
+				const output = await repo.raw(["format-patch", "-o", dir, `${baseCommit}..${headCommit}`])
+				const patchFiles = output.split("\n").filter(Boolean)
+				results.push({ workspaceDir: service.workspaceDir, commits, patchFiles })
+			}
+		}
+
+		return results
+	}
+
+	/**
+	 * Finds the folder of a file, preferring the innermost one if folders are nested.
+	 */
+	private findServiceIndex(absolutePath: string) {
+		let found = -1
+
+		this.services.forEach((service, index) => {
+			const relPath = path.relative(service.workspaceDir, absolutePath)
+			const isInside = !!relPath && !relPath.startsWith("..") && !path.isAbsolute(relPath)
+
+			if (isInside && (found === -1 || service.workspaceDir.length > this.services[found].workspaceDir.length)) {
+				found = index
+			}
+		})
+
+		return found
+	}
+
+	/**
+	 * Qualifies paths in folders other than the first with the folder name,
+	 * so that `resolveWorkspacePath` resolves them back.
+	 */
+	private getRelativePath(paths: { relative: string; absolute: string }) {
+		return getQualifiedPath(this.services[0].workspaceDir, paths.absolute) ?? paths.relative
+	}
+
+	private resolveFile(checkpointId: string, absolutePath: string) {
+		const index = this.findServiceIndex(absolutePath)
+		const commit = this.parseCheckpointId(checkpointId).get(index)
+
+		if (index === -1 || !commit) {
+			throw new Error(`${absolutePath} is not part of checkpoint ${checkpointId}`)
+		}
+
+		const service = this.services[index]
+		return { service, commit, relPath: path.relative(service.workspaceDir, absolutePath) }
+	}
+
+	private formatCheckpointId(commits: string[]) {
+		if (this.services.length === 1) {
+			return commits[0]
+		}
+
+		return this.services
+			.map((service, index) => `${ShadowCheckpointService.hashWorkspaceDir(service.workspaceDir)}:${commits[index]}`)
+			.join(",")
+	}
+
+	/**
+	 * Maps the index of each service to its commit in a checkpoint. Ids
+	 * without folder hashes were saved by single-root tasks and belong to the
+	 * first folder.
+	 */
+	private parseCheckpointId(checkpointId: string): Map<number, string> {
+		if (!checkpointId.includes(":")) {
+			return new Map([[0, checkpointId]])
+		}
+
+		const commits = new Map<number, string>()
+
+		for (const entry of checkpointId.split(",")) {
+			const [dirHash, commit] = entry.split(":")
+			const index = this.services.findIndex(
+				(service) => ShadowCheckpointService.hashWorkspaceDir(service.workspaceDir) === dirHash,
+			)
+
+			if (index !== -1) {
+				commits.set(index, commit)
+			}
+		}
+
+		return commits
+	}
+
+	/**
+	 * Storage
+	 */
+
+	/**
+	 * Copies the shadow repos of a task to a task forked from it, so the fork
+	 * can diff and restore the checkpoints it inherits.
+	 */
+	public static async forkTask({
+		taskId,
+		forkTaskId,
+		globalStorageDir,
+	}: {
+		taskId: string
+		forkTaskId: string
+		globalStorageDir: string
+	}) {
+		for (const dir of ["checkpoints", "workspace-checkpoints"]) {
+			const source = path.join(globalStorageDir, "tasks", taskId, dir)
+
+			if (await fileExistsAtPath(source)) {
+				await fs.cp(source, path.join(globalStorageDir, "tasks", forkTaskId, dir), { recursive: true })
+			}
+		}
+	}
+
+	/**
+	 * EventEmitter
+	 */
+
+	override emit<K extends keyof CheckpointEventMap>(event: K, data: CheckpointEventMap[K]) {
+		return super.emit(event, data)
+	}
+
+	override on<K extends keyof CheckpointEventMap>(event: K, listener: (data: CheckpointEventMap[K]) => void) {
+		return super.on(event, listener)
+	}
+
+	override off<K extends keyof CheckpointEventMap>(event: K, listener: (data: CheckpointEventMap[K]) => void) {
+		return super.off(event, listener)
+	}
+
+	override once<K extends keyof CheckpointEventMap>(event: K, listener: (data: CheckpointEventMap[K]) => void) {
+		return super.once(event, listener)
+	}
+}
@@ -10,9 +10,12 @@ import pWaitFor from "p-wait-for"
 import { fileExistsAtPath } from "../../utils/fs"
 import { executeRipgrep } from "../../services/search/file-search"
 
+import { CheckpointFileChange, CheckpointRestoreHunk } from "../../shared/checkpoints"
+
 import { GIT_DISABLED_SUFFIX } from "./constants"
-import { CheckpointDiff, CheckpointResult, CheckpointEventMap } from "./types"
+import { CheckpointDiff, CheckpointResult, CheckpointEventMap, CheckpointExportStep } from "./types"
 import { getExcludePatterns } from "./excludes"
+import { applyRestoreHunks, getRestoreHunks } from "./hunks"
 
 export abstract class ShadowCheckpointService extends EventEmitter {
 	public readonly taskId: string
@@ -316,6 +319,221 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		return result
 	}
 
+	/**
+	 * Lists the files changed between two checkpoints, without their content.
+	 */
+	public async getChangedFiles({ from, to }: { from: string; to: string }): Promise<CheckpointFileChange[]> {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		// With -z, the status and path of each file are separate NUL-terminated
+		// fields, and paths aren't quoted.
+		const fields = (await this.git.raw(["diff", "--name-status", "-z", "--no-renames", from, to])).split("\0")
+		const cwdPath = (await this.getShadowGitConfigWorktree(this.git)) || this.workspaceDir || ""
+		const result: CheckpointFileChange[] = []
+
+		for (let i = 0; i + 1 < fields.length; i += 2) {
+			const status = fields[i]
+			const relPath = fields[i + 1]
+
+			result.push({
+				paths: { relative: relPath, absolute: path.join(cwdPath, relPath) },
+				status: status === "A" ? "added" : status === "D" ? "deleted" : "modified",
+			})
+		}
+
+		return result
+	}
+
+	/**
+	 * @returns the content of a file at a checkpoint, or undefined if it didn't exist then
+	 */
+	public async getFileContent(commitHash: string, relPath: string): Promise<string | undefined> {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		return this.git.show([`${commitHash}:${relPath.toPosix()}`]).catch(() => undefined)
+	}
+
+	/**
+	 * Restores some files to a checkpoint and leaves the rest of the workspace
+	 * alone. Files that didn't exist at the checkpoint are deleted.
+	 */
+	public async restoreFiles(commitHash: string, relPaths: string[]) {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		const start = Date.now()
+
+		for (const relPath of relPaths) {
+			if ((await this.getFileContent(commitHash, relPath)) === undefined) {
+				await fs.rm(path.join(this.workspaceDir, relPath), { force: true })
+			} else {
+				await this.git.checkout([commitHash, "--", relPath.toPosix()])
+			}
+		}
+
+		this.log(
+			`[${this.constructor.name}#restoreFiles] restored ${relPaths.length} file(s) from checkpoint ${commitHash} in ${Date.now() - start}ms`,
+		)
+	}
+
+	/**
+	 * Lists the hunks that would restore a file from its current content to
+	 * its content at a checkpoint.
+	 */
+	public async getRestoreHunks(commitHash: string, relPath: string): Promise<CheckpointRestoreHunk[]> {
+		const { current, checkpoint } = await this.getFileVersions(commitHash, relPath)
+		return getRestoreHunks(current, checkpoint)
+	}
+
+	/**
+	 * Restores some hunks of a file to a checkpoint, by their index in
+	 * `getRestoreHunks`. Like in `restoreFiles`, a file that didn't exist at
+	 * the checkpoint is deleted once all of its content is restored away.
+	 */
+	public async restoreHunks(commitHash: string, relPath: string, hunkIndexes: number[]) {
+		const { current, checkpoint, existedAtCheckpoint } = await this.getFileVersions(commitHash, relPath)
+		const absPath = path.join(this.workspaceDir, relPath)
+		const content = applyRestoreHunks(current, checkpoint, hunkIndexes)
+
+		if (!existedAtCheckpoint && content === "") {
+			await fs.rm(absPath, { force: true })
+			return
+		}
+
+		await fs.mkdir(path.dirname(absPath), { recursive: true })
+		await fs.writeFile(absPath, content)
+	}
+
+	private async getFileVersions(commitHash: string, relPath: string) {
+		const current = await fs.readFile(path.join(this.workspaceDir, relPath), "utf8").catch(() => "")
+		const checkpoint = await this.getFileContent(commitHash, relPath)
+		return { current, checkpoint: checkpoint ?? "", existedAtCheckpoint: checkpoint !== undefined }
+	}
+
+	/**
+	 * Replays checkpoint steps as commits in the git repo of the workspace, on
+	 * top of its HEAD. Only the files changed in each step are written, and
+	 * files matched by the checkpoint excludes or the workspace's .gitignore
+	 * are left out. The commits are not referenced by any branch, and neither
+	 * the working tree nor the index of the workspace repo are touched.
+	 *
+	 * @returns the exported range, or undefined if there was nothing to export
+	 */
+	public async exportCommits(steps: CheckpointExportStep[]) {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		const repoDir = await simpleGit(this.workspaceDir)
+			.revparse(["--show-toplevel"])
+			.catch(() => undefined)
+
+		if (!repoDir) {
+			throw new Error(`${this.workspaceDir} is not in a git repository`)
+		}
+
+		// Shadow repo paths are relative to the workspace folder, which can be
+		// a subdirectory of the workspace repo.
+		const prefix = path.relative(repoDir, this.workspaceDir).toPosix()
+		const indexFile = path.join(os.tmpdir(), `kodely-export-${this.taskId}-${Date.now()}`)
+		const repo = simpleGit(repoDir).env({ ...process.env, GIT_INDEX_FILE: indexFile })
+
+		try {
+			const baseCommit = (await repo.revparse(["HEAD"])).trim()
+			await repo.raw(["read-tree", baseCommit])
+
+			let headCommit = baseCommit
+			let headTree = (await repo.raw(["write-tree"])).trim()
+			let commits = 0
+
+			for (const step of steps) {
+				for (const change of await this.getExportableChanges(step.from, step.to)) {
+					const target = path.posix.join(prefix, change.path)
+
+					if (change.status === "D") {
+						await repo.raw(["update-index", "--force-remove", "--", target])
+					} else {
+						const blob = await this.copyBlob(repo, change.blob)
+						await repo.raw(["update-index", "--add", "--cacheinfo", `${change.mode},${blob},${target}`])
+					}
+				}
+
+				const tree = (await repo.raw(["write-tree"])).trim()
+
+				// Changes that are already in the workspace repo don't get a commit.
+				if (tree === headTree) {
+					continue
+				}
+
+				headCommit = (await repo.raw(["commit-tree", tree, "-p", headCommit, "-m", step.message])).trim()
+				headTree = tree
+				commits++
+			}
+
+			this.log(
+				`[${this.constructor.name}#exportCommits] exported ${commits} commit(s) to ${repoDir}: ${baseCommit}..${headCommit}`,
+			)
+
+			return commits > 0 ? { repoDir, baseCommit, headCommit, commits } : undefined
+		} finally {
+			await fs.rm(indexFile, { force: true })
+		}
+	}
+
+	private async getExportableChanges(from: string, to: string) {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		// With -z, each change is ":100644 100644 <old blob> <new blob> M" and
+		// its path as separate NUL-terminated fields, and paths aren't quoted.
+		const output = await this.git.raw(["diff", "--raw", "-z", "--no-renames", "--no-abbrev", from, to])
+		const fields = output.split("\0")
+		const changes: { mode: string; blob: string; status: string; path: string }[] = []
+
+		for (let i = 0; i + 1 < fields.length; i += 2) {
+			const [, mode, , blob, status] = fields[i].split(" ")
+			changes.push({ mode, blob, status, path: fields[i + 1] })
+		}
+
+		if (changes.length === 0) {
+			return changes
+		}
+
+		// Commits made before the excludes were last updated can contain files
+		// that are excluded now. check-ignore only takes -z with --stdin, so
+		// quotepath is turned off to get non-ASCII paths back as they are.
+		const ignored = await this.git
+			.raw([
+				"-c",
+				"core.quotepath=off",
+				"check-ignore",
+				"--no-index",
+				"--",
+				...changes.map((change) => change.path),
+			])
+			.catch(() => "")
+		const ignoredPaths = new Set(ignored.split("\n").filter(Boolean))
+
+		return changes.filter((change) => !ignoredPaths.has(change.path))
+	}
+
+	private async copyBlob(repo: SimpleGit, blob: string) {
+		const tmpFile = path.join(os.tmpdir(), `kodely-export-${blob}`)
+
+		try {
+			await fs.writeFile(tmpFile, await this.git!.binaryCatFile(["blob", blob]))
+			return (await repo.raw(["hash-object", "-w", "--no-filters", tmpFile])).trim()
+		} finally {
+			await fs.rm(tmpFile, { force: true })
+		}
+	}
+
 	/**
 	 * EventEmitter
 	 */
@@ -374,6 +592,15 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 
 		if (success) {
 			console.log(`[${this.name}#deleteTask.${taskId}] deleted branch ${branchName}`)
+
+			// Drop the commits that only the deleted branch referenced.
+			try {
+				await git.raw(["gc", "--prune=now", "--quiet"])
+			} catch (error) {
+				console.error(
+					`[${this.name}#deleteTask.${taskId}] failed to prune ${workspaceRepoDir}: ${error instanceof Error ? error.message : String(error)}`,
+				)
+			}
 		} else {
 			console.error(`[${this.name}#deleteTask.${taskId}] failed to delete branch ${branchName}`)
 		}
@@ -0,0 +1,281 @@
+// npx jest src/services/checkpoints/__tests__/MultiRootCheckpointService.test.ts
+
+import fs from "fs/promises"
+import path from "path"
+import os from "os"
+
+import { simpleGit } from "simple-git"
+import * as vscode from "vscode"
+
+import { MultiRootCheckpointService } from "../MultiRootCheckpointService"
+import { ShadowCheckpointService } from "../ShadowCheckpointService"
+
+const tmpDir = path.join(os.tmpdir(), "MultiRootCheckpointService")
+
+const initWorkspace = async (workspaceDir: string, content: string) => {
+	await fs.mkdir(workspaceDir, { recursive: true })
+
+	const git = simpleGit(workspaceDir)
+	await git.init()
+	await git.addConfig("user.name", "Kodely")
+	await git.addConfig("user.email", "support@roocode.com")
+
+	const testFile = path.join(workspaceDir, "test.txt")
+	await fs.writeFile(testFile, content)
+	await git.add(".")
+	await git.commit("Initial commit")
+
+	return testFile
+}
+
+describe("MultiRootCheckpointService", () => {
+	const taskId = "test-task"
+
+	let frontendDir: string
+	let backendDir: string
+	let frontendFile: string
+	let backendFile: string
+	let service: MultiRootCheckpointService
+
+	beforeEach(async () => {
+		const suffix = Date.now()
+		const shadowDir = path.join(tmpDir, `shadow-${suffix}`)
+		frontendDir = path.join(tmpDir, `frontend-${suffix}`)
+		backendDir = path.join(tmpDir, `backend-${suffix}`)
+		frontendFile = await initWorkspace(frontendDir, "frontend")
+		backendFile = await initWorkspace(backendDir, "backend")
+
+		service = MultiRootCheckpointService.create({
+			taskId,
+			workspaceDir: frontendDir,
+			additionalWorkspaceDirs: [backendDir],
+			shadowDir,
+			log: () => {},
+		})
+
+		await service.initShadowGit()
+	}, 20_000) // Sets up four git repos.
+
+	afterAll(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	}, 20_000)
+
+	it("identifies checkpoints by the commit of every workspace folder", async () => {
+		await fs.writeFile(backendFile, "backend changed")
+		const result = await service.saveCheckpoint("Checkpoint 1")
+
+		const entries = result!.commit.split(",")
+		expect(entries).toHaveLength(2)
+		expect(entries[0]).toMatch(new RegExp(`^${ShadowCheckpointService.hashWorkspaceDir(frontendDir)}:[0-9a-f]+$`))
+		expect(entries[1]).toMatch(new RegExp(`^${ShadowCheckpointService.hashWorkspaceDir(backendDir)}:[0-9a-f]+$`))
+		expect(service.workspaceDirs).toEqual([frontendDir, backendDir])
+	})
+
+	it("only emits a checkpoint when something changed", async () => {
+		const listener = jest.fn()
+		service.on("checkpoint", listener)
+
+		await fs.writeFile(frontendFile, "frontend changed")
+		expect(await service.saveCheckpoint("Checkpoint 1")).toBeDefined()
+		expect(await service.saveCheckpoint("Checkpoint 2")).toBeUndefined()
+
+		expect(listener).toHaveBeenCalledTimes(1)
+	})
+
+	it("restores every workspace folder", async () => {
+		await fs.writeFile(frontendFile, "frontend 1")
+		await fs.writeFile(backendFile, "backend 1")
+		const checkpoint = await service.saveCheckpoint("Checkpoint 1")
+
+		await fs.writeFile(frontendFile, "frontend 2")
+		await fs.writeFile(backendFile, "backend 2")
+		await service.saveCheckpoint("Checkpoint 2")
+
+		await service.restoreCheckpoint(checkpoint!.commit)
+
+		expect(await fs.readFile(frontendFile, "utf-8")).toBe("frontend 1")
+		expect(await fs.readFile(backendFile, "utf-8")).toBe("backend 1")
+	})
+
+	describe("with the folders in the workspace", () => {
+		beforeEach(() => {
+			Object.assign(vscode.workspace, {
+				workspaceFolders: [
+					{ name: "frontend", uri: { fsPath: frontendDir } },
+					{ name: "backend", uri: { fsPath: backendDir } },
+				],
+			})
+		})
+
+		afterEach(() => {
+			Object.assign(vscode.workspace, { workspaceFolders: undefined })
+		})
+
+		it("qualifies the paths of other workspace folders in diffs", async () => {
+			await fs.writeFile(frontendFile, "frontend changed")
+			await fs.writeFile(backendFile, "backend changed")
+			const checkpoint = await service.saveCheckpoint("Checkpoint 1")
+
+			const diff = await service.getDiff({ from: service.baseHash, to: checkpoint!.commit })
+
+			expect(diff.map((change) => change.paths.relative)).toEqual(["test.txt", "backend:test.txt"])
+			expect(diff[1].content).toEqual({ before: "backend", after: "backend changed" })
+		})
+
+		it("lists the files changed between checkpoints", async () => {
+			const newFile = path.join(backendDir, "new.txt")
+			await fs.writeFile(frontendFile, "frontend changed")
+			await fs.writeFile(newFile, "new")
+			const checkpoint = await service.saveCheckpoint("Checkpoint 1")
+
+			const files = await service.getChangedFiles({ from: service.baseHash, to: checkpoint!.commit })
+
+			expect(files).toEqual([
+				{ paths: { relative: "test.txt", absolute: frontendFile }, status: "modified" },
+				{ paths: { relative: "backend:new.txt", absolute: newFile }, status: "added" },
+			])
+		})
+
+		it("lists and restores files with non-ASCII names", async () => {
+			const cafeFile = path.join(backendDir, "café.md")
+			await fs.writeFile(cafeFile, "café 1")
+			const checkpoint1 = await service.saveCheckpoint("Checkpoint 1")
+			await fs.writeFile(cafeFile, "café 2")
+			const checkpoint2 = await service.saveCheckpoint("Checkpoint 2")
+
+			const files = await service.getChangedFiles({ from: checkpoint1!.commit, to: checkpoint2!.commit })
+
+			expect(files).toEqual([{ paths: { relative: "backend:café.md", absolute: cafeFile }, status: "modified" }])
+
+			await service.restoreFiles(checkpoint1!.commit, [files[0].paths.absolute])
+
+			expect(await fs.readFile(cafeFile, "utf-8")).toBe("café 1")
+		})
+	})
+
+	it("restores individual files from a checkpoint", async () => {
+		const newFile = path.join(backendDir, "new.txt")
+		await fs.writeFile(frontendFile, "frontend changed")
+		await fs.writeFile(backendFile, "backend changed")
+		await fs.writeFile(newFile, "new")
+
+		await service.restoreFiles(service.baseHash, [backendFile, newFile])
+
+		expect(await fs.readFile(frontendFile, "utf-8")).toBe("frontend changed")
+		expect(await fs.readFile(backendFile, "utf-8")).toBe("backend")
+		await expect(fs.access(newFile)).rejects.toThrow()
+	})
+
+	it("restores selected hunks of a file from a checkpoint", async () => {
+		const original = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n")
+		await fs.writeFile(backendFile, original)
+		const checkpoint = await service.saveCheckpoint("Checkpoint 1")
+		await fs.writeFile(backendFile, original.replace("line 2\n", "changed 2\n").replace("line 19", "changed 19"))
+
+		const hunks = await service.getRestoreHunks(checkpoint!.commit, backendFile)
+		expect(hunks).toHaveLength(2)
+
+		await service.restoreHunks(checkpoint!.commit, backendFile, [0])
+
+		expect(await fs.readFile(backendFile, "utf-8")).toBe(original.replace("line 19", "changed 19"))
+	})
+
+	it("deletes a file that didn't exist at a checkpoint when its hunks are restored", async () => {
+		const newFile = path.join(backendDir, "new.txt")
+		await fs.writeFile(newFile, "new")
+
+		expect(await service.getRestoreHunks(service.baseHash, newFile)).toHaveLength(1)
+
+		await service.restoreHunks(service.baseHash, newFile, [0])
+
+		await expect(fs.access(newFile)).rejects.toThrow()
+	})
+
+	describe("exportCheckpoints", () => {
+		const saveSteps = async () => {
+			await fs.writeFile(frontendFile, "frontend 1")
+			await fs.writeFile(backendFile, "backend 1")
+			const checkpoint1 = await service.saveCheckpoint("Checkpoint 1")
+
+			await fs.writeFile(frontendFile, "frontend 2")
+			const checkpoint2 = await service.saveCheckpoint("Checkpoint 2")
+
+			return [
+				{ from: service.baseHash, to: checkpoint1!.commit, message: "Step 1" },
+				{ from: checkpoint1!.commit, to: checkpoint2!.commit, message: "Step 2" },
+			]
+		}
+
+		it("exports a commit per step to a branch of each workspace repo", async () => {
+			const steps = await saveSteps()
+
+			const results = await service.exportCheckpoints({ steps, format: "branch", branch: "kodely/export" })
+
+			expect(results).toEqual([
+				{ workspaceDir: frontendDir, commits: 2, branch: "kodely/export" },
+				{ workspaceDir: backendDir, commits: 1, branch: "kodely/export" },
+			])
+
+			const frontendGit = simpleGit(frontendDir)
+			const log = await frontendGit.raw(["log", "--format=%s", "kodely/export"])
+			expect(log.trim().split("\n")).toEqual(["Step 2", "Step 1", "Initial commit"])
+			expect(await frontendGit.show(["kodely/export:test.txt"])).toBe("frontend 2")
+			expect(await simpleGit(backendDir).show(["kodely/export:test.txt"])).toBe("backend 1")
+
+			// The checked out branch and the working tree are left alone.
+			expect((await frontendGit.raw(["log", "-1", "--format=%s"])).trim()).toBe("Initial commit")
+			expect(await fs.readFile(frontendFile, "utf-8")).toBe("frontend 2")
+		})
+
+		it("leaves out files ignored by the workspace", async () => {
+			const secretFile = path.join(frontendDir, "secret.txt")
+			await fs.writeFile(secretFile, "secret")
+			await fs.writeFile(frontendFile, "frontend 1")
+			const checkpoint = await service.saveCheckpoint("Checkpoint 1")
+			await fs.writeFile(path.join(frontendDir, ".gitignore"), "secret.txt\n")
+
+			await service.exportCheckpoints({
+				steps: [{ from: service.baseHash, to: checkpoint!.commit, message: "Step 1" }],
+				format: "branch",
+				branch: "kodely/export",
+			})
+
+			const files = await simpleGit(frontendDir).raw(["ls-tree", "--name-only", "kodely/export"])
+			expect(files.trim().split("\n")).toEqual(["test.txt"])
+		})
+
+		it("exports files with non-ASCII names", async () => {
+			await fs.writeFile(path.join(frontendDir, "café.md"), "café")
+			await fs.writeFile(path.join(frontendDir, "secrète.txt"), "secret")
+			const checkpoint = await service.saveCheckpoint("Checkpoint 1")
+			await fs.writeFile(path.join(frontendDir, ".gitignore"), "secrète.txt\n")
+
+			await service.exportCheckpoints({
+				steps: [{ from: service.baseHash, to: checkpoint!.commit, message: "Step 1" }],
+				format: "branch",
+				branch: "kodely/export",
+			})
+
+			const frontendGit = simpleGit(frontendDir)
+			const files = await frontendGit.raw(["ls-tree", "-z", "--name-only", "kodely/export"])
+			expect(files.split("\0").filter(Boolean)).toEqual(["café.md", "test.txt"])
+			expect(await frontendGit.show(["kodely/export:café.md"])).toBe("café")
+		})
+
+		it("exports a patch series", async () => {
+			const steps = await saveSteps()
+			const outputDir = path.join(tmpDir, `patches-${Date.now()}`)
+
+			const results = await service.exportCheckpoints({ steps, format: "patch", outputDir })
+
+			expect(results[0].patchFiles).toEqual([
+				path.join(outputDir, "0001-Step-1.patch"),
+				path.join(outputDir, "0002-Step-2.patch"),
+			])
+			expect(results[1].patchFiles).toEqual([
+				path.join(outputDir, path.basename(backendDir), "0001-Step-1.patch"),
+			])
+			expect(await fs.readFile(results[0].patchFiles![1], "utf-8")).toContain("+frontend 2")
+		})
+	})
+})
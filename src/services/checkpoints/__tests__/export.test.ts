@@ -0,0 +1,34 @@
+// npx jest src/services/checkpoints/__tests__/export.test.ts
+
+import { formatCommitMessage, formatSquashedCommitMessage } from "../export"
+
+describe("formatCommitMessage", () => {
+	it("uses single line text as the subject", () => {
+		expect(formatCommitMessage("Fix the login form", "Checkpoint 1")).toBe("Fix the login form")
+	})
+
+	it("adds the full text after the subject", () => {
+		expect(formatCommitMessage("## Plan\nUpdate the parser first.", "Checkpoint 1")).toBe(
+			"Plan\n\n## Plan\nUpdate the parser first.",
+		)
+	})
+
+	it("shortens long subjects", () => {
+		const subject = formatCommitMessage("a".repeat(100), "Checkpoint 1").split("\n")[0]
+
+		expect(subject).toBe(`${"a".repeat(69)}...`)
+	})
+
+	it("falls back when there is no text", () => {
+		expect(formatCommitMessage(undefined, "Checkpoint 2")).toBe("Checkpoint 2")
+		expect(formatCommitMessage("  \n", "Checkpoint 2")).toBe("Checkpoint 2")
+	})
+})
+
+describe("formatSquashedCommitMessage", () => {
+	it("uses the task as the subject and lists the steps", () => {
+		expect(formatSquashedCommitMessage("Add dark mode", ["Add a theme toggle\n\nDetails", "Update the styles"], "Task")).toBe(
+			"Add dark mode\n\n- Add a theme toggle\n- Update the styles",
+		)
+	})
+})
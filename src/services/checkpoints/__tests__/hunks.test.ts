@@ -0,0 +1,38 @@
+// npx jest src/services/checkpoints/__tests__/hunks.test.ts
+
+import { applyRestoreHunks, getRestoreHunks } from "../hunks"
+
+const lines = (count: number, change: (line: number) => string | undefined = () => undefined) =>
+	Array.from({ length: count }, (_, i) => change(i + 1) ?? `line ${i + 1}`).join("\n") + "\n"
+
+describe("hunks", () => {
+	const checkpoint = lines(30)
+	const current = lines(30, (line) => (line === 3 ? "changed 3" : line === 25 ? "changed 25" : undefined))
+
+	it("lists the changes that restore a file as separate hunks", () => {
+		const hunks = getRestoreHunks(current, checkpoint)
+
+		expect(hunks).toHaveLength(2)
+		expect(hunks[0].header).toBe("@@ -1,6 +1,6 @@")
+		expect(hunks[0].lines).toContain("-changed 3")
+		expect(hunks[0].lines).toContain("+line 3")
+		expect(hunks[1].lines).toContain("-changed 25")
+	})
+
+	it("lists no hunks when the file matches the checkpoint", () => {
+		expect(getRestoreHunks(checkpoint, checkpoint)).toEqual([])
+	})
+
+	it("restores only the selected hunks", () => {
+		expect(applyRestoreHunks(current, checkpoint, [1])).toBe(
+			lines(30, (line) => (line === 3 ? "changed 3" : undefined)),
+		)
+		expect(applyRestoreHunks(current, checkpoint, [0, 1])).toBe(checkpoint)
+	})
+
+	it("throws when a selected hunk no longer exists", () => {
+		expect(() => applyRestoreHunks(current, checkpoint, [2])).toThrow(
+			"The file changed since its hunks were listed",
+		)
+	})
+})
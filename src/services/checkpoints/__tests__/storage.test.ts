@@ -0,0 +1,154 @@
+// npx jest src/services/checkpoints/__tests__/storage.test.ts
+
+import fs from "fs/promises"
+import path from "path"
+import os from "os"
+
+import { simpleGit } from "simple-git"
+
+import { HistoryItem } from "../../../shared/HistoryItem"
+import { ShadowCheckpointService } from "../ShadowCheckpointService"
+import { collectCheckpointGarbage, getCheckpointStorageUsage, purgeWorkspaceCheckpoints } from "../storage"
+
+// Every checkpoint directory takes up 1 MB.
+jest.mock("get-folder-size", () => ({ loose: jest.fn().mockResolvedValue(1024 * 1024) }))
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const now = Date.now()
+
+const historyItem = (id: string, daysAgo: number, workspace = "/workspace/app"): HistoryItem => ({
+	id,
+	number: 1,
+	ts: now - daysAgo * DAY_MS,
+	task: id,
+	tokensIn: 0,
+	tokensOut: 0,
+	totalCost: 0,
+	workspace,
+})
+
+describe("checkpoint storage", () => {
+	let globalStorageDir: string
+
+	const createTaskCheckpoints = async (taskId: string, daysAgo = 0) => {
+		const taskDir = path.join(globalStorageDir, "tasks", taskId)
+		await fs.mkdir(path.join(taskDir, "checkpoints"), { recursive: true })
+		await fs.writeFile(path.join(taskDir, "ui_messages.json"), "[]")
+
+		const mtime = new Date(now - daysAgo * DAY_MS)
+
+		for (const file of [taskDir, path.join(taskDir, "checkpoints"), path.join(taskDir, "ui_messages.json")]) {
+			await fs.utimes(file, mtime, mtime)
+		}
+	}
+
+	const hasCheckpoints = (taskId: string) =>
+		fs
+			.access(path.join(globalStorageDir, "tasks", taskId, "checkpoints"))
+			.then(() => true)
+			.catch(() => false)
+
+	beforeEach(async () => {
+		globalStorageDir = await fs.mkdtemp(path.join(os.tmpdir(), "checkpoint-storage-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(globalStorageDir, { recursive: true, force: true })
+	})
+
+	it("deletes the checkpoints of tasks that are no longer in the history", async () => {
+		await createTaskCheckpoints("kept")
+		await createTaskCheckpoints("deleted", 2)
+		// Possibly running in another window.
+		await createTaskCheckpoints("recent")
+
+		const result = await collectCheckpointGarbage({
+			globalStorageDir,
+			taskHistory: [historyItem("kept", 1)],
+			now,
+			log: () => {},
+		})
+
+		expect(result).toEqual({ deletedTaskIds: ["deleted"], freedBytes: 1024 * 1024 })
+		expect(await hasCheckpoints("kept")).toBe(true)
+		expect(await hasCheckpoints("deleted")).toBe(false)
+		expect(await hasCheckpoints("recent")).toBe(true)
+
+		// The rest of the task is left alone.
+		await expect(fs.access(path.join(globalStorageDir, "tasks", "deleted", "ui_messages.json"))).resolves.toBeUndefined()
+	})
+
+	it("applies the retention limits, oldest tasks first", async () => {
+		const taskHistory = [historyItem("new", 1), historyItem("old", 10), historyItem("older", 20), historyItem("oldest", 40)]
+
+		for (const { id } of taskHistory) {
+			await createTaskCheckpoints(id)
+		}
+
+		const result = await collectCheckpointGarbage({
+			globalStorageDir,
+			taskHistory,
+			retention: { maxAgeDays: 30, maxTasks: 3, maxSizeMb: 2 },
+			activeTaskIds: ["older"],
+			now,
+			log: () => {},
+		})
+
+		// "oldest" is too old, and the size limit then leaves room for two
+		// tasks, one of which is the active one.
+		expect(result.deletedTaskIds.sort()).toEqual(["old", "oldest"])
+		expect(await hasCheckpoints("new")).toBe(true)
+		expect(await hasCheckpoints("older")).toBe(true)
+	})
+
+	it("prunes the branches of deleted tasks from workspace repos", async () => {
+		const workspace = "/workspace/legacy"
+		const repoDir = path.join(globalStorageDir, "checkpoints", ShadowCheckpointService.hashWorkspaceDir(workspace))
+		await fs.mkdir(repoDir, { recursive: true })
+
+		const git = simpleGit(repoDir)
+		await git.init()
+		await git.addConfig("user.name", "Kodely")
+		await git.addConfig("user.email", "support@roocode.com")
+		await git.commit("initial commit", { "--allow-empty": null })
+		await git.branch(["kodely-kept"])
+		await git.branch(["kodely-deleted"])
+
+		await collectCheckpointGarbage({ globalStorageDir, taskHistory: [historyItem("kept", 1, workspace)], log: () => {} })
+
+		expect((await git.branchLocal()).all).not.toContain("kodely-deleted")
+		expect((await git.branchLocal()).all).toContain("kodely-kept")
+
+		await collectCheckpointGarbage({ globalStorageDir, taskHistory: [], log: () => {} })
+
+		await expect(fs.access(repoDir)).rejects.toThrow()
+	}, 20_000)
+
+	it("sums up and purges the checkpoints of a workspace", async () => {
+		const taskHistory = [historyItem("a", 1), historyItem("b", 2), historyItem("c", 3, "/workspace/other")]
+
+		for (const { id } of taskHistory) {
+			await createTaskCheckpoints(id)
+		}
+
+		expect(await getCheckpointStorageUsage({ globalStorageDir, taskHistory })).toEqual({
+			totalSize: 3 * 1024 * 1024,
+			workspaces: [
+				{ workspace: "/workspace/app", size: 2 * 1024 * 1024, taskCount: 2 },
+				{ workspace: "/workspace/other", size: 1024 * 1024, taskCount: 1 },
+			],
+		})
+
+		const result = await purgeWorkspaceCheckpoints({
+			globalStorageDir,
+			taskHistory,
+			workspace: "/workspace/app",
+			activeTaskIds: ["b"],
+			log: () => {},
+		})
+
+		expect(result.deletedTaskIds).toEqual(["a"])
+		expect(await hasCheckpoints("b")).toBe(true)
+		expect(await hasCheckpoints("c")).toBe(true)
+	})
+})
@@ -0,0 +1,35 @@
+const MAX_SUBJECT_LENGTH = 72
+
+const getSubject = (text: string) => {
+	const firstLine = text.split("\n")[0].replace(/^[#>*\-\s]+/, "").trim()
+
+	return firstLine.length > MAX_SUBJECT_LENGTH
+		? `${firstLine.slice(0, MAX_SUBJECT_LENGTH - 3).trimEnd()}...`
+		: firstLine
+}
+
+/**
+ * Turns the assistant text of a checkpoint step into a commit message: a
+ * subject line from its first line, followed by the full text.
+ */
+export function formatCommitMessage(text: string | undefined, fallback: string) {
+	const trimmed = text?.trim()
+	const subject = trimmed ? getSubject(trimmed) : ""
+
+	if (!trimmed || !subject) {
+		return fallback
+	}
+
+	return subject === trimmed ? subject : `${subject}\n\n${trimmed}`
+}
+
+/**
+ * Builds the message of a single commit squashing all the steps of a task:
+ * the task as the subject and the subject of every step in the body.
+ */
+export function formatSquashedCommitMessage(task: string | undefined, stepMessages: string[], fallback: string) {
+	const subject = task?.trim() ? getSubject(task.trim()) : ""
+	const body = stepMessages.map((message) => `- ${message.split("\n")[0]}`).join("\n")
+
+	return [subject || fallback, body].filter(Boolean).join("\n\n")
+}
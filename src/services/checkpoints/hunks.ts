@@ -0,0 +1,38 @@
+import { applyPatch, structuredPatch } from "diff"
+
+import { CheckpointRestoreHunk } from "../../shared/checkpoints"
+
+const diffToCheckpoint = (current: string, checkpoint: string) =>
+	structuredPatch("workspace", "checkpoint", current, checkpoint, undefined, undefined, { context: 3 })
+
+/**
+ * Splits the changes that would turn the current content of a file back into
+ * its content at a checkpoint into hunks that can be restored one by one.
+ */
+export function getRestoreHunks(current: string, checkpoint: string): CheckpointRestoreHunk[] {
+	return diffToCheckpoint(current, checkpoint).hunks.map((hunk) => ({
+		header: `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+		lines: hunk.lines,
+	}))
+}
+
+/**
+ * Restores the hunks at the given indexes of `getRestoreHunks(current, checkpoint)`
+ * and keeps the rest of the current content.
+ */
+export function applyRestoreHunks(current: string, checkpoint: string, hunkIndexes: number[]): string {
+	const patch = diffToCheckpoint(current, checkpoint)
+	const hunks = patch.hunks.filter((_, index) => hunkIndexes.includes(index))
+
+	if (hunks.length !== hunkIndexes.length) {
+		throw new Error("The file changed since its hunks were listed")
+	}
+
+	const result = applyPatch(current, { ...patch, hunks })
+
+	if (result === false) {
+		throw new Error("Failed to apply the hunks")
+	}
+
+	return result
+}
@@ -1,3 +1,4 @@
-export type { CheckpointServiceOptions } from "./types"
+export type { CheckpointServiceOptions, MultiRootCheckpointServiceOptions } from "./types"
 
 export { RepoPerTaskCheckpointService } from "./RepoPerTaskCheckpointService"
+export { MultiRootCheckpointService } from "./MultiRootCheckpointService"
@@ -0,0 +1,304 @@
+import fs from "fs/promises"
+import * as path from "path"
+
+import getFolderSize from "get-folder-size"
+import simpleGit from "simple-git"
+
+import { CheckpointRetention } from "../../schemas"
+import { HistoryItem } from "../../shared/HistoryItem"
+import { CheckpointStorageUsage, CheckpointWorkspaceUsage } from "../../shared/checkpoints"
+import { fileExistsAtPath } from "../../utils/fs"
+
+import { ShadowCheckpointService } from "./ShadowCheckpointService"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The task history of this window can lack tasks another window is running,
+// so the checkpoints of tasks missing from it are only deleted once the task
+// hasn't been written to for this long.
+const ORPHAN_GRACE_PERIOD_MS = DAY_MS
+
+// The shadow repos of a task, see `RepoPerTaskCheckpointService` and `MultiRootCheckpointService`.
+const TASK_CHECKPOINT_DIRS = ["checkpoints", "workspace-checkpoints"]
+
+type TaskCheckpoints = {
+	taskId: string
+	ts: number
+	workspace?: string
+	size: number
+	isOrphaned: boolean
+}
+
+// Per-workspace shadow repos with a `kodely-<taskId>` branch per task, left
+// behind by older versions.
+type WorkspaceRepo = {
+	dir: string
+	workspace?: string
+	size: number
+}
+
+export type CheckpointStorageOptions = {
+	globalStorageDir: string
+	taskHistory: HistoryItem[]
+	// Tasks whose checkpoints are in use and must be kept
+	activeTaskIds?: string[]
+	log?: (message: string) => void
+}
+
+export type CheckpointCollectionResult = {
+	deletedTaskIds: string[]
+	freedBytes: number
+}
+
+const getSize = async (dir: string) => {
+	const size = await getFolderSize.loose(dir)
+	return Number(size)
+}
+
+/**
+ * Returns when a task last wrote to its directory, e.g. to save its messages.
+ */
+async function getLastModified(taskDir: string) {
+	const entries = await fs.readdir(taskDir)
+	const stats = await Promise.all(
+		[taskDir, ...entries.map((entry) => path.join(taskDir, entry))].map((file) =>
+			fs.stat(file).catch(() => undefined),
+		),
+	)
+
+	return Math.max(...stats.map((stat) => stat?.mtimeMs ?? 0))
+}
+
+async function listTaskCheckpoints({ globalStorageDir, taskHistory }: CheckpointStorageOptions) {
+	const tasksDir = path.join(globalStorageDir, "tasks")
+	const historyItems = new Map(taskHistory.map((item) => [item.id, item]))
+	const tasks: TaskCheckpoints[] = []
+
+	if (!(await fileExistsAtPath(tasksDir))) {
+		return tasks
+	}
+
+	for (const entry of await fs.readdir(tasksDir, { withFileTypes: true })) {
+		if (!entry.isDirectory()) {
+			continue
+		}
+
+		let size = 0
+		let exists = false
+
+		for (const dir of TASK_CHECKPOINT_DIRS) {
+			const checkpointsDir = path.join(tasksDir, entry.name, dir)
+
+			if (await fileExistsAtPath(checkpointsDir)) {
+				exists = true
+				size += await getSize(checkpointsDir)
+			}
+		}
+
+		if (!exists) {
+			continue
+		}
+
+		const historyItem = historyItems.get(entry.name)
+		const ts = historyItem?.ts ?? (await getLastModified(path.join(tasksDir, entry.name)))
+
+		tasks.push({ taskId: entry.name, ts, workspace: historyItem?.workspace, size, isOrphaned: !historyItem })
+	}
+
+	// Most recent first.
+	return tasks.sort((a, b) => b.ts - a.ts)
+}
+
+async function listWorkspaceRepos({ globalStorageDir, taskHistory }: CheckpointStorageOptions) {
+	const reposDir = path.join(globalStorageDir, "checkpoints")
+	const repos: WorkspaceRepo[] = []
+
+	if (!(await fileExistsAtPath(reposDir))) {
+		return repos
+	}
+
+	const workspaces = new Map<string, string>()
+
+	for (const { workspace } of taskHistory) {
+		if (workspace) {
+			workspaces.set(ShadowCheckpointService.hashWorkspaceDir(workspace), workspace)
+		}
+	}
+
+	for (const entry of await fs.readdir(reposDir, { withFileTypes: true })) {
+		if (entry.isDirectory()) {
+			const dir = path.join(reposDir, entry.name)
+			repos.push({ dir, workspace: workspaces.get(entry.name), size: await getSize(dir) })
+		}
+	}
+
+	return repos
+}
+
+async function deleteTaskCheckpoints(globalStorageDir: string, taskId: string) {
+	for (const dir of TASK_CHECKPOINT_DIRS) {
+		await fs.rm(path.join(globalStorageDir, "tasks", taskId, dir), { recursive: true, force: true })
+	}
+}
+
+/**
+ * Deletes the branches of tasks that are no longer in the history from a
+ * workspace repo, and the whole repo once no task uses it.
+ *
+ * @returns the number of bytes freed
+ */
+async function pruneWorkspaceRepo(repo: WorkspaceRepo, taskIds: Set<string>, log: (message: string) => void) {
+	const git = simpleGit(repo.dir)
+	const branches = (await git.branchLocal()).all.filter((branch) => branch.startsWith("kodely-"))
+	const orphaned = branches.filter((branch) => !taskIds.has(branch.slice("kodely-".length)))
+
+	if (orphaned.length === branches.length) {
+		await fs.rm(repo.dir, { recursive: true, force: true })
+		log(`[collectCheckpointGarbage] deleted workspace repo ${repo.dir}`)
+		return repo.size
+	}
+
+	if (orphaned.length === 0) {
+		return 0
+	}
+
+	for (const branch of orphaned) {
+		await ShadowCheckpointService.deleteBranch(git, branch)
+	}
+
+	await git.raw(["gc", "--prune=now", "--quiet"])
+	log(`[collectCheckpointGarbage] pruned ${orphaned.length} branch(es) from workspace repo ${repo.dir}`)
+
+	return Math.max(0, repo.size - (await getSize(repo.dir)))
+}
+
+/**
+ * Sums up the disk space used by checkpoints, per workspace.
+ */
+export async function getCheckpointStorageUsage(options: CheckpointStorageOptions): Promise<CheckpointStorageUsage> {
+	const usage = new Map<string, CheckpointWorkspaceUsage>()
+
+	const add = (workspace: string, size: number, taskCount: number) => {
+		const entry = usage.get(workspace) ?? { workspace, size: 0, taskCount: 0 }
+		entry.size += size
+		entry.taskCount += taskCount
+		usage.set(workspace, entry)
+	}
+
+	for (const task of await listTaskCheckpoints(options)) {
+		add(task.workspace ?? "", task.size, 1)
+	}
+
+	for (const repo of await listWorkspaceRepos(options)) {
+		add(repo.workspace ?? "", repo.size, 0)
+	}
+
+	const workspaces = Array.from(usage.values()).sort((a, b) => b.size - a.size)
+	return { totalSize: workspaces.reduce((sum, { size }) => sum + size, 0), workspaces }
+}
+
+/**
+ * Deletes the checkpoints of tasks that fall outside the retention limits,
+ * oldest first, along with those of tasks that are no longer in the history
+ * and haven't been written to for a while. The tasks themselves are kept.
+ */
+export async function collectCheckpointGarbage({
+	retention = {},
+	now = Date.now(),
+	...options
+}: CheckpointStorageOptions & { retention?: CheckpointRetention; now?: number }): Promise<CheckpointCollectionResult> {
+	const { globalStorageDir, taskHistory, activeTaskIds = [], log = console.log } = options
+	const { maxAgeDays, maxTasks, maxSizeMb } = retention
+
+	const tasks = await listTaskCheckpoints(options)
+	const repos = await listWorkspaceRepos(options)
+	const kept: TaskCheckpoints[] = []
+	const expired: TaskCheckpoints[] = []
+
+	const isInUse = (task: TaskCheckpoints) =>
+		activeTaskIds.includes(task.taskId) || (task.isOrphaned && now - task.ts < ORPHAN_GRACE_PERIOD_MS)
+
+	for (const task of tasks) {
+		const isExpired =
+			task.isOrphaned ||
+			(!!maxAgeDays && now - task.ts > maxAgeDays * DAY_MS) ||
+			(!!maxTasks && kept.length >= maxTasks)
+
+		if (isExpired && !isInUse(task)) {
+			expired.push(task)
+		} else {
+			kept.push(task)
+		}
+	}
+
+	if (maxSizeMb) {
+		const maxSize = maxSizeMb * 1024 * 1024
+		let totalSize = [...kept, ...repos].reduce((sum, { size }) => sum + size, 0)
+
+		for (let i = kept.length - 1; i >= 0 && totalSize > maxSize; i--) {
+			if (!isInUse(kept[i])) {
+				totalSize -= kept[i].size
+				expired.push(...kept.splice(i, 1))
+			}
+		}
+	}
+
+	let freedBytes = 0
+
+	for (const task of expired) {
+		await deleteTaskCheckpoints(globalStorageDir, task.taskId)
+		freedBytes += task.size
+	}
+
+	if (expired.length > 0) {
+		log(`[collectCheckpointGarbage] deleted the checkpoints of ${expired.length} task(s)`)
+	}
+
+	// Workspace repos only hold the checkpoints of tasks that are still in
+	// the history and weren't expired.
+	const taskIds = new Set(taskHistory.map((item) => item.id))
+	expired.forEach((task) => taskIds.delete(task.taskId))
+	activeTaskIds.forEach((taskId) => taskIds.add(taskId))
+
+	for (const repo of repos) {
+		try {
+			freedBytes += await pruneWorkspaceRepo(repo, taskIds, log)
+		} catch (error) {
+			log(
+				`[collectCheckpointGarbage] failed to prune workspace repo ${repo.dir}: ${error instanceof Error ? error.message : String(error)}`,
+			)
+		}
+	}
+
+	return { deletedTaskIds: expired.map((task) => task.taskId), freedBytes }
+}
+
+/**
+ * Deletes all checkpoints of a workspace. An empty workspace stands for the
+ * checkpoints whose workspace isn't known.
+ */
+export async function purgeWorkspaceCheckpoints({
+	workspace,
+	...options
+}: CheckpointStorageOptions & { workspace: string }): Promise<CheckpointCollectionResult> {
+	const { globalStorageDir, activeTaskIds = [], log = console.log } = options
+	const tasks = (await listTaskCheckpoints(options)).filter(
+		(task) => (task.workspace ?? "") === workspace && !activeTaskIds.includes(task.taskId),
+	)
+	const repos = (await listWorkspaceRepos(options)).filter((repo) => (repo.workspace ?? "") === workspace)
+
+	for (const task of tasks) {
+		await deleteTaskCheckpoints(globalStorageDir, task.taskId)
+	}
+
+	for (const repo of repos) {
+		await fs.rm(repo.dir, { recursive: true, force: true })
+	}
+
+	log(`[purgeWorkspaceCheckpoints] deleted the checkpoints of ${tasks.length} task(s) in ${workspace || "unknown workspaces"}`)
+
+	return {
+		deletedTaskIds: tasks.map((task) => task.taskId),
+		freedBytes: [...tasks, ...repos].reduce((sum, { size }) => sum + size, 0),
+	}
+}
@@ -33,3 +33,28 @@ export interface CheckpointEventMap {
 	restore: { type: "restore"; commitHash: string; duration: number }
 	error: { type: "error"; error: Error }
 }
+
+export interface MultiRootCheckpointServiceOptions extends CheckpointServiceOptions {
+	// Workspace folders checkpointed along with `workspaceDir`
+	additionalWorkspaceDirs?: string[]
+}
+
+export type CheckpointExportStep = {
+	from: string
+	to: string
+	message: string
+}
+
+export interface CheckpointExportOptions {
+	steps: CheckpointExportStep[]
+	format: "branch" | "patch"
+	branch?: string
+	outputDir?: string
+}
+
+export type CheckpointExportResult = {
+	workspaceDir: string
+	commits: number
+	branch?: string
+	patchFiles?: string[]
+}
@@ -0,0 +1,87 @@
+import * as path from "path"
+import fs from "fs/promises"
+import * as vscode from "vscode"
+
+import { GlobalFileNames } from "../../shared/globalFileNames"
+import { McpAuditEntry } from "../../shared/mcp"
+import { fileExistsAtPath } from "../../utils/fs"
+
+// Entries kept when the log is trimmed. The log is trimmed once it grows by
+// a fifth past this so that most writes are appends.
+export const MAX_AUDIT_ENTRIES = 5000
+
+/**
+ * Persistent record of every MCP tool call, one JSON entry per line.
+ *
+ * The log is shared by every VS Code window, so entries are appended to the
+ * file instead of being cached.
+ */
+export class McpAuditLog {
+	private static instance?: McpAuditLog
+
+	private writeQueue: Promise<void> = Promise.resolve()
+
+	private constructor(private readonly context: vscode.ExtensionContext) {}
+
+	public static getInstance(context: vscode.ExtensionContext): McpAuditLog {
+		if (!McpAuditLog.instance) {
+			McpAuditLog.instance = new McpAuditLog(context)
+		}
+
+		return McpAuditLog.instance
+	}
+
+	private get filePath(): string {
+		return path.join(this.context.globalStorageUri.fsPath, GlobalFileNames.mcpAuditLog)
+	}
+
+	private async readLines(): Promise<string[]> {
+		if (!(await fileExistsAtPath(this.filePath))) {
+			return []
+		}
+
+		return (await fs.readFile(this.filePath, "utf8")).split("\n").filter(Boolean)
+	}
+
+	public record(entry: McpAuditEntry): Promise<void> {
+		this.writeQueue = this.writeQueue
+			.then(async () => {
+				await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+				await fs.appendFile(this.filePath, JSON.stringify(entry) + "\n")
+
+				const lines = await this.readLines()
+
+				if (lines.length > MAX_AUDIT_ENTRIES * 1.2) {
+					await fs.writeFile(this.filePath, lines.slice(-MAX_AUDIT_ENTRIES).join("\n") + "\n")
+				}
+			})
+			.catch((error) => {
+				console.error("Failed to update MCP audit log:", error)
+			})
+
+		return this.writeQueue
+	}
+
+	/**
+	 * Returns the logged tool calls, oldest first.
+	 */
+	public async getEntries(): Promise<McpAuditEntry[]> {
+		await this.writeQueue
+
+		return (await this.readLines()).flatMap((line) => {
+			try {
+				return [JSON.parse(line) as McpAuditEntry]
+			} catch {
+				return [] // Skip lines cut short by a crash
+			}
+		})
+	}
+
+	public async clear(): Promise<void> {
+		await this.writeQueue
+
+		if (await fileExistsAtPath(this.filePath)) {
+			await fs.unlink(this.filePath)
+		}
+	}
+}
@@ -1,13 +1,23 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js"
 import { StdioClientTransport, StdioServerParameters } from "@modelcontextprotocol/sdk/client/stdio.js"
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
 import ReconnectingEventSource from "reconnecting-eventsource"
 import {
 	CallToolResultSchema,
+	CompleteRequest,
+	CompleteResultSchema,
+	CreateMessageRequest,
+	CreateMessageRequestSchema,
+	CreateMessageResult,
+	GetPromptResultSchema,
+	ListPromptsResultSchema,
 	ListResourcesResultSchema,
 	ListResourceTemplatesResultSchema,
+	ListRootsRequestSchema,
 	ListToolsResultSchema,
 	ReadResourceResultSchema,
+	Root,
 } from "@modelcontextprotocol/sdk/types.js"
 import chokidar, { FSWatcher } from "chokidar"
 import delay from "delay"
@@ -21,20 +31,31 @@ import { t } from "../../i18n"
 import { ClineProvider } from "../../core/webview/ClineProvider"
 import { GlobalFileNames } from "../../shared/globalFileNames"
 import {
+	McpPrompt,
+	McpPromptResponse,
 	McpResource,
 	McpResourceResponse,
 	McpResourceTemplate,
 	McpServer,
 	McpTool,
+	McpAuditEntry,
 	McpToolCallResponse,
 } from "../../shared/mcp"
 import { fileExistsAtPath } from "../../utils/fs"
+import { buildApiHandler } from "../../api"
+import { ApiConfigMeta, CostBudget } from "../../schemas"
+import { ClineAskBudgetExceeded } from "../../shared/ExtensionMessage"
+import { SpendLedger } from "../../core/cost-optimization/SpendLedger"
+import { findExceededBudgets, hasBudget } from "../../core/cost-optimization/budget"
+import { countSamplingTokens, createSamplingMessage, describeSamplingRequest } from "./sampling"
+import { McpAuditLog } from "./McpAuditLog"
+import { ToolPolicyAction, ToolPolicyRuleSchema, evaluateToolPolicy } from "./tool-policy"
 import { arePathsEqual } from "../../utils/path"
 
 export type McpConnection = {
 	server: McpServer
 	client: Client
-	transport: StdioClientTransport | SSEClientTransport
+	transport: StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport
 }
 
 // Base configuration schema for common settings
@@ -43,17 +64,33 @@ const BaseConfigSchema = z.object({
 	timeout: z.number().min(1).max(3600).optional().default(60),
 	alwaysAllow: z.array(z.string()).default([]),
 	watchPaths: z.array(z.string()).optional(), // paths to watch for changes and restart server
+	toolPolicies: z.array(ToolPolicyRuleSchema).optional(), // checked in order, before alwaysAllow
 })
 
+// Backoff for reconnecting to Streamable HTTP servers, both for the SDK's
+// event stream and for re-establishing a dropped connection
+const ReconnectionConfigSchema = z.object({
+	maxRetries: z.number().int().min(0).default(5),
+	initialDelay: z.number().min(0).default(1000), // milliseconds
+	maxDelay: z.number().min(0).default(30000), // milliseconds
+	growFactor: z.number().min(1).default(1.5),
+})
+
+// Status codes a server that predates Streamable HTTP answers its POST requests with
+const STREAMABLE_HTTP_UNSUPPORTED_STATUSES = [400, 404, 405]
+
 // Custom error messages for better user feedback
-const typeErrorMessage = "Server type must be either 'stdio' or 'sse'"
+const typeErrorMessage = "Server type must be 'stdio', 'sse' or 'streamable-http'"
 const stdioFieldsErrorMessage =
 	"For 'stdio' type servers, you must provide a 'command' field and can optionally include 'args' and 'env'"
 const sseFieldsErrorMessage =
 	"For 'sse' type servers, you must provide a 'url' field and can optionally include 'headers'"
+const streamableHttpFieldsErrorMessage =
+	"For 'streamable-http' type servers, you must provide a 'url' field and can optionally include 'headers', 'reconnection' and 'fallbackToSse'"
 const mixedFieldsErrorMessage =
-	"Cannot mix 'stdio' and 'sse' fields. For 'stdio' use 'command', 'args', and 'env'. For 'sse' use 'url' and 'headers'"
-const missingFieldsErrorMessage = "Server configuration must include either 'command' (for stdio) or 'url' (for sse)"
+	"Cannot mix 'stdio' and remote server fields. For 'stdio' use 'command', 'args', and 'env'. For 'sse' and 'streamable-http' use 'url' and 'headers'"
+const missingFieldsErrorMessage =
+	"Server configuration must include either 'command' (for stdio) or 'url' (for sse and streamable-http)"
 
 // Helper function to create a refined schema with better error messages
 const createServerTypeSchema = () => {
@@ -89,12 +126,33 @@ const createServerTypeSchema = () => {
 				type: "sse" as const,
 			}))
 			.refine((data) => data.type === undefined || data.type === "sse", { message: typeErrorMessage }),
+		// Streamable HTTP config (has url field, the type must be given since
+		// a bare url means SSE)
+		BaseConfigSchema.extend({
+			type: z.enum(["streamable-http"]),
+			url: z.string().url("URL must be a valid URL format"),
+			headers: z.record(z.string()).optional(),
+			reconnection: ReconnectionConfigSchema.default({}),
+			fallbackToSse: z.boolean().default(true),
+			// Ensure no stdio fields are present
+			command: z.undefined().optional(),
+			args: z.undefined().optional(),
+			env: z.undefined().optional(),
+		}),
 	])
 }
 
 // Server configuration schema with automatic type inference and validation
 export const ServerConfigSchema = createServerTypeSchema()
 
+type StreamableHttpConfig = Extract<z.infer<typeof ServerConfigSchema>, { type: "streamable-http" }>
+
+// The HTTP status of a failed Streamable HTTP request, which the SDK only puts in the error message
+const getHttpStatus = (error: unknown): number | undefined => {
+	const match = error instanceof Error ? error.message.match(/\(HTTP (\d{3})\)/) : null
+	return match ? parseInt(match[1]) : undefined
+}
+
 // Settings schema
 const McpSettingsSchema = z.object({
 	mcpServers: z.record(ServerConfigSchema),
@@ -107,6 +165,7 @@ export class McpHub {
 	private fileWatchers: Map<string, FSWatcher[]> = new Map()
 	private projectMcpWatcher?: vscode.FileSystemWatcher
 	private isDisposed: boolean = false
+	private reconnecting: Set<string> = new Set() // "source:name" of servers being reconnected
 	connections: McpConnection[] = []
 	isConnecting: boolean = false
 	private refCount: number = 0 // Reference counter for active clients
@@ -151,23 +210,24 @@ export class McpHub {
 	private validateServerConfig(config: any, serverName?: string): z.infer<typeof ServerConfigSchema> {
 		// Detect configuration issues before validation
 		const hasStdioFields = config.command !== undefined
-		const hasSseFields = config.url !== undefined
+		const hasUrlFields = config.url !== undefined
 
 		// Check for mixed fields
-		if (hasStdioFields && hasSseFields) {
+		if (hasStdioFields && hasUrlFields) {
 			throw new Error(mixedFieldsErrorMessage)
 		}
 
-		// Check if it's a stdio or SSE config and add type if missing
+		// Check if it's a stdio or SSE config and add type if missing. Streamable
+		// HTTP servers must say so, a bare url keeps meaning SSE.
 		if (!config.type) {
 			if (hasStdioFields) {
 				config.type = "stdio"
-			} else if (hasSseFields) {
+			} else if (hasUrlFields) {
 				config.type = "sse"
 			} else {
 				throw new Error(missingFieldsErrorMessage)
 			}
-		} else if (config.type !== "stdio" && config.type !== "sse") {
+		} else if (!["stdio", "sse", "streamable-http"].includes(config.type)) {
 			throw new Error(typeErrorMessage)
 		}
 
@@ -175,9 +235,12 @@ export class McpHub {
 		if (config.type === "stdio" && !hasStdioFields) {
 			throw new Error(stdioFieldsErrorMessage)
 		}
-		if (config.type === "sse" && !hasSseFields) {
+		if (config.type === "sse" && !hasUrlFields) {
 			throw new Error(sseFieldsErrorMessage)
 		}
+		if (config.type === "streamable-http" && !hasUrlFields) {
+			throw new Error(streamableHttpFieldsErrorMessage)
+		}
 
 		// Validate the config against the schema
 		try {
@@ -220,6 +283,7 @@ export class McpHub {
 			vscode.workspace.onDidChangeWorkspaceFolders(async () => {
 				await this.updateProjectMcpServers()
 				this.watchProjectMcpFile()
+				await this.notifyRootsChanged()
 			}),
 		)
 	}
@@ -425,26 +489,187 @@ export class McpHub {
 		await this.initializeMcpServers("project")
 	}
 
+	/**
+	 * Creates a client that lets the server sample from the current model and
+	 * list the workspace folders as its roots.
+	 */
+	private createClient(name: string, source: "global" | "project"): Client {
+		const client = new Client(
+			{
+				name: "Kodely",
+				version: this.providerRef.deref()?.context.extension?.packageJSON?.version ?? "1.0.0",
+			},
+			{
+				capabilities: {
+					sampling: {},
+					roots: { listChanged: true },
+				},
+			},
+		)
+
+		client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots: this.getRoots() }))
+		client.setRequestHandler(CreateMessageRequestSchema, async (request) =>
+			this.handleSamplingRequest(name, source, request.params),
+		)
+
+		return client
+	}
+
+	private getRoots(): Root[] {
+		return (vscode.workspace.workspaceFolders ?? []).map((folder) => ({
+			uri: folder.uri.toString(),
+			name: folder.name,
+		}))
+	}
+
+	/**
+	 * Tells connected servers that the workspace folders changed so they can
+	 * list the roots again.
+	 */
+	private async notifyRootsChanged(): Promise<void> {
+		await Promise.all(
+			this.connections
+				.filter((connection) => connection.server.status === "connected")
+				.map((connection) =>
+					connection.client.sendRootsListChanged().catch((error) => {
+						console.error(`Failed to send roots to MCP server "${connection.server.name}":`, error)
+					}),
+				),
+		)
+	}
+
+	/**
+	 * Answers a server's `sampling/createMessage` request with the model of
+	 * the current task, or of the current provider profile when there is no
+	 * task, once the user approves it. The cost is added to the spend ledger.
+	 */
+	private async handleSamplingRequest(
+		serverName: string,
+		source: "global" | "project",
+		params: CreateMessageRequest["params"],
+	): Promise<CreateMessageResult> {
+		const provider = this.providerRef.deref()
+		if (!provider) {
+			throw new Error("Provider not available")
+		}
+
+		const connection = this.findConnection(serverName, source)
+		if (!connection || connection.server.disabled) {
+			throw new Error(`Server "${serverName}" is disabled`)
+		}
+
+		const { apiConfiguration, currentApiConfigName, listApiConfigMeta, globalCostBudget } =
+			await provider.getState()
+		const apiHandler = provider.getCurrentCline()?.api ?? buildApiHandler(apiConfiguration)
+		const { id: modelId, info: modelInfo } = apiHandler.getModel()
+		const profileId = listApiConfigMeta?.find((meta: ApiConfigMeta) => meta.name === currentApiConfigName)?.id
+
+		const estimatedCost = provider.costOptimizationManager.estimateRequestCost(
+			modelInfo,
+			await countSamplingTokens(params, apiHandler),
+			params.maxTokens,
+		)
+
+		const exceededBudget = await this.findExceededSamplingBudget(
+			provider,
+			globalCostBudget,
+			profileId ? { id: profileId, name: currentApiConfigName, budget: apiConfiguration?.costBudget } : undefined,
+			estimatedCost,
+		)
+
+		if (exceededBudget) {
+			const { period, limit, spent } = exceededBudget
+			vscode.window.showWarningMessage(
+				t("common:warnings.mcp_sampling_budget_exceeded", { serverName, limit: limit.toFixed(2) }),
+			)
+			throw new Error(
+				`The request would go over the ${period === "day" ? "daily" : "monthly"} budget of $${limit.toFixed(2)}, $${spent.toFixed(2)} of which is spent`,
+			)
+		}
+
+		const allow = t("common:confirmation.mcp_sampling_allow")
+		const answer = await vscode.window.showWarningMessage(
+			t("common:confirmation.mcp_sampling", {
+				serverName,
+				model: modelId,
+				cost: estimatedCost.toFixed(4),
+			}),
+			{ modal: true, detail: describeSamplingRequest(params) },
+			allow,
+		)
+
+		if (answer !== allow) {
+			throw new Error("The user rejected the sampling request")
+		}
+
+		const response = await createSamplingMessage(params, apiHandler)
+		await SpendLedger.getInstance(provider.context).record(response.cost, profileId)
+
+		return {
+			model: response.model,
+			role: "assistant",
+			content: { type: "text", text: response.text },
+			stopReason: "endTurn",
+		}
+	}
+
+	/**
+	 * Finds a daily or monthly limit of the global budget or of the current
+	 * provider profile's budget that a sampling request would push spend over.
+	 * Sampling isn't part of a task, so per-task limits don't apply.
+	 */
+	private async findExceededSamplingBudget(
+		provider: ClineProvider,
+		globalCostBudget: CostBudget | undefined,
+		profile: { id: string; name?: string; budget?: CostBudget } | undefined,
+		estimatedCost: number,
+	): Promise<ClineAskBudgetExceeded | undefined> {
+		if (!hasBudget(globalCostBudget) && !hasBudget(profile?.budget)) {
+			return undefined
+		}
+
+		const ledger = SpendLedger.getInstance(provider.context)
+
+		const exceeded = [
+			...findExceededBudgets(
+				globalCostBudget,
+				{ task: 0, day: await ledger.getSpend("day"), month: await ledger.getSpend("month") },
+				estimatedCost,
+			),
+			...(profile
+				? findExceededBudgets(
+						profile.budget,
+						{
+							task: 0,
+							day: await ledger.getSpend("day", profile.id),
+							month: await ledger.getSpend("month", profile.id),
+						},
+						estimatedCost,
+						profile.name,
+					)
+				: []),
+		]
+
+		return exceeded.find((budget) => budget.period !== "task")
+	}
+
+	/**
+	 * Connects to a server
+	 * @param sessionId The Streamable HTTP session to resume, if any
+	 */
 	private async connectToServer(
 		name: string,
 		config: z.infer<typeof ServerConfigSchema>,
 		source: "global" | "project" = "global",
+		sessionId?: string,
 	): Promise<void> {
 		// Remove existing connection if it exists with the same source
 		await this.deleteConnection(name, source)
 
 		try {
-			const client = new Client(
-				{
-					name: "Kodely",
-					version: this.providerRef.deref()?.context.extension?.packageJSON?.version ?? "1.0.0",
-				},
-				{
-					capabilities: {},
-				},
-			)
+			const client = this.createClient(name, source)
 
-			let transport: StdioClientTransport | SSEClientTransport
+			let transport: McpConnection["transport"]
 
 			if (config.type === "stdio") {
 				transport = new StdioClientTransport({
@@ -506,34 +731,10 @@ export class McpHub {
 					console.error(`No stderr stream for ${name}`)
 				}
 				transport.start = async () => {} // No-op now, .connect() won't fail
+			} else if (config.type === "streamable-http") {
+				transport = this.createStreamableHttpTransport(name, config, source, sessionId)
 			} else {
-				// SSE connection
-				const sseOptions = {
-					requestInit: {
-						headers: config.headers,
-					},
-				}
-				// Configure ReconnectingEventSource options
-				const reconnectingEventSourceOptions = {
-					max_retry_time: 5000, // Maximum retry time in milliseconds
-					withCredentials: config.headers?.["Authorization"] ? true : false, // Enable credentials if Authorization header exists
-				}
-				global.EventSource = ReconnectingEventSource
-				transport = new SSEClientTransport(new URL(config.url), {
-					...sseOptions,
-					eventSourceInit: reconnectingEventSourceOptions,
-				})
-
-				// Set up SSE specific error handling
-				transport.onerror = async (error) => {
-					console.error(`Transport error for "${name}":`, error)
-					const connection = this.findConnection(name, source)
-					if (connection) {
-						connection.server.status = "disconnected"
-						this.appendErrorMessage(connection, error instanceof Error ? error.message : `${error}`)
-					}
-					await this.notifyWebviewOfServerChanges()
-				}
+				transport = this.createSseTransport(name, config, source)
 			}
 
 			const connection: McpConnection = {
@@ -544,14 +745,19 @@ export class McpHub {
 					disabled: config.disabled,
 					source,
 					projectPath: source === "project" ? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath : undefined,
+					transport: config.type,
 				},
 				client,
 				transport,
 			}
 			this.connections.push(connection)
 
-			// Connect (this will automatically start the transport)
-			await client.connect(transport)
+			if (config.type === "streamable-http") {
+				await this.connectStreamableHttp(connection, config, sessionId)
+			} else {
+				// Connect (this will automatically start the transport)
+				await client.connect(transport)
+			}
 			connection.server.status = "connected"
 			connection.server.error = ""
 
@@ -559,6 +765,7 @@ export class McpHub {
 			connection.server.tools = await this.fetchToolsList(name, source)
 			connection.server.resources = await this.fetchResourcesList(name, source)
 			connection.server.resourceTemplates = await this.fetchResourceTemplatesList(name, source)
+			connection.server.prompts = await this.fetchPromptsList(name, source)
 		} catch (error) {
 			// Update status with error
 			const connection = this.findConnection(name, source)
@@ -570,6 +777,172 @@ export class McpHub {
 		}
 	}
 
+	private createSseTransport(
+		name: string,
+		config: { url: string; headers?: Record<string, string> },
+		source: "global" | "project",
+	): SSEClientTransport {
+		const sseOptions = {
+			requestInit: {
+				headers: config.headers,
+			},
+		}
+		// Configure ReconnectingEventSource options
+		const reconnectingEventSourceOptions = {
+			max_retry_time: 5000, // Maximum retry time in milliseconds
+			withCredentials: config.headers?.["Authorization"] ? true : false, // Enable credentials if Authorization header exists
+		}
+		global.EventSource = ReconnectingEventSource
+		const transport = new SSEClientTransport(new URL(config.url), {
+			...sseOptions,
+			eventSourceInit: reconnectingEventSourceOptions,
+		})
+
+		// Set up SSE specific error handling
+		transport.onerror = async (error) => {
+			console.error(`Transport error for "${name}":`, error)
+			const connection = this.findConnection(name, source)
+			if (connection) {
+				connection.server.status = "disconnected"
+				this.appendErrorMessage(connection, error instanceof Error ? error.message : `${error}`)
+			}
+			await this.notifyWebviewOfServerChanges()
+		}
+
+		return transport
+	}
+
+	private createStreamableHttpTransport(
+		name: string,
+		config: StreamableHttpConfig,
+		source: "global" | "project",
+		sessionId?: string,
+	): StreamableHTTPClientTransport {
+		const { maxRetries, initialDelay, maxDelay, growFactor } = config.reconnection
+		const transport = new StreamableHTTPClientTransport(new URL(config.url), {
+			requestInit: {
+				headers: config.headers,
+			},
+			reconnectionOptions: {
+				maxRetries,
+				initialReconnectionDelay: initialDelay,
+				maxReconnectionDelay: maxDelay,
+				reconnectionDelayGrowFactor: growFactor,
+			},
+			sessionId,
+		})
+
+		transport.onerror = async (error) => {
+			console.error(`Transport error for "${name}":`, error)
+			const connection = this.findConnection(name, source)
+			// Errors of a transport that was replaced, e.g. by the SSE fallback, don't matter anymore
+			if (connection?.transport !== transport) {
+				return
+			}
+			const wasConnected = connection.server.status === "connected"
+			connection.server.status = "disconnected"
+			this.appendErrorMessage(connection, error instanceof Error ? error.message : `${error}`)
+			await this.notifyWebviewOfServerChanges()
+
+			// Failures while connecting are reported by connectToServer instead
+			if (wasConnected) {
+				await this.reconnectWithBackoff(name, source, transport.sessionId)
+			}
+		}
+
+		return transport
+	}
+
+	/**
+	 * Connects over Streamable HTTP. A resumed session that the server no
+	 * longer knows is replaced by a new one, and servers that predate the
+	 * transport are connected to over SSE instead.
+	 */
+	private async connectStreamableHttp(
+		connection: McpConnection,
+		config: StreamableHttpConfig,
+		sessionId?: string,
+	): Promise<void> {
+		const { name, source = "global" } = connection.server
+
+		try {
+			await connection.client.connect(connection.transport)
+
+			if (sessionId) {
+				// Resuming a session skips initialization, so nothing has been sent yet.
+				await connection.client.ping()
+			}
+		} catch (error) {
+			const status = getHttpStatus(error)
+
+			if (sessionId && status === 404) {
+				console.log(`Session of MCP server "${name}" expired, starting a new one`)
+				connection.client = this.createClient(name, source)
+				connection.transport = this.createStreamableHttpTransport(name, config, source)
+				return this.connectStreamableHttp(connection, config)
+			}
+
+			if (!config.fallbackToSse || status === undefined || !STREAMABLE_HTTP_UNSUPPORTED_STATUSES.includes(status)) {
+				throw error
+			}
+
+			console.log(`MCP server "${name}" doesn't support Streamable HTTP, falling back to SSE`)
+			connection.client = this.createClient(name, source)
+			connection.transport = this.createSseTransport(name, config, source)
+			connection.server.transport = "sse"
+			await connection.client.connect(connection.transport)
+		}
+	}
+
+	/**
+	 * Re-establishes the connection to a Streamable HTTP server that dropped,
+	 * waiting longer after each failed attempt, and resumes its session so the
+	 * server can keep its state. Stops early if the server is restarted,
+	 * reconfigured or removed in the meantime.
+	 */
+	private async reconnectWithBackoff(name: string, source: "global" | "project", sessionId?: string): Promise<void> {
+		const key = `${source}:${name}`
+		if (this.reconnecting.has(key)) {
+			return
+		}
+
+		let connection = this.findConnection(name, source)
+		if (!connection) {
+			return
+		}
+
+		const config = this.validateServerConfig(JSON.parse(connection.server.config), name)
+		if (config.type !== "streamable-http") {
+			return
+		}
+
+		this.reconnecting.add(key)
+
+		try {
+			const { maxRetries, initialDelay, maxDelay, growFactor } = config.reconnection
+
+			for (let attempt = 0; attempt < maxRetries; attempt++) {
+				await delay(Math.min(initialDelay * growFactor ** attempt, maxDelay))
+
+				if (this.isDisposed || this.findConnection(name, source) !== connection) {
+					return
+				}
+
+				try {
+					await this.connectToServer(name, config, source, sessionId)
+					await this.notifyWebviewOfServerChanges()
+					return
+				} catch (error) {
+					console.error(`Failed to reconnect to MCP server "${name}" (attempt ${attempt + 1}):`, error)
+					connection = this.findConnection(name, source)
+					await this.notifyWebviewOfServerChanges()
+				}
+			}
+		} finally {
+			this.reconnecting.delete(key)
+		}
+	}
+
 	private appendErrorMessage(connection: McpConnection, error: string) {
 		const MAX_ERROR_LENGTH = 1000
 		const newError = connection.server.error ? `${connection.server.error}\n${error}` : error
@@ -690,6 +1063,20 @@ export class McpHub {
 		}
 	}
 
+	private async fetchPromptsList(serverName: string, source?: "global" | "project"): Promise<McpPrompt[]> {
+		try {
+			const connection = this.findConnection(serverName, source)
+			if (!connection) {
+				return []
+			}
+			const response = await connection.client.request({ method: "prompts/list" }, ListPromptsResultSchema)
+			return response?.prompts || []
+		} catch (error) {
+			// Servers without the prompts capability reject the request
+			return []
+		}
+	}
+
 	async deleteConnection(name: string, source?: "global" | "project"): Promise<void> {
 		// If source is provided, only delete connections from that source
 		const connections = source
@@ -955,6 +1342,7 @@ export class McpHub {
 							serverName,
 							serverSource,
 						)
+						connection.server.prompts = await this.fetchPromptsList(serverName, serverSource)
 					}
 				} catch (error) {
 					console.error(`Failed to refresh capabilities for ${serverName}:`, error)
@@ -1146,6 +1534,64 @@ export class McpHub {
 		)
 	}
 
+	/**
+	 * Asks a server for values of a resource template or prompt argument that
+	 * start with what has been typed so far.
+	 *
+	 * @returns The suggested values, or none if the server doesn't support
+	 * completion
+	 */
+	async getCompletions(
+		serverName: string,
+		ref: CompleteRequest["params"]["ref"],
+		argument: CompleteRequest["params"]["argument"],
+		source?: "global" | "project",
+	): Promise<string[]> {
+		const connection = this.findConnection(serverName, source)
+		if (!connection) {
+			throw new Error(`No connection found for server: ${serverName}${source ? ` with source ${source}` : ""}`)
+		}
+		if (connection.server.disabled) {
+			throw new Error(`Server "${serverName}" is disabled`)
+		}
+
+		try {
+			const response = await connection.client.request(
+				{ method: "completion/complete", params: { ref, argument } },
+				CompleteResultSchema,
+			)
+			return response?.completion?.values || []
+		} catch (error) {
+			console.error(`Failed to get completions for ${argument.name} from ${serverName}:`, error)
+			return []
+		}
+	}
+
+	async getPrompt(
+		serverName: string,
+		promptName: string,
+		promptArguments?: Record<string, string>,
+		source?: "global" | "project",
+	): Promise<McpPromptResponse> {
+		const connection = this.findConnection(serverName, source)
+		if (!connection) {
+			throw new Error(`No connection found for server: ${serverName}${source ? ` with source ${source}` : ""}`)
+		}
+		if (connection.server.disabled) {
+			throw new Error(`Server "${serverName}" is disabled`)
+		}
+		return await connection.client.request(
+			{
+				method: "prompts/get",
+				params: {
+					name: promptName,
+					arguments: promptArguments,
+				},
+			},
+			GetPromptResultSchema,
+		)
+	}
+
 	async callTool(
 		serverName: string,
 		toolName: string,
@@ -1172,19 +1618,85 @@ export class McpHub {
 			timeout = 60 * 1000
 		}
 
-		return await connection.client.request(
-			{
-				method: "tools/call",
-				params: {
-					name: toolName,
-					arguments: toolArguments,
+		const startedAt = Date.now()
+		const auditEntry = (entry: Pick<McpAuditEntry, "resultSize" | "isError" | "error">): McpAuditEntry => ({
+			ts: startedAt,
+			serverName,
+			source: connection.server.source,
+			toolName,
+			arguments: toolArguments,
+			taskId: this.providerRef.deref()?.getCurrentCline()?.taskId,
+			durationMs: Date.now() - startedAt,
+			...entry,
+		})
+
+		try {
+			const response = await connection.client.request(
+				{
+					method: "tools/call",
+					params: {
+						name: toolName,
+						arguments: toolArguments,
+					},
 				},
-			},
-			CallToolResultSchema,
-			{
-				timeout,
-			},
-		)
+				CallToolResultSchema,
+				{
+					timeout,
+				},
+			)
+
+			await this.recordToolCall(
+				auditEntry({
+					resultSize: JSON.stringify(response.content ?? []).length,
+					isError: response.isError ?? false,
+				}),
+			)
+
+			return response
+		} catch (error) {
+			await this.recordToolCall(
+				auditEntry({
+					resultSize: 0,
+					isError: true,
+					error: error instanceof Error ? error.message : String(error),
+				}),
+			)
+
+			throw error
+		}
+	}
+
+	private async recordToolCall(entry: McpAuditEntry): Promise<void> {
+		const provider = this.providerRef.deref()
+		if (provider) {
+			await McpAuditLog.getInstance(provider.context).record(entry)
+		}
+	}
+
+	/**
+	 * Evaluates the `toolPolicies` of a server against a tool call.
+	 *
+	 * @returns The action of the first matching rule, or `undefined` if no
+	 * rule matches and the tool's `alwaysAllow` setting applies
+	 */
+	getToolPolicy(
+		serverName: string,
+		toolName: string,
+		toolArguments?: Record<string, unknown>,
+		source?: "global" | "project",
+	): ToolPolicyAction | undefined {
+		const connection = this.findConnection(serverName, source)
+		if (!connection) {
+			return undefined
+		}
+
+		try {
+			const { toolPolicies } = ServerConfigSchema.parse(JSON.parse(connection.server.config))
+			return toolPolicies ? evaluateToolPolicy(toolPolicies, toolName, toolArguments) : undefined
+		} catch (error) {
+			console.error(`Failed to parse tool policies for ${serverName}:`, error)
+			return undefined
+		}
 	}
 
 	async toggleToolAlwaysAllow(
@@ -0,0 +1,72 @@
+// npx jest src/services/mcp/__tests__/McpAuditLog.test.ts
+
+import * as os from "os"
+import * as path from "path"
+import fs from "fs/promises"
+import * as vscode from "vscode"
+
+import { McpAuditEntry } from "../../../shared/mcp"
+import { McpAuditLog, MAX_AUDIT_ENTRIES } from "../McpAuditLog"
+
+describe("McpAuditLog", () => {
+	let storagePath: string
+	let auditLog: McpAuditLog
+
+	const createEntry = (toolName: string): McpAuditEntry => ({
+		ts: Date.now(),
+		serverName: "db",
+		toolName,
+		arguments: { sql: "select 1" },
+		durationMs: 12,
+		resultSize: 42,
+		isError: false,
+	})
+
+	const createLog = () => {
+		const context = { globalStorageUri: { fsPath: storagePath } } as unknown as vscode.ExtensionContext
+		return new (McpAuditLog as any)(context) as McpAuditLog
+	}
+
+	beforeEach(async () => {
+		storagePath = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-audit-log-"))
+		auditLog = createLog()
+	})
+
+	afterEach(async () => {
+		await fs.rm(storagePath, { recursive: true, force: true })
+	})
+
+	it("should persist entries in order across instances", async () => {
+		await Promise.all([auditLog.record(createEntry("query")), auditLog.record(createEntry("execute"))])
+
+		const entries = await createLog().getEntries()
+
+		expect(entries.map((entry) => entry.toolName)).toEqual(["query", "execute"])
+		expect(entries[0]).toEqual({ ...createEntry("query"), ts: expect.any(Number) })
+	})
+
+	it("should skip truncated lines", async () => {
+		await auditLog.record(createEntry("query"))
+		await fs.appendFile(path.join(storagePath, "mcp_audit_log.jsonl"), '{"ts": 1, "serverN')
+
+		expect(await auditLog.getEntries()).toHaveLength(1)
+	})
+
+	it("should keep the newest entries once the log grows too large", async () => {
+		const lines = Array.from({ length: MAX_AUDIT_ENTRIES * 1.2 }, (_, i) => JSON.stringify(createEntry(`tool-${i}`)))
+		await fs.writeFile(path.join(storagePath, "mcp_audit_log.jsonl"), lines.join("\n") + "\n")
+
+		await auditLog.record(createEntry("latest"))
+
+		const entries = await auditLog.getEntries()
+		expect(entries).toHaveLength(MAX_AUDIT_ENTRIES)
+		expect(entries[entries.length - 1].toolName).toBe("latest")
+	})
+
+	it("should clear the log", async () => {
+		await auditLog.record(createEntry("query"))
+		await auditLog.clear()
+
+		expect(await auditLog.getEntries()).toEqual([])
+	})
+})
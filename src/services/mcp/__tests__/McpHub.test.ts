@@ -1,8 +1,13 @@
 import type { McpHub as McpHubType } from "../McpHub"
 import type { ClineProvider } from "../../../core/webview/ClineProvider"
+import * as vscode from "vscode"
 import type { ExtensionContext, Uri } from "vscode"
 import type { McpConnection } from "../McpHub"
 import { ServerConfigSchema } from "../McpHub"
+import { McpAuditLog } from "../McpAuditLog"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
 
 const fs = require("fs/promises")
 const { McpHub } = require("../McpHub")
@@ -30,6 +35,17 @@ jest.mock("vscode", () => ({
 }))
 jest.mock("fs/promises")
 jest.mock("../../../core/webview/ClineProvider")
+jest.mock("../../../core/cost-optimization/SpendLedger", () => ({
+	SpendLedger: {
+		getInstance: jest.fn().mockReturnValue({
+			record: jest.fn(),
+			getSpend: jest.fn(async (period: string) => (period === "day" ? 4.999 : 20)),
+		}),
+	},
+}))
+jest.mock("../McpAuditLog", () => ({
+	McpAuditLog: { getInstance: jest.fn().mockReturnValue({ record: jest.fn() }) },
+}))
 
 describe("McpHub", () => {
 	let mcpHub: McpHubType
@@ -60,6 +76,7 @@ describe("McpHub", () => {
 			ensureSettingsDirectoryExists: jest.fn().mockResolvedValue("/mock/settings/path"),
 			ensureMcpServersDirectoryExists: jest.fn().mockResolvedValue("/mock/settings/path"),
 			postMessageToWebview: jest.fn(),
+			getCurrentCline: jest.fn(),
 			context: {
 				subscriptions: [],
 				workspaceState: {} as any,
@@ -362,6 +379,56 @@ describe("McpHub", () => {
 			)
 		})
 
+		describe("audit log", () => {
+			const createConnection = (request: jest.Mock): McpConnection => ({
+				server: {
+					name: "test-server",
+					config: JSON.stringify({ type: "stdio", command: "test" }),
+					status: "connected",
+					source: "project",
+				},
+				client: { request } as unknown as Client,
+				transport: {} as unknown as McpConnection["transport"],
+			})
+
+			const getAuditLog = () => McpAuditLog.getInstance(mockProvider.context!) as unknown as { record: jest.Mock }
+
+			it("records successful tool calls", async () => {
+				const content = [{ type: "text", text: "2 rows" }]
+				mcpHub.connections = [createConnection(jest.fn().mockResolvedValue({ content }))]
+				jest.mocked(mockProvider.getCurrentCline!).mockReturnValue({ taskId: "task-1" } as any)
+
+				await mcpHub.callTool("test-server", "query", { sql: "select 1" })
+
+				expect(getAuditLog().record).toHaveBeenCalledWith({
+					ts: expect.any(Number),
+					serverName: "test-server",
+					source: "project",
+					toolName: "query",
+					arguments: { sql: "select 1" },
+					taskId: "task-1",
+					durationMs: expect.any(Number),
+					resultSize: JSON.stringify(content).length,
+					isError: false,
+				})
+			})
+
+			it("records failed tool calls and rethrows the error", async () => {
+				mcpHub.connections = [createConnection(jest.fn().mockRejectedValue(new Error("Request timed out")))]
+
+				await expect(mcpHub.callTool("test-server", "query", {})).rejects.toThrow("Request timed out")
+
+				expect(getAuditLog().record).toHaveBeenCalledWith(
+					expect.objectContaining({
+						toolName: "query",
+						resultSize: 0,
+						isError: true,
+						error: "Request timed out",
+					}),
+				)
+			})
+		})
+
 		describe("timeout configuration", () => {
 			it("should validate timeout values", () => {
 				// Test valid timeout values
@@ -562,4 +629,364 @@ describe("McpHub", () => {
 			})
 		})
 	})
+
+	describe("client capabilities", () => {
+		const getRequestHandler = (client: Client, index: number) =>
+			(client.setRequestHandler as jest.Mock).mock.calls[index][1]
+
+		it("should list the workspace folders as roots", async () => {
+			(vscode.workspace as any).workspaceFolders = [
+				{ name: "app", uri: { toString: () => "file:///workspace/app" } },
+				{ name: "lib", uri: { toString: () => "file:///workspace/lib" } },
+			]
+
+			const client = (mcpHub as any).createClient("test-server", "global")
+
+			try {
+				expect(await getRequestHandler(client, 0)({ method: "roots/list" })).toEqual({
+					roots: [
+						{ uri: "file:///workspace/app", name: "app" },
+						{ uri: "file:///workspace/lib", name: "lib" },
+					],
+				})
+			} finally {
+				(vscode.workspace as any).workspaceFolders = []
+			}
+		})
+
+		describe("sampling", () => {
+			const params = {
+				maxTokens: 100,
+				messages: [{ role: "user", content: { type: "text", text: "Say hello" } }],
+			}
+
+			let apiHandler: any
+
+			beforeEach(() => {
+				apiHandler = {
+					createMessage: jest.fn(async function* () {
+						yield { type: "text", text: "Hello" }
+						yield { type: "usage", inputTokens: 10, outputTokens: 2, totalCost: 0.01 }
+					}),
+					getModel: () => ({ id: "test-model", info: { inputPrice: 3, outputPrice: 15 } }),
+					countTokens: jest.fn().mockResolvedValue(10),
+				}
+
+				Object.assign(mockProvider, {
+					getState: jest.fn().mockResolvedValue({ apiConfiguration: {} }),
+					getCurrentCline: jest.fn().mockReturnValue({ api: apiHandler }),
+					costOptimizationManager: { estimateRequestCost: jest.fn().mockReturnValue(0.0015) },
+				})
+
+				mcpHub.connections = [
+					{
+						server: { name: "test-server", config: "{}", status: "connected", source: "global" },
+						client: {} as any,
+						transport: {} as any,
+					},
+				]
+			})
+
+			it("should answer with the current model once the user approves", async () => {
+				(vscode.window.showWarningMessage as jest.Mock).mockImplementation(
+					async (_message, _options, allow) => allow,
+				)
+
+				const client = (mcpHub as any).createClient("test-server", "global")
+				const result = await getRequestHandler(client, 1)({ method: "sampling/createMessage", params })
+
+				expect(mockProvider.costOptimizationManager!.estimateRequestCost).toHaveBeenCalledWith(
+					expect.objectContaining({ inputPrice: 3 }),
+					10,
+					100,
+				)
+				expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+					"confirmation.mcp_sampling",
+					{ modal: true, detail: "Say hello" },
+					"confirmation.mcp_sampling_allow",
+				)
+				expect(result).toEqual({
+					model: "test-model",
+					role: "assistant",
+					content: { type: "text", text: "Hello" },
+					stopReason: "endTurn",
+				})
+			})
+
+			it("should reject the request if the user doesn't approve it", async () => {
+				(vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(undefined)
+
+				const client = (mcpHub as any).createClient("test-server", "global")
+
+				await expect(
+					getRequestHandler(client, 1)({ method: "sampling/createMessage", params }),
+				).rejects.toThrow("The user rejected the sampling request")
+				expect(apiHandler.createMessage).not.toHaveBeenCalled()
+			})
+
+			it("should reject the request if it would go over a budget", async () => {
+				mockProvider.getState = jest.fn().mockResolvedValue({
+					apiConfiguration: {},
+					globalCostBudget: { perTask: 0.001, perDay: 5 },
+				})
+
+				const client = (mcpHub as any).createClient("test-server", "global")
+
+				await expect(
+					getRequestHandler(client, 1)({ method: "sampling/createMessage", params }),
+				).rejects.toThrow("daily budget of $5.00")
+				expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+					"warnings.mcp_sampling_budget_exceeded",
+				)
+				expect(apiHandler.createMessage).not.toHaveBeenCalled()
+			})
+		})
+	})
+
+	describe("getToolPolicy", () => {
+		beforeEach(() => {
+			mcpHub.connections = [
+				{
+					server: {
+						name: "db",
+						config: JSON.stringify({
+							type: "stdio",
+							command: "db-server",
+							toolPolicies: [
+								{ tool: "query", action: "allow", when: { "$.database": "readonly_*" } },
+								{ tool: "execute", action: "ask" },
+							],
+						}),
+						status: "connected",
+					},
+					client: {} as unknown as Client,
+					transport: {} as unknown as McpConnection["transport"],
+				},
+			]
+		})
+
+		it("returns the action of the first matching rule", () => {
+			expect(mcpHub.getToolPolicy("db", "query", { database: "readonly_replica" })).toBe("allow")
+			expect(mcpHub.getToolPolicy("db", "execute", { database: "readonly_replica" })).toBe("ask")
+		})
+
+		it("returns undefined when no rule matches", () => {
+			expect(mcpHub.getToolPolicy("db", "query", { database: "production" })).toBeUndefined()
+			expect(mcpHub.getToolPolicy("other", "query")).toBeUndefined()
+		})
+	})
+
+	describe("getCompletions", () => {
+		const createConnection = (request: jest.Mock): McpConnection => ({
+			server: {
+				name: "test-server",
+				config: "{}",
+				status: "connected",
+			},
+			client: { request } as any,
+			transport: {} as any,
+		})
+
+		it("should request completions for a resource template argument", async () => {
+			const request = jest.fn().mockResolvedValue({ completion: { values: ["paris", "porto"] } })
+			mcpHub.connections = [createConnection(request)]
+
+			const values = await mcpHub.getCompletions(
+				"test-server",
+				{ type: "ref/resource", uri: "weather://{city}" },
+				{ name: "city", value: "p" },
+			)
+
+			expect(values).toEqual(["paris", "porto"])
+			expect(request).toHaveBeenCalledWith(
+				{
+					method: "completion/complete",
+					params: {
+						ref: { type: "ref/resource", uri: "weather://{city}" },
+						argument: { name: "city", value: "p" },
+					},
+				},
+				expect.any(Object),
+			)
+		})
+
+		it("should return no completions if the server doesn't support them", async () => {
+			mcpHub.connections = [createConnection(jest.fn().mockRejectedValue(new Error("Method not found")))]
+
+			const values = await mcpHub.getCompletions(
+				"test-server",
+				{ type: "ref/resource", uri: "weather://{city}" },
+				{ name: "city", value: "" },
+			)
+
+			expect(values).toEqual([])
+		})
+	})
+
+	describe("getPrompt", () => {
+		it("should request the prompt with its arguments", async () => {
+			const promptResult = {
+				description: "Review a pull request",
+				messages: [{ role: "user", content: { type: "text", text: "Review PR #1" } }],
+			}
+			const mockConnection: McpConnection = {
+				server: {
+					name: "test-server",
+					config: "{}",
+					status: "connected",
+				},
+				client: {
+					request: jest.fn().mockResolvedValue(promptResult),
+				} as any,
+				transport: {} as any,
+			}
+
+			mcpHub.connections = [mockConnection]
+
+			const result = await mcpHub.getPrompt("test-server", "review-pr", { number: "1" })
+
+			expect(result).toBe(promptResult)
+			expect(mockConnection.client.request).toHaveBeenCalledWith(
+				{
+					method: "prompts/get",
+					params: {
+						name: "review-pr",
+						arguments: { number: "1" },
+					},
+				},
+				expect.any(Object),
+			)
+		})
+
+		it("should prevent getting prompts from disabled servers", async () => {
+			const mockConnection: McpConnection = {
+				server: {
+					name: "disabled-server",
+					config: "{}",
+					status: "connected",
+					disabled: true,
+				},
+				client: {
+					request: jest.fn(),
+				} as any,
+				transport: {} as any,
+			}
+
+			mcpHub.connections = [mockConnection]
+
+			await expect(mcpHub.getPrompt("disabled-server", "review-pr")).rejects.toThrow(
+				'Server "disabled-server" is disabled',
+			)
+			expect(mockConnection.client.request).not.toHaveBeenCalled()
+		})
+	})
+
+	describe("streamable-http servers", () => {
+		const config = { type: "streamable-http", url: "https://example.com/mcp", headers: { Authorization: "Bearer x" } }
+
+		let connectSpy: jest.SpyInstance
+		let pingSpy: jest.SpyInstance
+
+		beforeEach(() => {
+			connectSpy = jest.spyOn(Client.prototype, "connect").mockResolvedValue(undefined)
+			pingSpy = jest.spyOn(Client.prototype, "ping")
+			mcpHub.connections = []
+		})
+
+		afterEach(() => {
+			jest.restoreAllMocks()
+		})
+
+		const connect = (serverConfig: object, sessionId?: string) =>
+			(mcpHub as any).connectToServer(
+				"remote",
+				(mcpHub as any).validateServerConfig(serverConfig, "remote"),
+				"global",
+				sessionId,
+			)
+
+		it("should validate streamable-http configs and apply defaults", () => {
+			expect(ServerConfigSchema.parse(config)).toEqual(
+				expect.objectContaining({
+					type: "streamable-http",
+					url: "https://example.com/mcp",
+					headers: { Authorization: "Bearer x" },
+					fallbackToSse: true,
+					reconnection: { maxRetries: 5, initialDelay: 1000, maxDelay: 30000, growFactor: 1.5 },
+				}),
+			)
+
+			expect(() => (mcpHub as any).validateServerConfig({ type: "streamable-http" }, "remote")).toThrow(
+				"For 'streamable-http' type servers, you must provide a 'url' field",
+			)
+			expect(() => (mcpHub as any).validateServerConfig({ type: "websocket", url: config.url }, "remote")).toThrow(
+				"Server type must be 'stdio', 'sse' or 'streamable-http'",
+			)
+
+			// A url without a type keeps meaning SSE
+			expect((mcpHub as any).validateServerConfig({ url: config.url }, "remote").type).toBe("sse")
+		})
+
+		it("should connect over Streamable HTTP with the configured headers", async () => {
+			await connect(config)
+
+			const connection = mcpHub.connections[0]
+			expect(connection.transport).toBeInstanceOf(StreamableHTTPClientTransport)
+			expect((connection.transport as any).options.requestInit.headers).toEqual({ Authorization: "Bearer x" })
+			expect(connection.server.status).toBe("connected")
+			expect(connection.server.transport).toBe("streamable-http")
+		})
+
+		it("should fall back to SSE for servers that don't support Streamable HTTP", async () => {
+			connectSpy.mockImplementation(async (transport) => {
+				if (transport instanceof StreamableHTTPClientTransport) {
+					throw new Error("Error POSTing to endpoint (HTTP 405): Method Not Allowed")
+				}
+			})
+
+			await connect(config)
+
+			const connection = mcpHub.connections[0]
+			expect(connection.transport).toBeInstanceOf(SSEClientTransport)
+			expect(connection.server.status).toBe("connected")
+			expect(connection.server.transport).toBe("sse")
+		})
+
+		it("should not fall back to SSE when the fallback is turned off or the error is unrelated", async () => {
+			connectSpy.mockRejectedValue(new Error("Error POSTing to endpoint (HTTP 405): Method Not Allowed"))
+			await expect(connect({ ...config, fallbackToSse: false })).rejects.toThrow("HTTP 405")
+			expect(mcpHub.connections[0].server.status).toBe("disconnected")
+
+			connectSpy.mockRejectedValue(new Error("fetch failed"))
+			await expect(connect(config)).rejects.toThrow("fetch failed")
+			expect(connectSpy).toHaveBeenCalledTimes(2)
+		})
+
+		it("should resume a session and start a new one if the server no longer knows it", async () => {
+			await connect(config, "session-1")
+			expect((mcpHub.connections[0].transport as StreamableHTTPClientTransport).sessionId).toBe("session-1")
+			expect(pingSpy).toHaveBeenCalledTimes(1)
+
+			pingSpy.mockRejectedValueOnce(new Error("Error POSTing to endpoint (HTTP 404): Session not found"))
+			await connect(config, "session-2")
+
+			const connection = mcpHub.connections[0]
+			expect(connection.transport).toBeInstanceOf(StreamableHTTPClientTransport)
+			expect((connection.transport as StreamableHTTPClientTransport).sessionId).toBeUndefined()
+			expect(connection.server.status).toBe("connected")
+		})
+
+		it("should reconnect with the same session after a dropped connection", async () => {
+			await connect({ ...config, reconnection: { initialDelay: 0 } })
+			const transport = mcpHub.connections[0].transport as StreamableHTTPClientTransport
+			;(transport as any).sessionId = "session-1"
+
+			await transport.onerror?.(new Error("fetch failed"))
+
+			const connection = mcpHub.connections[0]
+			expect(connection.transport).not.toBe(transport)
+			expect((connection.transport as StreamableHTTPClientTransport).sessionId).toBe("session-1")
+			expect(connection.server.status).toBe("connected")
+		})
+	})
 })
@@ -0,0 +1,71 @@
+import { renderPromptMessages } from "../prompts"
+
+describe("renderPromptMessages", () => {
+	it("joins the text of user messages", () => {
+		const result = renderPromptMessages({
+			messages: [
+				{ role: "user", content: { type: "text", text: "Review this code." } },
+				{
+					role: "user",
+					content: {
+						type: "resource",
+						resource: { uri: "file:///src/index.ts", mimeType: "text/plain", text: "export {}" },
+					},
+				},
+			],
+		})
+
+		expect(result).toEqual({
+			text: 'Review this code.\n\n<resource uri="file:///src/index.ts">\nexport {}\n</resource>',
+			images: [],
+		})
+	})
+
+	it("attaches images, decodes text blobs and describes other binary resources", () => {
+		const result = renderPromptMessages({
+			messages: [
+				{ role: "user", content: { type: "image", data: "aGVsbG8=", mimeType: "image/png" } },
+				{
+					role: "user",
+					content: {
+						type: "resource",
+						resource: { uri: "file:///logo.jpg", mimeType: "image/jpeg", blob: "aGVsbG8=" },
+					},
+				},
+				{
+					role: "user",
+					content: {
+						type: "resource",
+						resource: { uri: "file:///logo.svg", mimeType: "image/svg+xml", blob: "PHN2Zy8+" },
+					},
+				},
+				{
+					role: "user",
+					content: {
+						type: "resource",
+						resource: { uri: "file:///data.bin", mimeType: "application/octet-stream", blob: "aGVsbG8=" },
+					},
+				},
+			],
+		})
+
+		expect(result).toEqual({
+			text: [
+				'<resource uri="file:///logo.svg">\n<svg/>\n</resource>',
+				'<resource uri="file:///data.bin">\n[Binary resource: file:///data.bin (application/octet-stream, 5 B)]\n</resource>',
+			].join("\n\n"),
+			images: ["data:image/png;base64,aGVsbG8=", "data:image/jpeg;base64,aGVsbG8="],
+		})
+	})
+
+	it("labels roles when the prompt includes assistant messages", () => {
+		const result = renderPromptMessages({
+			messages: [
+				{ role: "user", content: { type: "text", text: "What does this do?" } },
+				{ role: "assistant", content: { type: "text", text: "It parses the config." } },
+			],
+		})
+
+		expect(result.text).toBe("User: What does this do?\n\nAssistant: It parses the config.")
+	})
+})
@@ -0,0 +1,91 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import { ApiHandler } from "../../../api"
+import { ApiStream } from "../../../api/transform/stream"
+import { createSamplingMessage, describeSamplingRequest, toAnthropicMessages } from "../sampling"
+
+class MockApiHandler implements ApiHandler {
+	requests: { systemPrompt: string; messages: Anthropic.Messages.MessageParam[] }[] = []
+
+	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		this.requests.push({ systemPrompt, messages })
+		yield { type: "text", text: "Hello" }
+		yield { type: "text", text: " world" }
+		yield { type: "usage", inputTokens: 100, outputTokens: 10 }
+	}
+
+	getModel() {
+		return {
+			id: "test-model",
+			info: { contextWindow: 100000, supportsPromptCache: false, inputPrice: 3, outputPrice: 15 },
+		}
+	}
+
+	async countTokens() {
+		return 0
+	}
+}
+
+describe("toAnthropicMessages", () => {
+	it("converts text and image messages", () => {
+		expect(
+			toAnthropicMessages([
+				{ role: "user", content: { type: "text", text: "Describe this" } },
+				{ role: "user", content: { type: "image", data: "aGVsbG8=", mimeType: "image/png" } },
+			]),
+		).toEqual([
+			{ role: "user", content: [{ type: "text", text: "Describe this" }] },
+			{
+				role: "user",
+				content: [{ type: "image", source: { type: "base64", media_type: "image/png", data: "aGVsbG8=" } }],
+			},
+		])
+	})
+
+	it("rejects audio", () => {
+		expect(() =>
+			toAnthropicMessages([{ role: "user", content: { type: "audio", data: "aGVsbG8=", mimeType: "audio/wav" } }]),
+		).toThrow("Unsupported sampling content type: audio")
+	})
+})
+
+describe("describeSamplingRequest", () => {
+	it("includes the system prompt and the text of each message", () => {
+		expect(
+			describeSamplingRequest({
+				systemPrompt: "Be brief",
+				maxTokens: 100,
+				messages: [
+					{ role: "user", content: { type: "text", text: "Summarize the diff" } },
+					{ role: "user", content: { type: "image", data: "aGVsbG8=", mimeType: "image/png" } },
+				],
+			}),
+		).toBe("Be brief\n\nSummarize the diff\n\n[image]")
+	})
+})
+
+describe("createSamplingMessage", () => {
+	it("returns the model's answer with its usage and cost", async () => {
+		const apiHandler = new MockApiHandler()
+
+		const response = await createSamplingMessage(
+			{
+				systemPrompt: "Be brief",
+				maxTokens: 100,
+				messages: [{ role: "user", content: { type: "text", text: "Say hello" } }],
+			},
+			apiHandler,
+		)
+
+		expect(apiHandler.requests).toEqual([
+			{ systemPrompt: "Be brief", messages: [{ role: "user", content: [{ type: "text", text: "Say hello" }] }] },
+		])
+		expect(response).toEqual({
+			text: "Hello world",
+			model: "test-model",
+			tokensIn: 100,
+			tokensOut: 10,
+			cost: expect.closeTo(0.00045),
+		})
+	})
+})
@@ -0,0 +1,69 @@
+import { evaluateToolPolicy, matchesGlob, resolveJsonPath, ToolPolicyRule } from "../tool-policy"
+
+describe("resolveJsonPath", () => {
+	const value = {
+		database: "analytics",
+		queries: [{ table: "users" }, { table: "orders" }],
+		"user.name": "ada",
+	}
+
+	it.each([
+		["$.database", ["analytics"]],
+		["database", ["analytics"]],
+		["$.queries[1].table", ["orders"]],
+		["$.queries[*].table", ["users", "orders"]],
+		['$["user.name"]', ["ada"]],
+		["$.missing.table", []],
+		["$", [value]],
+	])("resolves %s", (path, expected) => {
+		expect(resolveJsonPath(value, path)).toEqual(expected)
+	})
+
+	it("rejects malformed paths", () => {
+		expect(() => resolveJsonPath(value, "$.queries[")).toThrow("Invalid JSON path: $.queries[")
+	})
+})
+
+describe("matchesGlob", () => {
+	it("matches whole strings", () => {
+		expect(matchesGlob("readonly_replica", "readonly_*")).toBe(true)
+		expect(matchesGlob("db1", "db?")).toBe(true)
+		expect(matchesGlob("my_readonly_db", "readonly_*")).toBe(false)
+		expect(matchesGlob("a.b", "a?b")).toBe(true)
+		expect(matchesGlob("axb", "a.b")).toBe(false)
+	})
+})
+
+describe("evaluateToolPolicy", () => {
+	const rules: ToolPolicyRule[] = [
+		{ tool: "query", action: "allow", when: { "$.database": "readonly_*", "$.limit": 10 } },
+		{ tool: "query", action: "allow", when: { "$.tables[*]": "public.*" } },
+		{ tool: "execute", action: "ask" },
+		{ tool: "list_*", action: "allow" },
+	]
+
+	it("returns the action of the first matching rule", () => {
+		expect(evaluateToolPolicy(rules, "query", { database: "readonly_replica", limit: 10 })).toBe("allow")
+		expect(evaluateToolPolicy(rules, "execute", { database: "readonly_replica" })).toBe("ask")
+		expect(evaluateToolPolicy(rules, "list_tables")).toBe("allow")
+	})
+
+	it("requires every path to resolve and every value to match", () => {
+		expect(evaluateToolPolicy(rules, "query", { database: "readonly_replica" })).toBeUndefined()
+		expect(evaluateToolPolicy(rules, "query", { database: "readonly_replica", limit: 100 })).toBeUndefined()
+		expect(evaluateToolPolicy(rules, "query", { tables: ["public.users", "private.keys"] })).toBeUndefined()
+		expect(evaluateToolPolicy(rules, "query", { tables: ["public.users", "public.orders"] })).toBe("allow")
+	})
+
+	it("skips rules with malformed paths", () => {
+		const result = evaluateToolPolicy(
+			[
+				{ tool: "query", action: "allow", when: { "$.[": "x" } },
+				{ tool: "query", action: "ask" },
+			],
+			"query",
+		)
+
+		expect(result).toBe("ask")
+	})
+})
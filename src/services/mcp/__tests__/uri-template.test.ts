@@ -0,0 +1,93 @@
+import {
+	expandUriTemplate,
+	getTemplateVariables,
+	isUriTemplate,
+	validateTemplateArguments,
+} from "../uri-template"
+
+describe("expandUriTemplate", () => {
+	// Examples from RFC 6570, section 3.2
+	const values = {
+		var: "value",
+		hello: "Hello World!",
+		path: "/foo/bar",
+		empty: "",
+		x: "1024",
+		y: "768",
+		list: ["red", "green", "blue"],
+	}
+
+	it.each([
+		["{var}", "value"],
+		["{hello}", "Hello%20World%21"],
+		["{+hello}", "Hello%20World!"],
+		["{+path}/here", "/foo/bar/here"],
+		["{#path}", "#/foo/bar"],
+		["{x,y}", "1024,768"],
+		["{.var}", ".value"],
+		["{/var,x}/here", "/value/1024/here"],
+		["{;x,y,empty}", ";x=1024;y=768;empty"],
+		["{?x,y,empty}", "?x=1024&y=768&empty="],
+		["?fixed=yes{&x}", "?fixed=yes&x=1024"],
+		["{var:3}", "val"],
+		["{list}", "red,green,blue"],
+		["{list*}", "red,green,blue"],
+		["{/list*}", "/red/green/blue"],
+		["{?list*}", "?list=red&list=green&list=blue"],
+		["{undef}", ""],
+		["{?undef,x}", "?x=1024"],
+	])("expands %s", (template, expected) => {
+		expect(expandUriTemplate(template, values)).toBe(expected)
+	})
+
+	it("expands a resource template", () => {
+		expect(expandUriTemplate("weather://{city}/forecast{?days}", { city: "san francisco", days: "3" })).toBe(
+			"weather://san%20francisco/forecast?days=3",
+		)
+	})
+
+	it("rejects malformed expressions", () => {
+		expect(() => expandUriTemplate("file://{path name}", {})).toThrow(
+			'Invalid expression "{path name}" in URI template file://{path name}',
+		)
+	})
+})
+
+describe("getTemplateVariables", () => {
+	it("returns each variable once, required if it is part of the path", () => {
+		expect(getTemplateVariables("repo://{owner}/{repo}/issues{?state,owner}{#section}")).toEqual([
+			{ name: "owner", required: true },
+			{ name: "repo", required: true },
+			{ name: "state", required: false },
+			{ name: "section", required: false },
+		])
+	})
+})
+
+describe("isUriTemplate", () => {
+	it("detects expressions", () => {
+		expect(isUriTemplate("file:///{path}")).toBe(true)
+		expect(isUriTemplate("file:///src/index.ts")).toBe(false)
+	})
+})
+
+describe("validateTemplateArguments", () => {
+	it("reports missing, unknown and invalid arguments", () => {
+		expect(
+			validateTemplateArguments("repo://{owner}/{repo}/issues{?state,labels}", {
+				repo: "",
+				state: 1,
+				labels: ["bug"],
+				page: "2",
+			}),
+		).toEqual({ missing: ["owner", "repo"], unknown: ["page"], invalid: ["state"] })
+	})
+
+	it("accepts complete arguments", () => {
+		expect(validateTemplateArguments("repo://{owner}/{repo}", { owner: "acme", repo: "app" })).toEqual({
+			missing: [],
+			unknown: [],
+			invalid: [],
+		})
+	})
+})
@@ -0,0 +1,44 @@
+import { McpPromptResponse } from "../../shared/mcp"
+import { renderResourceContents } from "./resources"
+
+/**
+ * Turns the messages of an MCP prompt into a chat message. Text and embedded
+ * resources make up the message text and images are attached to it. When the
+ * prompt includes assistant messages every message is labelled with its role
+ * so that the conversation it sets up stays readable.
+ */
+export function renderPromptMessages({ messages }: McpPromptResponse): { text: string; images: string[] } {
+	const images: string[] = []
+	const labelRoles = messages.some(({ role }) => role === "assistant")
+
+	const parts = messages.flatMap(({ role, content }) => {
+		let text: string
+
+		switch (content.type) {
+			case "text":
+				text = content.text
+				break
+			case "image":
+				images.push(`data:${content.mimeType};base64,${content.data}`)
+				return []
+			case "resource": {
+				const resource = renderResourceContents([content.resource], true)
+				images.push(...resource.images)
+
+				if (!resource.text) {
+					return []
+				}
+
+				text = resource.text
+				break
+			}
+			default:
+				// Audio can't be attached to a chat message.
+				return []
+		}
+
+		return [labelRoles ? `${role === "user" ? "User" : "Assistant"}: ${text}` : text]
+	})
+
+	return { text: parts.join("\n\n"), images }
+}
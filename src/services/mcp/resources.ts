@@ -0,0 +1,89 @@
+import { McpResourceResponse } from "../../shared/mcp"
+
+type ResourceContent = McpResourceResponse["contents"][number]
+
+// The image types models accept
+const IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"]
+
+const TEXT_MIME_TYPES = [
+	"application/json",
+	"application/javascript",
+	"application/typescript",
+	"application/xml",
+	"application/yaml",
+	"application/x-yaml",
+	"application/toml",
+	"application/sql",
+	"application/graphql",
+]
+
+function isTextMimeType(mimeType: string): boolean {
+	const [type] = mimeType.split(";")
+	return type.startsWith("text/") || type.endsWith("+json") || type.endsWith("+xml") || TEXT_MIME_TYPES.includes(type)
+}
+
+function formatSize(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`
+	}
+
+	return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Turns one item of a resource into text or an image. Binary items that are
+ * text in disguise, such as JSON, are decoded, and other binary items are
+ * described since the model can't take them.
+ */
+export function renderResourceContent({ uri, mimeType, text, blob }: ResourceContent): {
+	text?: string
+	image?: string
+} {
+	if (text !== undefined) {
+		return { text }
+	}
+
+	if (blob === undefined) {
+		return {}
+	}
+
+	if (mimeType && IMAGE_MIME_TYPES.includes(mimeType)) {
+		return { image: `data:${mimeType};base64,${blob}` }
+	}
+
+	const data = Buffer.from(blob, "base64")
+
+	if (mimeType && isTextMimeType(mimeType)) {
+		return { text: data.toString("utf8") }
+	}
+
+	return { text: `[Binary resource: ${uri} (${mimeType ?? "unknown type"}, ${formatSize(data.length)})]` }
+}
+
+/**
+ * Turns the contents of a resource into text and images.
+ *
+ * @param wrap - Wrap each text item in a `<resource>` tag naming its URI, for
+ * attaching the resource to a message
+ */
+export function renderResourceContents(
+	contents: McpResourceResponse["contents"],
+	wrap = false,
+): { text: string; images: string[] } {
+	const texts: string[] = []
+	const images: string[] = []
+
+	for (const item of contents) {
+		const { text, image } = renderResourceContent(item)
+
+		if (text) {
+			texts.push(wrap ? `<resource uri="${item.uri}">\n${text}\n</resource>` : text)
+		}
+
+		if (image) {
+			images.push(image)
+		}
+	}
+
+	return { text: texts.join("\n\n"), images }
+}
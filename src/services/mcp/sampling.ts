@@ -0,0 +1,112 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import type { CreateMessageRequest, SamplingMessage } from "@modelcontextprotocol/sdk/types.js"
+
+import { ApiHandler } from "../../api"
+import { calculateApiCostAnthropic } from "../../utils/cost"
+
+export type SamplingResponse = {
+	text: string
+	model: string
+	tokensIn: number
+	tokensOut: number
+	cost: number
+}
+
+function toContentBlock({ content }: SamplingMessage): Anthropic.Messages.ContentBlockParam {
+	switch (content.type) {
+		case "text":
+			return { type: "text", text: content.text }
+		case "image":
+			return {
+				type: "image",
+				source: {
+					type: "base64",
+					media_type: content.mimeType as Anthropic.Messages.ImageBlockParam["source"]["media_type"],
+					data: content.data,
+				},
+			}
+		default:
+			throw new Error(`Unsupported sampling content type: ${content.type}`)
+	}
+}
+
+/**
+ * Converts the messages of a sampling request to the messages sent to the
+ * model, one content block per message.
+ *
+ * @throws If a message has content the model can't take, such as audio
+ */
+export function toAnthropicMessages(messages: SamplingMessage[]): Anthropic.Messages.MessageParam[] {
+	return messages.map((message) => ({ role: message.role, content: [toContentBlock(message)] }))
+}
+
+/**
+ * The text of a sampling request, for showing to the user before it is sent.
+ */
+export function describeSamplingRequest({ systemPrompt, messages }: CreateMessageRequest["params"]): string {
+	return [
+		...(systemPrompt ? [systemPrompt] : []),
+		...messages.map(({ content }) => (content.type === "text" ? content.text : `[${content.type}]`)),
+	].join("\n\n")
+}
+
+/**
+ * Estimates the input tokens of a sampling request.
+ */
+export async function countSamplingTokens(
+	{ systemPrompt, messages }: CreateMessageRequest["params"],
+	apiHandler: ApiHandler,
+): Promise<number> {
+	return apiHandler.countTokens([
+		...(systemPrompt ? [{ type: "text" as const, text: systemPrompt }] : []),
+		...messages.filter(({ content }) => content.type !== "audio").map(toContentBlock),
+	])
+}
+
+/**
+ * Answers a sampling request from an MCP server with the given model. The
+ * model settings of the handler are used as is, so the server's model
+ * preferences, temperature and stop sequences are advisory only.
+ *
+ * @throws If the request can't be converted, the request fails or the model
+ * returns no text
+ */
+export async function createSamplingMessage(
+	params: CreateMessageRequest["params"],
+	apiHandler: ApiHandler,
+): Promise<SamplingResponse> {
+	const stream = apiHandler.createMessage(params.systemPrompt ?? "", toAnthropicMessages(params.messages))
+
+	let text = ""
+	let tokensIn = 0
+	let tokensOut = 0
+	let cacheWrites = 0
+	let cacheReads = 0
+	let totalCost: number | undefined
+
+	for await (const chunk of stream) {
+		if (chunk.type === "text") {
+			text += chunk.text
+		} else if (chunk.type === "usage") {
+			tokensIn += chunk.inputTokens
+			tokensOut += chunk.outputTokens
+			cacheWrites += chunk.cacheWriteTokens ?? 0
+			cacheReads += chunk.cacheReadTokens ?? 0
+			totalCost = chunk.totalCost
+		}
+	}
+
+	if (!text) {
+		throw new Error("The model returned an empty response")
+	}
+
+	const model = apiHandler.getModel()
+
+	return {
+		text,
+		model: model.id,
+		tokensIn,
+		tokensOut,
+		cost: totalCost ?? calculateApiCostAnthropic(model.info, tokensIn, tokensOut, cacheWrites, cacheReads),
+	}
+}
@@ -0,0 +1,127 @@
+import deepEqual from "fast-deep-equal"
+import { z } from "zod"
+
+/**
+ * A rule deciding whether a call to an MCP tool is approved automatically or
+ * always asked about. `tool` is a glob on the tool name. `when` maps JSON paths
+ * into the arguments, such as `$.database` or `$.queries[*].table`, to the
+ * values they must have: strings are glob patterns and anything else must be
+ * equal. Every value a path resolves to must match.
+ */
+export const ToolPolicyRuleSchema = z.object({
+	tool: z.string(),
+	action: z.enum(["allow", "ask"]),
+	when: z.record(z.unknown()).optional(),
+})
+
+export type ToolPolicyRule = z.infer<typeof ToolPolicyRuleSchema>
+
+export type ToolPolicyAction = ToolPolicyRule["action"]
+
+const PATH_SEGMENT_REGEX = /\.([^.[\]]+)|\[(\d+|\*|"[^"]*"|'[^']*')\]/g
+
+function parseJsonPath(path: string): string[] {
+	const normalized = path.startsWith("$") ? path.slice(1) : `.${path}`
+	const segments: string[] = []
+	const regex = new RegExp(PATH_SEGMENT_REGEX)
+	let lastIndex = 0
+	let match: RegExpExecArray | null
+
+	while ((match = regex.exec(normalized)) !== null) {
+		if (match.index !== lastIndex) {
+			break
+		}
+
+		const segment = match[1] ?? match[2]
+		segments.push(/^["']/.test(segment) ? segment.slice(1, -1) : segment)
+		lastIndex = match.index + match[0].length
+	}
+
+	if (lastIndex !== normalized.length) {
+		throw new Error(`Invalid JSON path: ${path}`)
+	}
+
+	return segments
+}
+
+/**
+ * Returns the values a JSON path points to. `*` selects every item of an
+ * array or every value of an object.
+ *
+ * @throws If the path is malformed
+ */
+export function resolveJsonPath(value: unknown, path: string): unknown[] {
+	return parseJsonPath(path).reduce<unknown[]>(
+		(values, segment) =>
+			values.flatMap((current) => {
+				if (current === null || typeof current !== "object") {
+					return []
+				}
+
+				if (segment === "*") {
+					return Object.values(current)
+				}
+
+				return segment in current ? [(current as Record<string, unknown>)[segment]] : []
+			}),
+		[value],
+	)
+}
+
+/**
+ * Matches a whole string against a glob pattern where `*` matches any run of
+ * characters and `?` matches one character.
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+	const regex = pattern
+		.split("")
+		.map((char) => {
+			if (char === "*") {
+				return "[\\s\\S]*"
+			}
+
+			return char === "?" ? "[\\s\\S]" : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+		})
+		.join("")
+
+	return new RegExp(`^${regex}$`).test(value)
+}
+
+function matchesValue(actual: unknown, expected: unknown): boolean {
+	if (typeof expected === "string") {
+		return matchesGlob(typeof actual === "string" ? actual : JSON.stringify(actual), expected)
+	}
+
+	return deepEqual(actual, expected)
+}
+
+function matchesRule(rule: ToolPolicyRule, toolName: string, args: Record<string, unknown>): boolean {
+	if (!matchesGlob(toolName, rule.tool)) {
+		return false
+	}
+
+	return Object.entries(rule.when ?? {}).every(([path, expected]) => {
+		const values = resolveJsonPath(args, path)
+		return values.length > 0 && values.every((value) => matchesValue(value, expected))
+	})
+}
+
+/**
+ * Finds the action of the first rule that matches a tool call.
+ *
+ * @returns The action, or `undefined` if no rule matches
+ */
+export function evaluateToolPolicy(
+	rules: ToolPolicyRule[],
+	toolName: string,
+	args: Record<string, unknown> = {},
+): ToolPolicyAction | undefined {
+	return rules.find((rule) => {
+		try {
+			return matchesRule(rule, toolName, args)
+		} catch (error) {
+			console.error(`Skipping MCP tool policy rule for ${rule.tool}:`, error)
+			return false
+		}
+	})?.action
+}
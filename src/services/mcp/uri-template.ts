@@ -0,0 +1,187 @@
+/**
+ * RFC 6570 URI templates, as used by MCP resource templates.
+ *
+ * Supports every operator up to level 4, including the prefix (`{var:3}`)
+ * and explode (`{var*}`) modifiers. Values are strings or lists of strings;
+ * associative arrays aren't supported.
+ */
+
+export type UriTemplateValue = string | string[]
+
+type Operator = {
+	first: string
+	separator: string
+	named: boolean
+	ifEmpty: string
+	allowReserved: boolean
+}
+
+type VariableSpec = {
+	name: string
+	explode: boolean
+	prefix?: number
+}
+
+type Expression = {
+	operator: string
+	variables: VariableSpec[]
+}
+
+const OPERATORS: Record<string, Operator> = {
+	"": { first: "", separator: ",", named: false, ifEmpty: "", allowReserved: false },
+	"+": { first: "", separator: ",", named: false, ifEmpty: "", allowReserved: true },
+	"#": { first: "#", separator: ",", named: false, ifEmpty: "", allowReserved: true },
+	".": { first: ".", separator: ".", named: false, ifEmpty: "", allowReserved: false },
+	"/": { first: "/", separator: "/", named: false, ifEmpty: "", allowReserved: false },
+	";": { first: ";", separator: ";", named: true, ifEmpty: "", allowReserved: false },
+	"?": { first: "?", separator: "&", named: true, ifEmpty: "=", allowReserved: false },
+	"&": { first: "&", separator: "&", named: true, ifEmpty: "=", allowReserved: false },
+}
+
+// Variables of these operators form the path of the URI, so a URI can't be
+// built without them. Query, fragment and path parameter variables can be left
+// out.
+const REQUIRED_OPERATORS = new Set(["", "+", ".", "/"])
+
+const EXPRESSION_REGEX = /\{([^{}]*)\}/g
+const VARIABLE_REGEX = /^([A-Za-z0-9_]|%[0-9A-Fa-f]{2})(\.?([A-Za-z0-9_]|%[0-9A-Fa-f]{2}))*$/
+
+function parseExpression(body: string, template: string): Expression {
+	const operator = /^[+#./;?&]/.test(body) ? body[0] : ""
+	const variables = body
+		.slice(operator.length)
+		.split(",")
+		.map((spec): VariableSpec => {
+			const explode = spec.endsWith("*")
+			const [name, prefix] = (explode ? spec.slice(0, -1) : spec).split(":")
+
+			if (!VARIABLE_REGEX.test(name) || (prefix !== undefined && !/^[1-9][0-9]{0,3}$/.test(prefix))) {
+				throw new Error(`Invalid expression "{${body}}" in URI template ${template}`)
+			}
+
+			return { name, explode, prefix: prefix === undefined ? undefined : parseInt(prefix, 10) }
+		})
+
+	return { operator, variables }
+}
+
+function parseTemplate(template: string): Array<string | Expression> {
+	const parts: Array<string | Expression> = []
+	let lastIndex = 0
+
+	const regex = new RegExp(EXPRESSION_REGEX)
+	let match: RegExpExecArray | null
+
+	while ((match = regex.exec(template)) !== null) {
+		parts.push(template.slice(lastIndex, match.index))
+		parts.push(parseExpression(match[1], template))
+		lastIndex = match.index + match[0].length
+	}
+
+	parts.push(template.slice(lastIndex))
+
+	return parts.filter((part) => part !== "")
+}
+
+function encode(value: string, allowReserved: boolean): string {
+	if (!allowReserved) {
+		return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+	}
+
+	// Reserved characters and existing percent-encoded triplets pass through.
+	return value
+		.split(/(%[0-9A-Fa-f]{2})/)
+		.map((part, i) => (i % 2 === 1 ? part : encodeURI(part).replace(/%5B/g, "[").replace(/%5D/g, "]")))
+		.join("")
+}
+
+function expandVariable(operator: Operator, { name, explode, prefix }: VariableSpec, value: UriTemplateValue): string {
+	const named = (encoded: string) =>
+		operator.named ? `${name}${encoded === "" ? operator.ifEmpty : `=${encoded}`}` : encoded
+
+	if (typeof value === "string") {
+		return named(encode(prefix === undefined ? value : Array.from(value).slice(0, prefix).join(""), operator.allowReserved))
+	}
+
+	if (explode) {
+		return value.map((item) => named(encode(item, operator.allowReserved))).join(operator.separator)
+	}
+
+	return named(value.map((item) => encode(item, operator.allowReserved)).join(","))
+}
+
+/**
+ * Returns the variables of a template in order of appearance. A variable is
+ * required if it is part of the path of the URI.
+ *
+ * @throws If the template is malformed
+ */
+export function getTemplateVariables(template: string): Array<{ name: string; required: boolean }> {
+	const variables = new Map<string, boolean>()
+
+	for (const part of parseTemplate(template)) {
+		if (typeof part !== "string") {
+			for (const { name } of part.variables) {
+				variables.set(name, (variables.get(name) ?? false) || REQUIRED_OPERATORS.has(part.operator))
+			}
+		}
+	}
+
+	return Array.from(variables, ([name, required]) => ({ name, required }))
+}
+
+export function isUriTemplate(uri: string): boolean {
+	return /\{[^{}]*\}/.test(uri)
+}
+
+/**
+ * Checks arguments against the variables of a template.
+ *
+ * @returns The required variables that have no value, the arguments that
+ * aren't variables of the template and the arguments that aren't strings or
+ * lists of strings
+ */
+export function validateTemplateArguments(
+	template: string,
+	args: Record<string, unknown>,
+): { missing: string[]; unknown: string[]; invalid: string[] } {
+	const variables = getTemplateVariables(template)
+	const isValue = (value: unknown) =>
+		typeof value === "string" || (Array.isArray(value) && value.every((item) => typeof item === "string"))
+
+	return {
+		missing: variables
+			.filter(({ name, required }) => required && (args[name] === undefined || args[name] === ""))
+			.map(({ name }) => name),
+		unknown: Object.keys(args).filter((name) => !variables.some((variable) => variable.name === name)),
+		invalid: Object.entries(args)
+			.filter(([, value]) => value !== undefined && !isValue(value))
+			.map(([name]) => name),
+	}
+}
+
+/**
+ * Expands a template with the given values. Variables without a value, and
+ * lists without items, are left out.
+ *
+ * @throws If the template is malformed
+ */
+export function expandUriTemplate(template: string, values: Record<string, UriTemplateValue | undefined>): string {
+	return parseTemplate(template)
+		.map((part) => {
+			if (typeof part === "string") {
+				return part
+			}
+
+			const operator = OPERATORS[part.operator]
+			const expanded = part.variables.flatMap((variable) => {
+				const value = values[variable.name]
+				return value === undefined || (Array.isArray(value) && value.length === 0)
+					? []
+					: [expandVariable(operator, variable, value)]
+			})
+
+			return expanded.length > 0 ? operator.first + expanded.join(operator.separator) : ""
+		})
+		.join("")
+}
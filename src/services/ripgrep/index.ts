@@ -5,6 +5,7 @@ import * as fs from "fs"
 import * as readline from "readline"
 import { KodelyIgnoreController } from "../../core/ignore/KodelyIgnoreController"
 import { fileExistsAtPath } from "../../utils/fs"
+import { getQualifiedPath } from "../../utils/path"
 /*
 This file provides functionality to perform regex searches on files using ripgrep.
 Inspired by: https://github.com/DiscreteTom/vscode-ripgrep-utils
@@ -233,7 +234,10 @@ function formatResults(fileResults: SearchFileResult[], cwd: string): string {
 
 	// Group results by file name
 	fileResults.slice(0, MAX_RESULTS).forEach((file) => {
-		const relativeFilePath = path.relative(cwd, file.file)
+		const relativePath = path.relative(cwd, file.file)
+		const relativeFilePath = relativePath.startsWith("..")
+			? (getQualifiedPath(cwd, file.file) ?? relativePath)
+			: relativePath
 		if (!groupedResults[relativeFilePath]) {
 			groupedResults[relativeFilePath] = []
 
@@ -5,6 +5,7 @@ import * as childProcess from "child_process"
 import * as readline from "readline"
 import { byLengthAsc, Fzf } from "fzf"
 import { getBinPath } from "../ripgrep"
+import { arePathsEqual, resolveWorkspacePath, WorkspaceRoot } from "../../utils/path"
 
 export type FileResult = { path: string; type: "file" | "folder"; label?: string }
 
@@ -107,14 +108,32 @@ export async function executeRipgrepForFiles(
 	return executeRipgrep({ args, workspacePath, limit })
 }
 
+/**
+ * Fuzzy searches the files and directories of the workspace. Items in
+ * workspace folders other than `workspacePath` get paths qualified with the
+ * folder name, like `backend:src/index.ts`.
+ */
 export async function searchWorkspaceFiles(
 	query: string,
 	workspacePath: string,
 	limit: number = 20,
+	workspaceRoots: WorkspaceRoot[] = [],
 ): Promise<{ path: string; type: "file" | "folder"; label?: string }[]> {
 	try {
+		const otherRoots = workspaceRoots.filter((root) => !arePathsEqual(root.path, workspacePath))
+
 		// Get all files and directories (from our modified function)
-		const allItems = await executeRipgrepForFiles(workspacePath, 5000)
+		const allItems = (
+			await Promise.all([
+				executeRipgrepForFiles(workspacePath, 5000),
+				...otherRoots.map(async (root) =>
+					(await executeRipgrepForFiles(root.path, 5000)).map((item) => ({
+						...item,
+						path: `${root.name}:${item.path.toPosix()}`,
+					})),
+				),
+			])
+		).flat()
 
 		// If no query, just return the top items
 		if (!query.trim()) {
@@ -140,7 +159,7 @@ export async function searchWorkspaceFiles(
 		// Verify types of the shortest results
 		const verifiedResults = await Promise.all(
 			fzfResults.map(async (result) => {
-				const fullPath = path.join(workspacePath, result.path)
+				const fullPath = resolveWorkspacePath(workspacePath, result.path, otherRoots)
 				// Verify if the path exists and is actually a directory
 				if (fs.existsSync(fullPath)) {
 					const isDirectory = fs.lstatSync(fullPath).isDirectory()
@@ -0,0 +1,20 @@
+import { LanguageParser, loadRequiredLanguageParsers } from "./languageParser"
+
+// Loading a grammar is expensive, so parsers are kept for the lifetime of
+// the extension host.
+const parserCache: LanguageParser = {}
+
+/**
+ * Returns the parser and definition query for a file extension, loading the
+ * grammar on first use.
+ *
+ * @param ext - File extension without the leading dot
+ * @throws if the extension has no grammar
+ */
+export async function getLanguageParser(ext: string): Promise<LanguageParser[string]> {
+	if (!parserCache[ext]) {
+		Object.assign(parserCache, await loadRequiredLanguageParsers([`file.${ext}`]))
+	}
+
+	return parserCache[ext]
+}
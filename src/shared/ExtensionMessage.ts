@@ -11,8 +11,10 @@ import {
 	ClineSay,
 	ToolProgressStatus,
 	ClineMessage,
+	CommandPolicy,
 } from "../schemas"
-import { McpServer } from "./mcp"
+import { McpAuditEntry, McpServer } from "./mcp"
+import { CheckpointRestoreHunk, CheckpointStorageUsage, CheckpointTimelineEntry } from "./checkpoints"
 import { GitCommit } from "../utils/git"
 import { Mode } from "./modes"
 
@@ -69,6 +71,13 @@ export interface ExtensionMessage {
 		| "fileSearchResults"
 		| "toggleApiConfigPin"
 		| "acceptInput"
+		| "ragIndexStatus"
+		| "spendSummary"
+		| "mcpCompletion"
+		| "mcpAuditLog"
+		| "checkpointTimeline"
+		| "checkpointStorage"
+		| "checkpointRestoreHunks"
 	text?: string
 	action?:
 		| "chatButtonClicked"
@@ -112,6 +121,36 @@ export interface ExtensionMessage {
 		label?: string
 	}>
 	error?: string
+	ragIndexStatus?: RagIndexStatus
+	spendSummary?: SpendSummary
+	completions?: string[]
+	mcpAuditLog?: McpAuditEntry[] // Newest first
+	checkpointTimeline?: CheckpointTimelineEntry[]
+	checkpointStorage?: CheckpointStorageUsage
+	checkpointRestoreHunks?: { commitHash: string; path: string; hunks: CheckpointRestoreHunk[] }
+}
+
+// Spend in USD across all tasks, from the persistent spend ledger.
+export interface SpendSummary {
+	day: number
+	month: number
+}
+
+export interface RagIndexStatus {
+	state: "idle" | "indexing" | "error"
+	filesIndexed: number
+	chunkCount: number
+	indexSizeBytes: number
+	lastUpdated?: number
+	progress?: { processed: number; total: number } // Files of the folder being indexed
+	folders: {
+		name: string
+		filesIndexed: number
+		chunkCount: number
+		indexSizeBytes: number
+		lastUpdated?: number
+	}[]
+	error?: string
 }
 
 export type ExtensionState = Pick<
@@ -144,6 +183,7 @@ export type ExtensionState = Pick<
 	| "useLocalRag"
 	| "maxOutputTokens"
 	| "compressCodeInContext"
+	| "codeCompressionLevel"
 	| "remoteBrowserEnabled"
 	| "remoteBrowserHost"
 	// | "enableCheckpoints" // Optional in GlobalSettings, required here.
@@ -155,6 +195,10 @@ export type ExtensionState = Pick<
 	// | "maxWorkspaceFiles" // Optional in GlobalSettings, required here.
 	// | "showKodelyIgnoredFiles" // Optional in GlobalSettings, required here.
 	// | "maxReadFileLine" // Optional in GlobalSettings, required here.
+	| "slidingWindowStrategy"
+	| "condensingApiConfigName"
+	| "diagnosticsSeverity"
+	| "maxDiagnosticsPerFile"
 	| "terminalOutputLineLimit"
 	| "terminalShellIntegrationTimeout"
 	| "terminalCommandDelay"
@@ -163,6 +207,11 @@ export type ExtensionState = Pick<
 	| "terminalZshOhMy"
 	| "terminalZshP10k"
 	| "terminalZdotdir"
+	| "terminalBackend"
+	| "terminalCommandTimeout"
+	| "terminalEnvAllowlist"
+	| "terminalConfineToWorkspace"
+	| "testRunTimeout"
 	| "diffEnabled"
 	| "fuzzyMatchThreshold"
 	// | "experiments" // Optional in GlobalSettings, required here.
@@ -176,6 +225,15 @@ export type ExtensionState = Pick<
 	| "customModePrompts"
 	| "customSupportPrompts"
 	| "enhancementApiConfigId"
+	| "optimizationLevel"
+	| "maxContextWindowUsage"
+	| "useLocalRag"
+	| "maxOutputTokens"
+	| "compressCodeInContext"
+	| "codeCompressionLevel"
+	| "globalCostBudget"
+	| "checkpointRetention"
+	| "modelRoutingPolicy"
 > & {
 	version: string
 	clineMessages: ClineMessage[]
@@ -202,6 +260,8 @@ export type ExtensionState = Pick<
 
 	mode: Mode
 	customModes: ModeConfig[]
+	workspaceCommandPolicy?: CommandPolicy // The rules of `.kodely/command-policy.json`, if any
+	backgroundProcesses?: BackgroundProcessInfo[] // The background processes of the current task
 	toolRequirements?: Record<string, boolean> // Map of tool names to their requirements (e.g. {"apply_diff": true} if diffEnabled)
 
 	cwd?: string // Current working directory
@@ -215,6 +275,43 @@ export type ExtensionState = Pick<
 
 export type { ClineMessage, ClineAsk, ClineSay }
 
+export const backgroundProcessActions = ["start", "read", "wait", "stop"] as const
+
+export type BackgroundProcessAction = (typeof backgroundProcessActions)[number]
+
+export type BackgroundProcessStatus = "running" | "exited" | "stopped"
+
+export interface BackgroundProcessInfo {
+	name: string
+	command: string
+	status: BackgroundProcessStatus
+	exitCode?: number
+	startedAt: number
+}
+
+export const testRunners = ["jest", "vitest", "pytest", "go", "cargo"] as const
+
+export type TestRunnerName = (typeof testRunners)[number]
+
+export interface TestFailure {
+	name: string // The full name of the test, e.g. "Suite › does something"
+	file?: string // Relative to the working directory of the run when possible
+	line?: number
+	message?: string
+}
+
+export interface ClineTestRunSummary {
+	runner: TestRunnerName
+	command: string
+	passed: number
+	failed: number
+	skipped: number
+	exitCode?: number
+	failures: TestFailure[]
+	error?: string // Why the run has no results, e.g. a compilation error
+	timedOutAfter?: number // The timeout in seconds, if the run was terminated before it finished
+}
+
 export interface ClineSayTool {
 	tool:
 		| "editedExistingFile"
@@ -226,17 +323,26 @@ export interface ClineSayTool {
 		| "listFilesRecursive"
 		| "listCodeDefinitionNames"
 		| "searchFiles"
+		| "codebaseSearch"
 		| "switchMode"
 		| "newTask"
 		| "finishTask"
+		| "backgroundProcess"
+		| "runTests"
 	path?: string
 	diff?: string
 	content?: string
 	regex?: string
 	filePattern?: string
+	query?: string
 	mode?: string
 	reason?: string
 	isOutsideWorkspace?: boolean
+	action?: BackgroundProcessAction
+	name?: string
+	command?: string
+	pattern?: string
+	runner?: TestRunnerName
 }
 
 // Must keep in sync with system prompt.
@@ -273,10 +379,24 @@ export interface ClineAskUseMcpServer {
 	toolName?: string
 	arguments?: string
 	uri?: string
+	// Set when a tool policy of the server matches the arguments, overriding `alwaysAllow`
+	policy?: "allow" | "ask"
+}
+
+export type BudgetPeriod = "task" | "day" | "month"
+
+export interface ClineAskBudgetExceeded {
+	period: BudgetPeriod
+	profileName?: string // Unset for the global budget
+	limit: number
+	spent: number
+	estimatedCost: number
 }
 
 export interface ClineApiReqInfo {
 	request?: string
+	model?: string
+	profileName?: string // Set when the request was routed to another provider profile
 	tokensIn?: number
 	tokensOut?: number
 	cacheWrites?: number
@@ -287,3 +407,12 @@ export interface ClineApiReqInfo {
 }
 
 export type ClineApiReqCancelReason = "streaming_failed" | "user_cancelled"
+
+export interface ClineCondenseInfo {
+	summary: string
+	messagesCondensed: number
+	model: string
+	tokensIn: number
+	tokensOut: number
+	cost: number
+}
@@ -87,6 +87,12 @@ export interface WebviewMessage {
 		| "terminalZshOhMy"
 		| "terminalZshP10k"
 		| "terminalZdotdir"
+		| "terminalBackend"
+		| "terminalCommandTimeout"
+		| "terminalEnvAllowlist"
+		| "terminalConfineToWorkspace"
+		| "testRunTimeout"
+		| "stopBackgroundProcess"
 		| "mcpEnabled"
 		| "enableMcpServerCreation"
 		| "searchCommits"
@@ -110,7 +116,22 @@ export interface WebviewMessage {
 		| "openCustomModesSettings"
 		| "checkpointDiff"
 		| "checkpointRestore"
+		| "requestCheckpointTimeline"
+		| "checkpointRestoreFiles"
+		| "requestCheckpointRestoreHunks"
+		| "checkpointRestoreHunks"
+		| "forkTask"
+		| "exportCheckpoints"
+		| "requestCheckpointStorage"
+		| "collectCheckpointGarbage"
+		| "purgeWorkspaceCheckpoints"
 		| "deleteMcpServer"
+		| "runMcpPrompt"
+		| "attachMcpResource"
+		| "completeMcpResourceArgument"
+		| "requestMcpAuditLog"
+		| "exportMcpAuditLog"
+		| "clearMcpAuditLog"
 		| "maxOpenTabsContext"
 		| "maxWorkspaceFiles"
 		| "humanRelayResponse"
@@ -123,6 +144,10 @@ export interface WebviewMessage {
 		| "remoteBrowserEnabled"
 		| "language"
 		| "maxReadFileLine"
+		| "slidingWindowStrategy"
+		| "condensingApiConfigName"
+		| "diagnosticsSeverity"
+		| "maxDiagnosticsPerFile"
 		| "searchFiles"
 		| "toggleApiConfigPin"
 		| "optimizationLevel"
@@ -130,6 +155,14 @@ export interface WebviewMessage {
 		| "useLocalRag"
 		| "maxOutputTokens"
 		| "compressCodeInContext"
+		| "codeCompressionLevel"
+		| "requestRagIndexStatus"
+		| "rebuildRagIndex"
+		| "clearRagIndex"
+		| "globalCostBudget"
+		| "checkpointRetention"
+		| "requestSpendSummary"
+		| "modelRoutingPolicy"
 	text?: string
 	disabled?: boolean
 	askResponse?: ClineAskResponse
@@ -141,6 +174,10 @@ export interface WebviewMessage {
 	audioType?: AudioType
 	serverName?: string
 	toolName?: string
+	promptName?: string
+	promptArguments?: Record<string, string>
+	resourceArguments?: Record<string, string>
+	argumentName?: string
 	alwaysAllow?: boolean
 	mode?: Mode
 	promptMode?: PromptMode
@@ -161,7 +198,7 @@ export const checkoutDiffPayloadSchema = z.object({
 	ts: z.number(),
 	previousCommitHash: z.string().optional(),
 	commitHash: z.string(),
-	mode: z.enum(["full", "checkpoint"]),
+	mode: z.enum(["full", "checkpoint", "compare"]),
 })
 
 export type CheckpointDiffPayload = z.infer<typeof checkoutDiffPayloadSchema>
@@ -174,4 +211,26 @@ export const checkoutRestorePayloadSchema = z.object({
 
 export type CheckpointRestorePayload = z.infer<typeof checkoutRestorePayloadSchema>
 
-export type WebViewMessagePayload = CheckpointDiffPayload | CheckpointRestorePayload
+export const checkpointRestoreFilesPayloadSchema = z.object({
+	commitHash: z.string(),
+	// Absolute paths
+	paths: z.array(z.string()),
+})
+
+export type CheckpointRestoreFilesPayload = z.infer<typeof checkpointRestoreFilesPayloadSchema>
+
+export const checkpointRestoreHunksPayloadSchema = z.object({
+	commitHash: z.string(),
+	// Absolute path
+	path: z.string(),
+	// Indexes of the hunks to restore, omitted when requesting the hunks
+	hunks: z.array(z.number()).optional(),
+})
+
+export type CheckpointRestoreHunksPayload = z.infer<typeof checkpointRestoreHunksPayloadSchema>
+
+export type WebViewMessagePayload =
+	| CheckpointDiffPayload
+	| CheckpointRestorePayload
+	| CheckpointRestoreFilesPayload
+	| CheckpointRestoreHunksPayload
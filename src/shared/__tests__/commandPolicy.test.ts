@@ -0,0 +1,157 @@
+// npx jest src/shared/__tests__/commandPolicy.test.ts
+
+import {
+	CommandPolicyLayer,
+	describeDeniedCommand,
+	evaluateCommandPolicy,
+	getCommandPolicyLayers,
+	parseCommandChain,
+} from "../commandPolicy"
+
+const texts = (command: string) => parseCommandChain(command).map(({ text }) => text)
+const words = (command: string) => parseCommandChain(command).map(({ words }) => words)
+
+describe("parseCommandChain", () => {
+	it("splits commands by chain operators", () => {
+		expect(texts("npm test && npm run build")).toEqual(["npm test", "npm run build"])
+		expect(texts("npm test || npm run build")).toEqual(["npm test", "npm run build"])
+		expect(texts("npm test; npm run build")).toEqual(["npm test", "npm run build"])
+		expect(texts("npm test | npm run build")).toEqual(["npm test", "npm run build"])
+		expect(texts("npm start & npm test\nnpm run build")).toEqual(["npm start", "npm test", "npm run build"])
+		expect(texts("(cd src && ls)")).toEqual(["cd src", "ls"])
+	})
+
+	it("preserves quoted content", () => {
+		expect(texts('npm test "param with | inside"')).toEqual(['npm test "param with | inside"'])
+		expect(words("echo 'hello && world' \"a \\\"b\\\"\" c\\ d")).toEqual([
+			["echo", "hello && world", 'a "b"', "c d"],
+		])
+		expect(words("echo ''")).toEqual([["echo", ""]])
+	})
+
+	it("lists the commands in substitutions after the commands they are part of", () => {
+		const [outer, ...inner] = parseCommandChain('npm test $(echo test) "`rm -rf /`"')
+
+		expect(outer).toEqual({
+			text: 'npm test $(echo test) "`rm -rf /`"',
+			words: ["npm", "test", "$(echo test)", "`rm -rf /`"],
+			hasSubstitution: true,
+		})
+		expect(inner.map(({ text }) => text)).toEqual(["echo test", "rm -rf /"])
+		expect(texts("diff <(ls a) $(cat $(echo file))")).toEqual([
+			"diff <(ls a) $(cat $(echo file))",
+			"ls a",
+			"cat $(echo file)",
+			"echo file",
+		])
+	})
+
+	it("handles redirections", () => {
+		expect(texts('npm test 2>&1 | Select-String "Error"')).toEqual(["npm test 2>&1", 'Select-String "Error"'])
+		expect(words("npm test 2>&1 >out.txt 2>> err.txt &> all")).toEqual([
+			["npm", "test", ">", "out.txt", "2>>", "err.txt", "&>", "all"],
+		])
+	})
+
+	it("skips comments and empty input", () => {
+		expect(texts("ls # && rm -rf /")).toEqual(["ls"])
+		expect(texts("")).toEqual([])
+		expect(texts(" \t ")).toEqual([])
+	})
+})
+
+describe("evaluateCommandPolicy", () => {
+	const layers = (rules: Partial<Record<"workspace" | "mode" | "allowedCommands", string[]>>) =>
+		Object.entries(rules).map(
+			([source, commands]): CommandPolicyLayer => ({
+				source: source as CommandPolicyLayer["source"],
+				rules: commands.map((command) =>
+					command.startsWith("!")
+						? { action: "deny", command: command.slice(1) }
+						: { action: "allow", command },
+				),
+			}),
+		)
+
+	const decide = (command: string, policy: CommandPolicyLayer[]) => evaluateCommandPolicy(command, policy).decision
+
+	it("turns the allowed commands into prefix rules", () => {
+		const policy = getCommandPolicyLayers({ allowedCommands: ["npm test", "npm run", "echo"] })
+
+		expect(decide("npm test", policy)).toBe("allow")
+		expect(decide("NPM TEST --coverage", policy)).toBe("allow")
+		expect(decide('echo "hello world"', policy)).toBe("allow")
+		expect(decide("npmtest", policy)).toBe("ask")
+		expect(decide("npm install", policy)).toBe("ask")
+		// Like the prefixes they were before.
+		expect(decide("npm run test:unit --watch", policy)).toBe("allow")
+		expect(decide("echo`whoami`", getCommandPolicyLayers({ allowedCommands: ["*"] }))).toBe("allow")
+	})
+
+	it("allows a chain only if every command is allowed", () => {
+		const policy = layers({ allowedCommands: ["npm test *", "Select-String *"] })
+
+		expect(decide('npm test 2>&1 | Select-String -NotMatch "node_modules" | Select-String "FAIL|Error"', policy)).toBe(
+			"allow",
+		)
+		expect(decide("npm test && rm -rf /", policy)).toBe("ask")
+	})
+
+	it("matches argument patterns", () => {
+		const policy = layers({ workspace: ["git push", "git push origin feature/*", "npm run test*"] })
+
+		expect(decide("git push", policy)).toBe("allow")
+		expect(decide("git push origin feature/login", policy)).toBe("allow")
+		expect(decide("git push origin main", policy)).toBe("ask")
+		expect(decide("npm run test:unit", policy)).toBe("allow")
+		expect(decide("npm run build", policy)).toBe("ask")
+	})
+
+	it("lets deny rules of any layer win", () => {
+		const policy = layers({ workspace: ["!git push * --force*", "!rm -rf *"], allowedCommands: ["*"] })
+
+		expect(decide("git push origin main", policy)).toBe("allow")
+		expect(decide("git push origin main --force-with-lease", policy)).toBe("deny")
+		expect(decide("npm test && rm -rf build", policy)).toBe("deny")
+		expect(decide("CI=1 /bin/rm -rf build", policy)).toBe("deny")
+		expect(decide("ls $(rm -rf build)", policy)).toBe("deny")
+	})
+
+	it("asks for commands with substitutions unless everything is allowed", () => {
+		expect(decide("echo $(git rev-parse HEAD)", layers({ allowedCommands: ["echo *", "git *"] }))).toBe("ask")
+		expect(decide("echo `whoami`", layers({ allowedCommands: ["*"] }))).toBe("allow")
+	})
+
+	it("reports the rule that decided each command", () => {
+		const result = evaluateCommandPolicy(
+			"npm test; npm publish",
+			getCommandPolicyLayers({
+				workspacePolicy: {
+					rules: [{ action: "deny", command: "npm publish *", description: "Releases are made by CI" }],
+				},
+				modePolicy: { rules: [{ action: "allow", command: "npm test" }] },
+			}),
+		)
+
+		expect(result.commands).toEqual([
+			{
+				command: "npm test",
+				decision: "allow",
+				match: { source: "mode", rule: { action: "allow", command: "npm test" } },
+				hasSubstitution: false,
+			},
+			{
+				command: "npm publish",
+				decision: "deny",
+				match: {
+					source: "workspace",
+					rule: { action: "deny", command: "npm publish *", description: "Releases are made by CI" },
+				},
+				hasSubstitution: false,
+			},
+		])
+		expect(describeDeniedCommand(result)).toBe(
+			"'npm publish' is denied by the rule 'npm publish *' of the workspace command policy (.kodely/command-policy.json): Releases are made by CI",
+		)
+	})
+})
@@ -0,0 +1,36 @@
+export type CheckpointFileChange = {
+	paths: {
+		// Relative to the workspace folder, prefixed with the folder name for other workspace folders
+		relative: string
+		absolute: string
+	}
+	status: "added" | "modified" | "deleted"
+}
+
+export type CheckpointTimelineEntry = {
+	ts: number
+	commitHash: string
+	previousCommitHash?: string
+	isFirst: boolean
+	// Files changed since the previous checkpoint
+	files: CheckpointFileChange[]
+}
+
+// A hunk of the changes that restore a file from the workspace to a checkpoint
+export type CheckpointRestoreHunk = {
+	header: string
+	// Diff lines prefixed with " ", "-" (removed from the workspace) or "+" (restored from the checkpoint)
+	lines: string[]
+}
+
+export type CheckpointWorkspaceUsage = {
+	// Empty for checkpoints whose workspace isn't known, like those of deleted tasks
+	workspace: string
+	size: number
+	taskCount: number
+}
+
+export type CheckpointStorageUsage = {
+	totalSize: number
+	workspaces: CheckpointWorkspaceUsage[]
+}
@@ -0,0 +1,401 @@
+import type { CommandPolicy, CommandPolicyRule } from "../schemas"
+
+export type { CommandPolicy, CommandPolicyRule }
+
+// The policy of a workspace, relative to its root.
+export const WORKSPACE_COMMAND_POLICY_FILE = ".kodely/command-policy.json"
+
+/**
+ * A single command of a command chain, e.g. `npm test` in
+ * `npm test && npm run build`.
+ */
+export type ParsedCommand = {
+	// The command as written, without the operators chaining it to others.
+	text: string
+	// Its words with quotes and escapes removed, redirections included.
+	words: string[]
+	// Whether its words contain command substitutions, e.g. `$(cat file)`,
+	// which expand to what the commands inside output.
+	hasSubstitution: boolean
+}
+
+const CHAIN_OPERATOR = /^(?:&&|\|\||\|&|;;|;|\||&|\r?\n)/
+// Duplications like `2>&1` or `>&-` don't read or write any files.
+const FD_DUPLICATION = /^[<>]&(?:\d+|-)/
+const REDIRECTION = /^(?:&>>|&>|>>|>\||<<<|<<-|<<|<>|>|<)/
+const ENV_ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/
+
+/**
+ * Returns the index after the `)` that closes the substitution opened at `start`,
+ * skipping quoted parentheses.
+ */
+function findSubstitutionEnd(command: string, start: number): number {
+	let depth = 1
+	let i = start
+
+	while (i < command.length && depth > 0) {
+		const char = command[i]
+
+		if (char === "\\") {
+			i += 2
+			continue
+		} else if (char === "'" || char === '"') {
+			const end = command.indexOf(char, i + 1)
+			i = end === -1 ? command.length : end + 1
+			continue
+		} else if (char === "(") {
+			depth++
+		} else if (char === ")") {
+			depth--
+		}
+
+		i++
+	}
+
+	return i
+}
+
+/**
+ * Splits a shell command into the commands it runs: those chained with `&&`,
+ * `||`, `;`, `|`, `&` or newlines, those grouped in parentheses, and those in
+ * command substitutions (`$(...)`, `` `...` `` and `<(...)`), which follow the
+ * commands they are part of.
+ *
+ * It follows POSIX shell quoting, which also covers the common cases of
+ * PowerShell and cmd.exe.
+ */
+export function parseCommandChain(command: string): ParsedCommand[] {
+	const commands: ParsedCommand[] = []
+	const substitutions: string[] = []
+
+	let words: string[] = []
+	// Undefined between words, since quotes can make an empty word.
+	let word: string | undefined
+	let hasSubstitution = false
+	let start = 0
+	let i = 0
+
+	const endWord = () => {
+		if (word !== undefined) {
+			words.push(word)
+			word = undefined
+		}
+	}
+
+	const endCommand = (end: number) => {
+		endWord()
+
+		if (words.length > 0) {
+			commands.push({ text: command.slice(start, end).trim(), words, hasSubstitution })
+		}
+
+		words = []
+		hasSubstitution = false
+	}
+
+	// Adds the substitution starting at `i` to the current word.
+	const readSubstitution = (openLength: number) => {
+		const isBacktick = command[i] === "`"
+		const end = isBacktick
+			? command.indexOf("`", i + 1) + 1 || command.length
+			: findSubstitutionEnd(command, i + openLength)
+		const closeLength = command[end - 1] === (isBacktick ? "`" : ")") ? 1 : 0
+
+		substitutions.push(command.slice(i + openLength, end - closeLength))
+		hasSubstitution = true
+		word = (word ?? "") + command.slice(i, end)
+		i = end
+	}
+
+	while (i < command.length) {
+		const char = command[i]
+		const rest = command.slice(i)
+
+		if (char === "\\") {
+			// A backslash before a newline continues the line.
+			word = command[i + 1] === "\n" ? word : (word ?? "") + (command[i + 1] ?? "")
+			i += 2
+		} else if (char === "'") {
+			const end = command.indexOf("'", i + 1)
+			word = (word ?? "") + command.slice(i + 1, end === -1 ? undefined : end)
+			i = end === -1 ? command.length : end + 1
+		} else if (char === '"') {
+			word = word ?? ""
+			i++
+
+			while (i < command.length && command[i] !== '"') {
+				if (command[i] === "\\" && '"\\$`'.includes(command[i + 1])) {
+					word += command[i + 1]
+					i += 2
+				} else if (command.startsWith("$(", i)) {
+					readSubstitution(2)
+				} else if (command[i] === "`") {
+					readSubstitution(1)
+				} else {
+					word += command[i++]
+				}
+			}
+
+			i++
+		} else if (rest.startsWith("$(") || /^[<>]\(/.test(rest)) {
+			readSubstitution(2)
+		} else if (char === "`") {
+			readSubstitution(1)
+		} else if (char === "#" && word === undefined) {
+			// Comments run until the end of the line, which ends the command.
+			const end = command.indexOf("\n", i)
+			endCommand(i)
+			i = end === -1 ? command.length : end
+			start = i
+		} else if (FD_DUPLICATION.test(rest)) {
+			// Drop the file descriptor the duplication starts with, if any.
+			word = word !== undefined && /^\d+$/.test(word) ? undefined : word
+			endWord()
+			i += FD_DUPLICATION.exec(rest)![0].length
+		} else if (REDIRECTION.test(rest)) {
+			const operator = REDIRECTION.exec(rest)![0]
+			const fd = word !== undefined && /^\d+$/.test(word) ? word : ""
+
+			word = fd ? undefined : word
+			endWord()
+			words.push(fd + operator)
+			i += operator.length
+		} else if (CHAIN_OPERATOR.test(rest)) {
+			endCommand(i)
+			i += CHAIN_OPERATOR.exec(rest)![0].length
+			start = i
+		} else if (char === "(" || char === ")") {
+			endCommand(i)
+			start = ++i
+		} else if (/\s/.test(char)) {
+			endWord()
+			i++
+		} else {
+			word = (word ?? "") + char
+			i++
+		}
+	}
+
+	endCommand(command.length)
+
+	for (const substitution of substitutions) {
+		commands.push(...parseCommandChain(substitution))
+	}
+
+	return commands
+}
+
+/**
+ * Matches a word against a pattern word, in which `*` matches any characters.
+ * Like the allowed commands before them, patterns ignore case.
+ */
+function matchesWord(pattern: string, word: string): boolean {
+	if (!pattern.includes("*")) {
+		return pattern.toLowerCase() === word.toLowerCase()
+	}
+
+	const source = pattern
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join("[\\s\\S]*")
+
+	return new RegExp(`^${source}$`, "i").test(word)
+}
+
+/**
+ * Matches words against pattern words, in which a `*` word matches any number
+ * of words, including none.
+ */
+function matchesWords(patterns: string[], words: string[]): boolean {
+	if (patterns.length === 0) {
+		return words.length === 0
+	}
+
+	const [pattern, ...restPatterns] = patterns
+
+	if (pattern === "*") {
+		for (let i = 0; i <= words.length; i++) {
+			if (matchesWords(restPatterns, words.slice(i))) {
+				return true
+			}
+		}
+
+		return false
+	}
+
+	return words.length > 0 && matchesWord(pattern, words[0]) && matchesWords(restPatterns, words.slice(1))
+}
+
+/**
+ * Whether a command matches the command of a rule, a command with argument
+ * patterns like `npm run test*` or `git push * --force*`.
+ *
+ * Deny rules also match commands behind environment variable assignments or
+ * run with a path, so `CI=1 /usr/bin/git push --force` can't get around
+ * `git push * --force`. Allow rules only match commands as written.
+ */
+export function matchesCommandPolicyRule(rule: CommandPolicyRule, command: ParsedCommand): boolean {
+	const patterns = parseCommandChain(rule.command)[0]?.words ?? []
+
+	if (matchesWords(patterns, command.words)) {
+		return true
+	}
+
+	if (rule.action !== "deny") {
+		return false
+	}
+
+	const words = [...command.words]
+
+	while (words.length > 1 && ENV_ASSIGNMENT.test(words[0])) {
+		words.shift()
+	}
+
+	if (words.length > 0) {
+		words[0] = words[0].split(/[\\/]/).pop()!.replace(/\.(exe|cmd|bat)$/i, "")
+	}
+
+	return matchesWords(patterns, words)
+}
+
+/**
+ * Where the rules of a policy layer come from, in the order the layers are
+ * evaluated.
+ */
+export type CommandPolicySource = "workspace" | "mode" | "allowedCommands"
+
+export type CommandPolicyLayer = {
+	source: CommandPolicySource
+	rules: CommandPolicyRule[]
+}
+
+export type CommandPolicyDecision = "allow" | "deny" | "ask"
+
+export type CommandPolicyMatch = {
+	source: CommandPolicySource
+	rule: CommandPolicyRule
+}
+
+export type CommandPolicyCommandResult = {
+	command: string
+	decision: CommandPolicyDecision
+	// The rule that decided, none if no rule matches.
+	match?: CommandPolicyMatch
+	// Allowed commands with substitutions still need approval, unless all commands are allowed.
+	hasSubstitution: boolean
+}
+
+export type CommandPolicyResult = {
+	decision: CommandPolicyDecision
+	commands: CommandPolicyCommandResult[]
+}
+
+/**
+ * Turns the prefixes of the `allowedCommands` setting into allow rules that
+ * still match like prefixes: `npm run test` allows `npm run test` with any
+ * arguments, but also `npm run test:unit`, and `*` allows everything.
+ */
+export function allowedCommandsToRules(allowedCommands: string[] = []): CommandPolicyRule[] {
+	return allowedCommands
+		.map((command) => command.trim())
+		.filter(Boolean)
+		.map((command): CommandPolicyRule => {
+			if (command === "*") {
+				return { action: "allow", command }
+			}
+
+			// The last word matches the start of a word, the rest any further words.
+			return { action: "allow", command: `${command.endsWith("*") ? command : `${command}*`} *` }
+		})
+}
+
+/**
+ * Collects the policy layers that apply to a task.
+ */
+export function getCommandPolicyLayers({
+	workspacePolicy,
+	modePolicy,
+	allowedCommands,
+}: {
+	workspacePolicy?: CommandPolicy
+	modePolicy?: CommandPolicy
+	allowedCommands?: string[]
+}): CommandPolicyLayer[] {
+	return [
+		{ source: "workspace", rules: workspacePolicy?.rules ?? [] },
+		{ source: "mode", rules: modePolicy?.rules ?? [] },
+		{ source: "allowedCommands", rules: allowedCommandsToRules(allowedCommands) },
+	]
+}
+
+const findMatch = (
+	layers: CommandPolicyLayer[],
+	command: ParsedCommand,
+	action: CommandPolicyRule["action"],
+): CommandPolicyMatch | undefined => {
+	for (const { source, rules } of layers) {
+		const rule = rules.find((rule) => rule.action === action && matchesCommandPolicyRule(rule, command))
+
+		if (rule) {
+			return { source, rule }
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Decides whether a command chain may run without approval.
+ *
+ * Each of its commands is denied if a deny rule of any layer matches it, and
+ * allowed if an allow rule does; deny rules win, whatever layer they are in.
+ * The chain is denied if any command is denied, allowed if all of them are,
+ * and needs approval otherwise.
+ */
+export function evaluateCommandPolicy(command: string, layers: CommandPolicyLayer[]): CommandPolicyResult {
+	const commands = parseCommandChain(command).map((parsed): CommandPolicyCommandResult => {
+		const deny = findMatch(layers, parsed, "deny")
+
+		if (deny) {
+			return { command: parsed.text, decision: "deny", match: deny, hasSubstitution: parsed.hasSubstitution }
+		}
+
+		const allow = findMatch(layers, parsed, "allow")
+		// What a substitution expands to is only known once it ran.
+		const isAllowed = !!allow && (!parsed.hasSubstitution || allow.rule.command.trim() === "*")
+
+		return {
+			command: parsed.text,
+			decision: isAllowed ? "allow" : "ask",
+			match: allow,
+			hasSubstitution: parsed.hasSubstitution,
+		}
+	})
+
+	const decision = commands.some((result) => result.decision === "deny")
+		? "deny"
+		: commands.every((result) => result.decision === "allow")
+			? "allow"
+			: "ask"
+
+	return { decision, commands }
+}
+
+const SOURCE_DESCRIPTIONS: Record<CommandPolicySource, string> = {
+	workspace: `the workspace command policy (${WORKSPACE_COMMAND_POLICY_FILE})`,
+	mode: "the command policy of the current mode",
+	allowedCommands: "the allowed commands setting",
+}
+
+/**
+ * Explains why a command chain was denied, for the model.
+ */
+export function describeDeniedCommand(result: CommandPolicyResult): string {
+	return result.commands
+		.filter(({ decision }) => decision === "deny")
+		.map(({ command, match }) => {
+			const reason = match!.rule.description ? `: ${match!.rule.description}` : ""
+			return `'${command}' is denied by the rule '${match!.rule.command}' of ${SOURCE_DESCRIPTIONS[match!.source]}${reason}`
+		})
+		.join("\n")
+}
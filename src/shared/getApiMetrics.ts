@@ -78,6 +78,26 @@ export function getApiMetrics(messages: ClineMessage[]) {
 				console.error("Error parsing JSON:", error)
 			}
 		}
+
+		// Summaries of condensed conversations are requests of their own, but
+		// don't tell how large the context is.
+		if (message.type === "say" && message.say === "condense_context" && message.text) {
+			try {
+				const { tokensIn, tokensOut, cost } = JSON.parse(message.text)
+
+				if (typeof tokensIn === "number") {
+					result.totalTokensIn += tokensIn
+				}
+				if (typeof tokensOut === "number") {
+					result.totalTokensOut += tokensOut
+				}
+				if (typeof cost === "number") {
+					result.totalCost += cost
+				}
+			} catch (error) {
+				console.error("Error parsing JSON:", error)
+			}
+		}
 	})
 
 	return result
@@ -8,4 +8,6 @@ export const GlobalFileNames = {
 	unboundModels: "unbound_models.json",
 	customModes: "custom_modes.json",
 	taskMetadata: "task_metadata.json",
+	spendLedger: "spend_ledger.json",
+	mcpAuditLog: "mcp_audit_log.jsonl",
 }
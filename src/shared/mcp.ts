@@ -6,10 +6,13 @@ export type McpServer = {
 	tools?: McpTool[]
 	resources?: McpResource[]
 	resourceTemplates?: McpResourceTemplate[]
+	prompts?: McpPrompt[]
 	disabled?: boolean
 	timeout?: number
 	source?: "global" | "project"
 	projectPath?: string
+	// The transport in use, which is "sse" for a Streamable HTTP server that fell back to SSE
+	transport?: "stdio" | "sse" | "streamable-http"
 }
 
 export type McpTool = {
@@ -33,6 +36,18 @@ export type McpResourceTemplate = {
 	mimeType?: string
 }
 
+export type McpPromptArgument = {
+	name: string
+	description?: string
+	required?: boolean
+}
+
+export type McpPrompt = {
+	name: string
+	description?: string
+	arguments?: McpPromptArgument[]
+}
+
 export type McpResourceResponse = {
 	_meta?: Record<string, any>
 	contents: Array<{
@@ -67,3 +82,32 @@ export type McpToolCallResponse = {
 	>
 	isError?: boolean
 }
+
+export type McpPromptResponse = {
+	_meta?: Record<string, any>
+	description?: string
+	messages: Array<{
+		role: "user" | "assistant"
+		content:
+			| McpToolCallResponse["content"][number]
+			| {
+				type: "audio"
+				data: string
+				mimeType: string
+			}
+	}>
+}
+
+export type McpAuditEntry = {
+	ts: number
+	serverName: string
+	source?: "global" | "project"
+	toolName: string
+	arguments?: Record<string, unknown>
+	taskId?: string
+	durationMs: number
+	// Length of the serialized result content, in characters
+	resultSize: number
+	isError: boolean
+	error?: string
+}
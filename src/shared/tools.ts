@@ -56,6 +56,12 @@ export const toolParamNames = [
 	"follow_up",
 	"task",
 	"size",
+	"query",
+	"name",
+	"pattern",
+	"timeout",
+	"runner",
+	"target",
 ] as const
 
 export type ToolParamName = (typeof toolParamNames)[number]
@@ -74,6 +80,16 @@ export interface ExecuteCommandToolUse extends ToolUse {
 	params: Partial<Pick<Record<ToolParamName, string>, "command" | "cwd">>
 }
 
+export interface BackgroundProcessToolUse extends ToolUse {
+	name: "background_process"
+	params: Partial<Pick<Record<ToolParamName, string>, "action" | "name" | "command" | "cwd" | "pattern" | "timeout">>
+}
+
+export interface RunTestsToolUse extends ToolUse {
+	name: "run_tests"
+	params: Partial<Pick<Record<ToolParamName, string>, "runner" | "target" | "cwd">>
+}
+
 export interface ReadFileToolUse extends ToolUse {
 	name: "read_file"
 	params: Partial<Pick<Record<ToolParamName, string>, "path" | "start_line" | "end_line">>
@@ -109,6 +125,11 @@ export interface ListCodeDefinitionNamesToolUse extends ToolUse {
 	params: Partial<Pick<Record<ToolParamName, string>, "path">>
 }
 
+export interface CodebaseSearchToolUse extends ToolUse {
+	name: "codebase_search"
+	params: Partial<Pick<Record<ToolParamName, string>, "query" | "path">>
+}
+
 export interface BrowserActionToolUse extends ToolUse {
 	name: "browser_action"
 	params: Partial<Pick<Record<ToolParamName, string>, "action" | "url" | "coordinate" | "text" | "size">>
@@ -121,7 +142,7 @@ export interface UseMcpToolToolUse extends ToolUse {
 
 export interface AccessMcpResourceToolUse extends ToolUse {
 	name: "access_mcp_resource"
-	params: Partial<Pick<Record<ToolParamName, string>, "server_name" | "uri">>
+	params: Partial<Pick<Record<ToolParamName, string>, "server_name" | "uri" | "arguments">>
 }
 
 export interface AskFollowupQuestionToolUse extends ToolUse {
@@ -152,6 +173,8 @@ export type ToolGroupConfig = {
 
 export const TOOL_DISPLAY_NAMES: Record<ToolName, string> = {
 	execute_command: "run commands",
+	background_process: "run background processes",
+	run_tests: "run tests",
 	read_file: "read files",
 	fetch_instructions: "fetch instructions",
 	write_to_file: "write files",
@@ -160,6 +183,7 @@ export const TOOL_DISPLAY_NAMES: Record<ToolName, string> = {
 	search_files: "search files",
 	list_files: "list files",
 	list_code_definition_names: "list definitions",
+	codebase_search: "search codebase",
 	browser_action: "use a browser",
 	use_mcp_tool: "use mcp tools",
 	access_mcp_resource: "access mcp resources",
@@ -176,7 +200,14 @@ export type { ToolGroup }
 // Define available tool groups.
 export const TOOL_GROUPS: Record<ToolGroup, ToolGroupConfig> = {
 	read: {
-		tools: ["read_file", "fetch_instructions", "search_files", "list_files", "list_code_definition_names"],
+		tools: [
+			"read_file",
+			"fetch_instructions",
+			"search_files",
+			"list_files",
+			"list_code_definition_names",
+			"codebase_search",
+		],
 	},
 	edit: {
 		tools: ["apply_diff", "write_to_file", "append_to_file", "insert_content", "search_and_replace"],
@@ -185,7 +216,7 @@ export const TOOL_GROUPS: Record<ToolGroup, ToolGroupConfig> = {
 		tools: ["browser_action"],
 	},
 	command: {
-		tools: ["execute_command"],
+		tools: ["execute_command", "background_process", "run_tests"],
 	},
 	mcp: {
 		tools: ["use_mcp_tool", "access_mcp_resource"],
@@ -2,7 +2,14 @@
 import os from "os"
 import * as path from "path"
 
-import { arePathsEqual, getReadablePath, getWorkspacePath } from "../path"
+import {
+	arePathsEqual,
+	findWorkspaceRoot,
+	getQualifiedPath,
+	getReadablePath,
+	getWorkspacePath,
+	resolveWorkspacePath,
+} from "../path"
 
 // Mock modules
 
@@ -170,4 +177,33 @@ describe("Path Utilities", () => {
 			expect(getReadablePath(cwd, filePath)).toBe("src/file.txt")
 		})
 	})
+
+	describe("multi-root workspaces", () => {
+		const frontend = path.resolve("/projects/frontend")
+		const backend = path.resolve("/projects/backend")
+		const roots = [
+			{ name: "frontend", path: frontend },
+			{ name: "backend", path: backend },
+			{ name: "api", path: path.join(backend, "api") },
+		]
+
+		it("resolves paths qualified with a workspace folder name", () => {
+			expect(resolveWorkspacePath(frontend, "backend:src/index.ts", roots)).toBe(
+				path.join(backend, "src", "index.ts"),
+			)
+			expect(resolveWorkspacePath(frontend, "src/index.ts", roots)).toBe(path.join(frontend, "src", "index.ts"))
+			expect(resolveWorkspacePath(frontend, "unknown:src", roots)).toBe(path.join(frontend, "unknown:src"))
+		})
+
+		it("finds the innermost workspace folder of a path", () => {
+			expect(findWorkspaceRoot(path.join(backend, "api", "routes.ts"), roots)?.name).toBe("api")
+			expect(findWorkspaceRoot(path.join(backend, "main.ts"), roots)?.name).toBe("backend")
+			expect(findWorkspaceRoot(path.resolve("/projects/other/file.ts"), roots)).toBeUndefined()
+		})
+
+		it("qualifies paths in other workspace folders", () => {
+			expect(getQualifiedPath(frontend, path.join(backend, "src", "index.ts"), roots)).toBe("backend:src/index.ts")
+			expect(getQualifiedPath(frontend, path.join(frontend, "src", "index.ts"), roots)).toBeUndefined()
+		})
+	})
 })
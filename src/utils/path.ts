@@ -79,10 +79,59 @@ function normalizePath(p: string): string {
 	return normalized
 }
 
+export type WorkspaceRoot = {
+	name: string
+	path: string
+}
+
+export const getWorkspaceRoots = (): WorkspaceRoot[] =>
+	(vscode.workspace?.workspaceFolders ?? []).map((folder) => ({ name: folder.name, path: folder.uri.fsPath }))
+
+// Matches paths qualified with the name of a workspace folder, e.g.
+// "backend:src/index.ts". Single letters are Windows drives, not folders.
+const QUALIFIED_PATH_REGEX = /^([^:/\\]{2,}):(.*)$/
+
+/**
+ * Resolves a path given by the AI or the user. Paths qualified with the name
+ * of a workspace folder, like `backend:src/index.ts`, resolve against that
+ * folder; anything else resolves against `cwd` like `path.resolve` does.
+ */
+export function resolveWorkspacePath(cwd: string, relPath: string, roots = getWorkspaceRoots()): string {
+	const match = QUALIFIED_PATH_REGEX.exec(relPath)
+	const root = match ? roots.find(({ name }) => name === match[1]) : undefined
+
+	return match && root ? path.resolve(root.path, match[2]) : path.resolve(cwd, relPath)
+}
+
+/**
+ * Finds the workspace folder containing an absolute path, preferring the
+ * innermost folder when folders are nested.
+ */
+export function findWorkspaceRoot(absolutePath: string, roots = getWorkspaceRoots()): WorkspaceRoot | undefined {
+	return roots
+		.filter((root) => {
+			const relativePath = path.relative(root.path, absolutePath)
+			return !relativePath.startsWith("..") && !path.isAbsolute(relativePath)
+		})
+		.sort((a, b) => b.path.length - a.path.length)[0]
+}
+
+/**
+ * Qualifies a path in a workspace folder other than `cwd` with the folder
+ * name, the form `resolveWorkspacePath` accepts.
+ */
+export function getQualifiedPath(cwd: string, absolutePath: string, roots = getWorkspaceRoots()): string | undefined {
+	const root = findWorkspaceRoot(absolutePath, roots)
+
+	return root && !arePathsEqual(root.path, cwd)
+		? `${root.name}:${path.relative(root.path, absolutePath).toPosix()}`
+		: undefined
+}
+
 export function getReadablePath(cwd: string, relPath?: string): string {
 	relPath = relPath || ""
 	// path.resolve is flexible in that it will resolve relative paths like '../../' to the cwd and even ignore the cwd if the relPath is actually an absolute path
-	const absolutePath = path.resolve(cwd, relPath)
+	const absolutePath = resolveWorkspacePath(cwd, relPath)
 	if (arePathsEqual(cwd, path.join(os.homedir(), "Desktop"))) {
 		// User opened vscode without a workspace, so cwd is the Desktop. Show the full absolute path to keep the user aware of where files are being created
 		return absolutePath.toPosix()
@@ -94,10 +143,16 @@ export function getReadablePath(cwd: string, relPath?: string): string {
 		const normalizedRelPath = path.relative(cwd, absolutePath)
 		if (absolutePath.includes(cwd)) {
 			return normalizedRelPath.toPosix()
-		} else {
-			// we are outside the cwd, so show the absolute path (useful for when cline passes in '../../' for example)
-			return absolutePath.toPosix()
 		}
+
+		// Files in other workspace folders are shown qualified with the folder name
+		const qualifiedPath = getQualifiedPath(cwd, absolutePath)
+		if (qualifiedPath) {
+			return qualifiedPath
+		}
+
+		// we are outside the cwd, so show the absolute path (useful for when cline passes in '../../' for example)
+		return absolutePath.toPosix()
 	}
 }
 
@@ -2,7 +2,11 @@ import React from "react"
 
 export const Check = () => React.createElement("div")
 export const ChevronsUpDown = () => React.createElement("div")
+export const ChevronDown = () => React.createElement("div")
+export const ChevronUp = () => React.createElement("div")
 export const Loader = () => React.createElement("div")
 export const X = () => React.createElement("div")
+export const XIcon = () => React.createElement("div")
 export const Edit = () => React.createElement("div")
 export const Database = (props: any) => React.createElement("span", { "data-testid": "database-icon", ...props })
+export const GitBranch = () => React.createElement("div")
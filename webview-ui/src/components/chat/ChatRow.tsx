@@ -10,9 +10,12 @@ import { useCopyToClipboard } from "../../utils/clipboard"
 import { safeJsonParse } from "../../utils/json"
 import {
 	ClineApiReqInfo,
+	ClineAskBudgetExceeded,
 	ClineAskUseMcpServer,
+	ClineCondenseInfo,
 	ClineMessage,
 	ClineSayTool,
+	ClineTestRunSummary,
 } from "../../../../src/shared/ExtensionMessage"
 import { COMMAND_OUTPUT_STRING } from "../../../../src/shared/combineCommandSequences"
 import { useExtensionState } from "../../context/ExtensionStateContext"
@@ -29,6 +32,8 @@ import McpToolRow from "../mcp/McpToolRow"
 import { highlightMentions } from "./TaskHeader"
 import { CheckpointSaved } from "./checkpoints/CheckpointSaved"
 import { FollowUpSuggest } from "./FollowUpSuggest"
+import { CommandPolicyExplanation } from "./CommandPolicyExplanation"
+import { TestResults } from "./TestResults"
 
 interface ChatRowProps {
 	message: ClineMessage
@@ -94,13 +99,13 @@ export const ChatRowContent = ({
 	const [showCopySuccess, setShowCopySuccess] = useState(false)
 	const { copyWithFeedback } = useCopyToClipboard()
 
-	const [cost, apiReqCancelReason, apiReqStreamingFailedMessage] = useMemo(() => {
+	const [cost, apiReqCancelReason, apiReqStreamingFailedMessage, apiReqModel, apiReqProfileName] = useMemo(() => {
 		if (message.text !== null && message.text !== undefined && message.say === "api_req_started") {
 			const info = safeJsonParse<ClineApiReqInfo>(message.text)
-			return [info?.cost, info?.cancelReason, info?.streamingFailedMessage]
+			return [info?.cost, info?.cancelReason, info?.streamingFailedMessage, info?.model, info?.profileName]
 		}
 
-		return [undefined, undefined, undefined]
+		return [undefined, undefined, undefined, undefined, undefined]
 	}, [message.text, message.say])
 
 	// When resuming task, last wont be api_req_failed but a resume_task
@@ -139,6 +144,13 @@ export const ChatRowContent = ({
 						style={{ color: errorColor, marginBottom: "-1.5px" }}></span>,
 					<span style={{ color: errorColor, fontWeight: "bold" }}>{t("chat:troubleMessage")}</span>,
 				]
+			case "budget_exceeded":
+				return [
+					<span
+						className="codicon codicon-warning"
+						style={{ color: errorColor, marginBottom: "-1.5px" }}></span>,
+					<span style={{ color: errorColor, fontWeight: "bold" }}>{t("chat:budgetExceeded.title")}</span>,
+				]
 			case "command":
 				return [
 					isCommandExecuting ? (
@@ -482,6 +494,32 @@ export const ChatRowContent = ({
 						/>
 					</>
 				)
+			case "codebaseSearch":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("search")}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey={
+										message.type === "ask"
+											? "chat:directoryOperations.wantsToSearchCodebase"
+											: "chat:directoryOperations.didSearchCodebase"
+									}
+									components={{ code: <code>{tool.query}</code> }}
+									values={{ query: tool.query }}
+								/>
+							</span>
+						</div>
+						<CodeAccordian
+							code={tool.content!}
+							path={tool.path!}
+							language="markdown"
+							isExpanded={isExpanded}
+							onToggleExpand={onToggleExpand}
+						/>
+					</>
+				)
 			case "switchMode":
 				return (
 					<>
@@ -525,6 +563,66 @@ export const ChatRowContent = ({
 						</div>
 					</>
 				)
+			case "backgroundProcess":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("server-process")}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey={`chat:backgroundProcess.${tool.action ?? "start"}`}
+									components={{ code: <code /> }}
+									values={{ name: tool.name, pattern: tool.pattern }}
+								/>
+							</span>
+						</div>
+						{tool.action === "start" && tool.command && (
+							<>
+								<div
+									style={{
+										borderRadius: 3,
+										border: "1px solid var(--vscode-editorGroup-border)",
+										overflow: "hidden",
+										backgroundColor: CODE_BLOCK_BG_COLOR,
+									}}>
+									<CodeBlock source={`${"```"}shell\n${tool.command}\n${"```"}`} forceWrap={true} />
+								</div>
+								{isLast && message.type === "ask" && !message.partial && (
+									<CommandPolicyExplanation command={tool.command} />
+								)}
+							</>
+						)}
+					</>
+				)
+			case "runTests":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("beaker")}
+							<span style={{ fontWeight: "bold" }}>
+								{tool.runner
+									? t("chat:testResults.wantsToRun", { runner: tool.runner })
+									: t("chat:testResults.wantsToRunDetected")}
+							</span>
+						</div>
+						{tool.command && (
+							<>
+								<div
+									style={{
+										borderRadius: 3,
+										border: "1px solid var(--vscode-editorGroup-border)",
+										overflow: "hidden",
+										backgroundColor: CODE_BLOCK_BG_COLOR,
+									}}>
+									<CodeBlock source={`${"```"}shell\n${tool.command}\n${"```"}`} forceWrap={true} />
+								</div>
+								{isLast && message.type === "ask" && !message.partial && (
+									<CommandPolicyExplanation command={tool.command} />
+								)}
+							</>
+						)}
+					</>
+				)
 			case "newTask":
 				return (
 					<>
@@ -742,6 +840,49 @@ export const ChatRowContent = ({
 							</div>
 						</div>
 					)
+				case "condense_context": {
+					const info = safeJsonParse<ClineCondenseInfo>(message.text)
+
+					if (!info) {
+						return null
+					}
+
+					return (
+						<>
+							<div
+								style={{ ...headerStyle, justifyContent: "space-between", cursor: "pointer" }}
+								onClick={onToggleExpand}
+								data-testid="condense-context">
+								<div style={{ display: "flex", alignItems: "center", gap: "10px", flexGrow: 1 }}>
+									<span
+										className="codicon codicon-fold"
+										style={{ color: normalColor, marginBottom: "-1.5px" }}></span>
+									<span style={{ fontWeight: "bold" }}>{t("chat:condenseContext.title")}</span>
+									<span className="text-xs opacity-70 truncate">
+										{t("chat:condenseContext.details", {
+											count: info.messagesCondensed,
+											model: info.model,
+										})}
+									</span>
+									<VSCodeBadge style={{ opacity: info.cost > 0 ? 1 : 0 }}>
+										${Number(info.cost || 0).toFixed(4)}
+									</VSCodeBadge>
+								</div>
+								<span className={`codicon codicon-chevron-${isExpanded ? "up" : "down"}`}></span>
+							</div>
+							{isExpanded && (
+								<div style={{ marginTop: "10px" }}>
+									<CodeAccordian
+										code={info.summary}
+										language="markdown"
+										isExpanded={true}
+										onToggleExpand={onToggleExpand}
+									/>
+								</div>
+							)}
+						</>
+					)
+				}
 				case "reasoning":
 					return (
 						<ReasoningBlock
@@ -773,6 +914,19 @@ export const ChatRowContent = ({
 								<div style={{ display: "flex", alignItems: "center", gap: "10px", flexGrow: 1 }}>
 									{icon}
 									{title}
+									{apiReqModel && (
+										<span
+											className="text-xs opacity-70 truncate"
+											title={apiReqModel}
+											data-testid="api-req-model">
+											{apiReqProfileName
+												? t("chat:apiRequest.routedModel", {
+														model: apiReqModel,
+														profile: apiReqProfileName,
+													})
+												: apiReqModel}
+										</span>
+									)}
 									<VSCodeBadge
 										style={{ opacity: cost !== null && cost !== undefined && cost > 0 ? 1 : 0 }}>
 										${Number(cost || 0)?.toFixed(4)}
@@ -827,16 +981,30 @@ export const ChatRowContent = ({
 						<div className="bg-vscode-editor-background border rounded-xs p-1 overflow-hidden whitespace-pre-wrap word-break-break-word overflow-wrap-anywhere">
 							<div className="flex justify-between gap-2">
 								<div className="flex-grow px-2 py-1">{highlightMentions(message.text)}</div>
-								<Button
-									variant="ghost"
-									size="icon"
-									disabled={isStreaming}
-									onClick={(e) => {
-										e.stopPropagation()
-										vscode.postMessage({ type: "deleteMessage", value: message.ts })
-									}}>
-									<span className="codicon codicon-trash" />
-								</Button>
+								<div className="flex">
+									<Button
+										variant="ghost"
+										size="icon"
+										disabled={isStreaming}
+										title={t("chat:forkTask")}
+										data-testid="fork-task-button"
+										onClick={(e) => {
+											e.stopPropagation()
+											vscode.postMessage({ type: "forkTask", value: message.ts })
+										}}>
+										<span className="codicon codicon-repo-forked" />
+									</Button>
+									<Button
+										variant="ghost"
+										size="icon"
+										disabled={isStreaming}
+										onClick={(e) => {
+											e.stopPropagation()
+											vscode.postMessage({ type: "deleteMessage", value: message.ts })
+										}}>
+										<span className="codicon codicon-trash" />
+									</Button>
+								</div>
 							</div>
 							{message.images && message.images.length > 0 && (
 								<Thumbnails images={message.images} style={{ marginTop: "8px" }} />
@@ -948,9 +1116,21 @@ export const ChatRowContent = ({
 									isExpanded={true}
 									onToggleExpand={onToggleExpand}
 								/>
+								{message.images && message.images.length > 0 && (
+									<Thumbnails images={message.images} style={{ marginTop: "8px" }} />
+								)}
 							</div>
 						</>
 					)
+				case "test_results": {
+					const summary = safeJsonParse<ClineTestRunSummary>(message.text)
+
+					if (!summary) {
+						return null
+					}
+
+					return <TestResults summary={summary} isExpanded={isExpanded} onToggleExpand={onToggleExpand} />
+				}
 				case "checkpoint_saved":
 					return (
 						<CheckpointSaved
@@ -987,6 +1167,36 @@ export const ChatRowContent = ({
 							<p style={{ ...pStyle, color: "var(--vscode-errorForeground)" }}>{message.text}</p>
 						</>
 					)
+				case "budget_exceeded":
+					const budget = safeJsonParse<ClineAskBudgetExceeded>(message.text)
+
+					if (!budget) {
+						return null
+					}
+
+					const formatCost = (cost: number) => `$${cost.toFixed(2)}`
+
+					return (
+						<>
+							<div style={headerStyle}>
+								{icon}
+								{title}
+							</div>
+							<p style={{ ...pStyle, color: "var(--vscode-errorForeground)" }}>
+								{[
+									t(`chat:budgetExceeded.${budget.period}`, {
+										spent: formatCost(budget.spent),
+										limit: formatCost(budget.limit),
+									}),
+									budget.profileName &&
+										t("chat:budgetExceeded.profile", { profile: budget.profileName }),
+									t("chat:budgetExceeded.estimate", { estimate: formatCost(budget.estimatedCost) }),
+								]
+									.filter(Boolean)
+									.join(" ")}
+							</p>
+						</>
+					)
 				case "command":
 					const splitMessage = (text: string) => {
 						const outputIndex = text.indexOf(COMMAND_OUTPUT_STRING)
@@ -1057,6 +1267,9 @@ export const ChatRowContent = ({
 									</div>
 								)}
 							</div>
+							{isLast && !message.partial && output.length === 0 && (
+								<CommandPolicyExplanation command={command} />
+							)}
 						</>
 					)
 				case "use_mcp_server":
@@ -6,6 +6,7 @@ import { mentionRegex, mentionRegexGlobal } from "../../../../src/shared/context
 import { WebviewMessage } from "../../../../src/shared/WebviewMessage"
 import { Mode, getAllModes } from "../../../../src/shared/modes"
 import { ExtensionMessage } from "../../../../src/shared/ExtensionMessage"
+import { McpPrompt, McpServer } from "../../../../src/shared/mcp"
 
 import { vscode } from "@/utils/vscode"
 import { useExtensionState } from "@/context/ExtensionStateContext"
@@ -24,6 +25,7 @@ import { SelectDropdown, DropdownOptionType, Button } from "@/components/ui"
 import Thumbnails from "../common/Thumbnails"
 import { MAX_IMAGES_PER_MESSAGE } from "./ChatView"
 import ContextMenu from "./ContextMenu"
+import { McpPromptArgumentsDialog } from "./McpPromptArgumentsDialog"
 import { VolumeX, Pin, Check } from "lucide-react"
 import { IconButton } from "./IconButton"
 import { cn } from "@/lib/utils"
@@ -72,6 +74,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			currentApiConfigName,
 			listApiConfigMeta,
 			customModes,
+			mcpServers,
 			cwd,
 			pinnedApiConfigs,
 			togglePinnedApiConfig,
@@ -151,6 +154,9 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 		const contextMenuContainerRef = useRef<HTMLDivElement>(null)
 		const [isEnhancingPrompt, setIsEnhancingPrompt] = useState(false)
 		const [isFocused, setIsFocused] = useState(false)
+		const [pendingMcpPrompt, setPendingMcpPrompt] = useState<{ server: McpServer; prompt: McpPrompt } | null>(
+			null,
+		)
 
 		// Fetch git commits when Git is selected or when typing a hash.
 		useEffect(() => {
@@ -220,6 +226,16 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			}
 		}, [showContextMenu, setShowContextMenu])
 
+		const runMcpPrompt = (server: McpServer, prompt: McpPrompt, promptArguments: Record<string, string>) => {
+			vscode.postMessage({
+				type: "runMcpPrompt",
+				serverName: server.name,
+				promptName: prompt.name,
+				promptArguments,
+				source: server.source,
+			})
+		}
+
 		const handleMentionSelect = useCallback(
 			(type: ContextMenuOptionType, value?: string) => {
 				if (type === ContextMenuOptionType.NoResults) {
@@ -235,6 +251,26 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 					return
 				}
 
+				if (type === ContextMenuOptionType.McpPrompt && value) {
+					setInputValue("")
+					setShowContextMenu(false)
+
+					for (const server of mcpServers) {
+						const prompt = server.prompts?.find(({ name }) => `${server.name}:${name}` === value)
+
+						if (prompt) {
+							if (prompt.arguments?.length) {
+								// Ask for the arguments before running the prompt.
+								setPendingMcpPrompt({ server, prompt })
+							} else {
+								runMcpPrompt(server, prompt, {})
+							}
+							break
+						}
+					}
+					return
+				}
+
 				if (
 					type === ContextMenuOptionType.File ||
 					type === ContextMenuOptionType.Folder ||
@@ -287,7 +323,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				}
 			},
 			// eslint-disable-next-line react-hooks/exhaustive-deps
-			[setInputValue, cursorPosition],
+			[setInputValue, cursorPosition, mcpServers],
 		)
 
 		const handleKeyDown = useCallback(
@@ -310,6 +346,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 								queryItems,
 								fileSearchResults,
 								getAllModes(customModes),
+								mcpServers,
 							)
 							const optionsLength = options.length
 
@@ -347,6 +384,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 							queryItems,
 							fileSearchResults,
 							getAllModes(customModes),
+							mcpServers,
 						)[selectedMenuIndex]
 						if (
 							selectedOption &&
@@ -414,6 +452,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				justDeletedSpaceAfterMention,
 				queryItems,
 				customModes,
+				mcpServers,
 				fileSearchResults,
 			],
 		)
@@ -789,6 +828,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 									selectedType={selectedType}
 									queryItems={queryItems}
 									modes={getAllModes(customModes)}
+									mcpServers={mcpServers}
 									loading={searchLoading}
 									dynamicSearchResults={fileSearchResults}
 								/>
@@ -1107,6 +1147,17 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 						/>
 					</div>
 				</div>
+				<McpPromptArgumentsDialog
+					serverName={pendingMcpPrompt?.server.name ?? ""}
+					prompt={pendingMcpPrompt?.prompt}
+					onRun={(promptArguments) => {
+						if (pendingMcpPrompt) {
+							runMcpPrompt(pendingMcpPrompt.server, pendingMcpPrompt.prompt, promptArguments)
+						}
+						setPendingMcpPrompt(null)
+					}}
+					onCancel={() => setPendingMcpPrompt(null)}
+				/>
 			</div>
 		)
 	},
@@ -6,6 +6,7 @@ import { Virtuoso, type VirtuosoHandle } from "react-virtuoso"
 import styled from "styled-components"
 import {
 	ClineAsk,
+	ClineAskUseMcpServer,
 	ClineMessage,
 	ClineSayBrowserAction,
 	ClineSayTool,
@@ -28,7 +29,7 @@ import ChatTextArea from "./ChatTextArea"
 import TaskHeader from "./TaskHeader"
 import AutoApproveMenu from "./AutoApproveMenu"
 import { AudioType } from "../../../../src/shared/WebviewMessage"
-import { validateCommand } from "../../utils/command-validation"
+import { evaluateCommand } from "../../utils/command-validation"
 import { getAllModes } from "../../../../src/shared/modes"
 import TelemetryBanner from "../common/TelemetryBanner"
 import { useAppTranslation } from "@/i18n/TranslationContext"
@@ -76,6 +77,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 		alwaysAllowModeSwitch,
 		alwaysAllowSubtasks,
 		customModes,
+		workspaceCommandPolicy,
 		telemetrySetting,
 	} = useExtensionState()
 
@@ -144,6 +146,14 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 							setPrimaryButtonText(t("chat:proceedAnyways.title"))
 							setSecondaryButtonText(t("chat:startNewTask.title"))
 							break
+						case "budget_exceeded":
+							playSound("progress_loop")
+							setTextAreaDisabled(true)
+							setClineAsk("budget_exceeded")
+							setEnableButtons(true)
+							setPrimaryButtonText(t("chat:budgetExceeded.continue.title"))
+							setSecondaryButtonText(t("chat:startNewTask.title"))
+							break
 						case "followup":
 							setTextAreaDisabled(isPartial)
 							setClineAsk("followup")
@@ -401,6 +411,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 				case "use_mcp_server":
 				case "resume_task":
 				case "mistake_limit_reached":
+				case "budget_exceeded":
 					// Only send text/images if they exist
 					if (trimmedInput || (images && images.length > 0)) {
 						vscode.postMessage({
@@ -444,6 +455,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 			switch (clineAsk) {
 				case "api_req_failed":
 				case "mistake_limit_reached":
+				case "budget_exceeded":
 				case "resume_task":
 					startNewTask()
 					break
@@ -616,6 +628,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 				"listFilesRecursive",
 				"listCodeDefinitionNames",
 				"searchFiles",
+				"codebaseSearch",
 			].includes(tool.tool)
 		}
 		return false
@@ -638,8 +651,11 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 				if (!message.text) {
 					return true
 				}
-				const mcpServerUse = JSON.parse(message.text) as { type: string; serverName: string; toolName: string }
+				const mcpServerUse = JSON.parse(message.text) as ClineAskUseMcpServer
 				if (mcpServerUse.type === "use_mcp_tool") {
+					if (mcpServerUse.policy) {
+						return mcpServerUse.policy === "allow"
+					}
 					const server = mcpServers?.find((s: McpServer) => s.name === mcpServerUse.serverName)
 					const tool = server?.tools?.find((t: McpTool) => t.name === mcpServerUse.toolName)
 					return tool?.alwaysAllow || false
@@ -654,9 +670,12 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 	const isAllowedCommand = useCallback(
 		(message: ClineMessage | undefined): boolean => {
 			if (message?.type !== "ask") return false
-			return validateCommand(message.text || "", allowedCommands || [])
+			return (
+				evaluateCommand(message.text || "", { allowedCommands, mode, customModes, workspaceCommandPolicy })
+					.decision === "allow"
+			)
 		},
-		[allowedCommands],
+		[allowedCommands, mode, customModes, workspaceCommandPolicy],
 	)
 
 	const isAutoApproved = useCallback(
@@ -705,6 +724,22 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 					return alwaysAllowSubtasks
 				}
 
+				// Running tests or starting a background process is approved like running
+				// its command; reading, waiting for and stopping it only with commands
+				// auto-approved.
+				if (tool?.tool === "backgroundProcess" || tool?.tool === "runTests") {
+					if (tool.tool === "runTests" || tool.action === "start") {
+						const { decision } = evaluateCommand(tool.command || "", {
+							allowedCommands,
+							mode,
+							customModes,
+							workspaceCommandPolicy,
+						})
+						return alwaysAllowExecute && decision === "allow"
+					}
+					return alwaysAllowExecute
+				}
+
 				const isOutsideWorkspace = !!tool.isOutsideWorkspace
 
 				if (isReadOnlyToolAction(message)) {
@@ -729,6 +764,10 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 			isWriteToolAction,
 			alwaysAllowExecute,
 			isAllowedCommand,
+			allowedCommands,
+			mode,
+			customModes,
+			workspaceCommandPolicy,
 			alwaysAllowMcp,
 			isMcpToolAlwaysAllowed,
 			alwaysAllowModeSwitch,
@@ -774,6 +813,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 					switch (lastMessage.ask) {
 						case "api_req_failed":
 						case "mistake_limit_reached":
+						case "budget_exceeded":
 							playSound("progress_loop")
 							break
 						case "followup":
@@ -1338,7 +1378,10 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 																	: primaryButtonText ===
 																		  t("chat:proceedWhileRunning.title")
 																		? t("chat:proceedWhileRunning.tooltip")
-																		: undefined
+																		: primaryButtonText ===
+																			  t("chat:budgetExceeded.continue.title")
+																			? t("chat:budgetExceeded.continue.tooltip")
+																			: undefined
 									}
 									onClick={(e) => handlePrimaryButtonClick(inputValue, selectedImages)}>
 									{primaryButtonText}
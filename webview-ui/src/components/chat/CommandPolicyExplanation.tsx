@@ -0,0 +1,46 @@
+import { useMemo } from "react"
+
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { useAppTranslation } from "../../i18n/TranslationContext"
+import { evaluateCommand } from "../../utils/command-validation"
+
+interface CommandPolicyExplanationProps {
+	command: string
+}
+
+/**
+ * Explains below a command awaiting approval which policy rule matched each
+ * of the commands it runs, or why none allows it.
+ */
+export const CommandPolicyExplanation = ({ command }: CommandPolicyExplanationProps) => {
+	const { t } = useAppTranslation()
+	const { allowedCommands, mode, customModes, workspaceCommandPolicy } = useExtensionState()
+
+	const result = useMemo(
+		() => evaluateCommand(command, { allowedCommands, mode, customModes, workspaceCommandPolicy }),
+		[command, allowedCommands, mode, customModes, workspaceCommandPolicy],
+	)
+
+	if (result.commands.length === 0) {
+		return null
+	}
+
+	return (
+		<ul className="m-0 mt-1 pl-4 text-sm text-vscode-descriptionForeground" data-testid="command-policy-explanation">
+			{result.commands.map(({ command, decision, match, hasSubstitution }, index) => (
+				<li key={index}>
+					<code>{command}</code>{" "}
+					{decision === "ask" && hasSubstitution && match
+						? t("chat:commandPolicy.substitution")
+						: match
+							? t(`chat:commandPolicy.${decision}`, {
+									rule: match.rule.command,
+									source: t(`chat:commandPolicy.sources.${match.source}`),
+								})
+							: t("chat:commandPolicy.noRule")}
+					{match?.rule.description && ` (${match.rule.description})`}
+				</li>
+			))}
+		</ul>
+	)
+}
@@ -7,6 +7,7 @@ import {
 } from "../../utils/context-mentions"
 import { removeLeadingNonAlphanumeric } from "../common/CodeAccordian"
 import { ModeConfig } from "../../../../src/shared/modes"
+import { McpServer } from "../../../../src/shared/mcp"
 
 interface ContextMenuProps {
 	onSelect: (type: ContextMenuOptionType, value?: string) => void
@@ -18,6 +19,7 @@ interface ContextMenuProps {
 	selectedType: ContextMenuOptionType | null
 	queryItems: ContextMenuQueryItem[]
 	modes?: ModeConfig[]
+	mcpServers?: McpServer[]
 	loading?: boolean // New loading prop
 	dynamicSearchResults?: SearchResult[] // New dynamic search results prop
 }
@@ -32,14 +34,23 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 	selectedType,
 	queryItems,
 	modes,
+	mcpServers,
 	loading = false,
 	dynamicSearchResults = [],
 }) => {
 	const menuRef = useRef<HTMLDivElement>(null)
 
 	const filteredOptions = useMemo(() => {
-		return getContextMenuOptions(searchQuery, inputValue, selectedType, queryItems, dynamicSearchResults, modes)
-	}, [searchQuery, inputValue, selectedType, queryItems, dynamicSearchResults, modes])
+		return getContextMenuOptions(
+			searchQuery,
+			inputValue,
+			selectedType,
+			queryItems,
+			dynamicSearchResults,
+			modes,
+			mcpServers,
+		)
+	}, [searchQuery, inputValue, selectedType, queryItems, dynamicSearchResults, modes, mcpServers])
 
 	useEffect(() => {
 		if (menuRef.current) {
@@ -60,6 +71,7 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 	const renderOptionContent = (option: ContextMenuQueryItem) => {
 		switch (option.type) {
 			case ContextMenuOptionType.Mode:
+			case ContextMenuOptionType.McpPrompt:
 				return (
 					<div style={{ display: "flex", flexDirection: "column", gap: "2px" }}>
 						<span style={{ lineHeight: "1.2" }}>{option.label}</span>
@@ -154,6 +166,8 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 		switch (option.type) {
 			case ContextMenuOptionType.Mode:
 				return "symbol-misc"
+			case ContextMenuOptionType.McpPrompt:
+				return "server"
 			case ContextMenuOptionType.OpenedFile:
 				return "window"
 			case ContextMenuOptionType.File:
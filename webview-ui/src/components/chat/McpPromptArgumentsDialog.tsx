@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from "react"
+
+import { McpPrompt } from "../../../../src/shared/mcp"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { Button, Dialog, DialogContent, DialogTitle, Input } from "@/components/ui"
+
+interface McpPromptArgumentsDialogProps {
+	serverName: string
+	prompt?: McpPrompt
+	onRun: (promptArguments: Record<string, string>) => void
+	onCancel: () => void
+}
+
+export const McpPromptArgumentsDialog: React.FC<McpPromptArgumentsDialogProps> = ({
+	serverName,
+	prompt,
+	onRun,
+	onCancel,
+}) => {
+	const { t } = useAppTranslation()
+	const [values, setValues] = useState<Record<string, string>>({})
+
+	useEffect(() => {
+		setValues({})
+	}, [prompt])
+
+	const promptArguments = prompt?.arguments ?? []
+	const isValid = promptArguments.every((arg) => !arg.required || values[arg.name]?.trim())
+
+	const handleRun = () => {
+		if (!isValid) {
+			return
+		}
+
+		// Leave out optional arguments that were not filled in.
+		onRun(Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim())))
+	}
+
+	return (
+		<Dialog open={!!prompt} onOpenChange={(open: boolean) => !open && onCancel()}>
+			<DialogContent className="p-4 max-w-sm bg-card">
+				<DialogTitle>{t("chat:mcpPrompt.title", { name: `${serverName}:${prompt?.name ?? ""}` })}</DialogTitle>
+				{prompt?.description && (
+					<div className="text-vscode-descriptionForeground text-sm">{prompt.description}</div>
+				)}
+				{promptArguments.map((arg) => (
+					<div key={arg.name} className="flex flex-col gap-1">
+						<label className="text-sm font-medium">
+							{arg.name}
+							{arg.required && <span className="text-vscode-errorForeground"> *</span>}
+						</label>
+						<Input
+							value={values[arg.name] ?? ""}
+							onInput={(e: unknown) => {
+								const target = e as { target: { value: string } }
+								setValues((prev) => ({ ...prev, [arg.name]: target.target.value }))
+							}}
+							placeholder={arg.description}
+							data-testid={`mcp-prompt-argument-${arg.name}`}
+							style={{ width: "100%" }}
+							onKeyDown={(e: unknown) => {
+								const event = e as { key: string }
+								if (event.key === "Enter") {
+									handleRun()
+								}
+							}}
+						/>
+					</div>
+				))}
+				<div className="flex justify-end gap-2 mt-4">
+					<Button variant="secondary" onClick={onCancel}>
+						{t("chat:mcpPrompt.cancel")}
+					</Button>
+					<Button variant="default" disabled={!isValid} onClick={handleRun} data-testid="run-mcp-prompt-button">
+						{t("chat:mcpPrompt.run")}
+					</Button>
+				</div>
+			</DialogContent>
+		</Dialog>
+	)
+}
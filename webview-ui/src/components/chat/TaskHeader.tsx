@@ -8,7 +8,7 @@ import { formatLargeNumber } from "@/utils/format"
 import { calculateTokenDistribution, getMaxTokensForModel } from "@/utils/model-utils"
 import { Button } from "@/components/ui"
 
-import { ClineMessage } from "../../../../src/shared/ExtensionMessage"
+import { BackgroundProcessInfo, ClineMessage } from "../../../../src/shared/ExtensionMessage"
 import { mentionRegexGlobal } from "../../../../src/shared/context-mentions"
 import { HistoryItem } from "../../../../src/shared/HistoryItem"
 
@@ -16,6 +16,7 @@ import { useExtensionState } from "../../context/ExtensionStateContext"
 import Thumbnails from "../common/Thumbnails"
 import { normalizeApiConfiguration } from "../settings/ApiOptions"
 import { DeleteTaskDialog } from "../history/DeleteTaskDialog"
+import { CheckpointTimeline } from "./checkpoints/CheckpointTimeline"
 import { cn } from "@/lib/utils"
 import { VSCodeBadge } from "@vscode/webview-ui-toolkit/react"
 
@@ -43,7 +44,7 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 	onClose,
 }) => {
 	const { t } = useTranslation()
-	const { apiConfiguration, currentTaskItem } = useExtensionState()
+	const { apiConfiguration, currentTaskItem, backgroundProcesses } = useExtensionState()
 	const { selectedModelInfo } = useMemo(() => normalizeApiConfiguration(apiConfiguration), [apiConfiguration])
 	const [isTaskExpanded, setIsTaskExpanded] = useState(false)
 
@@ -175,6 +176,9 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 						</div>
 					</>
 				)}
+				{backgroundProcesses && backgroundProcesses.length > 0 && (
+					<BackgroundProcesses processes={backgroundProcesses} />
+				)}
 			</div>
 		</div>
 	)
@@ -203,6 +207,7 @@ export const highlightMentions = (text?: string, withShadow = true) => {
 
 const TaskActions = ({ item }: { item: HistoryItem | undefined }) => {
 	const [deleteTaskId, setDeleteTaskId] = useState<string | null>(null)
+	const [isTimelineOpen, setIsTimelineOpen] = useState(false)
 	const { t } = useTranslation()
 
 	return (
@@ -214,6 +219,15 @@ const TaskActions = ({ item }: { item: HistoryItem | undefined }) => {
 				onClick={() => vscode.postMessage({ type: "exportCurrentTask" })}>
 				<span className="codicon codicon-cloud-download" />
 			</Button>
+			<Button
+				variant="ghost"
+				size="sm"
+				title={t("chat:task.checkpoints")}
+				data-testid="checkpoint-timeline-button"
+				onClick={() => setIsTimelineOpen(true)}>
+				<span className="codicon codicon-timeline-view-icon" />
+			</Button>
+			<CheckpointTimeline open={isTimelineOpen} onOpenChange={setIsTimelineOpen} />
 			{!!item?.size && item.size > 0 && (
 				<>
 					<Button
@@ -245,6 +259,45 @@ const TaskActions = ({ item }: { item: HistoryItem | undefined }) => {
 	)
 }
 
+const BackgroundProcesses = ({ processes }: { processes: BackgroundProcessInfo[] }) => {
+	const { t } = useTranslation()
+
+	return (
+		<div className="flex flex-col gap-0.5" data-testid="background-processes">
+			<span className="font-bold">{t("chat:task.backgroundProcesses")}</span>
+			{processes.map(({ name, command, status, exitCode }) => (
+				<div key={name} className="flex items-center gap-1.5 min-w-0 h-[20px]">
+					<i
+						className={cn(
+							"codicon codicon-circle-filled text-xs shrink-0",
+							status === "running" ? "text-vscode-charts-green" : "text-vscode-descriptionForeground",
+						)}
+					/>
+					<span className="shrink-0">{name}</span>
+					<span className="text-vscode-descriptionForeground shrink-0">
+						{status === "exited" && exitCode !== undefined
+							? t("chat:task.backgroundProcessStatus.exitedWithCode", { exitCode })
+							: t(`chat:task.backgroundProcessStatus.${status}`)}
+					</span>
+					<code className="truncate grow min-w-0" title={command}>
+						{command}
+					</code>
+					{status === "running" && (
+						<Button
+							variant="ghost"
+							size="icon"
+							title={t("chat:task.stopBackgroundProcess", { name })}
+							className="shrink-0 w-5 h-5"
+							onClick={() => vscode.postMessage({ type: "stopBackgroundProcess", text: name })}>
+							<span className="codicon codicon-debug-stop" />
+						</Button>
+					)}
+				</div>
+			))}
+		</div>
+	)
+}
+
 interface ContextWindowProgressProps {
 	contextWindow: number
 	contextTokens: number
@@ -0,0 +1,75 @@
+import { useTranslation } from "react-i18next"
+
+import { ClineTestRunSummary } from "../../../../src/shared/ExtensionMessage"
+import { cn } from "@/lib/utils"
+
+interface TestResultsProps {
+	summary: ClineTestRunSummary
+	isExpanded: boolean
+	onToggleExpand: () => void
+}
+
+/**
+ * The results of a `run_tests` tool use: the counts in the header, and the
+ * failing tests with their messages when expanded.
+ */
+export const TestResults = ({ summary, isExpanded, onToggleExpand }: TestResultsProps) => {
+	const { t } = useTranslation()
+	const { runner, passed, failed, skipped, failures, error, timedOutAfter } = summary
+	const isSuccess = failed === 0 && !error && timedOutAfter === undefined
+	const hasDetails = failures.length > 0 || !!error
+
+	return (
+		<div data-testid="test-results">
+			<div
+				className={cn("flex items-center gap-2.5", hasDetails && "cursor-pointer")}
+				onClick={hasDetails ? onToggleExpand : undefined}>
+				<span
+					className={cn(
+						"codicon -mb-0.5",
+						isSuccess
+							? "codicon-pass text-vscode-charts-green"
+							: "codicon-error text-vscode-errorForeground",
+					)}
+				/>
+				<span className="font-bold">{t("chat:testResults.title", { runner })}</span>
+				<span className="text-xs opacity-70 truncate grow">
+					{t("chat:testResults.counts", { passed, failed, skipped })}
+				</span>
+				{hasDetails && <span className={`codicon codicon-chevron-${isExpanded ? "up" : "down"}`} />}
+			</div>
+			{timedOutAfter !== undefined && (
+				<div className="mt-1 text-xs text-vscode-descriptionForeground">
+					{t("chat:testResults.timedOut", { seconds: timedOutAfter })}
+				</div>
+			)}
+			{isExpanded && hasDetails && (
+				<div className="mt-2.5 flex flex-col gap-2">
+					{failures.map(({ name, file, line, message }, index) => (
+						<div key={index} className="border-l-2 border-vscode-errorForeground pl-2">
+							<div className="font-bold break-words">{name}</div>
+							{file && (
+								<div className="text-xs text-vscode-descriptionForeground">
+									{line !== undefined ? `${file}:${line}` : file}
+								</div>
+							)}
+							{message && (
+								<pre className="m-0 mt-1 text-xs whitespace-pre-wrap break-words overflow-x-auto">
+									{message}
+								</pre>
+							)}
+						</div>
+					))}
+					{error && (
+						<div>
+							<div className="font-bold">{t("chat:testResults.error")}</div>
+							<pre className="m-0 mt-1 text-xs whitespace-pre-wrap break-words max-h-60 overflow-auto">
+								{error}
+							</pre>
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	)
+}
@@ -757,4 +757,77 @@ describe("ChatView - Auto Approval Tests", () => {
 			askResponse: "yesButtonClicked",
 		})
 	})
+
+	it("auto-approves MCP tool calls allowed by a tool policy", async () => {
+		render(
+			<ExtensionStateContextProvider>
+				<ChatView
+					isHidden={false}
+					showAnnouncement={false}
+					hideAnnouncement={() => {}}
+					showHistoryView={() => {}}
+				/>
+			</ExtensionStateContextProvider>,
+		)
+
+		const state = {
+			alwaysAllowMcp: true,
+			autoApprovalEnabled: true,
+			mcpServers: [
+				{
+					name: "db",
+					config: "{}",
+					status: "connected",
+					tools: [{ name: "query", alwaysAllow: false }],
+				},
+			],
+		}
+
+		// First hydrate state with initial task
+		mockPostMessage({
+			...state,
+			clineMessages: [
+				{
+					type: "say",
+					say: "task",
+					ts: Date.now() - 2000,
+					text: "Initial task",
+				},
+			],
+		})
+
+		// Then send the MCP tool ask message, which the policy allows
+		mockPostMessage({
+			...state,
+			clineMessages: [
+				{
+					type: "say",
+					say: "task",
+					ts: Date.now() - 2000,
+					text: "Initial task",
+				},
+				{
+					type: "ask",
+					ask: "use_mcp_server",
+					ts: Date.now(),
+					text: JSON.stringify({
+						type: "use_mcp_tool",
+						serverName: "db",
+						toolName: "query",
+						arguments: JSON.stringify({ database: "readonly_replica" }),
+						policy: "allow",
+					}),
+					partial: false,
+				},
+			],
+		})
+
+		// Wait for the auto-approval message
+		await waitFor(() => {
+			expect(vscode.postMessage).toHaveBeenCalledWith({
+				type: "askResponse",
+				askResponse: "yesButtonClicked",
+			})
+		})
+	})
 })
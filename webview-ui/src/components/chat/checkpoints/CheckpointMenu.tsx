@@ -45,6 +45,10 @@ export const CheckpointMenu = ({ ts, commitHash, currentHash, checkpoint }: Chec
 		setIsOpen(false)
 	}, [ts, commitHash])
 
+	const onFork = useCallback(() => {
+		vscode.postMessage({ type: "forkTask", value: ts })
+	}, [ts])
+
 	return (
 		<div className="flex flex-row gap-1">
 			{isDiffAvailable && (
@@ -56,6 +60,9 @@ export const CheckpointMenu = ({ ts, commitHash, currentHash, checkpoint }: Chec
 					<span className="codicon codicon-diff-single" />
 				</Button>
 			)}
+			<Button variant="ghost" size="icon" onClick={onFork} title={t("chat:checkpoint.menu.fork")}>
+				<span className="codicon codicon-repo-forked" />
+			</Button>
 			{isRestoreAvailable && (
 				<Popover
 					open={isOpen}
@@ -0,0 +1,258 @@
+import { ReactNode, useCallback, useEffect, useState } from "react"
+import { useEvent } from "react-use"
+import { CheckIcon, Cross2Icon } from "@radix-ui/react-icons"
+
+import { ExtensionMessage } from "../../../../../src/shared/ExtensionMessage"
+import { CheckpointRestoreHunk, CheckpointTimelineEntry } from "../../../../../src/shared/checkpoints"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { vscode } from "@/utils/vscode"
+import {
+	Button,
+	Checkbox,
+	Dialog,
+	DialogContent,
+	DialogTitle,
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui"
+
+const STATUS_LABELS = { added: "A", modified: "M", deleted: "D" } as const
+
+type RestoreHunks = { commitHash: string; path: string; hunks: CheckpointRestoreHunk[] }
+
+interface CheckpointTimelineProps {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+}
+
+interface ConfirmRestoreProps {
+	onConfirm: () => void
+	children: ReactNode
+}
+
+/**
+ * Asks for confirmation before a restore overwrites files, like the restore
+ * of a whole checkpoint in the checkpoint menu.
+ */
+const ConfirmRestore = ({ onConfirm, children }: ConfirmRestoreProps) => {
+	const { t } = useAppTranslation()
+	const [isOpen, setIsOpen] = useState(false)
+
+	return (
+		<Popover open={isOpen} onOpenChange={setIsOpen}>
+			<PopoverTrigger asChild>{children}</PopoverTrigger>
+			<PopoverContent align="end">
+				<div className="flex flex-col gap-2">
+					<div>{t("chat:checkpoint.timeline.restoreDescription")}</div>
+					<Button
+						variant="default"
+						onClick={() => {
+							setIsOpen(false)
+							onConfirm()
+						}}
+						data-testid="confirm-restore-button">
+						<div className="flex flex-row gap-1">
+							<CheckIcon />
+							<div>{t("chat:checkpoint.menu.confirm")}</div>
+						</div>
+					</Button>
+					<Button variant="secondary" onClick={() => setIsOpen(false)}>
+						<div className="flex flex-row gap-1">
+							<Cross2Icon />
+							<div>{t("chat:checkpoint.menu.cancel")}</div>
+						</div>
+					</Button>
+					<div className="text-destructive font-bold">{t("chat:checkpoint.menu.cannotUndo")}</div>
+				</div>
+			</PopoverContent>
+		</Popover>
+	)
+}
+
+export const CheckpointTimeline = ({ open, onOpenChange }: CheckpointTimelineProps) => {
+	const { t } = useAppTranslation()
+	const [timeline, setTimeline] = useState<CheckpointTimelineEntry[]>([])
+	const [compared, setCompared] = useState<string[]>([])
+	const [restoreHunks, setRestoreHunks] = useState<RestoreHunks>()
+	const [selectedHunks, setSelectedHunks] = useState<number[]>([])
+
+	useEffect(() => {
+		if (open) {
+			setCompared([])
+			setRestoreHunks(undefined)
+			vscode.postMessage({ type: "requestCheckpointTimeline" })
+		}
+	}, [open])
+
+	useEvent("message", (event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		if (message.type === "checkpointTimeline") {
+			setTimeline(message.checkpointTimeline ?? [])
+		} else if (message.type === "checkpointRestoreHunks" && message.checkpointRestoreHunks) {
+			setRestoreHunks(message.checkpointRestoreHunks)
+			setSelectedHunks([])
+		}
+	})
+
+	const onToggleCompared = useCallback((commitHash: string) => {
+		setCompared((prev) =>
+			prev.includes(commitHash)
+				? prev.filter((hash) => hash !== commitHash)
+				: // Keep the most recent selection when a third checkpoint is picked.
+					[...prev.slice(-1), commitHash],
+		)
+	}, [])
+
+	const onCompare = useCallback(() => {
+		// The timeline is in chronological order, so diff from the older checkpoint to the newer one.
+		const [from, to] = timeline.filter((entry) => compared.includes(entry.commitHash))
+
+		if (from && to) {
+			vscode.postMessage({
+				type: "checkpointDiff",
+				payload: { ts: to.ts, previousCommitHash: from.commitHash, commitHash: to.commitHash, mode: "compare" },
+			})
+		}
+	}, [timeline, compared])
+
+	const onRestoreHunks = useCallback(() => {
+		if (restoreHunks && selectedHunks.length > 0) {
+			vscode.postMessage({
+				type: "checkpointRestoreHunks",
+				payload: { commitHash: restoreHunks.commitHash, path: restoreHunks.path, hunks: selectedHunks },
+			})
+		}
+	}, [restoreHunks, selectedHunks])
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="p-4 bg-card max-h-[80vh] overflow-y-auto">
+				<div className="flex items-center gap-2 pr-6">
+					<DialogTitle className="grow">{t("chat:checkpoint.timeline.title")}</DialogTitle>
+					<Button
+						variant="ghost"
+						size="icon"
+						title={t("chat:checkpoint.timeline.export")}
+						disabled={timeline.length === 0}
+						onClick={() => vscode.postMessage({ type: "exportCheckpoints" })}
+						data-testid="export-checkpoints-button">
+						<span className="codicon codicon-git-commit" />
+					</Button>
+				</div>
+				<div className="flex justify-between items-center gap-2">
+					<span className="text-vscode-descriptionForeground text-sm">
+						{t("chat:checkpoint.timeline.compareDescription")}
+					</span>
+					<Button
+						variant="secondary"
+						size="sm"
+						disabled={compared.length !== 2}
+						onClick={onCompare}
+						data-testid="compare-checkpoints-button">
+						{t("chat:checkpoint.timeline.compare")}
+					</Button>
+				</div>
+				{timeline.length === 0 && (
+					<div className="text-vscode-descriptionForeground">{t("chat:checkpoint.timeline.empty")}</div>
+				)}
+				{timeline.map((entry) => (
+					<div key={entry.commitHash} className="flex flex-col gap-1" data-testid="checkpoint-timeline-entry">
+						<div className="flex items-center gap-2">
+							<Checkbox
+								checked={compared.includes(entry.commitHash)}
+								onCheckedChange={() => onToggleCompared(entry.commitHash)}
+								aria-label={t("chat:checkpoint.timeline.compare")}
+							/>
+							<span className="font-bold">
+								{entry.isFirst ? t("chat:checkpoint.initial") : t("chat:checkpoint.regular")}
+							</span>
+							<span className="text-vscode-descriptionForeground text-xs">
+								{new Date(entry.ts).toLocaleTimeString()}
+							</span>
+						</div>
+						{entry.files.map((file) => (
+							<div key={file.paths.absolute} className="flex flex-col pl-6">
+								<div className="flex items-center gap-2">
+									<span className="font-mono text-xs" title={file.status}>
+										{STATUS_LABELS[file.status]}
+									</span>
+									<span className="grow truncate" title={file.paths.absolute}>
+										{file.paths.relative}
+									</span>
+									<Button
+										variant="ghost"
+										size="icon"
+										title={t("chat:checkpoint.timeline.showHunks")}
+										onClick={() =>
+											vscode.postMessage({
+												type: "requestCheckpointRestoreHunks",
+												payload: { commitHash: entry.commitHash, path: file.paths.absolute },
+											})
+										}>
+										<span className="codicon codicon-list-selection" />
+									</Button>
+									<ConfirmRestore
+										onConfirm={() =>
+											vscode.postMessage({
+												type: "checkpointRestoreFiles",
+												payload: { commitHash: entry.commitHash, paths: [file.paths.absolute] },
+											})
+										}>
+										<Button
+											variant="ghost"
+											size="icon"
+											title={t("chat:checkpoint.timeline.restoreFile")}
+											data-testid="restore-file-button">
+											<span className="codicon codicon-discard" />
+										</Button>
+									</ConfirmRestore>
+								</div>
+								{restoreHunks?.commitHash === entry.commitHash &&
+									restoreHunks.path === file.paths.absolute && (
+										<div className="flex flex-col gap-1 pl-4" data-testid="checkpoint-restore-hunks">
+											{restoreHunks.hunks.length === 0 && (
+												<div className="text-vscode-descriptionForeground text-sm">
+													{t("chat:checkpoint.timeline.noHunks")}
+												</div>
+											)}
+											{restoreHunks.hunks.map((hunk, index) => (
+												<label key={`${hunk.header}-${index}`} className="flex items-start gap-2">
+													<Checkbox
+														checked={selectedHunks.includes(index)}
+														onCheckedChange={(checked) =>
+															setSelectedHunks((prev) =>
+																checked
+																	? [...prev, index]
+																	: prev.filter((selected) => selected !== index),
+															)
+														}
+													/>
+													<pre className="text-xs overflow-x-auto m-0">
+														{[hunk.header, ...hunk.lines].join("\n")}
+													</pre>
+												</label>
+											))}
+											{restoreHunks.hunks.length > 0 && (
+												<ConfirmRestore onConfirm={onRestoreHunks}>
+													<Button
+														variant="secondary"
+														size="sm"
+														disabled={selectedHunks.length === 0}
+														data-testid="restore-hunks-button">
+														{t("chat:checkpoint.timeline.restoreHunks")}
+													</Button>
+												</ConfirmRestore>
+											)}
+										</div>
+									)}
+							</div>
+						))}
+					</div>
+				))}
+			</DialogContent>
+		</Dialog>
+	)
+}
@@ -0,0 +1,117 @@
+import React from "react"
+import { render, fireEvent, screen, act } from "@testing-library/react"
+import { CheckpointTimeline } from "../CheckpointTimeline"
+import { vscode } from "../../../../utils/vscode"
+
+jest.mock("../../../../i18n/TranslationContext", () => ({
+	useAppTranslation: () => ({
+		t: (key: string) => key,
+	}),
+}))
+
+jest.mock("../../../../utils/vscode", () => ({
+	vscode: {
+		postMessage: jest.fn(),
+	},
+}))
+
+const postMessage = (data: unknown) => act(() => window.dispatchEvent(new MessageEvent("message", { data })))
+
+describe("CheckpointTimeline", () => {
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	const postTimeline = () =>
+		postMessage({
+			type: "checkpointTimeline",
+			checkpointTimeline: [
+				{ ts: 1, commitHash: "a", isFirst: true, files: [] },
+				{
+					ts: 2,
+					commitHash: "b",
+					previousCommitHash: "a",
+					isFirst: false,
+					files: [{ paths: { relative: "src/app.ts", absolute: "/ws/src/app.ts" }, status: "modified" }],
+				},
+				{ ts: 3, commitHash: "c", previousCommitHash: "b", isFirst: false, files: [] },
+			],
+		})
+
+	it("requests the timeline when opened", () => {
+		render(<CheckpointTimeline open onOpenChange={jest.fn()} />)
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "requestCheckpointTimeline" })
+		expect(screen.getByText("chat:checkpoint.timeline.empty")).toBeInTheDocument()
+	})
+
+	it("lists checkpoints with their changed files and restores a file once confirmed", () => {
+		render(<CheckpointTimeline open onOpenChange={jest.fn()} />)
+		postTimeline()
+
+		expect(screen.getAllByTestId("checkpoint-timeline-entry")).toHaveLength(3)
+		expect(screen.getByText("src/app.ts")).toBeInTheDocument()
+
+		fireEvent.click(screen.getByTestId("restore-file-button"))
+
+		expect(vscode.postMessage).not.toHaveBeenCalledWith(expect.objectContaining({ type: "checkpointRestoreFiles" }))
+
+		fireEvent.click(screen.getByTestId("confirm-restore-button"))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "checkpointRestoreFiles",
+			payload: { commitHash: "b", paths: ["/ws/src/app.ts"] },
+		})
+	})
+
+	it("restores the selected hunks of a file", () => {
+		render(<CheckpointTimeline open onOpenChange={jest.fn()} />)
+		postTimeline()
+
+		fireEvent.click(screen.getByTitle("chat:checkpoint.timeline.showHunks"))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "requestCheckpointRestoreHunks",
+			payload: { commitHash: "b", path: "/ws/src/app.ts" },
+		})
+
+		postMessage({
+			type: "checkpointRestoreHunks",
+			checkpointRestoreHunks: {
+				commitHash: "b",
+				path: "/ws/src/app.ts",
+				hunks: [
+					{ header: "@@ -1,1 +1,1 @@", lines: ["-foo", "+bar"] },
+					{ header: "@@ -9,1 +9,1 @@", lines: ["-baz", "+qux"] },
+				],
+			},
+		})
+
+		const hunks = screen.getByTestId("checkpoint-restore-hunks")
+		expect(screen.getByTestId("restore-hunks-button")).toBeDisabled()
+
+		fireEvent.click(hunks.querySelectorAll("button[role='checkbox']")[1])
+		fireEvent.click(screen.getByTestId("restore-hunks-button"))
+		fireEvent.click(screen.getByTestId("confirm-restore-button"))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "checkpointRestoreHunks",
+			payload: { commitHash: "b", path: "/ws/src/app.ts", hunks: [1] },
+		})
+	})
+
+	it("compares two checkpoints", () => {
+		render(<CheckpointTimeline open onOpenChange={jest.fn()} />)
+		postTimeline()
+
+		const checkboxes = screen.getAllByRole("checkbox", { name: "chat:checkpoint.timeline.compare" })
+		fireEvent.click(checkboxes[2])
+		fireEvent.click(checkboxes[0])
+		fireEvent.click(screen.getByTestId("compare-checkpoints-button"))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "checkpointDiff",
+			payload: { ts: 3, previousCommitHash: "a", commitHash: "c", mode: "compare" },
+		})
+	})
+})
@@ -1,4 +1,4 @@
-import React, { memo, useState } from "react"
+import React, { memo, useMemo, useState } from "react"
 import { DeleteTaskDialog } from "./DeleteTaskDialog"
 import { BatchDeleteTaskDialog } from "./BatchDeleteTaskDialog"
 import prettyBytes from "pretty-bytes"
@@ -11,6 +11,7 @@ import { formatLargeNumber, formatDate } from "@/utils/format"
 import { cn } from "@/lib/utils"
 import { Button, Checkbox } from "@/components/ui"
 import { useAppTranslation } from "@/i18n/TranslationContext"
+import { useExtensionState } from "@/context/ExtensionStateContext"
 
 import { Tab, TabContent, TabHeader } from "../common/Tab"
 import { useTaskSearch } from "./useTaskSearch"
@@ -33,8 +34,16 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 		setLastNonRelevantSort,
 		showAllWorkspaces,
 		setShowAllWorkspaces,
+		showTaskTree,
+		setShowTaskTree,
 	} = useTaskSearch()
 	const { t } = useAppTranslation()
+	const { taskHistory } = useExtensionState()
+
+	const taskTexts = useMemo(
+		() => Object.fromEntries(taskHistory.map((item) => [item.id, item.task])) as Record<string, string>,
+		[taskHistory],
+	)
 
 	const [deleteTaskId, setDeleteTaskId] = useState<string | null>(null)
 	const [isSelectionMode, setIsSelectionMode] = useState(false)
@@ -168,6 +177,18 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 						</label>
 					</div>
 
+					<div className="flex items-center gap-2">
+						<Checkbox
+							id="show-task-tree-view"
+							checked={showTaskTree}
+							onCheckedChange={(checked) => setShowTaskTree(checked === true)}
+							variant="description"
+						/>
+						<label htmlFor="show-task-tree-view" className="text-vscode-foreground cursor-pointer">
+							{t("history:showTaskTree")}
+						</label>
+					</div>
+
 					{/* Select all control in selection mode */}
 					{isSelectionMode && tasks.length > 0 && (
 						<div className="flex items-center py-1 px-2 bg-vscode-editor-background rounded">
@@ -222,7 +243,7 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 									vscode.postMessage({ type: "showTaskWithId", text: item.id })
 								}
 							}}>
-							<div className="flex items-start p-3 gap-2">
+							<div className="flex items-start p-3 gap-2" style={{ paddingLeft: 12 + item.depth * 16 }}>
 								{/* Show checkbox in selection mode */}
 								{isSelectionMode && (
 									<div
@@ -270,6 +291,20 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 											)}
 										</div>
 									</div>
+									{item.forkedFromTaskId && taskTexts[item.forkedFromTaskId] !== undefined && (
+										<div
+											className="flex flex-row gap-1 text-vscode-descriptionForeground text-xs truncate hover:text-vscode-foreground"
+											data-testid="forked-from"
+											onClick={(e) => {
+												e.stopPropagation()
+												vscode.postMessage({ type: "showTaskWithId", text: item.forkedFromTaskId })
+											}}>
+											<span className="codicon codicon-repo-forked scale-80" />
+											<span className="truncate">
+												{t("history:forkedFrom", { task: taskTexts[item.forkedFromTaskId] })}
+											</span>
+										</div>
+									)}
 									<div
 										style={{
 											fontSize: "var(--vscode-font-size)",
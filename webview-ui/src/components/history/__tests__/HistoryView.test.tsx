@@ -291,4 +291,46 @@ describe("HistoryView", () => {
 			text: "2",
 		})
 	})
+
+	describe("forks", () => {
+		const fork = {
+			id: "3",
+			number: 0,
+			task: "Test task 1",
+			ts: new Date("2022-02-18T00:00:00").getTime(),
+			tokensIn: 100,
+			tokensOut: 50,
+			totalCost: 0.002,
+			forkedFromTaskId: "1",
+			forkedFromTs: new Date("2022-02-16T00:00:00").getTime(),
+		}
+
+		beforeEach(() => {
+			;(useExtensionState as jest.Mock).mockReturnValue({
+				taskHistory: [...mockTaskHistory, fork],
+			})
+		})
+
+		const getTaskOrder = () =>
+			screen.getAllByTestId(/^virtuoso-item-/).map((item) => item.dataset.testid?.replace("virtuoso-item-", ""))
+
+		it("nests forks under the task they were forked from", () => {
+			render(<HistoryView onDone={jest.fn()} />)
+
+			expect(getTaskOrder()).toEqual(["3", "2", "1"])
+
+			fireEvent.click(screen.getByRole("checkbox", { name: "history:showTaskTree" }))
+
+			expect(getTaskOrder()).toEqual(["2", "1", "3"])
+		})
+
+		it("opens the task a fork was forked from", () => {
+			render(<HistoryView onDone={jest.fn()} />)
+
+			fireEvent.click(within(screen.getByTestId("virtuoso-item-3")).getByTestId("forked-from"))
+
+			expect(vscode.postMessage).toHaveBeenCalledWith({ type: "showTaskWithId", text: "1" })
+			expect(vscode.postMessage).not.toHaveBeenCalledWith({ type: "showTaskWithId", text: "3" })
+		})
+	})
 })
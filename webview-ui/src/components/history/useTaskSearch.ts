@@ -4,14 +4,46 @@ import { Fzf } from "fzf"
 import { highlightFzfMatch } from "@/utils/highlight"
 import { useExtensionState } from "@/context/ExtensionStateContext"
 
+import { HistoryItem } from "../../../../src/shared/HistoryItem"
+
 type SortOption = "newest" | "oldest" | "mostExpensive" | "mostTokens" | "mostRelevant"
 
+/**
+ * Orders tasks so that forks follow the task they were forked from, keeping
+ * the given order among siblings, and sets how deep each task is nested.
+ * Forks of tasks that aren't in the list are shown at the top level.
+ */
+export const arrangeTaskTree = <T extends HistoryItem>(tasks: T[]): (T & { depth: number })[] => {
+	const ids = new Set(tasks.map((task) => task.id))
+	const forks: Record<string, T[]> = {}
+	const roots: T[] = []
+
+	for (const task of tasks) {
+		if (task.forkedFromTaskId && ids.has(task.forkedFromTaskId)) {
+			forks[task.forkedFromTaskId] = [...(forks[task.forkedFromTaskId] ?? []), task]
+		} else {
+			roots.push(task)
+		}
+	}
+
+	const result: (T & { depth: number })[] = []
+
+	const visit = (task: T, depth: number) => {
+		result.push({ ...task, depth })
+		forks[task.id]?.forEach((fork) => visit(fork, depth + 1))
+	}
+
+	roots.forEach((task) => visit(task, 0))
+	return result
+}
+
 export const useTaskSearch = () => {
 	const { taskHistory, cwd } = useExtensionState()
 	const [searchQuery, setSearchQuery] = useState("")
 	const [sortOption, setSortOption] = useState<SortOption>("newest")
 	const [lastNonRelevantSort, setLastNonRelevantSort] = useState<SortOption | null>("newest")
 	const [showAllWorkspaces, setShowAllWorkspaces] = useState(false)
+	const [showTaskTree, setShowTaskTree] = useState(false)
 
 	useEffect(() => {
 		if (searchQuery && sortOption !== "mostRelevant" && !lastNonRelevantSort) {
@@ -58,7 +90,7 @@ export const useTaskSearch = () => {
 		}
 
 		// Then sort the results
-		return [...results].sort((a, b) => {
+		const sorted = [...results].sort((a, b) => {
 			switch (sortOption) {
 				case "oldest":
 					return (a.ts || 0) - (b.ts || 0)
@@ -76,7 +108,10 @@ export const useTaskSearch = () => {
 					return (b.ts || 0) - (a.ts || 0)
 			}
 		})
-	}, [presentableTasks, searchQuery, fzf, sortOption])
+
+		// Search results are ranked by relevance, so they aren't nested
+		return showTaskTree && !searchQuery ? arrangeTaskTree(sorted) : sorted.map((task) => ({ ...task, depth: 0 }))
+	}, [presentableTasks, searchQuery, fzf, sortOption, showTaskTree])
 
 	return {
 		tasks,
@@ -88,5 +123,7 @@ export const useTaskSearch = () => {
 		setLastNonRelevantSort,
 		showAllWorkspaces,
 		setShowAllWorkspaces,
+		showTaskTree,
+		setShowTaskTree,
 	}
 }
@@ -0,0 +1,122 @@
+import { useState } from "react"
+import { useEvent, useMount } from "react-use"
+
+import { McpAuditEntry } from "../../../../src/shared/mcp"
+import { ExtensionMessage } from "../../../../src/shared/ExtensionMessage"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { vscode } from "@/utils/vscode"
+import { Button } from "@/components/ui"
+
+const formatSize = (size: number) => (size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`)
+
+const McpAuditLogView = () => {
+	const { t } = useAppTranslation()
+	const [entries, setEntries] = useState<McpAuditEntry[]>([])
+	const [expanded, setExpanded] = useState<number>()
+
+	useMount(() => vscode.postMessage({ type: "requestMcpAuditLog" }))
+
+	useEvent("message", (event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		if (message.type === "mcpAuditLog") {
+			setEntries(message.mcpAuditLog ?? [])
+			setExpanded(undefined)
+		}
+	})
+
+	return (
+		<div style={{ marginTop: "20px" }}>
+			<div className="flex justify-between items-center" style={{ marginBottom: "8px" }}>
+				<span style={{ fontWeight: 500 }}>{t("mcp:auditLog.title")}</span>
+				<div className="flex" style={{ gap: "6px" }}>
+					<Button
+						variant="ghost"
+						size="icon"
+						title={t("mcp:auditLog.refresh")}
+						onClick={() => vscode.postMessage({ type: "requestMcpAuditLog" })}>
+						<span className="codicon codicon-refresh" />
+					</Button>
+					<Button
+						variant="ghost"
+						size="icon"
+						title={t("mcp:auditLog.export")}
+						data-testid="export-audit-log-button"
+						onClick={() => vscode.postMessage({ type: "exportMcpAuditLog" })}>
+						<span className="codicon codicon-export" />
+					</Button>
+					<Button
+						variant="ghost"
+						size="icon"
+						title={t("mcp:auditLog.clear")}
+						disabled={entries.length === 0}
+						onClick={() => vscode.postMessage({ type: "clearMcpAuditLog" })}>
+						<span className="codicon codicon-trash" />
+					</Button>
+				</div>
+			</div>
+			<p style={{ fontSize: "12px", margin: "0 0 8px", color: "var(--vscode-descriptionForeground)" }}>
+				{t("mcp:auditLog.description")}
+			</p>
+
+			{entries.length === 0 ? (
+				<div style={{ padding: "10px 0", color: "var(--vscode-descriptionForeground)" }}>
+					{t("mcp:auditLog.empty")}
+				</div>
+			) : (
+				<div style={{ display: "flex", flexDirection: "column", fontSize: "12px" }}>
+					{entries.map((entry, index) => (
+						<div
+							key={`${entry.ts}-${index}`}
+							data-testid="audit-log-entry"
+							style={{
+								padding: "4px 0",
+								borderBottom:
+									"1px solid color-mix(in srgb, var(--vscode-descriptionForeground) 20%, transparent)",
+								cursor: "pointer",
+							}}
+							onClick={() => setExpanded(expanded === index ? undefined : index)}>
+							<div className="flex items-center" style={{ gap: "6px" }}>
+								<span
+									className={`codicon codicon-${entry.isError ? "error" : "pass"}`}
+									style={{
+										color: entry.isError
+											? "var(--vscode-errorForeground)"
+											: "var(--vscode-testing-iconPassed)",
+									}}
+								/>
+								<span style={{ fontWeight: 500, wordBreak: "break-all", flex: 1 }}>
+									{entry.serverName}:{entry.toolName}
+								</span>
+								<span style={{ opacity: 0.8, whiteSpace: "nowrap" }}>
+									{entry.durationMs} ms · {formatSize(entry.resultSize)}
+								</span>
+							</div>
+							<div style={{ opacity: 0.8, marginTop: "2px" }}>{new Date(entry.ts).toLocaleString()}</div>
+							{entry.error && (
+								<div style={{ color: "var(--vscode-errorForeground)", marginTop: "2px" }}>
+									{entry.error}
+								</div>
+							)}
+							{expanded === index && (
+								<pre
+									style={{
+										margin: "4px 0 0",
+										whiteSpace: "pre-wrap",
+										wordBreak: "break-all",
+										color: "var(--vscode-textPreformat-foreground)",
+									}}>
+									{entry.taskId && `${t("mcp:auditLog.task", { taskId: entry.taskId })}\n`}
+									{JSON.stringify(entry.arguments ?? {}, null, 2)}
+								</pre>
+							)}
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	)
+}
+
+export default McpAuditLogView
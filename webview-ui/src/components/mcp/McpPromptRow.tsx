@@ -0,0 +1,85 @@
+import { McpPrompt } from "../../../../src/shared/mcp"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+
+type McpPromptRowProps = {
+	serverName: string
+	prompt: McpPrompt
+}
+
+const McpPromptRow = ({ serverName, prompt }: McpPromptRowProps) => {
+	const { t } = useAppTranslation()
+
+	return (
+		<div
+			style={{
+				padding: "3px 0",
+			}}>
+			<div
+				style={{
+					display: "flex",
+					alignItems: "center",
+					marginBottom: "4px",
+				}}>
+				<span className="codicon codicon-comment" style={{ marginRight: "6px" }} />
+				<span style={{ fontWeight: 500, wordBreak: "break-all" }}>{prompt.name}</span>
+			</div>
+			{prompt.description && (
+				<div
+					style={{
+						fontSize: "12px",
+						opacity: 0.8,
+						margin: "4px 0",
+					}}>
+					{prompt.description}
+				</div>
+			)}
+			{prompt.arguments && prompt.arguments.length > 0 && (
+				<div
+					style={{
+						marginTop: "8px",
+						fontSize: "12px",
+						border: "1px solid color-mix(in srgb, var(--vscode-descriptionForeground) 30%, transparent)",
+						borderRadius: "3px",
+						padding: "8px",
+					}}>
+					<div
+						style={{ marginBottom: "4px", opacity: 0.8, fontSize: "11px", textTransform: "uppercase" }}>
+						{t("mcp:prompt.arguments")}
+					</div>
+					{prompt.arguments.map((arg) => (
+						<div
+							key={arg.name}
+							style={{
+								display: "flex",
+								alignItems: "baseline",
+								marginTop: "4px",
+							}}>
+							<code
+								style={{
+									color: "var(--vscode-textPreformat-foreground)",
+									marginRight: "8px",
+								}}>
+								{arg.name}
+								{arg.required && <span style={{ color: "var(--vscode-errorForeground)" }}>*</span>}
+							</code>
+							<span
+								style={{
+									opacity: 0.8,
+									overflowWrap: "break-word",
+									wordBreak: "break-word",
+								}}>
+								{arg.description || (arg.required ? t("mcp:prompt.required") : "")}
+							</span>
+						</div>
+					))}
+				</div>
+			)}
+			<div style={{ fontSize: "12px", opacity: 0.8, marginTop: "4px" }}>
+				{t("mcp:prompt.usage", { command: `${serverName}:${prompt.name}` })}
+			</div>
+		</div>
+	)
+}
+
+export default McpPromptRow
@@ -1,13 +1,93 @@
+import { useMemo, useRef, useState } from "react"
+import { useEvent } from "react-use"
+import { VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+
 import { McpResource, McpResourceTemplate } from "../../../../src/shared/mcp"
+import { ExtensionMessage } from "../../../../src/shared/ExtensionMessage"
+import { getTemplateVariables } from "../../../../src/services/mcp/uri-template"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { vscode } from "@/utils/vscode"
+import { Button } from "@/components/ui"
+
+// Most suggested values shown for a template argument
+const MAX_COMPLETIONS = 10
 
 type McpResourceRowProps = {
 	item: McpResource | McpResourceTemplate
+	serverName?: string
+	serverSource?: "global" | "project"
 }
 
-const McpResourceRow = ({ item }: McpResourceRowProps) => {
+const McpResourceRow = ({ item, serverName, serverSource }: McpResourceRowProps) => {
+	const { t } = useAppTranslation()
 	const hasUri = "uri" in item
 	const uri = hasUri ? item.uri : item.uriTemplate
 
+	const variables = useMemo(() => {
+		if (hasUri) {
+			return []
+		}
+
+		try {
+			return getTemplateVariables(uri)
+		} catch {
+			return []
+		}
+	}, [hasUri, uri])
+
+	const [values, setValues] = useState<Record<string, string>>({})
+	const [completion, setCompletion] = useState<{ argumentName: string; requestId: string; values: string[] }>()
+	const completionTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+
+	useEvent("message", (event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		if (message.type === "mcpCompletion") {
+			setCompletion((prev) =>
+				prev && prev.requestId === message.requestId ? { ...prev, values: message.completions ?? [] } : prev,
+			)
+		}
+	})
+
+	const requestCompletions = (argumentName: string, value: string) => {
+		if (completionTimeoutRef.current) {
+			clearTimeout(completionTimeoutRef.current)
+		}
+
+		completionTimeoutRef.current = setTimeout(() => {
+			const requestId = Math.random().toString(36).substring(2, 9)
+			setCompletion({ argumentName, requestId, values: [] })
+
+			vscode.postMessage({
+				type: "completeMcpResourceArgument",
+				serverName,
+				source: serverSource || "global",
+				text: uri,
+				argumentName,
+				query: value,
+				requestId,
+			})
+		}, 200)
+	}
+
+	const setValue = (name: string, value: string) => {
+		setValues((prev) => ({ ...prev, [name]: value }))
+		requestCompletions(name, value)
+	}
+
+	const canAttach = variables.every(({ name, required }) => !required || values[name]?.trim())
+
+	const handleAttach = () => {
+		vscode.postMessage({
+			type: "attachMcpResource",
+			serverName,
+			source: serverSource || "global",
+			text: uri,
+			resourceArguments: Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim())),
+		})
+	}
+
 	return (
 		<div
 			key={uri}
@@ -52,6 +132,54 @@ const McpResourceRow = ({ item }: McpResourceRowProps) => {
 					{item.mimeType || "Unknown"}
 				</code>
 			</div>
+			{serverName && (
+				<div
+					style={{ display: "flex", flexDirection: "column", gap: "4px", marginTop: "8px" }}
+					data-testid="resource-browser">
+					{variables.map(({ name, required }) => (
+						<div key={name}>
+							<VSCodeTextField
+								value={values[name] ?? ""}
+								onInput={(e) => setValue(name, (e.target as HTMLInputElement).value)}
+								onFocus={() => requestCompletions(name, values[name] ?? "")}
+								style={{ width: "100%" }}
+								data-testid={`resource-argument-${name}`}>
+								<span style={{ fontSize: "12px" }}>
+									{name}
+									{required && <span style={{ color: "var(--vscode-errorForeground)" }}> *</span>}
+								</span>
+							</VSCodeTextField>
+							{completion?.argumentName === name && completion.values.length > 0 && (
+								<div style={{ display: "flex", flexWrap: "wrap", gap: "4px", marginTop: "4px" }}>
+									{completion.values.slice(0, MAX_COMPLETIONS).map((value) => (
+										<Button
+											key={value}
+											variant="secondary"
+											size="sm"
+											onClick={() => {
+												setValues((prev) => ({ ...prev, [name]: value }))
+												setCompletion(undefined)
+											}}>
+											{value}
+										</Button>
+									))}
+								</div>
+							)}
+						</div>
+					))}
+					<div>
+						<Button
+							variant="secondary"
+							size="sm"
+							disabled={!canAttach}
+							onClick={handleAttach}
+							data-testid="attach-resource-button">
+							<span className="codicon codicon-attach" />
+							{t("mcp:resource.attach")}
+						</Button>
+					</div>
+				</div>
+			)}
 		</div>
 	)
 }
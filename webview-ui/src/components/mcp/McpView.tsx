@@ -19,7 +19,9 @@ import { Trans } from "react-i18next"
 import { Tab, TabContent, TabHeader } from "../common/Tab"
 import McpToolRow from "./McpToolRow"
 import McpResourceRow from "./McpResourceRow"
+import McpPromptRow from "./McpPromptRow"
 import McpEnabledToggle from "./McpEnabledToggle"
+import McpAuditLogView from "./McpAuditLogView"
 
 type McpViewProps = {
 	onDone: () => void
@@ -119,6 +121,8 @@ const McpView = ({ onDone }: McpViewProps) => {
 								{t("mcp:editProjectMCP")}
 							</Button>
 						</div>
+
+						<McpAuditLogView />
 					</>
 				)}
 			</TabContent>
@@ -146,6 +150,9 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 		{ value: 3600, label: t("mcp:networkTimeout.options.60minutes") },
 	]
 
+	// A Streamable HTTP server that doesn't support the transport is connected to over SSE
+	const isSseFallback = server.transport === "sse" && JSON.parse(server.config).type === "streamable-http"
+
 	const getStatusColor = () => {
 		switch (server.status) {
 			case "connected":
@@ -225,6 +232,20 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 							{server.source}
 						</span>
 					)}
+					{server.transport && server.transport !== "stdio" && (
+						<span
+							title={isSseFallback ? t("mcp:transport.sseFallback") : undefined}
+							style={{
+								marginLeft: "8px",
+								padding: "1px 6px",
+								fontSize: "11px",
+								borderRadius: "4px",
+								background: "var(--vscode-badge-background)",
+								color: "var(--vscode-badge-foreground)",
+							}}>
+							{t(`mcp:transport.${server.transport}`)}
+						</span>
+					)}
 				</span>
 				<div
 					style={{ display: "flex", alignItems: "center", marginRight: "8px" }}
@@ -349,6 +370,9 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 								{t("mcp:tabs.resources")} (
 								{[...(server.resourceTemplates || []), ...(server.resources || [])].length || 0})
 							</VSCodePanelTab>
+							<VSCodePanelTab id="prompts">
+								{t("mcp:tabs.prompts")} ({server.prompts?.length || 0})
+							</VSCodePanelTab>
 
 							<VSCodePanelView id="tools-view">
 								{server.tools && server.tools.length > 0 ? (
@@ -381,6 +405,8 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 												<McpResourceRow
 													key={"uriTemplate" in item ? item.uriTemplate : item.uri}
 													item={item}
+													serverName={server.name}
+													serverSource={server.source || "global"}
 												/>
 											),
 										)}
@@ -391,6 +417,21 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 									</div>
 								)}
 							</VSCodePanelView>
+
+							<VSCodePanelView id="prompts-view">
+								{server.prompts && server.prompts.length > 0 ? (
+									<div
+										style={{ display: "flex", flexDirection: "column", gap: "8px", width: "100%" }}>
+										{server.prompts.map((prompt) => (
+											<McpPromptRow key={prompt.name} serverName={server.name} prompt={prompt} />
+										))}
+									</div>
+								) : (
+									<div style={{ padding: "10px 0", color: "var(--vscode-descriptionForeground)" }}>
+										{t("mcp:emptyState.noPrompts")}
+									</div>
+								)}
+							</VSCodePanelView>
 						</VSCodePanels>
 
 						{/* Network Timeout */}
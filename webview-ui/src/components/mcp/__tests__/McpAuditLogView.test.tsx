@@ -0,0 +1,76 @@
+import React from "react"
+import { render, fireEvent, screen, act } from "@testing-library/react"
+import McpAuditLogView from "../McpAuditLogView"
+import { vscode } from "../../../utils/vscode"
+
+jest.mock("../../../i18n/TranslationContext", () => ({
+	useAppTranslation: () => ({
+		t: (key: string) => key,
+	}),
+}))
+
+jest.mock("../../../utils/vscode", () => ({
+	vscode: {
+		postMessage: jest.fn(),
+	},
+}))
+
+describe("McpAuditLogView", () => {
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	const postAuditLog = () =>
+		act(() => {
+			window.dispatchEvent(
+				new MessageEvent("message", {
+					data: {
+						type: "mcpAuditLog",
+						mcpAuditLog: [
+							{
+								ts: 2,
+								serverName: "db",
+								toolName: "execute",
+								arguments: { sql: "drop table users" },
+								durationMs: 30,
+								resultSize: 0,
+								isError: true,
+								error: "Permission denied",
+							},
+							{ ts: 1, serverName: "db", toolName: "query", durationMs: 12, resultSize: 2048, isError: false },
+						],
+					},
+				}),
+			)
+		})
+
+	it("requests the audit log when shown", () => {
+		render(<McpAuditLogView />)
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "requestMcpAuditLog" })
+		expect(screen.getByText("mcp:auditLog.empty")).toBeInTheDocument()
+	})
+
+	it("lists tool calls and shows their arguments", () => {
+		render(<McpAuditLogView />)
+		postAuditLog()
+
+		const entries = screen.getAllByTestId("audit-log-entry")
+		expect(entries).toHaveLength(2)
+		expect(screen.getByText("db:execute")).toBeInTheDocument()
+		expect(screen.getByText("Permission denied")).toBeInTheDocument()
+		expect(screen.getByText("12 ms · 2.0 KB")).toBeInTheDocument()
+
+		fireEvent.click(entries[0])
+
+		expect(screen.getByText(/drop table users/)).toBeInTheDocument()
+	})
+
+	it("exports the audit log", () => {
+		render(<McpAuditLogView />)
+
+		fireEvent.click(screen.getByTestId("export-audit-log-button"))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "exportMcpAuditLog" })
+	})
+})
@@ -0,0 +1,125 @@
+import React from "react"
+import { render, fireEvent, screen, act } from "@testing-library/react"
+import McpResourceRow from "../McpResourceRow"
+import { vscode } from "../../../utils/vscode"
+
+jest.mock("../../../i18n/TranslationContext", () => ({
+	useAppTranslation: () => ({
+		t: (key: string) => key,
+	}),
+}))
+
+jest.mock("../../../utils/vscode", () => ({
+	vscode: {
+		postMessage: jest.fn(),
+	},
+}))
+
+jest.mock("@vscode/webview-ui-toolkit/react", () => ({
+	VSCodeTextField: function MockVSCodeTextField({
+		children,
+		value,
+		onInput,
+		onFocus,
+		...props
+	}: {
+		children?: React.ReactNode
+		value?: string
+		onInput?: (e: React.ChangeEvent<HTMLInputElement>) => void
+		onFocus?: () => void
+	}) {
+		return (
+			<label>
+				{children}
+				<input value={value} onChange={onInput} onFocus={onFocus} {...props} />
+			</label>
+		)
+	},
+}))
+
+describe("McpResourceRow", () => {
+	beforeEach(() => {
+		jest.clearAllMocks()
+		jest.useFakeTimers()
+	})
+
+	afterEach(() => {
+		jest.useRealTimers()
+	})
+
+	it("does not show the browser without a server", () => {
+		render(<McpResourceRow item={{ uri: "file:///readme.md", name: "Readme" }} />)
+
+		expect(screen.queryByTestId("resource-browser")).not.toBeInTheDocument()
+	})
+
+	it("attaches a resource", () => {
+		render(<McpResourceRow item={{ uri: "file:///readme.md", name: "Readme" }} serverName="docs" />)
+
+		fireEvent.click(screen.getByTestId("attach-resource-button"))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "attachMcpResource",
+			serverName: "docs",
+			source: "global",
+			text: "file:///readme.md",
+			resourceArguments: {},
+		})
+	})
+
+	it("requires the path arguments of a template before attaching it", () => {
+		render(
+			<McpResourceRow
+				item={{ uriTemplate: "weather://{city}/forecast{?days}", name: "Forecast" }}
+				serverName="weather"
+				serverSource="project"
+			/>,
+		)
+
+		const attachButton = screen.getByTestId("attach-resource-button")
+		expect(attachButton).toBeDisabled()
+
+		fireEvent.change(screen.getByTestId("resource-argument-city"), { target: { value: "paris" } })
+		fireEvent.click(attachButton)
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "attachMcpResource",
+			serverName: "weather",
+			source: "project",
+			text: "weather://{city}/forecast{?days}",
+			resourceArguments: { city: "paris" },
+		})
+	})
+
+	it("suggests the values the server completes", () => {
+		render(<McpResourceRow item={{ uriTemplate: "weather://{city}", name: "Weather" }} serverName="weather" />)
+
+		fireEvent.change(screen.getByTestId("resource-argument-city"), { target: { value: "p" } })
+		act(() => {
+			jest.advanceTimersByTime(200)
+		})
+
+		const request = (vscode.postMessage as jest.Mock).mock.calls[0][0]
+		expect(request).toEqual(
+			expect.objectContaining({
+				type: "completeMcpResourceArgument",
+				serverName: "weather",
+				text: "weather://{city}",
+				argumentName: "city",
+				query: "p",
+			}),
+		)
+
+		act(() => {
+			window.dispatchEvent(
+				new MessageEvent("message", {
+					data: { type: "mcpCompletion", requestId: request.requestId, completions: ["paris", "porto"] },
+				}),
+			)
+		})
+
+		fireEvent.click(screen.getByText("porto"))
+
+		expect(screen.getByTestId("resource-argument-city")).toHaveValue("porto")
+	})
+})
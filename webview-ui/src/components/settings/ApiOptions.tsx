@@ -55,6 +55,7 @@ import { ModelInfoView } from "./ModelInfoView"
 import { ModelPicker } from "./ModelPicker"
 import { TemperatureControl } from "./TemperatureControl"
 import { RateLimitSecondsControl } from "./RateLimitSecondsControl"
+import { CostBudgetControl } from "./CostBudgetControl"
 import { DiffSettingsControl } from "./DiffSettingsControl"
 import { ApiErrorMessage } from "./ApiErrorMessage"
 import { ThinkingBudget } from "./ThinkingBudget"
@@ -1729,6 +1730,11 @@ const ApiOptions = ({
 						value={apiConfiguration.rateLimitSeconds || 0}
 						onChange={(value) => setApiConfigurationField("rateLimitSeconds", value)}
 					/>
+					<CostBudgetControl
+						value={apiConfiguration.costBudget}
+						onChange={(value) => setApiConfigurationField("costBudget", value)}
+						description={t("settings:costBudget.profileDescription")}
+					/>
 				</>
 			)}
 		</div>
@@ -1,19 +1,48 @@
-import { HTMLAttributes } from "react"
+import { HTMLAttributes, useState } from "react"
+import { useEvent, useMount } from "react-use"
+import prettyBytes from "pretty-bytes"
 import { useAppTranslation } from "@/i18n/TranslationContext"
-import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
+import { VSCodeCheckbox, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
 import { GitBranch } from "lucide-react"
 
+import { CheckpointRetention } from "../../../../src/schemas"
+import { ExtensionMessage } from "../../../../src/shared/ExtensionMessage"
+import { CheckpointStorageUsage } from "../../../../src/shared/checkpoints"
+
+import { vscode } from "@/utils/vscode"
+import { Button } from "@/components/ui"
+
 import { SetCachedStateField } from "./types"
 import { SectionHeader } from "./SectionHeader"
 import { Section } from "./Section"
 
+const RETENTION_LIMITS = ["maxAgeDays", "maxTasks", "maxSizeMb"] as const
+
 type CheckpointSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	enableCheckpoints?: boolean
-	setCachedStateField: SetCachedStateField<"enableCheckpoints">
+	checkpointRetention?: CheckpointRetention
+	setCachedStateField: SetCachedStateField<"enableCheckpoints" | "checkpointRetention">
 }
 
-export const CheckpointSettings = ({ enableCheckpoints, setCachedStateField, ...props }: CheckpointSettingsProps) => {
+export const CheckpointSettings = ({
+	enableCheckpoints,
+	checkpointRetention = {},
+	setCachedStateField,
+	...props
+}: CheckpointSettingsProps) => {
 	const { t } = useAppTranslation()
+	const [storage, setStorage] = useState<CheckpointStorageUsage>()
+
+	useMount(() => vscode.postMessage({ type: "requestCheckpointStorage" }))
+
+	useEvent("message", (event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		if (message.type === "checkpointStorage") {
+			setStorage(message.checkpointStorage)
+		}
+	})
+
 	return (
 		<div {...props}>
 			<SectionHeader>
@@ -36,6 +65,72 @@ export const CheckpointSettings = ({ enableCheckpoints, setCachedStateField, ...
 						{t("settings:checkpoints.enable.description")}
 					</p>
 				</div>
+
+				<div className="flex flex-col gap-1">
+					<label className="block font-medium mb-1">{t("settings:checkpoints.retention.label")}</label>
+					<div className="flex items-center gap-2">
+						{RETENTION_LIMITS.map((limit) => (
+							<VSCodeTextField
+								key={limit}
+								value={checkpointRetention[limit]?.toString() ?? ""}
+								onInput={(e) => {
+									const parsed = parseInt((e.target as HTMLInputElement).value, 10)
+									setCachedStateField("checkpointRetention", {
+										...checkpointRetention,
+										[limit]: isNaN(parsed) || parsed <= 0 ? undefined : parsed,
+									})
+								}}
+								placeholder={t("settings:checkpoints.retention.unlimited")}
+								className="flex-1"
+								data-testid={`checkpoint-retention-${limit}`}>
+								<span className="text-sm">{t(`settings:checkpoints.retention.${limit}`)}</span>
+							</VSCodeTextField>
+						))}
+					</div>
+					<div className="text-sm text-vscode-descriptionForeground">
+						{t("settings:checkpoints.retention.description")}
+					</div>
+				</div>
+
+				<div className="flex flex-col gap-1" data-testid="checkpoint-storage">
+					<div className="flex items-center justify-between">
+						<span className="font-medium">
+							{t("settings:checkpoints.storage.label", {
+								size: prettyBytes(storage?.totalSize ?? 0),
+							})}
+						</span>
+						<Button
+							variant="secondary"
+							size="sm"
+							onClick={() => vscode.postMessage({ type: "collectCheckpointGarbage" })}
+							data-testid="collect-checkpoint-garbage-button">
+							{t("settings:checkpoints.storage.cleanUp")}
+						</Button>
+					</div>
+					{storage?.workspaces.map((usage) => (
+						<div key={usage.workspace} className="flex items-center gap-2 text-sm">
+							<span className="grow truncate" title={usage.workspace}>
+								{usage.workspace || t("settings:checkpoints.storage.unknownWorkspace")}
+							</span>
+							<span className="text-vscode-descriptionForeground">
+								{t("settings:checkpoints.storage.tasks", { count: usage.taskCount })}
+							</span>
+							<span className="w-16 text-right">{prettyBytes(usage.size)}</span>
+							<Button
+								variant="ghost"
+								size="icon"
+								title={t("settings:checkpoints.storage.purge")}
+								onClick={() =>
+									vscode.postMessage({ type: "purgeWorkspaceCheckpoints", text: usage.workspace })
+								}>
+								<span className="codicon codicon-trash" />
+							</Button>
+						</div>
+					))}
+					<div className="text-sm text-vscode-descriptionForeground">
+						{t("settings:checkpoints.storage.description")}
+					</div>
+				</div>
 			</Section>
 		</div>
 	)
@@ -3,8 +3,16 @@ import { useAppTranslation } from "@/i18n/TranslationContext"
 import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
 import { Database } from "lucide-react"
 
+import {
+	ApiConfigMeta,
+	DiagnosticsSeverity,
+	SlidingWindowStrategy,
+	diagnosticsSeverities,
+	slidingWindowStrategies,
+} from "../../../../src/schemas"
+
 import { cn } from "@/lib/utils"
-import { Slider } from "@/components/ui"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue, Slider } from "@/components/ui"
 
 import { SetCachedStateField } from "./types"
 import { SectionHeader } from "./SectionHeader"
@@ -15,17 +23,37 @@ type ContextManagementSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	maxWorkspaceFiles: number
 	showKodelyIgnoredFiles?: boolean
 	maxReadFileLine?: number
+	slidingWindowStrategy?: SlidingWindowStrategy
+	condensingApiConfigName?: string
+	diagnosticsSeverity?: DiagnosticsSeverity
+	maxDiagnosticsPerFile?: number
+	listApiConfigMeta?: ApiConfigMeta[]
 	setCachedStateField: SetCachedStateField<
-		"maxOpenTabsContext" | "maxWorkspaceFiles" | "showKodelyIgnoredFiles" | "maxReadFileLine"
+		| "maxOpenTabsContext"
+		| "maxWorkspaceFiles"
+		| "showKodelyIgnoredFiles"
+		| "maxReadFileLine"
+		| "slidingWindowStrategy"
+		| "condensingApiConfigName"
+		| "diagnosticsSeverity"
+		| "maxDiagnosticsPerFile"
 	>
 }
 
+// Select items can't have an empty value.
+const TASK_PROFILE = "-"
+
 export const ContextManagementSettings = ({
 	maxOpenTabsContext,
 	maxWorkspaceFiles,
 	showKodelyIgnoredFiles,
 	setCachedStateField,
 	maxReadFileLine,
+	slidingWindowStrategy = "summarize",
+	condensingApiConfigName,
+	diagnosticsSeverity = "error",
+	maxDiagnosticsPerFile = 10,
+	listApiConfigMeta = [],
 	className,
 	...props
 }: ContextManagementSettingsProps) => {
@@ -127,6 +155,110 @@ export const ContextManagementSettings = ({
 						{t("settings:contextManagement.maxReadFile.description")}
 					</div>
 				</div>
+
+				<div>
+					<span className="block font-medium mb-1">
+						{t("settings:contextManagement.slidingWindowStrategy.label")}
+					</span>
+					<Select
+						value={slidingWindowStrategy}
+						onValueChange={(value) =>
+							setCachedStateField("slidingWindowStrategy", value as SlidingWindowStrategy)
+						}>
+						<SelectTrigger className="w-full" data-testid="sliding-window-strategy-select">
+							<SelectValue placeholder={t("settings:common.select")} />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectGroup>
+								{slidingWindowStrategies.map((strategy) => (
+									<SelectItem key={strategy} value={strategy}>
+										{t(`settings:contextManagement.slidingWindowStrategy.${strategy}.label`)}
+									</SelectItem>
+								))}
+							</SelectGroup>
+						</SelectContent>
+					</Select>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t(`settings:contextManagement.slidingWindowStrategy.${slidingWindowStrategy}.description`)}
+					</div>
+				</div>
+
+				{slidingWindowStrategy === "summarize" && (
+					<div>
+						<span className="block font-medium mb-1">
+							{t("settings:contextManagement.condensingApiConfig.label")}
+						</span>
+						<Select
+							value={condensingApiConfigName || TASK_PROFILE}
+							onValueChange={(value) =>
+								setCachedStateField("condensingApiConfigName", value === TASK_PROFILE ? "" : value)
+							}>
+							<SelectTrigger className="w-full" data-testid="condensing-api-config-select">
+								<SelectValue placeholder={t("settings:common.select")} />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectGroup>
+									<SelectItem value={TASK_PROFILE}>
+										{t("settings:contextManagement.condensingApiConfig.taskProfile")}
+									</SelectItem>
+									{listApiConfigMeta.map(({ name }) => (
+										<SelectItem key={name} value={name}>
+											{name}
+										</SelectItem>
+									))}
+								</SelectGroup>
+							</SelectContent>
+						</Select>
+						<div className="text-vscode-descriptionForeground text-sm mt-1">
+							{t("settings:contextManagement.condensingApiConfig.description")}
+						</div>
+					</div>
+				)}
+
+				<div>
+					<span className="block font-medium mb-1">
+						{t("settings:contextManagement.diagnostics.label")}
+					</span>
+					<div className="flex items-center gap-2">
+						<Select
+							value={diagnosticsSeverity}
+							onValueChange={(value) =>
+								setCachedStateField("diagnosticsSeverity", value as DiagnosticsSeverity)
+							}>
+							<SelectTrigger className="grow" data-testid="diagnostics-severity-select">
+								<SelectValue placeholder={t("settings:common.select")} />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectGroup>
+									{diagnosticsSeverities.map((severity) => (
+										<SelectItem key={severity} value={severity}>
+											{t(`settings:contextManagement.diagnostics.${severity}`)}
+										</SelectItem>
+									))}
+								</SelectGroup>
+							</SelectContent>
+						</Select>
+						<input
+							type="number"
+							className="w-16 bg-vscode-input-background text-vscode-input-foreground border border-vscode-input-border px-2 py-1 rounded text-right [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+							value={maxDiagnosticsPerFile}
+							min={0}
+							title={t("settings:contextManagement.diagnostics.maxPerFile")}
+							aria-label={t("settings:contextManagement.diagnostics.maxPerFile")}
+							onChange={(e) => {
+								const newValue = parseInt(e.target.value, 10)
+								if (!isNaN(newValue) && newValue >= 0) {
+									setCachedStateField("maxDiagnosticsPerFile", newValue)
+								}
+							}}
+							onClick={(e) => e.currentTarget.select()}
+							data-testid="max-diagnostics-per-file-input"
+						/>
+					</div>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:contextManagement.diagnostics.description")}
+					</div>
+				</div>
 			</Section>
 		</div>
 	)
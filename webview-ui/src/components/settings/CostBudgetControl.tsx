@@ -0,0 +1,41 @@
+import React from "react"
+import { VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+
+import { CostBudget } from "../../../../src/schemas"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+
+const LIMITS = ["perTask", "perDay", "perMonth"] as const
+
+interface CostBudgetControlProps {
+	value?: CostBudget
+	onChange: (value: CostBudget) => void
+	description: string
+}
+
+export const CostBudgetControl: React.FC<CostBudgetControlProps> = ({ value = {}, onChange, description }) => {
+	const { t } = useAppTranslation()
+
+	return (
+		<div className="flex flex-col gap-1">
+			<label className="block font-medium mb-1">{t("settings:costBudget.label")}</label>
+			<div className="flex items-center gap-2">
+				{LIMITS.map((limit) => (
+					<VSCodeTextField
+						key={limit}
+						value={value[limit]?.toString() ?? ""}
+						onInput={(e) => {
+							const parsed = parseFloat((e.target as HTMLInputElement).value)
+							onChange({ ...value, [limit]: isNaN(parsed) || parsed <= 0 ? undefined : parsed })
+						}}
+						placeholder={t("settings:costBudget.unlimited")}
+						className="flex-1"
+						data-testid={`cost-budget-${limit}`}>
+						<span className="text-sm">{t(`settings:costBudget.${limit}`)}</span>
+					</VSCodeTextField>
+				))}
+			</div>
+			<div className="text-sm text-vscode-descriptionForeground">{description}</div>
+		</div>
+	)
+}
@@ -1,14 +1,28 @@
-import { HTMLAttributes, useEffect, useRef } from "react"
+import { HTMLAttributes, useCallback, useEffect, useRef, useState } from "react"
+import { useEvent } from "react-use"
 import { useAppTranslation } from "@/i18n/TranslationContext"
 import { VSCodeCheckbox, VSCodeRadio, VSCodeRadioGroup } from "@vscode/webview-ui-toolkit/react"
 import { DollarSign } from "lucide-react"
 
+import {
+    ApiConfigMeta,
+    codeCompressionLevels,
+    CodeCompressionLevel,
+    CostBudget,
+    ModelRoutingPolicy,
+} from "../../../../src/schemas"
+import { ExtensionMessage, SpendSummary } from "../../../../src/shared/ExtensionMessage"
+
 import { cn } from "@/lib/utils"
-import { Slider } from "@/components/ui"
+import { vscode } from "@/utils/vscode"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue, Slider } from "@/components/ui"
 
 import { SetCachedStateField } from "./types"
 import { SectionHeader } from "./SectionHeader"
 import { Section } from "./Section"
+import { RagIndexStatus } from "./RagIndexStatus"
+import { CostBudgetControl } from "./CostBudgetControl"
+import { ModelRoutingRules } from "./ModelRoutingRules"
 // No need to import CostOptimizationLevel as we're using string literals
 
 type CostOptimizationSettingsProps = HTMLAttributes<HTMLDivElement> & {
@@ -17,8 +31,19 @@ type CostOptimizationSettingsProps = HTMLAttributes<HTMLDivElement> & {
     useLocalRag: boolean;
     maxOutputTokens: number;
     compressCodeInContext: boolean;
+    codeCompressionLevel: CodeCompressionLevel;
+    globalCostBudget?: CostBudget;
+    modelRoutingPolicy?: ModelRoutingPolicy;
+    listApiConfigMeta?: ApiConfigMeta[];
     setCachedStateField: SetCachedStateField<
-        "optimizationLevel" | "maxContextWindowUsage" | "useLocalRag" | "maxOutputTokens" | "compressCodeInContext"
+        | "optimizationLevel"
+        | "maxContextWindowUsage"
+        | "useLocalRag"
+        | "maxOutputTokens"
+        | "compressCodeInContext"
+        | "codeCompressionLevel"
+        | "globalCostBudget"
+        | "modelRoutingPolicy"
     >;
 }
 
@@ -28,11 +53,30 @@ export function CostOptimizationSettings({
     useLocalRag,
     maxOutputTokens,
     compressCodeInContext,
+    codeCompressionLevel,
+    globalCostBudget,
+    modelRoutingPolicy,
+    listApiConfigMeta = [],
     setCachedStateField,
     className,
     ...props
 }: CostOptimizationSettingsProps) {
     const { t } = useAppTranslation()
+    const [spendSummary, setSpendSummary] = useState<SpendSummary>();
+
+    useEffect(() => {
+        vscode.postMessage({ type: "requestSpendSummary" });
+    }, []);
+
+    const onMessage = useCallback((event: MessageEvent) => {
+        const message: ExtensionMessage = event.data;
+
+        if (message.type === "spendSummary" && message.spendSummary) {
+            setSpendSummary(message.spendSummary);
+        }
+    }, []);
+
+    useEvent("message", onMessage);
 
     // Sync slider values with optimization level only when the optimization level changes
     // This allows users to customize settings after selecting a preset
@@ -172,6 +216,7 @@ export function CostOptimizationSettings({
                     <div className="text-xs opacity-70 ml-6">
                         {t("settings:costOptimization.useLocalRag.description")}
                     </div>
+                    <RagIndexStatus />
                 </div>
 
                 <div className="flex flex-col gap-2 mt-4">
@@ -189,6 +234,60 @@ export function CostOptimizationSettings({
                     <div className="text-xs opacity-70 ml-6">
                         {t("settings:costOptimization.compressCodeInContext.description")}
                     </div>
+                    {compressCodeInContext && (
+                        <div className="flex flex-col gap-1 ml-6">
+                            <Select
+                                value={codeCompressionLevel}
+                                onValueChange={(value) =>
+                                    setCachedStateField("codeCompressionLevel", value as CodeCompressionLevel)
+                                }>
+                                <SelectTrigger className="w-full">
+                                    <SelectValue placeholder={t("settings:common.select")} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectGroup>
+                                        {codeCompressionLevels.map((level) => (
+                                            <SelectItem key={level} value={level}>
+                                                {t(`settings:costOptimization.codeCompressionLevel.${level}.label`)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectGroup>
+                                </SelectContent>
+                            </Select>
+                            <div className="text-xs opacity-70">
+                                {t(`settings:costOptimization.codeCompressionLevel.${codeCompressionLevel}.description`)}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex flex-col gap-2 mt-4">
+                    <CostBudgetControl
+                        value={globalCostBudget}
+                        onChange={(value) => setCachedStateField("globalCostBudget", value)}
+                        description={t("settings:costBudget.globalDescription")}
+                    />
+                    {spendSummary && (
+                        <div className="text-xs opacity-70">
+                            {t("settings:costBudget.spent", {
+                                day: `$${spendSummary.day.toFixed(2)}`,
+                                month: `$${spendSummary.month.toFixed(2)}`,
+                            })}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex flex-col gap-2 mt-4">
+                    <ModelRoutingRules
+                        rules={modelRoutingPolicy?.[optimizationLevel] ?? []}
+                        profiles={listApiConfigMeta}
+                        onChange={(rules) =>
+                            setCachedStateField("modelRoutingPolicy", {
+                                ...modelRoutingPolicy,
+                                [optimizationLevel]: rules,
+                            })
+                        }
+                    />
                 </div>
             </Section>
         </div>
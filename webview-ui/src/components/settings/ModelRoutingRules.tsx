@@ -0,0 +1,136 @@
+import React from "react"
+import { VSCodeCheckbox, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { Plus, Trash2 } from "lucide-react"
+
+import { ApiConfigMeta, ModelRoutingRule } from "../../../../src/schemas"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { Button, Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui"
+
+const parseList = (value: string) => {
+	const items = value
+		.split(",")
+		.map((item) => item.trim())
+		.filter(Boolean)
+
+	return items.length > 0 ? items : undefined
+}
+
+const parseCount = (value: string) => {
+	const parsed = parseInt(value, 10)
+	return isNaN(parsed) || parsed < 0 ? undefined : parsed
+}
+
+interface ModelRoutingRulesProps {
+	rules: ModelRoutingRule[]
+	profiles: ApiConfigMeta[]
+	onChange: (rules: ModelRoutingRule[]) => void
+}
+
+export const ModelRoutingRules: React.FC<ModelRoutingRulesProps> = ({ rules, profiles, onChange }) => {
+	const { t } = useAppTranslation()
+
+	const updateRule = (index: number, update: Partial<ModelRoutingRule>) =>
+		onChange(rules.map((rule, i) => (i === index ? { ...rule, ...update } : rule)))
+
+	return (
+		<div className="flex flex-col gap-2" data-testid="model-routing-rules">
+			<label className="block font-medium">{t("settings:costOptimization.modelRouting.label")}</label>
+			<div className="text-xs opacity-70">{t("settings:costOptimization.modelRouting.description")}</div>
+			{rules.map((rule, index) => (
+				<div
+					key={index}
+					className="flex flex-col gap-2 p-2 border border-vscode-panel-border rounded"
+					data-testid={`model-routing-rule-${index}`}>
+					<div className="flex items-center gap-2">
+						<Select value={rule.profile} onValueChange={(profile) => updateRule(index, { profile })}>
+							<SelectTrigger className="flex-1">
+								<SelectValue placeholder={t("settings:costOptimization.modelRouting.profile")} />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectGroup>
+									{profiles.map(({ name }) => (
+										<SelectItem key={name} value={name}>
+											{name}
+										</SelectItem>
+									))}
+								</SelectGroup>
+							</SelectContent>
+						</Select>
+						<Button
+							variant="ghost"
+							size="icon"
+							title={t("settings:costOptimization.modelRouting.remove")}
+							onClick={() => onChange(rules.filter((_, i) => i !== index))}>
+							<Trash2 />
+						</Button>
+					</div>
+					<div className="flex items-center gap-2">
+						<VSCodeTextField
+							value={rule.modes?.join(", ") ?? ""}
+							onInput={(e) => updateRule(index, { modes: parseList((e.target as HTMLInputElement).value) })}
+							placeholder={t("settings:costOptimization.modelRouting.any")}
+							className="flex-1">
+							<span className="text-sm">{t("settings:costOptimization.modelRouting.modes")}</span>
+						</VSCodeTextField>
+						<VSCodeTextField
+							value={rule.lastTools?.join(", ") ?? ""}
+							onInput={(e) =>
+								updateRule(index, { lastTools: parseList((e.target as HTMLInputElement).value) })
+							}
+							placeholder={t("settings:costOptimization.modelRouting.any")}
+							className="flex-1">
+							<span className="text-sm">{t("settings:costOptimization.modelRouting.lastTools")}</span>
+						</VSCodeTextField>
+					</div>
+					<div className="flex items-center gap-2">
+						<VSCodeTextField
+							value={rule.minConsecutiveMistakes?.toString() ?? ""}
+							onInput={(e) =>
+								updateRule(index, {
+									minConsecutiveMistakes: parseCount((e.target as HTMLInputElement).value),
+								})
+							}
+							className="flex-1">
+							<span className="text-sm">
+								{t("settings:costOptimization.modelRouting.minConsecutiveMistakes")}
+							</span>
+						</VSCodeTextField>
+						<VSCodeTextField
+							value={rule.minContextTokens?.toString() ?? ""}
+							onInput={(e) =>
+								updateRule(index, { minContextTokens: parseCount((e.target as HTMLInputElement).value) })
+							}
+							className="flex-1">
+							<span className="text-sm">{t("settings:costOptimization.modelRouting.minContextTokens")}</span>
+						</VSCodeTextField>
+						<VSCodeTextField
+							value={rule.maxContextTokens?.toString() ?? ""}
+							onInput={(e) =>
+								updateRule(index, { maxContextTokens: parseCount((e.target as HTMLInputElement).value) })
+							}
+							className="flex-1">
+							<span className="text-sm">{t("settings:costOptimization.modelRouting.maxContextTokens")}</span>
+						</VSCodeTextField>
+					</div>
+					<VSCodeCheckbox
+						checked={rule.lastToolFailed ?? false}
+						onChange={(e) =>
+							updateRule(index, { lastToolFailed: (e.target as HTMLInputElement).checked || undefined })
+						}>
+						{t("settings:costOptimization.modelRouting.lastToolFailed")}
+					</VSCodeCheckbox>
+				</div>
+			))}
+			<div>
+				<Button
+					variant="secondary"
+					disabled={profiles.length === 0}
+					onClick={() => onChange([...rules, { profile: profiles[0].name }])}>
+					<Plus className="p-0.5" />
+					{t("settings:costOptimization.modelRouting.add")}
+				</Button>
+			</div>
+		</div>
+	)
+}
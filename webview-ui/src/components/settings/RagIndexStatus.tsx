@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from "react"
+import { useEvent } from "react-use"
+import prettyBytes from "pretty-bytes"
+import { RefreshCw, Trash2 } from "lucide-react"
+
+import { ExtensionMessage, RagIndexStatus as RagIndexStatusType } from "../../../../src/shared/ExtensionMessage"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { vscode } from "@/utils/vscode"
+import { formatDate } from "@/utils/format"
+import { Button, Progress } from "@/components/ui"
+
+export const RagIndexStatus = () => {
+	const { t } = useAppTranslation()
+	const [status, setStatus] = useState<RagIndexStatusType>()
+
+	useEffect(() => {
+		vscode.postMessage({ type: "requestRagIndexStatus" })
+	}, [])
+
+	const onMessage = useCallback((event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		if (message.type === "ragIndexStatus" && message.ragIndexStatus) {
+			setStatus(message.ragIndexStatus)
+		}
+	}, [])
+
+	useEvent("message", onMessage)
+
+	if (!status) {
+		return null
+	}
+
+	const { progress } = status
+
+	return (
+		<div className="flex flex-col gap-2 ml-6" data-testid="rag-index-status">
+			<div className="text-sm">
+				{status.state === "indexing"
+					? t("settings:costOptimization.ragIndex.indexing")
+					: status.state === "error"
+						? t("settings:costOptimization.ragIndex.error", { error: status.error })
+						: t("settings:costOptimization.ragIndex.idle")}
+			</div>
+			{progress && progress.total > 0 && (
+				<div className="flex items-center gap-2">
+					<Progress value={(progress.processed / progress.total) * 100} />
+					<div className="text-xs whitespace-nowrap">
+						{progress.processed} / {progress.total}
+					</div>
+				</div>
+			)}
+			<div className="text-xs opacity-70">
+				{t("settings:costOptimization.ragIndex.summary", {
+					files: status.filesIndexed,
+					chunks: status.chunkCount,
+					size: prettyBytes(status.indexSizeBytes),
+				})}
+				{status.lastUpdated &&
+					` · ${t("settings:costOptimization.ragIndex.lastUpdated", { date: formatDate(status.lastUpdated) })}`}
+			</div>
+			{status.folders.length > 1 &&
+				status.folders.map((folder) => (
+					<div key={folder.name} className="text-xs opacity-70">
+						{folder.name}:{" "}
+						{t("settings:costOptimization.ragIndex.summary", {
+							files: folder.filesIndexed,
+							chunks: folder.chunkCount,
+							size: prettyBytes(folder.indexSizeBytes),
+						})}
+					</div>
+				))}
+			<div className="flex items-center gap-2">
+				<Button
+					variant="secondary"
+					disabled={status.state === "indexing"}
+					onClick={() => vscode.postMessage({ type: "rebuildRagIndex" })}>
+					<RefreshCw className="p-0.5" />
+					{t("settings:costOptimization.ragIndex.rebuild")}
+				</Button>
+				<Button
+					variant="secondary"
+					disabled={status.state === "indexing"}
+					onClick={() => vscode.postMessage({ type: "clearRagIndex" })}>
+					<Trash2 className="p-0.5" />
+					{t("settings:costOptimization.ragIndex.clear")}
+				</Button>
+			</div>
+		</div>
+	)
+}
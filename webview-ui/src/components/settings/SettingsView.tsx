@@ -113,6 +113,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		browserToolEnabled,
 		browserViewportSize,
 		enableCheckpoints,
+		checkpointRetention,
 		diffEnabled,
 		experiments,
 		fuzzyMatchThreshold,
@@ -135,15 +136,27 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		terminalZshOhMy,
 		terminalZshP10k,
 		terminalZdotdir,
+		terminalBackend,
+		terminalCommandTimeout,
+		terminalEnvAllowlist,
+		terminalConfineToWorkspace,
+		testRunTimeout,
 		writeDelayMs,
 		showKodelyIgnoredFiles,
 		remoteBrowserEnabled,
 		maxReadFileLine,
+		slidingWindowStrategy = "summarize",
+		condensingApiConfigName,
+		diagnosticsSeverity,
+		maxDiagnosticsPerFile,
 		optimizationLevel = CostOptimizationLevel.BALANCED,
 		maxContextWindowUsage = 85,
 		useLocalRag = true,
 		maxOutputTokens = 2000,
 		compressCodeInContext = false,
+		codeCompressionLevel = "signatures",
+		globalCostBudget,
+		modelRoutingPolicy,
 	} = cachedState
 
 	// Make sure apiConfiguration is initialized and managed by SettingsView.
@@ -239,6 +252,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 			vscode.postMessage({ type: "soundVolume", value: soundVolume })
 			vscode.postMessage({ type: "diffEnabled", bool: diffEnabled })
 			vscode.postMessage({ type: "enableCheckpoints", bool: enableCheckpoints })
+			vscode.postMessage({ type: "checkpointRetention", values: checkpointRetention ?? {} })
 			vscode.postMessage({ type: "browserViewportSize", text: browserViewportSize })
 			vscode.postMessage({ type: "remoteBrowserHost", text: remoteBrowserHost })
 			vscode.postMessage({ type: "remoteBrowserEnabled", bool: remoteBrowserEnabled })
@@ -253,6 +267,11 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 			vscode.postMessage({ type: "terminalZshOhMy", bool: terminalZshOhMy })
 			vscode.postMessage({ type: "terminalZshP10k", bool: terminalZshP10k })
 			vscode.postMessage({ type: "terminalZdotdir", bool: terminalZdotdir })
+			vscode.postMessage({ type: "terminalBackend", text: terminalBackend })
+			vscode.postMessage({ type: "terminalCommandTimeout", value: terminalCommandTimeout })
+			vscode.postMessage({ type: "terminalEnvAllowlist", commands: terminalEnvAllowlist })
+			vscode.postMessage({ type: "terminalConfineToWorkspace", bool: terminalConfineToWorkspace })
+			vscode.postMessage({ type: "testRunTimeout", value: testRunTimeout })
 			vscode.postMessage({ type: "mcpEnabled", bool: mcpEnabled })
 			vscode.postMessage({ type: "alwaysApproveResubmit", bool: alwaysApproveResubmit })
 			vscode.postMessage({ type: "requestDelaySeconds", value: requestDelaySeconds })
@@ -260,6 +279,10 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 			vscode.postMessage({ type: "maxWorkspaceFiles", value: maxWorkspaceFiles ?? 200 })
 			vscode.postMessage({ type: "showKodelyIgnoredFiles", bool: showKodelyIgnoredFiles })
 			vscode.postMessage({ type: "maxReadFileLine", value: maxReadFileLine ?? 500 })
+			vscode.postMessage({ type: "slidingWindowStrategy", text: slidingWindowStrategy })
+			vscode.postMessage({ type: "condensingApiConfigName", text: condensingApiConfigName ?? "" })
+			vscode.postMessage({ type: "diagnosticsSeverity", text: diagnosticsSeverity ?? "error" })
+			vscode.postMessage({ type: "maxDiagnosticsPerFile", value: maxDiagnosticsPerFile ?? 10 })
 			vscode.postMessage({ type: "currentApiConfigName", text: currentApiConfigName })
 			vscode.postMessage({ type: "updateExperimental", values: experiments })
 			vscode.postMessage({ type: "alwaysAllowModeSwitch", bool: alwaysAllowModeSwitch })
@@ -271,6 +294,9 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 			vscode.postMessage({ type: "useLocalRag", bool: useLocalRag })
 			vscode.postMessage({ type: "maxOutputTokens", value: maxOutputTokens })
 			vscode.postMessage({ type: "compressCodeInContext", bool: compressCodeInContext })
+			vscode.postMessage({ type: "codeCompressionLevel", text: codeCompressionLevel })
+			vscode.postMessage({ type: "globalCostBudget", values: globalCostBudget ?? {} })
+			vscode.postMessage({ type: "modelRoutingPolicy", values: modelRoutingPolicy ?? {} })
 			setChangeDetected(false)
 		}
 	}
@@ -446,6 +472,10 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 						useLocalRag={useLocalRag}
 						maxOutputTokens={maxOutputTokens}
 						compressCodeInContext={compressCodeInContext}
+						codeCompressionLevel={codeCompressionLevel}
+						globalCostBudget={globalCostBudget}
+						modelRoutingPolicy={modelRoutingPolicy}
+						listApiConfigMeta={listApiConfigMeta}
 						setCachedStateField={setCachedStateField}
 					/>
 				</div>
@@ -483,6 +513,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 				<div ref={checkpointsRef}>
 					<CheckpointSettings
 						enableCheckpoints={enableCheckpoints}
+						checkpointRetention={checkpointRetention}
 						setCachedStateField={setCachedStateField}
 					/>
 				</div>
@@ -503,6 +534,11 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 						maxWorkspaceFiles={maxWorkspaceFiles ?? 200}
 						showKodelyIgnoredFiles={showKodelyIgnoredFiles}
 						maxReadFileLine={maxReadFileLine}
+						slidingWindowStrategy={slidingWindowStrategy}
+						condensingApiConfigName={condensingApiConfigName}
+						diagnosticsSeverity={diagnosticsSeverity}
+						maxDiagnosticsPerFile={maxDiagnosticsPerFile}
+						listApiConfigMeta={listApiConfigMeta}
 						setCachedStateField={setCachedStateField}
 					/>
 				</div>
@@ -517,6 +553,11 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 						terminalZshOhMy={terminalZshOhMy}
 						terminalZshP10k={terminalZshP10k}
 						terminalZdotdir={terminalZdotdir}
+						terminalBackend={terminalBackend}
+						terminalCommandTimeout={terminalCommandTimeout}
+						terminalEnvAllowlist={terminalEnvAllowlist}
+						terminalConfineToWorkspace={terminalConfineToWorkspace}
+						testRunTimeout={testRunTimeout}
 						setCachedStateField={setCachedStateField}
 					/>
 				</div>
@@ -1,10 +1,12 @@
 import { HTMLAttributes } from "react"
 import { useAppTranslation } from "@/i18n/TranslationContext"
 import { SquareTerminal } from "lucide-react"
-import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
+import { VSCodeCheckbox, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+
+import { TerminalBackend, terminalBackends } from "../../../../src/schemas"
 
 import { cn } from "@/lib/utils"
-import { Slider } from "@/components/ui"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue, Slider } from "@/components/ui"
 
 import { SetCachedStateField } from "./types"
 import { SectionHeader } from "./SectionHeader"
@@ -19,6 +21,11 @@ type TerminalSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	terminalZshOhMy?: boolean
 	terminalZshP10k?: boolean
 	terminalZdotdir?: boolean
+	terminalBackend?: TerminalBackend
+	terminalCommandTimeout?: number
+	terminalEnvAllowlist?: string[]
+	terminalConfineToWorkspace?: boolean
+	testRunTimeout?: number
 	setCachedStateField: SetCachedStateField<
 		| "terminalOutputLineLimit"
 		| "terminalShellIntegrationTimeout"
@@ -28,6 +35,11 @@ type TerminalSettingsProps = HTMLAttributes<HTMLDivElement> & {
 		| "terminalZshOhMy"
 		| "terminalZshP10k"
 		| "terminalZdotdir"
+		| "terminalBackend"
+		| "terminalCommandTimeout"
+		| "terminalEnvAllowlist"
+		| "terminalConfineToWorkspace"
+		| "testRunTimeout"
 	>
 }
 
@@ -40,6 +52,11 @@ export const TerminalSettings = ({
 	terminalZshOhMy,
 	terminalZshP10k,
 	terminalZdotdir,
+	terminalBackend = "vscode",
+	terminalCommandTimeout,
+	terminalEnvAllowlist,
+	terminalConfineToWorkspace,
+	testRunTimeout,
 	setCachedStateField,
 	className,
 	...props
@@ -56,6 +73,87 @@ export const TerminalSettings = ({
 			</SectionHeader>
 
 			<Section>
+				<div>
+					<label className="block font-medium mb-1">{t("settings:terminal.backend.label")}</label>
+					<Select
+						value={terminalBackend}
+						onValueChange={(value) => setCachedStateField("terminalBackend", value as TerminalBackend)}>
+						<SelectTrigger className="w-full" data-testid="terminal-backend-select">
+							<SelectValue placeholder={t("settings:common.select")} />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectGroup>
+								{terminalBackends.map((backend) => (
+									<SelectItem key={backend} value={backend}>
+										{t(`settings:terminal.backend.${backend}.label`)}
+									</SelectItem>
+								))}
+							</SelectGroup>
+						</SelectContent>
+					</Select>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t(`settings:terminal.backend.${terminalBackend}.description`)}
+					</div>
+				</div>
+
+				{terminalBackend === "headless" && (
+					<div className="flex flex-col gap-3 pl-3 border-l-2 border-vscode-button-background">
+						<div>
+							<label className="block font-medium mb-1">
+								{t("settings:terminal.commandTimeout.label")}
+							</label>
+							<div className="flex items-center gap-2">
+								<Slider
+									min={0}
+									max={600000}
+									step={10000}
+									value={[terminalCommandTimeout ?? 0]}
+									onValueChange={([value]) => setCachedStateField("terminalCommandTimeout", value)}
+									data-testid="terminal-command-timeout-slider"
+								/>
+								<span className="w-10">{(terminalCommandTimeout ?? 0) / 1000}s</span>
+							</div>
+							<div className="text-vscode-descriptionForeground text-sm mt-1">
+								{t("settings:terminal.commandTimeout.description")}
+							</div>
+						</div>
+
+						<div>
+							<VSCodeTextField
+								value={(terminalEnvAllowlist ?? []).join(", ")}
+								onChange={(e: any) =>
+									setCachedStateField(
+										"terminalEnvAllowlist",
+										e.target.value
+											.split(",")
+											.map((name: string) => name.trim())
+											.filter(Boolean),
+									)
+								}
+								placeholder="NODE_ENV, npm_config_*"
+								className="w-full"
+								data-testid="terminal-env-allowlist-input">
+								<span className="font-medium">{t("settings:terminal.envAllowlist.label")}</span>
+							</VSCodeTextField>
+							<div className="text-vscode-descriptionForeground text-sm mt-1">
+								{t("settings:terminal.envAllowlist.description")}
+							</div>
+						</div>
+
+						<div>
+							<VSCodeCheckbox
+								checked={terminalConfineToWorkspace ?? false}
+								onChange={(e: any) => setCachedStateField("terminalConfineToWorkspace", e.target.checked)}
+								data-testid="terminal-confine-to-workspace-checkbox">
+								<span className="font-medium">{t("settings:terminal.confineToWorkspace.label")}</span>
+							</VSCodeCheckbox>
+							<div className="text-vscode-descriptionForeground text-sm mt-1">
+								{t("settings:terminal.confineToWorkspace.description")}
+							</div>
+						</div>
+					</div>
+				)}
+
 				<div>
 					<label className="block font-medium mb-1">{t("settings:terminal.outputLineLimit.label")}</label>
 					<div className="flex items-center gap-2">
@@ -74,6 +172,24 @@ export const TerminalSettings = ({
 					</div>
 				</div>
 
+				<div>
+					<label className="block font-medium mb-1">{t("settings:terminal.testRunTimeout.label")}</label>
+					<div className="flex items-center gap-2">
+						<Slider
+							min={0}
+							max={1800000}
+							step={60000}
+							value={[testRunTimeout ?? 600000]}
+							onValueChange={([value]) => setCachedStateField("testRunTimeout", value)}
+							data-testid="test-run-timeout-slider"
+						/>
+						<span className="w-10">{(testRunTimeout ?? 600000) / 1000}s</span>
+					</div>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:terminal.testRunTimeout.description")}
+					</div>
+				</div>
+
 				<div>
 					<label className="block font-medium mb-1">
 						{t("settings:terminal.shellIntegrationTimeout.label")}
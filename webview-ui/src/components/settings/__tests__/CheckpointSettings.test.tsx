@@ -0,0 +1,78 @@
+// npx jest src/components/settings/__tests__/CheckpointSettings.test.tsx
+
+import { render, screen, fireEvent, act } from "@testing-library/react"
+
+import { CheckpointSettings } from "../CheckpointSettings"
+import { vscode } from "@/utils/vscode"
+
+jest.mock("@/utils/vscode", () => ({
+	vscode: {
+		postMessage: jest.fn(),
+	},
+}))
+
+describe("CheckpointSettings", () => {
+	const setCachedStateField = jest.fn()
+
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	const postStorage = () =>
+		act(() => {
+			window.dispatchEvent(
+				new MessageEvent("message", {
+					data: {
+						type: "checkpointStorage",
+						checkpointStorage: {
+							totalSize: 3 * 1024 * 1024,
+							workspaces: [
+								{ workspace: "/workspace/app", size: 2 * 1024 * 1024, taskCount: 2 },
+								{ workspace: "", size: 1024 * 1024, taskCount: 0 },
+							],
+						},
+					},
+				}),
+			)
+		})
+
+	it("updates the retention limits", () => {
+		render(
+			<CheckpointSettings
+				enableCheckpoints
+				checkpointRetention={{ maxTasks: 50 }}
+				setCachedStateField={setCachedStateField}
+			/>,
+		)
+
+		fireEvent.change(screen.getByTestId("checkpoint-retention-maxAgeDays"), { target: { value: "30" } })
+
+		expect(setCachedStateField).toHaveBeenCalledWith("checkpointRetention", { maxTasks: 50, maxAgeDays: 30 })
+
+		fireEvent.change(screen.getByTestId("checkpoint-retention-maxTasks"), { target: { value: "" } })
+
+		expect(setCachedStateField).toHaveBeenLastCalledWith("checkpointRetention", { maxTasks: undefined })
+	})
+
+	it("shows the checkpoint storage of each workspace", () => {
+		render(<CheckpointSettings enableCheckpoints setCachedStateField={setCachedStateField} />)
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "requestCheckpointStorage" })
+
+		postStorage()
+
+		expect(screen.getByText("/workspace/app")).toBeInTheDocument()
+		expect(screen.getByText("settings:checkpoints.storage.unknownWorkspace")).toBeInTheDocument()
+	})
+
+	it("cleans up and purges checkpoints", () => {
+		render(<CheckpointSettings enableCheckpoints setCachedStateField={setCachedStateField} />)
+		postStorage()
+
+		fireEvent.click(screen.getByTestId("collect-checkpoint-garbage-button"))
+		fireEvent.click(screen.getAllByTitle("settings:checkpoints.storage.purge")[0])
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "collectCheckpointGarbage" })
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "purgeWorkspaceCheckpoints", text: "/workspace/app" })
+	})
+})
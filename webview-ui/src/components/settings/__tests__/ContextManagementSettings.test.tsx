@@ -79,4 +79,27 @@ describe("ContextManagementSettings", () => {
 
 		expect(defaultProps.setCachedStateField).toHaveBeenCalledWith("showKodelyIgnoredFiles", true)
 	})
+
+	it("only offers a condensing profile when summarizing", () => {
+		const { rerender } = render(<ContextManagementSettings {...defaultProps} />)
+
+		expect(screen.getByTestId("sliding-window-strategy-select")).toBeInTheDocument()
+		expect(screen.getByTestId("condensing-api-config-select")).toBeInTheDocument()
+
+		rerender(<ContextManagementSettings {...defaultProps} slidingWindowStrategy="truncate" />)
+
+		expect(screen.queryByTestId("condensing-api-config-select")).not.toBeInTheDocument()
+	})
+
+	it("updates the diagnostics per-file limit", () => {
+		render(<ContextManagementSettings {...defaultProps} />)
+
+		expect(screen.getByTestId("diagnostics-severity-select")).toBeInTheDocument()
+
+		const input = screen.getByTestId("max-diagnostics-per-file-input")
+		expect(input).toHaveValue(10)
+
+		fireEvent.change(input, { target: { value: "0" } })
+		expect(defaultProps.setCachedStateField).toHaveBeenCalledWith("maxDiagnosticsPerFile", 0)
+	})
 })
@@ -11,6 +11,7 @@ import { Mode, CustomModePrompts, defaultModeSlug, defaultPrompts, ModeConfig }
 import { CustomSupportPrompts } from "../../../src/shared/support-prompt"
 import { experimentDefault, ExperimentId } from "../../../src/shared/experiments"
 import { TelemetrySetting } from "../../../src/shared/TelemetrySetting"
+import { CodeCompressionLevel } from "../../../src/schemas"
 // No need to import CostOptimizationLevel as we're using string literals
 
 export interface ExtensionStateContextType extends ExtensionState {
@@ -97,6 +98,8 @@ export interface ExtensionStateContextType extends ExtensionState {
 	setMaxOutputTokens: (value: number) => void
 	compressCodeInContext?: boolean
 	setCompressCodeInContext: (value: boolean) => void
+	codeCompressionLevel?: CodeCompressionLevel
+	setCodeCompressionLevel: (value: CodeCompressionLevel) => void
 }
 
 export const ExtensionStateContext = createContext<ExtensionStateContextType | undefined>(undefined)
@@ -169,6 +172,9 @@ export const ExtensionStateContextProvider: React.FC<{ children: React.ReactNode
 		showKodelyIgnoredFiles: true, // Default to showing .kodelyignore'd files with lock symbol (current behavior).
 		renderContext: "sidebar",
 		maxReadFileLine: 500, // Default max read file line limit
+		slidingWindowStrategy: "summarize", // Summarize the messages the sliding window drops
+		diagnosticsSeverity: "error",
+		maxDiagnosticsPerFile: 10,
 		pinnedApiConfigs: {}, // Empty object for pinned API configs
 		terminalZshOhMy: false, // Default Oh My Zsh integration setting
 		terminalZshP10k: false, // Default Powerlevel10k integration setting
@@ -178,6 +184,7 @@ export const ExtensionStateContextProvider: React.FC<{ children: React.ReactNode
 		useLocalRag: true, // Default to using local RAG
 		maxOutputTokens: 2000, // Default max output tokens
 		compressCodeInContext: false, // Default to not compressing code in context
+		codeCompressionLevel: "signatures", // Default to collapsing function bodies when compressing
 	})
 
 	const [didHydrateState, setDidHydrateState] = useState(false)
@@ -336,6 +343,7 @@ export const ExtensionStateContextProvider: React.FC<{ children: React.ReactNode
 		setUseLocalRag: (value) => setState((prevState) => ({ ...prevState, useLocalRag: value })),
 		setMaxOutputTokens: (value) => setState((prevState) => ({ ...prevState, maxOutputTokens: value })),
 		setCompressCodeInContext: (value) => setState((prevState) => ({ ...prevState, compressCodeInContext: value })),
+		setCodeCompressionLevel: (value) => setState((prevState) => ({ ...prevState, codeCompressionLevel: value })),
 		togglePinnedApiConfig: (configId) =>
 			setState((prevState) => {
 				const currentPinned = prevState.pinnedApiConfigs || {}
@@ -6,6 +6,7 @@ import {
 	ContextMenuOptionType,
 	ContextMenuQueryItem,
 } from "../context-mentions"
+import { McpServer } from "../../../../src/shared/mcp"
 
 describe("insertMention", () => {
 	it("should insert mention at cursor position when no @ symbol exists", () => {
@@ -345,6 +346,41 @@ describe("getContextMenuOptions", () => {
 		// Should return NoResults since it won't match anything
 		expect(result[0].type).toBe(ContextMenuOptionType.NoResults)
 	})
+
+	it("should offer the prompts of connected MCP servers as slash commands", () => {
+		const mockServers: McpServer[] = [
+			{
+				name: "github",
+				config: "{}",
+				status: "connected",
+				prompts: [{ name: "review-pr", description: "Review a pull request" }],
+			},
+			{
+				name: "offline",
+				config: "{}",
+				status: "disconnected",
+				prompts: [{ name: "review-code" }],
+			},
+			{
+				name: "disabled",
+				config: "{}",
+				status: "connected",
+				disabled: true,
+				prompts: [{ name: "review-docs" }],
+			},
+		]
+
+		const result = getContextMenuOptions("/rev", "/rev", null, [], [], [], mockServers)
+
+		expect(result).toEqual([
+			{
+				type: ContextMenuOptionType.McpPrompt,
+				value: "github:review-pr",
+				label: "github:review-pr",
+				description: "Review a pull request",
+			},
+		])
+	})
 })
 
 describe("shouldShowContextMenu", () => {
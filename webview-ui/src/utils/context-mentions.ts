@@ -1,6 +1,7 @@
 import { mentionRegex } from "../../../src/shared/context-mentions"
 import { Fzf } from "fzf"
 import { ModeConfig } from "../../../src/shared/modes"
+import { McpServer } from "../../../src/shared/mcp"
 import * as path from "path"
 
 export interface SearchResult {
@@ -72,6 +73,7 @@ export enum ContextMenuOptionType {
 	Git = "git",
 	NoResults = "noResults",
 	Mode = "mode", // Add mode type
+	McpPrompt = "mcpPrompt",
 }
 
 export interface ContextMenuQueryItem {
@@ -82,6 +84,23 @@ export interface ContextMenuQueryItem {
 	icon?: string
 }
 
+/**
+ * Slash commands for the prompts of the connected MCP servers, named
+ * `server:prompt`.
+ */
+export function getMcpPromptCommands(mcpServers: McpServer[] = []): ContextMenuQueryItem[] {
+	return mcpServers
+		.filter((server) => server.status === "connected" && !server.disabled)
+		.flatMap((server) =>
+			(server.prompts ?? []).map((prompt) => ({
+				type: ContextMenuOptionType.McpPrompt,
+				value: `${server.name}:${prompt.name}`,
+				label: `${server.name}:${prompt.name}`,
+				description: prompt.description,
+			})),
+		)
+}
+
 export function getContextMenuOptions(
 	query: string,
 	inputValue: string,
@@ -89,39 +108,32 @@ export function getContextMenuOptions(
 	queryItems: ContextMenuQueryItem[],
 	dynamicSearchResults: SearchResult[] = [],
 	modes?: ModeConfig[],
+	mcpServers?: McpServer[],
 ): ContextMenuQueryItem[] {
-	// Handle slash commands for modes
+	// Handle slash commands for modes and MCP prompts
 	if (query.startsWith("/") && inputValue.startsWith("/")) {
-		const modeQuery = query.slice(1)
-		if (!modes?.length) return [{ type: ContextMenuOptionType.NoResults }]
+		const commandQuery = query.slice(1)
+		const commands: ContextMenuQueryItem[] = [
+			...(modes ?? []).map((mode) => ({
+				type: ContextMenuOptionType.Mode,
+				value: mode.slug,
+				label: mode.name,
+				description: mode.roleDefinition.split("\n")[0],
+			})),
+			...getMcpPromptCommands(mcpServers),
+		]
 
-		// Create searchable strings array for fzf
-		const searchableItems = modes.map((mode) => ({
-			original: mode,
-			searchStr: mode.name,
-		}))
+		if (!commands.length) return [{ type: ContextMenuOptionType.NoResults }]
 
 		// Initialize fzf instance for fuzzy search
-		const fzf = new Fzf(searchableItems, {
-			selector: (item) => item.searchStr,
+		const fzf = new Fzf(commands, {
+			selector: (item) => item.label ?? "",
 		})
 
 		// Get fuzzy matching items
-		const matchingModes = modeQuery
-			? fzf.find(modeQuery).map((result) => ({
-					type: ContextMenuOptionType.Mode,
-					value: result.item.original.slug,
-					label: result.item.original.name,
-					description: result.item.original.roleDefinition.split("\n")[0],
-				}))
-			: modes.map((mode) => ({
-					type: ContextMenuOptionType.Mode,
-					value: mode.slug,
-					label: mode.name,
-					description: mode.roleDefinition.split("\n")[0],
-				}))
+		const matchingCommands = commandQuery ? fzf.find(commandQuery).map((result) => result.item) : commands
 
-		return matchingModes.length > 0 ? matchingModes : [{ type: ContextMenuOptionType.NoResults }]
+		return matchingCommands.length > 0 ? matchingCommands : [{ type: ContextMenuOptionType.NoResults }]
 	}
 
 	const workingChanges: ContextMenuQueryItem = {